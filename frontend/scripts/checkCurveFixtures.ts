@@ -0,0 +1,50 @@
+/**
+ * Curve Fixture Check
+ * Runs the utils/curve port on the MATH_040-043 inputs from test/PumpFudV2.math.t.sol and
+ * fails on any wei of difference. Those tests pin the contract to the same numbers, so a
+ * mismatch here means the frontend quotes have drifted. Run with `npm run check:curve`
+ */
+
+import assert from 'node:assert/strict'
+import {
+  V2_CURVE_DEFAULTS as params,
+  getCurvePrice,
+  getMarginalPrice,
+  getTokensOut,
+  getPlsOut,
+  quoteBuy,
+  quoteSell,
+  type CurveState,
+} from '../src/utils/curve.ts'
+
+const ether = (amount: bigint) => amount * 10n ** 18n
+
+const fresh: CurveState = { plsReserve: 0n, tokensSold: 0n }
+
+// MATH_040: fresh curve
+assert.equal(getCurvePrice(fresh, params), 50_000_000_000_000_000n, 'MATH_040: getCurvePrice')
+assert.equal(getMarginalPrice(0n, params), 50_000_000_000_000_000n, 'MATH_040: getMarginalPrice')
+assert.equal(getTokensOut(fresh, ether(1_000_000n), params), 18_518_518_518_518_518_518_518_519n, 'MATH_040: getTokensOut')
+assert.equal(getTokensOut(fresh, ether(100_000_000n), params), params.bondingSupply, 'MATH_040: bonding supply cap')
+
+// MATH_041: 1M PLS buy
+const buy = quoteBuy(fresh, ether(1_000_000n), params)
+assert.equal(buy.tokensOut, 18_346_923_647_146_034_099_332_840n, 'MATH_041: quoteBuy.tokensOut')
+assert.equal(buy.plsForTokens, ether(990_000n), 'MATH_041: quoteBuy.plsForTokens')
+assert.equal(buy.priceAfter, 58_233_632_000_000_000n, 'MATH_041: quoteBuy.priceAfter')
+assert.equal(getMarginalPrice(buy.tokensOut, params), buy.priceAfter, 'MATH_041: getMarginalPrice')
+
+// MATH_042: estimates after that buy
+const afterBuy: CurveState = { plsReserve: buy.plsForTokens, tokensSold: buy.tokensOut }
+assert.equal(getTokensOut(afterBuy, ether(250_000n), params), 4_214_939_526_070_850_907_945_182n, 'MATH_042: getTokensOut')
+assert.equal(getPlsOut(afterBuy, ether(5_000_000n), params), 285_016_366_740_277_843_035_913n, 'MATH_042: getPlsOut')
+
+// MATH_043: selling half of it back
+const sellAmount = buy.tokensOut / 2n
+assert.equal(sellAmount, 9_173_461_823_573_017_049_666_420n, 'MATH_043: sell amount')
+const sell = quoteSell(afterBuy, sellAmount, params)
+assert.equal(sell.grossPlsOut, 513_855_328_972_681_800_692_575n, 'MATH_043: quoteSell.grossPlsOut')
+assert.equal(sell.plsOut, 507_586_293_959_215_082_724_126n, 'MATH_043: quoteSell.plsOut')
+assert.equal(sell.priceAfter, 53_881_705_767_497_813n, 'MATH_043: quoteSell.priceAfter')
+
+console.log('Curve fixtures MATH_040-043 match')
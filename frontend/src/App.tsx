@@ -12,6 +12,10 @@ import { LivestreamsPage } from './pages/LivestreamsPage'
 import { LiveChatPopup } from './pages/LiveChatPopup'
 import { MessageBoardPopup } from './pages/MessageBoardPopup'
 import { LeaderboardPage } from './pages/LeaderboardPage'
+import { ProfilePage } from './pages/ProfilePage'
+import { CultsPage } from './pages/CultsPage'
+import { CultPage } from './pages/CultPage'
+import { AdvertisePage } from './pages/AdvertisePage'
 import { LayoutProvider } from './context/LayoutContext'
 
 // Full-bleed routes don't show sidebar/chrome
@@ -152,6 +156,10 @@ function AppContent() {
             <Route path="/token/:address" element={<TokenPage />} />
             <Route path="/swap" element={<SwapPage />} />
             <Route path="/livestreams" element={<LivestreamsPage />} />
+            <Route path="/profile/:addressOrName" element={<ProfilePage />} />
+            <Route path="/cults" element={<CultsPage />} />
+            <Route path="/cults/:cultId" element={<CultPage />} />
+            <Route path="/advertise" element={<AdvertisePage />} />
             <Route path="/terminal" element={<HomePage />} />
             <Route path="/chat" element={<HomePage />} />
             <Route path="/support" element={<HomePage />} />
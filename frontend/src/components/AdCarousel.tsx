@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react'
+import { AD_LOCATION, useActiveAds } from '../hooks/useAdSpaces'
+import { AdCarousel as RentedAdCarousel } from './ui/AdCarousel'
 
 const PROPHECIES = [
   {
@@ -35,8 +37,8 @@ const PROPHECIES = [
     id: 4,
     title: 'Spread the Word',
     subtitle: 'Advertise to thousands of believers',
-    cta: 'Contact Us',
-    link: 'https://t.me/pumpfud',
+    cta: 'Rent a Spot',
+    link: '/advertise',
     gradient: 'linear-gradient(135deg, #701a75 0%, #a855f7 50%, #701a75 100%)',
     icon: '📣',
     iconGlow: 'rgba(168,85,247,0.6)',
@@ -53,7 +55,10 @@ const PROPHECIES = [
   },
 ]
 
+const LANDING_LOCATIONS = [AD_LOCATION.LandingCarousel, AD_LOCATION.CarouselAllPages]
+
 export function AdCarousel() {
+  const rentedAds = useActiveAds(LANDING_LOCATIONS)
   const [currentAd, setCurrentAd] = useState(0)
   const [isTransitioning, setIsTransitioning] = useState(false)
 
@@ -68,6 +73,15 @@ export function AdCarousel() {
     return () => clearInterval(timer)
   }, [])
 
+  // Booked landing slots replace the house prophecies until they expire
+  if (rentedAds.length > 0) {
+    return (
+      <div style={{ padding: '0 20px', marginBottom: '20px' }}>
+        <RentedAdCarousel location={AD_LOCATION.LandingCarousel} position="sidebar" height={92} />
+      </div>
+    )
+  }
+
   const prophecy = PROPHECIES[currentAd]
 
   return (
@@ -0,0 +1,42 @@
+import { useMemo } from 'react'
+import { getMarginalPrice, priceToNumber, type CurveParams } from '../utils/curve'
+
+interface BondingCurvePlotProps {
+  params: CurveParams
+  tokensSold: bigint // Marked on the curve
+  color: string
+  height?: number // Per 300 units of width - the plot scales to its container
+}
+
+// Points sampled along the bonding supply
+const CURVE_SAMPLES = 48
+const WIDTH = 300
+
+/**
+ * Price against supply sold for the whole bonding curve, straight from the contract's invariant
+ */
+export function BondingCurvePlot({ params, tokensSold, color, height = 90 }: BondingCurvePlotProps) {
+  const { path, maxPrice } = useMemo(() => {
+    const prices = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) =>
+      priceToNumber(getMarginalPrice((params.bondingSupply * BigInt(i)) / BigInt(CURVE_SAMPLES), params))
+    )
+    const max = prices[prices.length - 1] || 1
+    const points = prices.map((price, i) => `${(i / CURVE_SAMPLES) * WIDTH},${height - (price / max) * height}`)
+    return { path: `M${points.join(' L')}`, maxPrice: max }
+  }, [params, height])
+
+  const soldRatio = params.bondingSupply > 0n
+    ? Math.min(1, Number((tokensSold * 10000n) / params.bondingSupply) / 10000)
+    : 0
+  const markerX = soldRatio * WIDTH
+  const markerY = height - (priceToNumber(getMarginalPrice(tokensSold, params)) / maxPrice) * height
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} style={{ width: '100%', height: 'auto', display: 'block', overflow: 'visible' }}>
+      <path d={`${path} L${WIDTH},${height} L0,${height} Z`} fill={`${color}18`} />
+      <path d={path} fill="none" stroke={color} strokeWidth={1.5} />
+      <line x1={markerX} y1={0} x2={markerX} y2={height} stroke={color} strokeOpacity={0.4} strokeDasharray="3 3" />
+      <circle cx={markerX} cy={markerY} r={3} fill={color} />
+    </svg>
+  )
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react'
+import { formatEther } from 'viem'
+import { PULSESCAN_URL } from '../config/wagmi'
+import { useTokenBurns } from '../hooks/useTokenBurns'
+import { shortAddress } from '../utils/identity'
+
+interface BurnHistoryProps {
+  tokenAddress: `0x${string}`
+  tokenSymbol: string
+  userAddress?: `0x${string}`
+}
+
+// Most recent burns shown in the panel
+const MAX_BURNS_SHOWN = 20
+
+const formatAmount = (value: bigint) => {
+  const num = Number(formatEther(value))
+  if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(2)}B`
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(2)}K`
+  return num.toFixed(2)
+}
+
+/**
+ * Burn-for-PLS history fed by PumpFudV2 TokenBurned events
+ */
+export function BurnHistory({ tokenAddress, tokenSymbol, userAddress }: BurnHistoryProps) {
+  const { burns, isLoading } = useTokenBurns(tokenAddress)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const formatTime = (timestamp: number) => {
+    const diff = Math.max(0, now - timestamp * 1000)
+    if (diff < 60000) return `${Math.floor(diff / 1000)}s ago`
+    if (diff < 3600000) return `${Math.floor(diff / 60000)}m ago`
+    if (diff < 86400000) return `${Math.floor(diff / 3600000)}h ago`
+    return new Date(timestamp * 1000).toLocaleDateString()
+  }
+
+  const totalBurned = burns.reduce((sum, b) => sum + b.tokensBurned, 0n)
+  const totalRedeemed = burns.reduce((sum, b) => sum + b.plsReceived, 0n)
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      backgroundColor: '#252525',
+      borderRadius: '8px',
+      border: '1px solid rgba(249,115,22,0.2)',
+      overflow: 'hidden',
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '10px 12px',
+        borderBottom: '1px solid rgba(255,255,255,0.05)',
+      }}>
+        <span style={{ fontSize: '11px', color: '#f97316', fontWeight: 700, textTransform: 'uppercase' }}>
+          🔥 Burn History
+        </span>
+        <span style={{ fontSize: '10px', color: '#666', fontFamily: 'monospace' }}>
+          {formatAmount(totalBurned)} {tokenSymbol} → {formatAmount(totalRedeemed)} PLS
+        </span>
+      </div>
+
+      {/* Burn List */}
+      {burns.length === 0 ? (
+        <div style={{ padding: '16px 12px', textAlign: 'center', fontSize: '11px', color: '#666' }}>
+          {isLoading ? 'Loading burns...' : 'No burns yet'}
+        </div>
+      ) : (
+        <div style={{ maxHeight: '180px', overflowY: 'auto' }}>
+          {burns.slice(0, MAX_BURNS_SHOWN).map((burn) => {
+            const isUser = !!userAddress && burn.burner.toLowerCase() === userAddress.toLowerCase()
+            return (
+              <div
+                key={burn.id}
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: '1fr 1fr 90px 56px',
+                  gap: '6px',
+                  padding: '8px 12px',
+                  fontSize: '11px',
+                  fontFamily: 'monospace',
+                  borderBottom: '1px solid rgba(255,255,255,0.02)',
+                  backgroundColor: isUser ? 'rgba(249,115,22,0.08)' : 'transparent',
+                }}
+              >
+                <span style={{ color: '#fff' }}>{formatAmount(burn.tokensBurned)} {tokenSymbol}</span>
+                <span style={{ color: '#22c55e' }}>+{formatAmount(burn.plsReceived)} PLS</span>
+                <a
+                  href={`${PULSESCAN_URL}/address/${burn.burner}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: isUser ? '#f97316' : '#888', textDecoration: 'none' }}
+                  title={`View ${burn.burner} on PulseScan`}
+                >
+                  {isUser ? 'You' : shortAddress(burn.burner)}
+                </a>
+                <a
+                  href={`${PULSESCAN_URL}/tx/${burn.txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: '#666', textDecoration: 'none', fontSize: '10px', textAlign: 'right' }}
+                  title="View transaction on PulseScan"
+                >
+                  {formatTime(burn.timestamp)}
+                </a>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
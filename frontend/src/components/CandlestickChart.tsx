@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState, useMemo, useCallback } from 'react'
+import { useEffect, useRef, useState, useMemo } from 'react'
 import {
   createChart,
   ColorType,
@@ -13,42 +13,25 @@ import type {
   ISeriesApi,
   CandlestickData,
   LineData,
-  AreaData,
   HistogramData,
   Time,
   MouseEventParams,
 } from 'lightweight-charts'
-import { formatEther } from 'viem'
+import { isAddress } from 'viem'
+import { useTokenTrades } from '../hooks/useTokenTrades'
+import { useCurveParams } from '../hooks/usePumpFud'
+import { getCurvePrice, priceToNumber } from '../utils/curve'
+import { buildCandles, liveUpdateStart, TIMEFRAME_SECONDS, type Candle, type Timeframe } from '../utils/candles'
 
 type ChartType = 'candle' | 'line' | 'area'
-type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d'
 
 interface CandlestickChartProps {
   tokenAddress: string
   reserveBalance: bigint
   tokensSold: bigint
-  launchTime: number
   themeColor?: string
 }
 
-interface OHLCData {
-  time: Time
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
-
-const TIMEFRAME_SECONDS: Record<Timeframe, number> = {
-  '1m': 60,
-  '5m': 300,
-  '15m': 900,
-  '1h': 3600,
-  '4h': 14400,
-  '1d': 86400,
-}
-
 // DexScreener-style colors
 const DEXSCREENER_COLORS = {
   upColor: '#00ff88',
@@ -60,16 +43,49 @@ const DEXSCREENER_COLORS = {
   crosshairColor: '#666',
 }
 
+// Format numbers for display
+const formatPrice = (price: number) => {
+  if (price < 0.00000001) return price.toExponential(2)
+  if (price < 0.0001) return price.toFixed(10)
+  if (price < 1) return price.toFixed(8)
+  return price.toFixed(4)
+}
+
+const formatVolume = (vol: number) => {
+  if (vol >= 1_000_000_000) return `${(vol / 1_000_000_000).toFixed(2)}B`
+  if (vol >= 1_000_000) return `${(vol / 1_000_000).toFixed(2)}M`
+  if (vol >= 1_000) return `${(vol / 1_000).toFixed(2)}K`
+  return vol.toFixed(2)
+}
+
+// Convert a candle into the point shape each series type expects
+const toSeriesPoint = (candle: Candle, chartType: ChartType): CandlestickData<Time> | LineData<Time> =>
+  chartType === 'candle'
+    ? { time: candle.time as Time, open: candle.open, high: candle.high, low: candle.low, close: candle.close }
+    : { time: candle.time as Time, value: candle.close }
+
+const toVolumePoint = (candle: Candle): HistogramData<Time> => ({
+  time: candle.time as Time,
+  value: candle.volume,
+  color: candle.close >= candle.open ? DEXSCREENER_COLORS.volumeUpColor : DEXSCREENER_COLORS.volumeDownColor,
+})
+
 export function CandlestickChart({
+  tokenAddress,
   reserveBalance,
   tokensSold,
-  launchTime,
   themeColor = '#00ff88',
 }: CandlestickChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null)
   const chartRef = useRef<IChartApi | null>(null)
   const mainSeriesRef = useRef<ISeriesApi<'Candlestick' | 'Line' | 'Area'> | null>(null)
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null)
+  // Candles currently drawn on the series, used to stream live updates
+  const renderedRef = useRef<{ series: ISeriesApi<'Candlestick' | 'Line' | 'Area'> | null; candles: Candle[] }>({
+    series: null,
+    candles: [],
+  })
+  const candlesByTimeRef = useRef<Map<number, Candle>>(new Map())
 
   const [chartType, setChartType] = useState<ChartType>('candle')
   const [timeframe, setTimeframe] = useState<Timeframe>('15m')
@@ -85,183 +101,17 @@ export function CandlestickChart({
     isUp: boolean
   } | null>(null)
 
-  // Calculate current price from bonding curve
-  const currentPrice = useMemo(() => {
-    if (!tokensSold || tokensSold === 0n) return 0.00001
-    if (!reserveBalance || reserveBalance === 0n) return 0.00001
-    const sold = Number(formatEther(tokensSold))
-    const reserve = Number(formatEther(reserveBalance))
-    if (sold === 0) return 0.00001
-    return reserve / sold
-  }, [reserveBalance, tokensSold])
-
-  // Generate OHLC data from bonding curve simulation
-  const ohlcData = useMemo((): OHLCData[] => {
-    const data: OHLCData[] = []
-    const now = Math.floor(Date.now() / 1000)
-    const startTime = launchTime > 0 ? launchTime : now - 86400
-
-    const INITIAL_PRICE = 0.00001
-    const CURVE_STEEPNESS = 0.000001
-
-    const intervalSeconds = TIMEFRAME_SECONDS[timeframe]
-    const totalSold = Number(formatEther(tokensSold || 0n))
-    const numCandles = Math.min(100, Math.floor((now - startTime) / intervalSeconds))
-
-    if (numCandles <= 0) {
-      return [{
-        time: now as Time,
-        open: INITIAL_PRICE,
-        high: INITIAL_PRICE,
-        low: INITIAL_PRICE,
-        close: INITIAL_PRICE,
-        volume: 0,
-      }]
-    }
+  // Real trade history replayed from TokenBought/TokenSold events
+  const { trades, isLoading } = useTokenTrades(tokenAddress)
 
-    // Create realistic price action with randomness
-    let prevClose = INITIAL_PRICE
-    for (let i = 0; i < numCandles; i++) {
-      const candleTime = startTime + (i * intervalSeconds)
-      const progress = i / numCandles
-      const nextProgress = (i + 1) / numCandles
-
-      const baseSoldAtPoint = totalSold * progress
-      const baseSoldAtNext = totalSold * nextProgress
-
-      const targetPrice = INITIAL_PRICE + (CURVE_STEEPNESS * baseSoldAtNext)
-
-      // Add realistic variance
-      const volatility = 0.08 + Math.random() * 0.12
-      const trend = targetPrice > prevClose ? 0.6 : 0.4
-
-      const isUp = Math.random() < trend
-      const bodySize = volatility * Math.random()
-      const wickSize = volatility * 0.5 * Math.random()
-
-      let open = prevClose
-      let close: number
-      let high: number
-      let low: number
-
-      if (isUp) {
-        close = open * (1 + bodySize)
-        high = close * (1 + wickSize)
-        low = open * (1 - wickSize * 0.5)
-      } else {
-        close = open * (1 - bodySize)
-        low = close * (1 - wickSize)
-        high = open * (1 + wickSize * 0.5)
-      }
-
-      // Ensure positive values
-      open = Math.max(0.000001, open)
-      close = Math.max(0.000001, close)
-      high = Math.max(high, Math.max(open, close))
-      low = Math.min(low, Math.min(open, close))
-      low = Math.max(0.000001, low)
-
-      // Volume simulation
-      const volumeBase = baseSoldAtNext - baseSoldAtPoint
-      const volume = Math.abs(volumeBase) * (0.5 + Math.random())
-
-      data.push({
-        time: candleTime as Time,
-        open,
-        high,
-        low,
-        close,
-        volume,
-      })
-
-      prevClose = close
-    }
-
-    // Add current candle
-    if (data.length > 0) {
-      const lastCandle = data[data.length - 1]
-      const currentOpen = lastCandle.close
-      data.push({
-        time: now as Time,
-        open: currentOpen,
-        high: Math.max(currentOpen, currentPrice) * 1.002,
-        low: Math.min(currentOpen, currentPrice) * 0.998,
-        close: currentPrice,
-        volume: 0,
-      })
-    }
-
-    return data
-  }, [tokensSold, launchTime, timeframe, currentPrice])
-
-  // Convert OHLC to format needed for each chart type
-  const candleData = useMemo((): CandlestickData<Time>[] =>
-    ohlcData.map(d => ({
-      time: d.time,
-      open: d.open,
-      high: d.high,
-      low: d.low,
-      close: d.close,
-    })), [ohlcData])
-
-  const lineData = useMemo((): LineData<Time>[] =>
-    ohlcData.map(d => ({
-      time: d.time,
-      value: d.close,
-    })), [ohlcData])
-
-  const areaData = useMemo((): AreaData<Time>[] =>
-    ohlcData.map(d => ({
-      time: d.time,
-      value: d.close,
-    })), [ohlcData])
-
-  const volumeData = useMemo((): HistogramData<Time>[] =>
-    ohlcData.map(d => ({
-      time: d.time,
-      value: d.volume,
-      color: d.close >= d.open ? DEXSCREENER_COLORS.volumeUpColor : DEXSCREENER_COLORS.volumeDownColor,
-    })), [ohlcData])
-
-  // Format numbers for display
-  const formatPrice = (price: number) => {
-    if (price < 0.00000001) return price.toExponential(2)
-    if (price < 0.0001) return price.toFixed(10)
-    if (price < 1) return price.toFixed(8)
-    return price.toFixed(4)
-  }
-
-  const formatVolume = (vol: number) => {
-    if (vol >= 1_000_000_000) return `${(vol / 1_000_000_000).toFixed(2)}B`
-    if (vol >= 1_000_000) return `${(vol / 1_000_000).toFixed(2)}M`
-    if (vol >= 1_000) return `${(vol / 1_000).toFixed(2)}K`
-    return vol.toFixed(2)
-  }
-
-  // Crosshair handler - DexScreener style
-  const handleCrosshairMove = useCallback((param: MouseEventParams<Time>) => {
-    if (!param.time || !param.point) {
-      setCrosshairData(null)
-      return
-    }
+  const ohlcData = useMemo(() => buildCandles(trades, timeframe), [trades, timeframe])
+  const curveParams = useCurveParams(isAddress(tokenAddress) ? tokenAddress : undefined)
 
-    const data = ohlcData.find(d => d.time === param.time)
-    if (data) {
-      const change = ((data.close - data.open) / data.open * 100)
-      const isUp = data.close >= data.open
-      setCrosshairData({
-        price: formatPrice(data.close),
-        time: new Date(Number(data.time) * 1000).toLocaleString(),
-        open: formatPrice(data.open),
-        high: formatPrice(data.high),
-        low: formatPrice(data.low),
-        close: formatPrice(data.close),
-        change: `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`,
-        volume: formatVolume(data.volume),
-        isUp,
-      })
-    }
-  }, [ohlcData])
+  // Last traded price, falling back to the curve's spot price before the first trade
+  const currentPrice = useMemo(() => {
+    if (ohlcData.length > 0) return ohlcData[ohlcData.length - 1].close
+    return priceToNumber(getCurvePrice({ plsReserve: reserveBalance, tokensSold }, curveParams))
+  }, [ohlcData, reserveBalance, tokensSold, curveParams])
 
   // Initialize chart
   useEffect(() => {
@@ -317,6 +167,31 @@ export function CandlestickChart({
       },
     })
 
+    // Crosshair handler - DexScreener style
+    const handleCrosshairMove = (param: MouseEventParams<Time>) => {
+      if (!param.time || !param.point) {
+        setCrosshairData(null)
+        return
+      }
+
+      const data = candlesByTimeRef.current.get(Number(param.time))
+      if (data) {
+        const change = ((data.close - data.open) / data.open * 100)
+        const isUp = data.close >= data.open
+        setCrosshairData({
+          price: formatPrice(data.close),
+          time: new Date(data.time * 1000).toLocaleString(),
+          open: formatPrice(data.open),
+          high: formatPrice(data.high),
+          low: formatPrice(data.low),
+          close: formatPrice(data.close),
+          change: `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`,
+          volume: formatVolume(data.volume),
+          isUp,
+        })
+      }
+    }
+
     chartRef.current = chart
     chart.subscribeCrosshairMove(handleCrosshairMove)
 
@@ -330,100 +205,35 @@ export function CandlestickChart({
     })
 
     // Create main series based on chart type
+    const priceFormat = {
+      type: 'price' as const,
+      precision: 8,
+      minMove: 0.00000001,
+    }
     if (chartType === 'candle') {
-      const series = chart.addSeries(CandlestickSeries, {
+      mainSeriesRef.current = chart.addSeries(CandlestickSeries, {
         upColor: DEXSCREENER_COLORS.upColor,
         downColor: DEXSCREENER_COLORS.downColor,
         borderUpColor: DEXSCREENER_COLORS.upColor,
         borderDownColor: DEXSCREENER_COLORS.downColor,
         wickUpColor: DEXSCREENER_COLORS.upColor,
         wickDownColor: DEXSCREENER_COLORS.downColor,
-        priceFormat: {
-          type: 'price',
-          precision: 8,
-          minMove: 0.00000001,
-        },
-      })
-      series.setData(candleData)
-      mainSeriesRef.current = series
-
-      // RALPH LOOP 2: Data Load Check
-      console.log('[RALPH LOOP 2] Candle data loaded:', {
-        dataLength: candleData.length,
-        hasData: candleData.length > 0,
-        firstCandle: candleData[0],
-        lastCandle: candleData[candleData.length - 1],
-      })
-
-      // RALPH LOOP 3: OHLC Structure Check
-      if (candleData.length > 0) {
-        const sample = candleData[0]
-        console.log('[RALPH LOOP 3] OHLC structure validation:', {
-          hasOpen: typeof sample.open === 'number',
-          hasHigh: typeof sample.high === 'number',
-          hasLow: typeof sample.low === 'number',
-          hasClose: typeof sample.close === 'number',
-          hasTime: typeof sample.time === 'number',
-          sampleCandle: sample,
-        })
-      }
-
-      // RALPH LOOP 4: Direction/Color Check
-      const upCandles = candleData.filter(c => c.close >= c.open).length
-      const downCandles = candleData.filter(c => c.close < c.open).length
-      console.log('[RALPH LOOP 4] Direction validation:', {
-        upCandles,
-        downCandles,
-        total: candleData.length,
-        upColor: DEXSCREENER_COLORS.upColor,
-        downColor: DEXSCREENER_COLORS.downColor,
-      })
-
-      // RALPH LOOP 5: Time Axis Direction Check
-      if (candleData.length >= 2) {
-        const firstTime = Number(candleData[0].time)
-        const lastTime = Number(candleData[candleData.length - 1].time)
-        console.log('[RALPH LOOP 5] Axis direction validation:', {
-          firstCandleTime: new Date(firstTime * 1000).toISOString(),
-          lastCandleTime: new Date(lastTime * 1000).toISOString(),
-          timeSortedCorrectly: firstTime < lastTime,
-          chronological: firstTime < lastTime ? 'PASS - oldest left, newest right' : 'FAIL - wrong order',
-        })
-      }
-
-      // RALPH LOOP 6: Render Check
-      console.log('[RALPH LOOP 6] Render validation:', {
-        seriesRef: !!mainSeriesRef.current,
-        chartRef: !!chartRef.current,
-        candlestickSeriesActive: chartType === 'candle',
-        expectedVisual: 'Individual candle bars with wicks, NOT area fill',
+        priceFormat,
       })
     } else if (chartType === 'line') {
-      const series = chart.addSeries(LineSeries, {
+      mainSeriesRef.current = chart.addSeries(LineSeries, {
         color: themeColor,
         lineWidth: 2,
-        priceFormat: {
-          type: 'price',
-          precision: 8,
-          minMove: 0.00000001,
-        },
+        priceFormat,
       })
-      series.setData(lineData)
-      mainSeriesRef.current = series
     } else {
-      const series = chart.addSeries(AreaSeries, {
+      mainSeriesRef.current = chart.addSeries(AreaSeries, {
         lineColor: themeColor,
         topColor: `${themeColor}30`,
         bottomColor: `${themeColor}05`,
         lineWidth: 2,
-        priceFormat: {
-          type: 'price',
-          precision: 8,
-          minMove: 0.00000001,
-        },
+        priceFormat,
       })
-      series.setData(areaData)
-      mainSeriesRef.current = series
     }
 
     // Create volume series
@@ -434,11 +244,8 @@ export function CandlestickChart({
     volSeries.priceScale().applyOptions({
       scaleMargins: { top: 0.85, bottom: 0 },
     })
-    volSeries.setData(volumeData)
     volumeSeriesRef.current = volSeries
 
-    chart.timeScale().fitContent()
-
     // Resize observer
     const resizeObserver = new ResizeObserver((entries) => {
       for (const entry of entries) {
@@ -458,7 +265,62 @@ export function CandlestickChart({
       mainSeriesRef.current = null
       volumeSeriesRef.current = null
     }
-  }, [chartType, timeframe, themeColor, candleData, lineData, areaData, volumeData, handleCrosshairMove])
+  }, [chartType, timeframe, themeColor])
+
+  // Push candles to the chart - stream the live candle, reset only when history changes
+  useEffect(() => {
+    const series = mainSeriesRef.current
+    const volSeries = volumeSeriesRef.current
+    if (!series || !volSeries) return
+
+    candlesByTimeRef.current = new Map(ohlcData.map(c => [c.time, c]))
+
+    const rendered = renderedRef.current
+    const start = rendered.series === series ? liveUpdateStart(rendered.candles, ohlcData) : null
+    renderedRef.current = { series, candles: ohlcData }
+
+    if (start !== null) {
+      for (const candle of ohlcData.slice(start)) {
+        series.update(toSeriesPoint(candle, chartType))
+        volSeries.update(toVolumePoint(candle))
+      }
+      return
+    }
+
+    series.setData(ohlcData.map(c => toSeriesPoint(c, chartType)))
+    volSeries.setData(ohlcData.map(toVolumePoint))
+    chartRef.current?.timeScale().fitContent()
+
+    if (chartType === 'candle') {
+      // RALPH LOOP 2: Data Load Check
+      console.log('[RALPH LOOP 2] Candle data loaded:', {
+        dataLength: ohlcData.length,
+        hasData: ohlcData.length > 0,
+        tradeCount: trades.length,
+        firstCandle: ohlcData[0],
+        lastCandle: ohlcData[ohlcData.length - 1],
+      })
+
+      // RALPH LOOP 5: Time Axis Direction Check
+      if (ohlcData.length >= 2) {
+        const firstTime = ohlcData[0].time
+        const lastTime = ohlcData[ohlcData.length - 1].time
+        console.log('[RALPH LOOP 5] Axis direction validation:', {
+          firstCandleTime: new Date(firstTime * 1000).toISOString(),
+          lastCandleTime: new Date(lastTime * 1000).toISOString(),
+          timeSortedCorrectly: firstTime < lastTime,
+          chronological: firstTime < lastTime ? 'PASS - oldest left, newest right' : 'FAIL - wrong order',
+        })
+      }
+    }
+  }, [ohlcData, chartType, timeframe, themeColor, trades.length])
+
+  // 24h window edge, refreshed each minute
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
 
   // Calculate stats
   const stats = useMemo(() => {
@@ -472,7 +334,7 @@ export function CandlestickChart({
     let high24h = 0
     let low24h = Infinity
     let volume24h = 0
-    const dayAgo = Math.floor(Date.now() / 1000) - 86400
+    const dayAgo = Math.floor(now / 1000) - 86400
 
     for (const candle of ohlcData) {
       if (Number(candle.time) >= dayAgo) {
@@ -485,7 +347,7 @@ export function CandlestickChart({
     if (low24h === Infinity) low24h = first
 
     return { change, changePercent, high24h, low24h, volume24h }
-  }, [ohlcData])
+  }, [ohlcData, now])
 
   const isPositive = parseFloat(stats.changePercent) >= 0
 
@@ -608,7 +470,7 @@ export function CandlestickChart({
             border: '1px solid rgba(255,255,255,0.1)',
             overflow: 'hidden',
           }}>
-            {(['1m', '5m', '15m', '1h', '4h', '1d'] as Timeframe[]).map((tf) => (
+            {(Object.keys(TIMEFRAME_SECONDS) as Timeframe[]).map((tf) => (
               <button
                 key={tf}
                 onClick={() => setTimeframe(tf)}
@@ -715,6 +577,23 @@ export function CandlestickChart({
         }}
       />
 
+      {/* Empty State - no trades on the curve yet */}
+      {ohlcData.length === 0 && (
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          zIndex: 10,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          pointerEvents: 'none',
+          fontSize: '12px',
+          color: '#6b7280',
+        }}>
+          {isLoading ? 'Loading trade history...' : 'No trades yet - the first buy opens the chart'}
+        </div>
+      )}
+
       {/* Powered By Badge */}
       <div style={{
         position: 'absolute',
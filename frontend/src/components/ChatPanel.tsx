@@ -1,27 +1,39 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import { useAccount } from 'wagmi'
+import { isAddress } from 'viem'
+import { useTokenChat, messageByteLength, type ChatMessageStatus } from '../hooks/useTokenChat'
+import { useSuperChatTier, parseTipAmount, formatTipAmount, formatPinDuration } from '../hooks/useSuperChat'
+import { usePumpFudToken } from '../hooks/usePumpFud'
+import { useChatAccess } from '../hooks/useChatAccess'
+import { useIdentity } from '../hooks/useIdentity'
+import { TokenRolesProvider } from '../context/TokenRolesContext'
+import { ProfileName } from './ui/ProfileName'
+import { StoredImage } from './ui/StoredImage'
 
-interface ChatMessage {
+interface PanelMessage {
   id: string
-  sender: string
-  username: string
-  avatar: string
+  sender: `0x${string}`
   message: string
   timestamp: number
   type: 'message' | 'superchat' | 'system'
+  status: ChatMessageStatus
+  error?: string
   superchat?: {
     amount: string
-    tier: number
+    tier: number // 1-5, TIER_STYLES key (contract TipTier + 1)
   }
 }
 
 interface ChatPanelProps {
-  tokenAddress: string // kept for future WebSocket integration
+  tokenAddress: string
   tokenSymbol: string
   isOpen: boolean
   onClose: () => void
 }
 
+// Token tips here; presets sit on the contract's token tier thresholds
+const TIP_PRESETS = [1000, 10000, 100000, 1000000]
+
 const TIER_STYLES = {
   1: 'border-tier-1 bg-tier-1/10',
   2: 'border-tier-2 bg-tier-2/10',
@@ -30,121 +42,59 @@ const TIER_STYLES = {
   5: 'border-tier-5 bg-tier-5/10 animate-pulse',
 }
 
-// Mock messages for demo
-const generateMockMessages = (tokenSymbol: string): ChatMessage[] => [
-  {
-    id: '1',
-    sender: '0x1234...5678',
-    username: 'whale.pls',
-    avatar: '',
-    message: `Just aped into $${tokenSymbol}! LFG!`,
-    timestamp: Date.now() - 300000,
-    type: 'message',
-  },
-  {
-    id: '2',
-    sender: '0xabcd...efgh',
-    username: 'degen_trader',
-    avatar: '',
-    message: 'This chart is looking bullish af',
-    timestamp: Date.now() - 240000,
-    type: 'message',
-  },
-  {
-    id: '3',
-    sender: '0x9876...5432',
-    username: 'superchat_king',
-    avatar: '',
-    message: `$${tokenSymbol} TO THE MOON! SENDING IT!`,
-    timestamp: Date.now() - 180000,
-    type: 'superchat',
-    superchat: { amount: '100,000', tier: 3 },
-  },
-  {
-    id: '4',
-    sender: '0x1111...2222',
-    username: 'anon',
-    avatar: '',
-    message: 'When graduation?',
-    timestamp: Date.now() - 120000,
-    type: 'message',
-  },
-  {
-    id: '5',
-    sender: '0x3333...4444',
-    username: 'pulse_maxi',
-    avatar: '',
-    message: 'Love this community!',
-    timestamp: Date.now() - 60000,
-    type: 'message',
-  },
-]
+function SenderAvatar({ address }: { address: `0x${string}` }) {
+  const { avatarUri } = useIdentity(address)
+  return <StoredImage src={avatarUri} alt="" className="w-8 h-8 rounded-full object-cover flex-shrink-0" />
+}
 
-export function ChatPanel({ tokenAddress: _tokenAddress, tokenSymbol, isOpen, onClose }: ChatPanelProps) {
-  // tokenAddress will be used for WebSocket room connection in production
-  void _tokenAddress
+export function ChatPanel({ tokenAddress, tokenSymbol, isOpen, onClose }: ChatPanelProps) {
   const { address, isConnected } = useAccount()
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const validToken = isOpen && isAddress(tokenAddress) ? tokenAddress : undefined
+  const chat = useTokenChat(validToken)
+  // Super chats tip the token's creator
+  const { token } = usePumpFudToken(validToken)
+  const access = useChatAccess(validToken, address)
+  const canChat = access.liveChat.allowed
+  const canSuperchat = canChat && access.superChat.allowed
   const [inputValue, setInputValue] = useState('')
   const [showSuperchat, setShowSuperchat] = useState(false)
   const [superchatAmount, setSuperchatAmount] = useState('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
-  // Initialize with mock messages
-  useEffect(() => {
-    if (isOpen) {
-      setMessages(generateMockMessages(tokenSymbol))
-    }
-  }, [isOpen, tokenSymbol])
+  const tipAmount = parseTipAmount(superchatAmount)
+  const preview = useSuperChatTier(tipAmount, false)
+  const recipient = token?.creator
+  const isOwnToken = !!recipient && !!address && recipient.toLowerCase() === address.toLowerCase()
+
+  const messages = useMemo(() => chat.messages.map((m): PanelMessage => ({
+    id: m.id,
+    sender: m.sender,
+    message: m.content,
+    timestamp: m.timestamp * 1000,
+    type: m.kind === 'superchat' ? 'superchat' : 'message',
+    status: m.status,
+    error: m.error,
+    superchat: m.tip ? { amount: formatTipAmount(m.tip, tokenSymbol), tier: m.tip.tier + 1 } : undefined,
+  })), [chat.messages, tokenSymbol])
 
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom when a new message arrives
+  const lastMessageId = messages[messages.length - 1]?.id
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [lastMessageId])
 
-  const handleSendMessage = () => {
-    if (!inputValue.trim() || !isConnected || !address) return
-
-    const newMessage: ChatMessage = {
-      id: Date.now().toString(),
-      sender: address,
-      username: `${address.slice(0, 6)}...${address.slice(-4)}`,
-      avatar: '',
-      message: inputValue.trim(),
-      timestamp: Date.now(),
-      type: 'message',
-    }
+  const isTooLong = messageByteLength(inputValue.trim()) > chat.maxMessageBytes
+  const superchatDisabled = !canSuperchat || !inputValue.trim() || isTooLong || !tipAmount || !recipient || isOwnToken
 
-    setMessages((prev) => [...prev, newMessage])
+  const handleSendMessage = () => {
+    if (!inputValue.trim() || isTooLong || !canChat || !isConnected || !address) return
+    chat.send(inputValue.trim())
     setInputValue('')
   }
 
   const handleSendSuperchat = () => {
-    if (!inputValue.trim() || !superchatAmount || !isConnected || !address) return
-
-    // Calculate tier based on amount
-    const amount = Number(superchatAmount)
-    let tier = 1
-    if (amount >= 10_000_000) tier = 5
-    else if (amount >= 1_000_000) tier = 4
-    else if (amount >= 100_000) tier = 3
-    else if (amount >= 10_000) tier = 2
-
-    const newMessage: ChatMessage = {
-      id: Date.now().toString(),
-      sender: address,
-      username: `${address.slice(0, 6)}...${address.slice(-4)}`,
-      avatar: '',
-      message: inputValue.trim(),
-      timestamp: Date.now(),
-      type: 'superchat',
-      superchat: {
-        amount: Number(superchatAmount).toLocaleString(),
-        tier,
-      },
-    }
-
-    setMessages((prev) => [...prev, newMessage])
+    if (superchatDisabled || !tipAmount || !recipient || !isConnected) return
+    chat.send(inputValue.trim(), { recipient, amount: tipAmount, tier: preview.tier ?? 0, isPLS: false })
     setInputValue('')
     setSuperchatAmount('')
     setShowSuperchat(false)
@@ -180,59 +130,86 @@ export function ChatPanel({ tokenAddress: _tokenAddress, tokenSymbol, isOpen, on
       </div>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3">
-        {messages.map((msg) => (
-          <div
-            key={msg.id}
-            className={`rounded-xl p-3 ${
-              msg.type === 'superchat'
-                ? `border-2 ${TIER_STYLES[msg.superchat?.tier as keyof typeof TIER_STYLES]}`
-                : 'bg-pump-dark-lighter'
-            }`}
-          >
-            {msg.type === 'superchat' && (
-              <div className="flex items-center gap-2 mb-2 text-xs">
-                <span className={`font-bold text-tier-${msg.superchat?.tier}`}>
-                  ⭐ SUPERCHAT
-                </span>
-                <span className="text-pump-white-muted">
-                  {msg.superchat?.amount} {tokenSymbol}
-                </span>
-              </div>
-            )}
-            <div className="flex items-start gap-2">
-              <div className="w-8 h-8 rounded-full bg-gradient-to-br from-pump-green to-pump-green-dark flex-shrink-0 flex items-center justify-center text-sm font-bold text-pump-dark">
-                {msg.username.charAt(0).toUpperCase()}
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-1">
-                  <span className="text-pump-green text-sm font-medium truncate">
-                    {msg.username}
+      <TokenRolesProvider creator={recipient}>
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {chat.hasOlder && (
+            <button
+              onClick={chat.loadOlder}
+              disabled={chat.isLoadingOlder}
+              className="w-full py-2 rounded-lg text-xs text-pump-white-muted bg-pump-dark-lighter hover:text-pump-green transition-colors disabled:opacity-50"
+            >
+              {chat.isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          )}
+          {messages.length === 0 && (
+            <div className="text-center text-pump-white-muted text-sm py-8">
+              {!chat.isAvailable ? 'Chat is not available yet' : chat.isLoading ? 'Loading messages...' : 'No messages yet. Say gm!'}
+            </div>
+          )}
+          {messages.map((msg) => (
+            <div
+              key={msg.id}
+              className={`rounded-xl p-3 ${
+                msg.type === 'superchat'
+                  ? `border-2 ${TIER_STYLES[(msg.superchat?.tier ?? 1) as keyof typeof TIER_STYLES]}`
+                  : 'bg-pump-dark-lighter'
+              } ${msg.status === 'pending' ? 'opacity-60' : ''}`}
+            >
+              {msg.type === 'superchat' && (
+                <div className="flex items-center gap-2 mb-2 text-xs">
+                  <span className={`font-bold text-tier-${msg.superchat?.tier}`}>
+                    ⭐ SUPERCHAT
                   </span>
-                  <span className="text-pump-dark-border text-xs">
-                    {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  <span className="text-pump-white-muted">
+                    {msg.superchat?.amount}
                   </span>
                 </div>
-                <p className="text-white text-sm break-words">{msg.message}</p>
+              )}
+              <div className="flex items-start gap-2">
+                <SenderAvatar address={msg.sender} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-pump-green text-sm font-medium truncate">
+                      <ProfileName address={msg.sender} avatarSize={0} />
+                    </span>
+                    <span className="text-pump-dark-border text-xs">
+                      {msg.status === 'pending'
+                        ? 'sending...'
+                        : new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <p className="text-white text-sm break-words">{msg.message}</p>
+                  {msg.status === 'failed' && (
+                    <div className="flex items-center gap-3 mt-1 text-xs">
+                      <span className="text-pump-crimson">Not sent{msg.error && `: ${msg.error}`}</span>
+                      <button onClick={() => chat.retry(msg.id)} className="text-pump-green hover:underline">
+                        Retry
+                      </button>
+                      <button onClick={() => chat.dismiss(msg.id)} className="text-pump-white-muted hover:underline">
+                        Dismiss
+                      </button>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+      </TokenRolesProvider>
 
       {/* Superchat Tiers */}
       {showSuperchat && (
         <div className="border-t border-pump-dark-border p-4 space-y-3">
-          <div className="text-sm text-pump-white-muted">Superchat Amount</div>
-          <div className="grid grid-cols-5 gap-2">
-            {[1000, 10000, 100000, 1000000, 10000000].map((amount, i) => (
+          <div className="text-sm text-pump-white-muted">Superchat Amount ({tokenSymbol})</div>
+          <div className="grid grid-cols-4 gap-2">
+            {TIP_PRESETS.map((amount, i) => (
               <button
                 key={amount}
                 onClick={() => setSuperchatAmount(amount.toString())}
                 className={`py-2 px-1 rounded-lg text-xs font-bold border transition-all ${
                   superchatAmount === amount.toString()
-                    ? `border-tier-${i + 1} bg-tier-${i + 1}/20 text-tier-${i + 1}`
+                    ? `border-tier-${i + 2} bg-tier-${i + 2}/20 text-tier-${i + 2}`
                     : 'border-pump-dark-border text-pump-white-muted hover:border-pump-green'
                 }`}
               >
@@ -247,6 +224,13 @@ export function ChatPanel({ tokenAddress: _tokenAddress, tokenSymbol, isOpen, on
             placeholder="Custom amount"
             className="w-full bg-pump-dark border border-pump-dark-border rounded-lg px-3 py-2 text-sm text-white focus:border-pump-green outline-none"
           />
+          <div className="text-xs text-pump-white-muted">
+            {isOwnToken
+              ? "You can't tip your own token"
+              : preview.style
+                ? `${preview.style.name} tier${preview.style.pinSeconds > 0 ? `, pinned ${formatPinDuration(preview.style.pinSeconds)}` : ''} - paid to the creator`
+                : 'Enter an amount to preview the tier'}
+          </div>
         </div>
       )}
 
@@ -256,6 +240,10 @@ export function ChatPanel({ tokenAddress: _tokenAddress, tokenSymbol, isOpen, on
           <div className="text-center text-pump-white-muted text-sm py-2">
             Connect wallet to chat
           </div>
+        ) : !canChat ? (
+          <div className="text-center text-pump-white-muted text-sm py-2">
+            🔒 {access.liveChat.reason}
+          </div>
         ) : (
           <div className="space-y-3">
             <div className="flex gap-2">
@@ -269,7 +257,7 @@ export function ChatPanel({ tokenAddress: _tokenAddress, tokenSymbol, isOpen, on
               />
               <button
                 onClick={showSuperchat ? handleSendSuperchat : handleSendMessage}
-                disabled={!inputValue.trim()}
+                disabled={showSuperchat ? superchatDisabled : !inputValue.trim() || isTooLong}
                 className={`px-4 rounded-lg font-bold transition-all disabled:opacity-50 ${
                   showSuperchat
                     ? 'bg-tier-3 text-pump-dark'
@@ -279,16 +267,18 @@ export function ChatPanel({ tokenAddress: _tokenAddress, tokenSymbol, isOpen, on
                 Send
               </button>
             </div>
-            <button
-              onClick={() => setShowSuperchat(!showSuperchat)}
-              className={`w-full py-2 rounded-lg text-sm font-medium transition-all ${
-                showSuperchat
-                  ? 'bg-tier-3/20 text-tier-3 border border-tier-3'
-                  : 'bg-pump-dark-lighter text-pump-white-muted hover:text-tier-3'
-              }`}
-            >
-              ⭐ {showSuperchat ? 'Cancel Superchat' : 'Send Superchat'}
-            </button>
+            {canSuperchat && (
+              <button
+                onClick={() => setShowSuperchat(!showSuperchat)}
+                className={`w-full py-2 rounded-lg text-sm font-medium transition-all ${
+                  showSuperchat
+                    ? 'bg-tier-3/20 text-tier-3 border border-tier-3'
+                    : 'bg-pump-dark-lighter text-pump-white-muted hover:text-tier-3'
+                }`}
+              >
+                ⭐ {showSuperchat ? 'Cancel Superchat' : 'Send Superchat'}
+              </button>
+            )}
           </div>
         )}
       </div>
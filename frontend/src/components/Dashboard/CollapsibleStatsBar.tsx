@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { ProfileName } from '../ui/ProfileName';
 import './Dashboard.css';
 
 interface StatsBarProps {
@@ -6,7 +7,7 @@ interface StatsBarProps {
   tokensSold: string;
   yourBalance: string;
   yourHoldings: string;
-  creator: string;
+  creator: `0x${string}`;
 }
 
 export const CollapsibleStatsBar: React.FC<StatsBarProps> = ({
@@ -41,7 +42,7 @@ export const CollapsibleStatsBar: React.FC<StatsBarProps> = ({
             <span className="stat-label">YOUR HOLDINGS</span>
           </div>
           <div className="stat-item">
-            <span className="stat-value">{creator}</span>
+            <span className="stat-value"><ProfileName address={creator} avatarSize={14} /></span>
             <span className="stat-label">CREATOR</span>
           </div>
         </div>
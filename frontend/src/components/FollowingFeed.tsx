@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { formatEther } from 'viem'
+import { useIndexedEvents } from '../hooks/useEventIndexer'
+import { useFollows } from '../hooks/useFollows'
+import { ProfileName } from './ui/ProfileName'
+import { shortAddress } from '../utils/identity'
+import type { LaunchEvent, TradeEvent } from '../utils/eventIndexer'
+
+type KindFilter = 'all' | 'buy' | 'sell' | 'launch'
+
+// Most recent activity rendered in the stream
+const MAX_FEED_ITEMS = 100
+
+const KIND_FILTERS: { key: KindFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'buy', label: 'Buys' },
+  { key: 'sell', label: 'Sells' },
+  { key: 'launch', label: 'Launches' },
+]
+
+// Smallest trade shown, in PLS - launches always pass
+const MIN_SIZE_FILTERS: { pls: bigint; label: string }[] = [
+  { pls: 0n, label: 'Any size' },
+  { pls: 1_000n * 10n ** 18n, label: '1K+ PLS' },
+  { pls: 10_000n * 10n ** 18n, label: '10K+ PLS' },
+  { pls: 100_000n * 10n ** 18n, label: '100K+ PLS' },
+]
+
+const KIND_STYLE = {
+  buy: { icon: '🟢', verb: 'bought', color: '#00ff00' },
+  sell: { icon: '🔴', verb: 'sold', color: '#ef4444' },
+  launch: { icon: '🚀', verb: 'launched', color: '#c084fc' },
+} as const
+
+function formatAmount(value: bigint): string {
+  const num = Number(formatEther(value))
+  if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(2)}B`
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(2)}K`
+  return num.toFixed(2)
+}
+
+const chipStyle = (active: boolean) => ({
+  padding: '4px 10px',
+  borderRadius: '12px',
+  border: '1px solid rgba(255,255,255,0.1)',
+  backgroundColor: active ? 'rgba(168,85,247,0.2)' : 'transparent',
+  color: active ? '#c084fc' : '#888',
+  fontSize: '11px',
+  fontWeight: 600,
+  cursor: 'pointer',
+})
+
+/**
+ * Buys, sells and launches by followed wallets across every token, newest first
+ */
+export function FollowingFeed() {
+  const navigate = useNavigate()
+  const { status, events } = useIndexedEvents()
+  const { following, toggleFollow, pending, isMuted, toggleMute } = useFollows()
+  const [kind, setKind] = useState<KindFilter>('all')
+  const [minSize, setMinSize] = useState(0n)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep "x minutes ago" labels fresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Trades only carry the token address; launches name the token
+  const launches = useMemo(() => {
+    const map = new Map<string, LaunchEvent>()
+    for (const event of events) {
+      if (event.kind === 'launch') map.set(event.tokenAddress.toLowerCase(), event)
+    }
+    return map
+  }, [events])
+
+  const activity = useMemo(() => {
+    const followed = new Set<string>(following.filter(w => !isMuted(w)))
+    const items: (LaunchEvent | TradeEvent)[] = []
+    for (let i = events.length - 1; i >= 0 && items.length < MAX_FEED_ITEMS; i--) {
+      const event = events[i]
+      if (event.kind === 'launch') {
+        if ((kind === 'all' || kind === 'launch') && followed.has(event.creator.toLowerCase())) items.push(event)
+      } else if (event.kind === 'trade') {
+        if (kind !== 'all' && kind !== event.type) continue
+        if (event.plsAmount < minSize || !followed.has(event.wallet.toLowerCase())) continue
+        items.push(event)
+      }
+    }
+    return items
+  }, [events, following, isMuted, kind, minSize])
+
+  const formatTime = (timestamp: number): string => {
+    const diff = now / 1000 - timestamp
+    if (diff < 60) return 'Just now'
+    if (diff < 3600) return `${Math.floor(diff / 60)}m ago`
+    if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`
+    return `${Math.floor(diff / 86400)}d ago`
+  }
+
+  const isIndexing = status === 'idle' || status === 'loading' || status === 'backfilling'
+
+  return (
+    <div>
+      {/* Section Title */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        flexWrap: 'wrap',
+        gap: '12px',
+        marginBottom: '16px',
+      }}>
+        <h2 style={{
+          fontSize: '18px',
+          fontWeight: 700,
+          color: '#fff',
+          margin: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+        }}>
+          <span style={{ color: '#c084fc' }}>★</span>
+          Following
+          <span style={{ color: '#666', fontSize: '14px', fontWeight: 400 }}>
+            ({following.length})
+          </span>
+        </h2>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+          {KIND_FILTERS.map(f => (
+            <button key={f.key} onClick={() => setKind(f.key)} style={chipStyle(kind === f.key)}>
+              {f.label}
+            </button>
+          ))}
+          <select
+            value={minSize.toString()}
+            onChange={(e) => setMinSize(BigInt(e.target.value))}
+            style={{
+              padding: '4px 8px',
+              borderRadius: '12px',
+              border: '1px solid rgba(255,255,255,0.1)',
+              backgroundColor: '#111',
+              color: '#888',
+              fontSize: '11px',
+              cursor: 'pointer',
+            }}
+            title="Smallest trade shown"
+          >
+            {MIN_SIZE_FILTERS.map(f => (
+              <option key={f.label} value={f.pls.toString()}>{f.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {following.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '80px 20px', color: '#666' }}>
+          <span style={{ fontSize: '48px', display: 'block', marginBottom: '16px', opacity: 0.5 }}>☆</span>
+          <p style={{ fontSize: '16px', marginBottom: '8px' }}>You're not following anyone yet</p>
+          <p style={{ fontSize: '13px', color: '#555' }}>
+            Follow traders with the ☆ in a token's transaction feed or from their profile
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Followed wallets - mute hides a wallet here without unfollowing it */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '16px' }}>
+            {following.map(wallet => {
+              const muted = isMuted(wallet)
+              return (
+                <div
+                  key={wallet}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '4px 6px 4px 10px',
+                    borderRadius: '14px',
+                    backgroundColor: 'rgba(26,26,26,0.95)',
+                    border: '1px solid rgba(168,85,247,0.2)',
+                    opacity: muted ? 0.45 : 1,
+                    fontSize: '12px',
+                  }}
+                >
+                  <ProfileName address={wallet} avatarSize={14} showRoles={false} />
+                  <button
+                    onClick={() => toggleMute(wallet)}
+                    style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '11px', padding: '0 2px' }}
+                    title={muted ? 'Unmute in this feed' : 'Mute in this feed'}
+                  >
+                    {muted ? '🔇' : '🔊'}
+                  </button>
+                  <button
+                    onClick={() => void toggleFollow(wallet)}
+                    disabled={pending === wallet}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      cursor: pending === wallet ? 'wait' : 'pointer',
+                      color: '#666',
+                      fontSize: '11px',
+                      padding: '0 2px',
+                    }}
+                    title="Unfollow"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Activity */}
+          <div style={{
+            backgroundColor: 'rgba(26,26,26,0.95)',
+            borderRadius: '12px',
+            border: '1px solid rgba(168,85,247,0.15)',
+            overflow: 'hidden',
+          }}>
+            {activity.length === 0 ? (
+              <div style={{ padding: '40px 16px', textAlign: 'center', color: '#666', fontSize: '13px' }}>
+                {isIndexing ? 'Indexing trade history...' : 'No activity from followed wallets yet'}
+              </div>
+            ) : activity.map(event => {
+              const style = KIND_STYLE[event.kind === 'launch' ? 'launch' : event.type]
+              const launch = event.kind === 'launch' ? event : launches.get(event.tokenAddress.toLowerCase())
+              const actor = event.kind === 'launch' ? event.creator : event.wallet
+              return (
+                <div
+                  key={event.id}
+                  onClick={() => navigate(`/dashboard/${event.tokenAddress}`)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '10px',
+                    padding: '10px 16px',
+                    borderBottom: '1px solid rgba(255,255,255,0.03)',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    color: '#ccc',
+                  }}
+                  onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = 'rgba(168,85,247,0.06)' }}
+                  onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent' }}
+                >
+                  <span style={{ fontSize: '10px' }}>{style.icon}</span>
+                  <span onClick={(e) => e.stopPropagation()}>
+                    <ProfileName address={actor} avatarSize={16} showRoles={false} />
+                  </span>
+                  <span style={{ color: style.color, fontWeight: 600 }}>{style.verb}</span>
+                  <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {event.kind === 'trade' && (
+                      <span style={{ fontFamily: 'monospace', color: '#fff' }}>{formatAmount(event.tokenAmount)} </span>
+                    )}
+                    <span style={{ color: '#fff', fontWeight: 600 }}>{launch ? `$${launch.symbol}` : shortAddress(event.tokenAddress)}</span>
+                    {event.kind === 'trade' && (
+                      <span style={{ color: '#888' }}>
+                        {' '}for{' '}
+                        <span style={{ fontFamily: 'monospace' }}>{formatAmount(event.plsAmount)}</span> PLS
+                      </span>
+                    )}
+                  </span>
+                  <span style={{ color: '#666', fontSize: '11px', whiteSpace: 'nowrap' }}>
+                    {formatTime(event.timestamp)}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
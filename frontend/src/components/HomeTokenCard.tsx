@@ -0,0 +1,229 @@
+import { formatEther } from 'viem'
+import { useGraduationProgress, type GraduationToken } from '../hooks/useGraduationProgress'
+import { useTokenTheme } from '../hooks/useTokenTheme'
+import { StoredImage } from './ui/StoredImage'
+import { ProfileName } from './ui/ProfileName'
+
+export interface HomeTokenCardData {
+  tokenAddress: `0x${string}`
+  name: string
+  symbol: string
+  description: string // Metadata description, read for the theme
+  imageUri: string
+  creator: `0x${string}`
+  reserveBalance: bigint
+  status: number // 0 = live, 1 = graduated
+  launchTime: number // Unix seconds
+}
+
+interface HomeTokenCardProps {
+  token: HomeTokenCardData
+  timeLabel: string // "5m ago"
+  onClick?: () => void
+  // Fixed progress for tokens that aren't on-chain yet (launch preview); otherwise read per token
+  graduation?: { progress: number; plsTarget: bigint | undefined }
+}
+
+const formatMcap = (reserve: bigint): string => {
+  const value = Number(formatEther(reserve))
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`
+  return value.toFixed(0)
+}
+
+interface GraduationBarViewProps {
+  progress: number
+  plsTarget: bigint | undefined
+  accentColor: string
+}
+
+function GraduationBarView({ progress, plsTarget, accentColor }: GraduationBarViewProps) {
+  return (
+    <div style={{ marginTop: '8px' }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        fontSize: '10px',
+        color: '#666',
+        marginBottom: '4px',
+      }}>
+        <span>Progress to Graduation</span>
+        <span style={{ color: accentColor, fontFamily: 'monospace' }}>
+          {progress.toFixed(1)}% / {plsTarget !== undefined ? formatMcap(plsTarget) : '...'} PLS
+        </span>
+      </div>
+      <div style={{
+        height: '4px',
+        backgroundColor: '#252525',
+        borderRadius: '2px',
+        overflow: 'hidden',
+      }}>
+        <div style={{
+          width: `${progress}%`,
+          height: '100%',
+          background: `linear-gradient(90deg, ${accentColor} 0%, ${accentColor}80 100%)`,
+        }} />
+      </div>
+    </div>
+  )
+}
+
+// Per-card so each token gets its own target (V2 targets can be overridden per token)
+function GraduationBar({ token, accentColor }: { token: GraduationToken; accentColor: string }) {
+  const { progress, plsTarget } = useGraduationProgress(token)
+  return <GraduationBarView progress={progress} plsTarget={plsTarget} accentColor={accentColor} />
+}
+
+/**
+ * Token tile in the home page grid, accented with the token's dashboard theme
+ */
+export function HomeTokenCard({ token, timeLabel, onClick, graduation }: HomeTokenCardProps) {
+  const accentColor = useTokenTheme(token.name, token.symbol, token.description, token.imageUri).primary
+
+  return (
+    <div
+      onClick={onClick}
+      style={{
+        background: 'rgba(26,26,26,0.8)',
+        backdropFilter: 'blur(10px)',
+        WebkitBackdropFilter: 'blur(10px)',
+        borderRadius: '12px',
+        border: '1px solid rgba(255,255,255,0.1)',
+        padding: '16px',
+        cursor: onClick ? 'pointer' : 'default',
+        transition: 'all 0.3s ease',
+        boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
+      }}
+      onMouseOver={(e) => {
+        e.currentTarget.style.borderColor = accentColor
+        e.currentTarget.style.transform = 'translateY(-4px) scale(1.02)'
+        e.currentTarget.style.boxShadow = `0 12px 32px rgba(0,0,0,0.4), 0 0 30px ${accentColor}30`
+      }}
+      onMouseOut={(e) => {
+        e.currentTarget.style.borderColor = 'rgba(255,255,255,0.1)'
+        e.currentTarget.style.transform = 'translateY(0) scale(1)'
+        e.currentTarget.style.boxShadow = '0 4px 16px rgba(0,0,0,0.2)'
+      }}
+    >
+      {/* Card Header */}
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: '12px', marginBottom: '12px' }}>
+        {/* Token Image */}
+        <div style={{
+          width: '56px',
+          height: '56px',
+          borderRadius: '10px',
+          backgroundColor: '#252525',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          overflow: 'hidden',
+          flexShrink: 0,
+          border: `2px solid ${accentColor}40`,
+        }}>
+          {token.imageUri ? (
+            <StoredImage
+              src={token.imageUri}
+              alt={token.symbol}
+              style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+              onError={(e) => {
+                e.currentTarget.style.display = 'none'
+              }}
+            />
+          ) : (
+            <span style={{ fontSize: '28px' }}>🔥</span>
+          )}
+        </div>
+
+        {/* Token Info */}
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{
+            fontSize: '15px',
+            fontWeight: 700,
+            color: '#fff',
+            marginBottom: '2px',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+          }}>
+            {token.name}
+          </div>
+          <div style={{
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            color: accentColor,
+            marginBottom: '4px',
+          }}>
+            ${token.symbol}
+          </div>
+          <div style={{
+            fontSize: '11px',
+            color: '#666',
+          }}>
+            {timeLabel}
+          </div>
+        </div>
+
+        {/* Status Badge */}
+        <div style={{
+          padding: '4px 8px',
+          borderRadius: '4px',
+          backgroundColor: token.status === 1 ? 'rgba(168,85,247,0.2)' : 'rgba(34,197,94,0.2)',
+          border: `1px solid ${token.status === 1 ? 'rgba(168,85,247,0.4)' : 'rgba(34,197,94,0.4)'}`,
+        }}>
+          <span style={{
+            fontSize: '10px',
+            fontWeight: 700,
+            color: token.status === 1 ? '#a855f7' : '#22c55e',
+          }}>
+            {token.status === 1 ? '🎓' : '🔴'}
+          </span>
+        </div>
+      </div>
+
+      {/* Stats Row */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        padding: '10px 0',
+        borderTop: '1px solid #252525',
+      }}>
+        <div>
+          <div style={{ fontSize: '10px', color: '#666', marginBottom: '2px' }}>Reserve</div>
+          <div style={{
+            fontFamily: 'monospace',
+            fontSize: '14px',
+            fontWeight: 700,
+            color: '#22c55e',
+          }}>
+            {formatMcap(token.reserveBalance)} PLS
+          </div>
+        </div>
+        <div style={{ textAlign: 'right' }}>
+          <div style={{ fontSize: '10px', color: '#666', marginBottom: '2px' }}>Creator</div>
+          <div style={{
+            fontFamily: 'monospace',
+            fontSize: '11px',
+            color: '#888',
+          }}>
+            <ProfileName address={token.creator} avatarSize={12} />
+          </div>
+        </div>
+      </div>
+
+      {/* Progress Bar (for live tokens) */}
+      {token.status === 0 && (graduation ? (
+        <GraduationBarView {...graduation} accentColor={accentColor} />
+      ) : (
+        <GraduationBar
+          token={{
+            tokenAddress: token.tokenAddress,
+            reserveBalance: token.reserveBalance,
+            graduated: false,
+            createdAt: token.launchTime,
+          }}
+          accentColor={accentColor}
+        />
+      ))}
+    </div>
+  )
+}
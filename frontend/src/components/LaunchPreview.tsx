@@ -0,0 +1,181 @@
+import { useState } from 'react'
+import { formatEther } from 'viem'
+import { TokenCardView } from './TokenCard'
+import { HomeTokenCard } from './HomeTokenCard'
+import { ThemedParticles } from './ThemedParticles'
+import { TokenHeaderIdentity } from './TokenHeaderIdentity'
+import { useDefaultGraduationTarget } from '../hooks/useGraduationProgress'
+import { useTokenTheme } from '../hooks/useTokenTheme'
+import { getNarrativeTitles } from '../utils/themeGenerator'
+import type { PumpFudToken } from '../utils/pumpFud'
+
+type PreviewView = 'dashboard' | 'card' | 'grid'
+
+const PREVIEW_VIEWS: { key: PreviewView; label: string }[] = [
+  { key: 'dashboard', label: 'Dashboard' },
+  { key: 'card', label: 'Token Card' },
+  { key: 'grid', label: 'Home Grid' },
+]
+
+interface LaunchPreviewProps {
+  token: PumpFudToken // Draft built from the launch form
+}
+
+/**
+ * Live preview of how a token will look once launched - the dashboard's themed header and panel titles,
+ * the token card and the home grid tile, all from what the creator has typed so far
+ */
+export function LaunchPreview({ token }: LaunchPreviewProps) {
+  const [view, setView] = useState<PreviewView>('dashboard')
+  const plsTarget = useDefaultGraduationTarget()
+
+  const { name, symbol, imageUri } = token
+  const description = token.metadata.description
+  const theme = useTokenTheme(name, symbol, description, imageUri)
+  const titles = getNarrativeTitles(theme)
+
+  const progress = plsTarget ? Math.min(100, Number((token.reserveBalance * 10000n) / plsTarget) / 100) : 0
+  const remaining = plsTarget && plsTarget > token.reserveBalance ? plsTarget - token.reserveBalance : 0n
+
+  return (
+    <div style={{
+      background: 'rgba(15,10,5,0.9)',
+      borderRadius: '16px',
+      border: '2px solid rgba(139,69,19,0.5)',
+      padding: '20px',
+      backdropFilter: 'blur(10px)',
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: '14px',
+      }}>
+        <span style={{
+          fontFamily: 'Cinzel, serif',
+          fontSize: '13px',
+          color: '#ffd700',
+          letterSpacing: '0.1em',
+          textTransform: 'uppercase',
+        }}>
+          👁️ Preview
+        </span>
+        <span style={{ fontSize: '11px', color: '#888' }}>
+          {theme.emoji} {theme.ambiance}
+        </span>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px', marginBottom: '16px' }}>
+        {PREVIEW_VIEWS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setView(key)}
+            style={{
+              padding: '6px',
+              backgroundColor: view === key ? 'rgba(184,134,11,0.2)' : 'rgba(0,0,0,0.3)',
+              border: `1px solid ${view === key ? 'rgba(255,215,0,0.5)' : 'rgba(139,69,19,0.3)'}`,
+              borderRadius: '6px',
+              color: view === key ? '#ffd700' : '#888',
+              fontSize: '11px',
+              cursor: 'pointer',
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'dashboard' && (
+        <div style={{
+          position: 'relative',
+          borderRadius: '12px',
+          overflow: 'hidden',
+          backgroundColor: '#0a0a0a',
+          border: '1px solid rgba(255,255,255,0.08)',
+        }}>
+          <ThemedParticles theme={theme} />
+
+          {/* TokenDashboard header */}
+          <div style={{
+            position: 'relative',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '10px',
+            padding: '12px',
+            backgroundColor: 'rgba(26,26,26,0.95)',
+            borderBottom: `1px solid ${theme.borderGlow}`,
+          }}>
+            <TokenHeaderIdentity
+              name={name}
+              symbol={symbol}
+              imageUri={imageUri}
+              status={token.isLivestream ? 'scheduled' : 'live'}
+              theme={theme}
+            />
+            <div style={{
+              padding: '6px 10px',
+              backgroundColor: '#252525',
+              borderRadius: '8px',
+              textAlign: 'center',
+              border: '1px solid rgba(0,255,0,0.1)',
+              flexShrink: 0,
+            }}>
+              <div style={{ fontSize: '10px', color: '#666', marginBottom: '2px' }}>Reserve</div>
+              <div style={{ fontFamily: 'monospace', fontSize: '12px', fontWeight: 700, color: theme.primary }}>
+                {Number(formatEther(token.reserveBalance)).toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS
+              </div>
+            </div>
+          </div>
+
+          {/* Panel titles the dashboard shows for this theme */}
+          <div style={{ position: 'relative', padding: '12px', display: 'grid', gap: '8px' }}>
+            {[`📊 ${titles.chart}`, `💱 ${titles.trade}`, `📈 ${titles.transactions}`].map(title => (
+              <div
+                key={title}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '10px 14px',
+                  borderRadius: '8px',
+                  backgroundColor: 'rgba(0,0,0,0.4)',
+                  border: '1px solid rgba(0,255,0,0.1)',
+                }}
+              >
+                <span style={{
+                  width: '6px',
+                  height: '6px',
+                  borderRadius: '50%',
+                  backgroundColor: '#00ff00',
+                  boxShadow: '0 0 8px rgba(0,255,0,0.6)',
+                }} />
+                <span style={{
+                  fontSize: '12px',
+                  fontWeight: 600,
+                  color: '#fff',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.5px',
+                }}>
+                  {title}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {view === 'card' && (
+        <TokenCardView token={token} progress={progress} remaining={remaining} accentColor={theme.primary} isNew />
+      )}
+
+      {view === 'grid' && (
+        <HomeTokenCard
+          token={{ ...token, description, status: 0, launchTime: token.createdAt }}
+          timeLabel="Just now"
+          graduation={{ progress, plsTarget }}
+        />
+      )}
+    </div>
+  )
+}
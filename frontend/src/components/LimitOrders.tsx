@@ -0,0 +1,376 @@
+import { useState } from 'react'
+import { useReadContract } from 'wagmi'
+import { formatEther, parseEther, zeroAddress } from 'viem'
+import { SWAP_ADDRESS } from '../config/wagmi'
+import { SWAP_ABI } from '../config/swap'
+import type { UseLimitOrdersReturn } from '../hooks/useLimitOrders'
+import { getMinAmountOut, getLimitPrice, formatCountdown, type LimitSide, type LimitOrderStatus } from '../utils/limitOrders'
+import { shortAddress } from '../utils/identity'
+
+const EXPIRY_PRESETS = [
+  { label: '1H', seconds: 60 * 60 },
+  { label: '1D', seconds: 24 * 60 * 60 },
+  { label: '7D', seconds: 7 * 24 * 60 * 60 },
+  { label: '30D', seconds: 30 * 24 * 60 * 60 },
+]
+
+const STATUS_CLASSES: Record<LimitOrderStatus, string> = {
+  open: 'text-pump-green',
+  expired: 'text-tier-3',
+  filled: 'text-pump-green',
+  cancelled: 'text-pump-white-muted',
+}
+
+const formatAmount = (value: bigint) =>
+  Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 4 })
+
+// Token prices are fractions of a PLS, so keep significant digits rather than decimals
+const formatPrice = (price: bigint) => {
+  const num = Number(formatEther(price))
+  return num >= 1 ? num.toLocaleString(undefined, { maximumFractionDigits: 4 }) : num.toPrecision(4)
+}
+
+function parseAmount(value: string): bigint | undefined {
+  try {
+    const amount = parseEther(value.trim())
+    return amount > 0n ? amount : undefined
+  } catch {
+    return undefined
+  }
+}
+
+interface LimitOrderFormProps {
+  orders: UseLimitOrdersReturn
+  tokenAddress: `0x${string}`
+  tokenSymbol: string
+  isConnected: boolean
+}
+
+/**
+ * Target-price order for one token, escrowed in a PumpFudSwap position until it fills or is cancelled
+ */
+export function LimitOrderForm({ orders, tokenAddress, tokenSymbol, isConnected }: LimitOrderFormProps) {
+  const [side, setSide] = useState<LimitSide>('buy')
+  const [amount, setAmount] = useState('')
+  const [price, setPrice] = useState('')
+  const [duration, setDuration] = useState(EXPIRY_PRESETS[1].seconds)
+
+  const amountIn = parseAmount(amount)
+  const limitPrice = parseAmount(price)
+  const [tokenIn, tokenOut] = side === 'buy' ? [zeroAddress, tokenAddress] : [tokenAddress, zeroAddress]
+
+  // Market reference for the same size - getQuote already has the swap fee taken off
+  const { data: quote } = useReadContract({
+    address: SWAP_ADDRESS,
+    abi: SWAP_ABI,
+    functionName: 'getQuote',
+    args: amountIn ? [tokenIn, tokenOut, amountIn] : undefined,
+    query: { enabled: orders.isAvailable && !!amountIn, refetchInterval: 15000 },
+  })
+  const { data: feeBps } = useReadContract({
+    address: SWAP_ADDRESS,
+    abi: SWAP_ABI,
+    functionName: 'swapFeeBps',
+    query: { enabled: orders.isAvailable },
+  })
+
+  const marketPrice = amountIn && quote && quote[0] > 0n ? getLimitPrice(side, amountIn, quote[0]) : undefined
+  const minAmountOut = amountIn && limitPrice ? getMinAmountOut(side, amountIn, limitPrice) : undefined
+  // A buy above market or a sell below it is fillable on the spot
+  const crossesMarket = !!marketPrice && !!limitPrice
+    && (side === 'buy' ? limitPrice >= marketPrice : limitPrice <= marketPrice)
+  const distanceBps = marketPrice && limitPrice
+    ? Number(((limitPrice - marketPrice) * 10000n) / marketPrice)
+    : undefined
+
+  const isBusy = orders.pending?.action === 'approve' || orders.pending?.action === 'create'
+
+  const handlePlace = async () => {
+    if (!amountIn || !limitPrice || isBusy) return
+    const id = await orders.place({ side, token: tokenAddress, amountIn, limitPrice, duration, symbol: tokenSymbol })
+    if (id !== null) {
+      setAmount('')
+      setPrice('')
+    }
+  }
+
+  if (!orders.isAvailable) {
+    return (
+      <div className="text-center text-sm text-pump-white-muted py-6">
+        Limit orders are not available on this deployment
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Side */}
+      <div className="flex gap-2">
+        {(['buy', 'sell'] as const).map((s) => (
+          <button
+            key={s}
+            onClick={() => setSide(s)}
+            className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${
+              side === s
+                ? s === 'buy' ? 'bg-pump-green/20 text-pump-green' : 'bg-tier-5/20 text-tier-5'
+                : 'bg-pump-dark-lighter text-pump-white-muted hover:text-white'
+            }`}
+          >
+            {s === 'buy' ? `Buy ${tokenSymbol}` : `Sell ${tokenSymbol}`}
+          </button>
+        ))}
+      </div>
+
+      {/* Amount */}
+      <div className="space-y-1">
+        <span className="text-sm text-pump-white-muted">{side === 'buy' ? 'You Pay' : 'You Sell'}</span>
+        <div className="relative">
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.0"
+            className="w-full bg-pump-dark border border-pump-dark-border rounded-xl px-4 py-3 text-xl font-mono text-white focus:border-pump-green outline-none transition-colors"
+          />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 font-bold text-pump-white-muted">
+            {side === 'buy' ? 'PLS' : tokenSymbol}
+          </span>
+        </div>
+      </div>
+
+      {/* Target price */}
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="text-pump-white-muted">{side === 'buy' ? 'Buy at or below' : 'Sell at or above'}</span>
+          {marketPrice && (
+            <button onClick={() => setPrice(formatEther(marketPrice))} className="text-pump-green hover:underline">
+              Market: {formatPrice(marketPrice)} PLS
+            </button>
+          )}
+        </div>
+        <div className="relative">
+          <input
+            type="number"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="0.0"
+            className="w-full bg-pump-dark border border-pump-dark-border rounded-xl px-4 py-3 text-xl font-mono text-white focus:border-pump-green outline-none transition-colors"
+          />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-pump-white-muted">
+            PLS / {tokenSymbol}
+          </span>
+        </div>
+        {distanceBps !== undefined && (
+          <div className={`text-xs ${crossesMarket ? 'text-tier-3' : 'text-pump-white-muted'}`}>
+            {crossesMarket
+              ? 'This price is already met - the order can be filled right away'
+              : `${Math.abs(distanceBps / 100).toFixed(2)}% ${distanceBps < 0 ? 'below' : 'above'} market`}
+          </div>
+        )}
+      </div>
+
+      {/* Expiry */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-pump-white-muted">Expires In</span>
+        <div className="flex gap-2">
+          {EXPIRY_PRESETS.map((p) => (
+            <button
+              key={p.label}
+              onClick={() => setDuration(p.seconds)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                duration === p.seconds
+                  ? 'bg-pump-green/20 text-pump-green'
+                  : 'bg-pump-dark-lighter text-pump-white-muted hover:text-white'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      {minAmountOut !== undefined && (
+        <div className="bg-pump-dark rounded-lg p-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-pump-white-muted">Minimum received</span>
+            <span className="font-mono text-white">
+              {formatAmount(minAmountOut)} {side === 'buy' ? tokenSymbol : 'PLS'}
+            </span>
+          </div>
+          {feeBps !== undefined && (
+            <div className="flex justify-between text-xs text-pump-white-muted">
+              <span>Swap fee at fill</span>
+              <span>{(Number(feeBps) / 100).toFixed(2)}%</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={handlePlace}
+        disabled={!isConnected || !amountIn || !limitPrice || isBusy}
+        className={`w-full py-4 rounded-xl font-display font-bold text-lg disabled:opacity-50 transition-all ${
+          side === 'buy' ? 'gradient-button text-pump-dark' : 'bg-tier-5 text-white hover:opacity-90'
+        }`}
+      >
+        {!isConnected
+          ? 'Connect Wallet'
+          : orders.pending?.action === 'approve'
+          ? `Approving ${tokenSymbol}...`
+          : orders.pending?.action === 'create'
+          ? 'Placing Order...'
+          : `Place ${side === 'buy' ? 'Buy' : 'Sell'} Order`}
+      </button>
+
+      {orders.error && <div className="text-xs text-tier-5 break-words">{orders.error}</div>}
+    </div>
+  )
+}
+
+interface MyOrdersProps {
+  orders: UseLimitOrdersReturn
+  // Symbols for the tokens in the list; unknown tokens fall back to a short address
+  tokenSymbols?: Record<string, string>
+}
+
+/**
+ * The connected wallet's live positions with fillability and expiry, plus closed order history
+ */
+export function MyOrders({ orders, tokenSymbols = {} }: MyOrdersProps) {
+  const [view, setView] = useState<'open' | 'history'>('open')
+  const symbolOf = (token: string) => tokenSymbols[token.toLowerCase()] ?? shortAddress(token)
+  const closedHistory = orders.history.filter(h => h.status !== 'open')
+
+  if (!orders.isAvailable) return null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-display font-bold text-white">My Orders</h3>
+        <div className="flex gap-1 text-xs">
+          {(['open', 'history'] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1 rounded-lg transition-colors ${
+                view === v ? 'bg-pump-green/20 text-pump-green' : 'text-pump-white-muted hover:text-white'
+              }`}
+            >
+              {v === 'open' ? `Open (${orders.active.length})` : 'History'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'open' ? (
+        orders.isLoading ? (
+          <div className="text-center text-sm text-pump-white-muted py-4">Loading orders...</div>
+        ) : orders.active.length === 0 ? (
+          <div className="text-center text-sm text-pump-white-muted py-4">No open orders</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-pump-white-muted text-left">
+                  <th className="py-2 pr-2">Order</th>
+                  <th className="py-2 pr-2">Amount</th>
+                  <th className="py-2 pr-2">Limit</th>
+                  <th className="py-2 pr-2">Now</th>
+                  <th className="py-2 pr-2">Expires</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {orders.active.map((order) => {
+                  const symbol = symbolOf(order.token)
+                  const busy = orders.pending?.id === order.id
+                  const currentPrice = order.currentQuote !== undefined
+                    ? getLimitPrice(order.side, order.amountIn, order.currentQuote)
+                    : undefined
+                  return (
+                    <tr key={order.id.toString()} className="border-t border-pump-dark-border">
+                      <td className={`py-2 pr-2 font-bold ${order.side === 'buy' ? 'text-pump-green' : 'text-tier-5'}`}>
+                        {order.side === 'buy' ? 'Buy' : 'Sell'} {symbol}
+                      </td>
+                      <td className="py-2 pr-2 font-mono text-white">
+                        {formatAmount(order.amountIn)} {order.side === 'buy' ? 'PLS' : symbol}
+                      </td>
+                      <td className="py-2 pr-2 font-mono text-white">{formatPrice(order.limitPrice)}</td>
+                      <td className="py-2 pr-2 font-mono">
+                        {currentPrice !== undefined ? (
+                          <span className={order.fillable ? 'text-pump-green' : 'text-pump-white-muted'}>
+                            {formatPrice(currentPrice)}
+                            {order.fillable && ' ✓'}
+                          </span>
+                        ) : (
+                          <span className="text-pump-white-muted">-</span>
+                        )}
+                      </td>
+                      <td className={`py-2 pr-2 font-mono ${STATUS_CLASSES[order.status]}`}>
+                        {formatCountdown(order.expiresAt, orders.nowSeconds)}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {/* No keeper runs for these positions - anyone may fill, including the owner */}
+                        {order.fillable && order.status === 'open' && (
+                          <button
+                            onClick={() => orders.fill(order.id)}
+                            disabled={busy}
+                            className="px-2 py-1 mr-1 rounded bg-pump-green/20 text-pump-green hover:bg-pump-green/30 disabled:opacity-50"
+                          >
+                            {busy && orders.pending?.action === 'fill' ? '...' : 'Fill'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => orders.cancel(order.id)}
+                          disabled={busy}
+                          className="px-2 py-1 rounded bg-pump-dark-lighter text-pump-white-muted hover:text-white disabled:opacity-50"
+                        >
+                          {busy && orders.pending?.action === 'cancel'
+                            ? '...'
+                            : order.status === 'expired' ? 'Refund' : 'Cancel'}
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )
+      ) : orders.isHistoryLoading && closedHistory.length === 0 ? (
+        <div className="text-center text-sm text-pump-white-muted py-4">Loading history...</div>
+      ) : closedHistory.length === 0 ? (
+        <div className="text-center text-sm text-pump-white-muted py-4">No filled or cancelled orders yet</div>
+      ) : (
+        <div className="space-y-1">
+          {closedHistory.map((entry) => {
+            const symbol = symbolOf(entry.token)
+            return (
+              <div
+                key={entry.id.toString()}
+                className="flex items-center justify-between bg-pump-dark rounded-lg px-3 py-2 text-xs"
+              >
+                <span className={entry.side === 'buy' ? 'text-pump-green' : 'text-tier-5'}>
+                  {entry.side === 'buy' ? 'Buy' : 'Sell'} {symbol} @ {formatPrice(entry.limitPrice)}
+                </span>
+                <span className="font-mono text-white">
+                  {formatAmount(entry.amountIn)} {entry.side === 'buy' ? 'PLS' : symbol}
+                  {entry.amountOut !== undefined && ` → ${formatAmount(entry.amountOut)} ${entry.side === 'buy' ? symbol : 'PLS'}`}
+                </span>
+                <a
+                  href={`https://scan.pulsechain.com/tx/${entry.closedTx ?? entry.createdTx}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`${STATUS_CLASSES[entry.status]} hover:underline capitalize`}
+                >
+                  {entry.status}
+                </a>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,80 +1,122 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { useAccount } from 'wagmi'
+import { isAddress } from 'viem'
+import { useTokenChat, messageByteLength, type ChatMessageStatus } from '../hooks/useTokenChat'
+import {
+  useSuperChatTier,
+  usePinnedSuperChats,
+  getSuperChatTier,
+  parseTipAmount,
+  formatTipAmount,
+  formatPinDuration,
+} from '../hooks/useSuperChat'
+import { usePumpFudToken } from '../hooks/usePumpFud'
+import { useChatAccess } from '../hooks/useChatAccess'
+import { useModeration } from '../hooks/useModeration'
+import { profilePath } from '../hooks/useProfile'
+import { ContextMenu } from './ui/ContextMenu'
+import { ProfileName } from './ui/ProfileName'
+import { TokenRolesProvider } from '../context/TokenRolesContext'
+import { shortAddress } from '../utils/identity'
 
-interface ChatMessage {
+interface DisplayMessage {
   id: string
-  address: string
+  sender: `0x${string}`
   message: string
   timestamp: number
+  status: ChatMessageStatus
+  error?: string
+  isMuted: boolean // Only ever true for moderators - everyone else never sees muted users
   isSuperChat?: boolean
-  superChatAmount?: number
+  superChatLabel?: string
   superChatColor?: string
 }
 
 interface LiveChatProps {
+  tokenAddress: string
   tokenSymbol: string
-  holderPercentage: number
   primaryColor: string
   secondaryColor: string
 }
 
+// Quick picks sit on the contract's tier thresholds
+const PLS_TIP_PRESETS = [100, 1000, 10000, 100000]
+const TOKEN_TIP_PRESETS = [1000, 10000, 100000, 1000000]
+
 export function LiveChat({
+  tokenAddress,
   tokenSymbol,
-  holderPercentage,
   primaryColor,
   secondaryColor,
 }: LiveChatProps) {
+  const navigate = useNavigate()
   const { address, isConnected } = useAccount()
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const validToken = isAddress(tokenAddress) ? tokenAddress : undefined
+  const chat = useTokenChat(validToken)
+  const pinned = usePinnedSuperChats(validToken)
+  // Super chats tip the token's creator
+  const { token } = usePumpFudToken(validToken)
   const [newMessage, setNewMessage] = useState('')
   const [showSuperChat, setShowSuperChat] = useState(false)
   const [superChatAmount, setSuperChatAmount] = useState('')
+  const [tipInPls, setTipInPls] = useState(true)
+  const [menu, setMenu] = useState<{ x: number; y: number; sender: `0x${string}` } | null>(null)
+  const closeMenu = useCallback(() => setMenu(null), [])
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
-  const canChat = holderPercentage >= 1
-  const canSuperChat = holderPercentage >= 1
+  const access = useChatAccess(validToken, address)
+  const moderation = useModeration(validToken, address)
+  const { canModerate, isMuted } = moderation
+
+  const canChat = access.liveChat.allowed
+  const canSuperChat = canChat && access.superChat.allowed
+
+  const tipAmount = parseTipAmount(superChatAmount)
+  const preview = useSuperChatTier(tipAmount, tipInPls)
+  const recipient = token?.creator
+  const moderatorAddresses = useMemo(() => moderation.moderators.map(m => m.user), [moderation.moderators])
+  const isOwnToken = !!recipient && !!address && recipient.toLowerCase() === address.toLowerCase()
+  const tipUnit = tipInPls ? 'PLS' : tokenSymbol
+
+  // Muted users stay visible to moderators so they can review and unmute them
+  const messages = useMemo(() => chat.messages.filter(m => canModerate || !isMuted(m.sender)).map((m): DisplayMessage => ({
+    id: m.id,
+    sender: m.sender,
+    message: m.content,
+    timestamp: m.timestamp * 1000,
+    status: m.status,
+    error: m.error,
+    isMuted: isMuted(m.sender),
+    isSuperChat: m.kind === 'superchat',
+    superChatLabel: m.tip ? `${getSuperChatTier(m.tip.tier).name} - ${formatTipAmount(m.tip, tokenSymbol)}` : undefined,
+    superChatColor: getSuperChatTier(m.tip?.tier ?? 0).color,
+  })), [chat.messages, tokenSymbol, canModerate, isMuted])
+
+  const messageBytes = messageByteLength(newMessage)
+  const isTooLong = messageBytes > chat.maxMessageBytes
+  const sendDisabled = !newMessage.trim() || isTooLong || showSuperChat
+  const superChatDisabled = !newMessage.trim() || isTooLong || !tipAmount || !recipient || isOwnToken
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
+  // Follow new messages, but not when earlier history is prepended
+  const lastMessageId = messages[messages.length - 1]?.id
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [lastMessageId])
 
   const handleSendMessage = () => {
-    if (!newMessage.trim() || !canChat || !isConnected) return
-
-    const msg: ChatMessage = {
-      id: Date.now().toString(),
-      address: address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '0x????...????',
-      message: newMessage,
-      timestamp: Date.now(),
-    }
-
-    setMessages(prev => [...prev, msg])
+    if (!newMessage.trim() || isTooLong || !canChat || !isConnected) return
+    chat.send(newMessage.trim())
     setNewMessage('')
   }
 
   const handleSendSuperChat = () => {
-    if (!newMessage.trim() || !superChatAmount || !canSuperChat || !isConnected) return
-
-    const amount = parseFloat(superChatAmount)
-    let color = '#22c55e'
-    if (amount >= 5000) color = '#a855f7'
-    if (amount >= 10000) color = '#ffd700'
-
-    const msg: ChatMessage = {
-      id: Date.now().toString(),
-      address: address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '0x????...????',
-      message: newMessage,
-      timestamp: Date.now(),
-      isSuperChat: true,
-      superChatAmount: amount,
-      superChatColor: color,
-    }
-
-    setMessages(prev => [...prev, msg])
+    if (superChatDisabled || !tipAmount || !recipient || !canSuperChat || !isConnected) return
+    chat.send(newMessage.trim(), { recipient, amount: tipAmount, tier: preview.tier ?? 0, isPLS: tipInPls })
     setNewMessage('')
     setSuperChatAmount('')
     setShowSuperChat(false)
@@ -154,97 +196,193 @@ export function LiveChat({
         </div>
       </div>
 
-      {/* Messages */}
-      <div
-        style={{
-          flex: 1,
-          overflowY: 'auto',
-          padding: '12px',
-          display: 'flex',
-          flexDirection: 'column',
-          gap: '8px',
-        }}
-      >
-        {messages.map((msg) => (
+      <TokenRolesProvider creator={recipient} moderators={moderatorAddresses}>
+        {/* Pinned Super Chats */}
+        {pinned.length > 0 && (
           <div
-            key={msg.id}
             style={{
-              padding: msg.isSuperChat ? '12px 14px' : '8px 12px',
-              borderRadius: '8px',
-              backgroundColor: msg.isSuperChat
-                ? `${msg.superChatColor}15`
-                : 'rgba(0,0,0,0.3)',
-              border: msg.isSuperChat
-                ? `1px solid ${msg.superChatColor}40`
-                : '1px solid transparent',
-              animation: msg.isSuperChat ? 'superChatGlow 2s ease-in-out' : 'none',
+              display: 'flex',
+              gap: '6px',
+              padding: '8px 12px',
+              overflowX: 'auto',
+              borderBottom: '1px solid rgba(139,92,246,0.1)',
             }}
           >
-            {msg.isSuperChat && (
+            {pinned.map((sc) => {
+              const tier = getSuperChatTier(sc.tip.tier)
+              return (
+                <div
+                  key={sc.id}
+                  title={sc.content}
+                  style={{
+                    flexShrink: 0,
+                    maxWidth: '180px',
+                    padding: '6px 10px',
+                    borderRadius: '6px',
+                    backgroundColor: `${tier.color}20`,
+                    border: `1px solid ${tier.color}60`,
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', fontSize: '10px', fontFamily: 'monospace' }}>
+                    <ProfileName address={sc.sender} avatarSize={0} style={{ color: tier.color }} />
+                    <span style={{ color: '#fff' }}>{formatTipAmount(sc.tip, tokenSymbol)}</span>
+                  </div>
+                  <div
+                    style={{
+                      fontSize: '11px',
+                      color: '#e8e8e8',
+                      whiteSpace: 'nowrap',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                    }}
+                  >
+                    {sc.content}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Messages */}
+        <div
+          style={{
+            flex: 1,
+            overflowY: 'auto',
+            padding: '12px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+          }}
+        >
+          {chat.hasOlder && (
+            <button
+              onClick={chat.loadOlder}
+              disabled={chat.isLoadingOlder}
+              style={{
+                alignSelf: 'center',
+                padding: '4px 12px',
+                borderRadius: '4px',
+                backgroundColor: 'rgba(0,0,0,0.3)',
+                border: '1px solid rgba(139,92,246,0.2)',
+                color: '#888',
+                fontFamily: 'monospace',
+                fontSize: '10px',
+                cursor: chat.isLoadingOlder ? 'wait' : 'pointer',
+              }}
+            >
+              {chat.isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          )}
+          {messages.length === 0 && (
+            <div style={{ margin: 'auto', fontSize: '12px', color: '#555', textAlign: 'center' }}>
+              {!chat.isAvailable ? 'Chat is not available on this deployment' : chat.isLoading ? 'Loading chat...' : 'No messages yet - say gm'}
+            </div>
+          )}
+          {messages.map((msg) => (
+            <div
+              key={msg.id}
+              style={{
+                opacity: msg.status === 'pending' || msg.isMuted ? 0.55 : 1,
+                padding: msg.isSuperChat ? '12px 14px' : '8px 12px',
+                borderRadius: '8px',
+                backgroundColor: msg.isSuperChat
+                  ? `${msg.superChatColor}15`
+                  : 'rgba(0,0,0,0.3)',
+                border: msg.isSuperChat
+                  ? `1px solid ${msg.superChatColor}40`
+                  : msg.status === 'failed' ? '1px solid rgba(239,68,68,0.4)' : '1px solid transparent',
+                animation: msg.isSuperChat ? 'superChatGlow 2s ease-in-out' : 'none',
+              }}
+              onContextMenu={canModerate && msg.status === 'confirmed' ? (e) => {
+                e.preventDefault()
+                setMenu({ x: e.clientX, y: e.clientY, sender: msg.sender })
+              } : undefined}
+            >
+              {msg.isSuperChat && (
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    marginBottom: '6px',
+                  }}
+                >
+                  <span style={{ fontSize: '14px' }}>✨</span>
+                  <span
+                    style={{
+                      fontFamily: 'Cinzel, serif',
+                      fontSize: '11px',
+                      color: msg.superChatColor,
+                      letterSpacing: '0.1em',
+                      textTransform: 'uppercase',
+                    }}
+                  >
+                    Super Chat{msg.superChatLabel ? ` - ${msg.superChatLabel}` : ''}
+                  </span>
+                </div>
+              )}
               <div
                 style={{
                   display: 'flex',
-                  alignItems: 'center',
-                  gap: '6px',
-                  marginBottom: '6px',
+                  alignItems: 'flex-start',
+                  gap: '8px',
                 }}
               >
-                <span style={{ fontSize: '14px' }}>✨</span>
                 <span
                   style={{
-                    fontFamily: 'Cinzel, serif',
+                    fontFamily: 'monospace',
                     fontSize: '11px',
-                    color: msg.superChatColor,
-                    letterSpacing: '0.1em',
-                    textTransform: 'uppercase',
+                    color: msg.isSuperChat ? msg.superChatColor : secondaryColor,
+                    flexShrink: 0,
                   }}
                 >
-                  Super Chat - {msg.superChatAmount?.toLocaleString()} PLS
+                  <ProfileName address={msg.sender} />
+                  {msg.isMuted && <span style={{ color: '#ef4444', marginLeft: '6px' }}>[muted]</span>}
+                </span>
+                <span
+                  style={{
+                    fontSize: '13px',
+                    color: msg.isSuperChat ? '#fff' : '#e8e8e8',
+                    flex: 1,
+                    wordBreak: 'break-word',
+                  }}
+                >
+                  {msg.message}
+                </span>
+                <span
+                  style={{
+                    fontFamily: 'monospace',
+                    fontSize: '10px',
+                    color: '#555',
+                    flexShrink: 0,
+                  }}
+                >
+                  {msg.status === 'pending' ? 'sending...' : formatTime(msg.timestamp)}
                 </span>
               </div>
-            )}
-            <div
-              style={{
-                display: 'flex',
-                alignItems: 'flex-start',
-                gap: '8px',
-              }}
-            >
-              <span
-                style={{
-                  fontFamily: 'monospace',
-                  fontSize: '11px',
-                  color: msg.isSuperChat ? msg.superChatColor : secondaryColor,
-                  flexShrink: 0,
-                }}
-              >
-                {msg.address}
-              </span>
-              <span
-                style={{
-                  fontSize: '13px',
-                  color: msg.isSuperChat ? '#fff' : '#e8e8e8',
-                  flex: 1,
-                  wordBreak: 'break-word',
-                }}
-              >
-                {msg.message}
-              </span>
-              <span
-                style={{
-                  fontFamily: 'monospace',
-                  fontSize: '10px',
-                  color: '#555',
-                  flexShrink: 0,
-                }}
-              >
-                {formatTime(msg.timestamp)}
-              </span>
+              {msg.status === 'failed' && (
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '4px', fontSize: '10px' }}>
+                  <span style={{ color: '#ef4444', marginRight: 'auto' }}>Not sent{msg.error && `: ${msg.error}`}</span>
+                  <button
+                    onClick={() => chat.retry(msg.id)}
+                    style={{ background: 'none', border: 'none', color: primaryColor, cursor: 'pointer', fontSize: '10px' }}
+                  >
+                    Retry
+                  </button>
+                  <button
+                    onClick={() => chat.dismiss(msg.id)}
+                    style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', fontSize: '10px' }}
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
             </div>
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+      </TokenRolesProvider>
 
       {/* Super Chat Panel */}
       {showSuperChat && canSuperChat && (
@@ -277,8 +415,33 @@ export function LiveChat({
             </span>
           </div>
 
+          <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+            {[true, false].map((pls) => (
+              <button
+                key={pls ? 'pls' : 'token'}
+                onClick={() => {
+                  setTipInPls(pls)
+                  setSuperChatAmount('')
+                }}
+                style={{
+                  flex: 1,
+                  padding: '6px',
+                  borderRadius: '6px',
+                  backgroundColor: tipInPls === pls ? 'rgba(168,85,247,0.3)' : 'rgba(0,0,0,0.3)',
+                  border: `1px solid ${tipInPls === pls ? '#a855f7' : 'rgba(139,92,246,0.2)'}`,
+                  color: tipInPls === pls ? '#a855f7' : '#888',
+                  fontFamily: 'monospace',
+                  fontSize: '11px',
+                  cursor: 'pointer',
+                }}
+              >
+                {pls ? 'PLS' : tokenSymbol}
+              </button>
+            ))}
+          </div>
+
           <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
-            {[500, 1000, 5000, 10000].map((amount) => (
+            {(tipInPls ? PLS_TIP_PRESETS : TOKEN_TIP_PRESETS).map((amount) => (
               <button
                 key={amount}
                 onClick={() => setSuperChatAmount(amount.toString())}
@@ -300,7 +463,7 @@ export function LiveChat({
                   transition: 'all 0.2s ease',
                 }}
               >
-                {amount >= 1000 ? `${amount / 1000}K` : amount}
+                {amount >= 1000000 ? `${amount / 1000000}M` : amount >= 1000 ? `${amount / 1000}K` : amount}
               </button>
             ))}
           </div>
@@ -310,7 +473,7 @@ export function LiveChat({
               type="text"
               value={superChatAmount}
               onChange={(e) => setSuperChatAmount(e.target.value)}
-              placeholder="Custom PLS"
+              placeholder={`Custom ${tipUnit}`}
               style={{
                 width: '100px',
                 padding: '10px 12px',
@@ -325,13 +488,13 @@ export function LiveChat({
             />
             <button
               onClick={handleSendSuperChat}
-              disabled={!superChatAmount || !newMessage.trim()}
+              disabled={superChatDisabled}
               style={{
                 flex: 1,
                 padding: '10px 16px',
                 borderRadius: '8px',
                 background:
-                  !superChatAmount || !newMessage.trim()
+                  superChatDisabled
                     ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                     : 'linear-gradient(135deg, #7c3aed 0%, #a855f7 100%)',
                 border: 'none',
@@ -340,11 +503,11 @@ export function LiveChat({
                 fontWeight: 600,
                 fontSize: '12px',
                 letterSpacing: '0.05em',
-                cursor: !superChatAmount || !newMessage.trim() ? 'not-allowed' : 'pointer',
+                cursor: superChatDisabled ? 'not-allowed' : 'pointer',
                 textTransform: 'uppercase',
               }}
             >
-              Send {superChatAmount ? `${superChatAmount} PLS` : ''}
+              Send {tipAmount ? `${superChatAmount} ${tipUnit}` : ''}
             </button>
             <button
               onClick={() => setShowSuperChat(false)}
@@ -362,6 +525,20 @@ export function LiveChat({
               Cancel
             </button>
           </div>
+
+          <div style={{ marginTop: '8px', fontFamily: 'monospace', fontSize: '10px', color: '#888' }}>
+            {isOwnToken ? (
+              <span style={{ color: '#ef4444' }}>You can't tip your own token</span>
+            ) : preview.style ? (
+              <>
+                <span style={{ color: preview.style.color }}>{preview.style.name}</span>
+                {preview.style.pinSeconds > 0 ? ` - pinned ${formatPinDuration(preview.style.pinSeconds)}` : ' - not pinned'}
+                {recipient && ` - to creator ${shortAddress(recipient)}`}
+              </>
+            ) : (
+              'Enter an amount to preview the tier'
+            )}
+          </div>
         </div>
       )}
 
@@ -420,12 +597,13 @@ export function LiveChat({
             )}
             <button
               onClick={handleSendMessage}
-              disabled={!newMessage.trim() || showSuperChat}
+              disabled={sendDisabled}
+              title={isTooLong ? `Messages are limited to ${chat.maxMessageBytes} bytes (${messageBytes} now)` : undefined}
               style={{
                 padding: '12px 20px',
                 borderRadius: '8px',
                 background:
-                  !newMessage.trim() || showSuperChat
+                  sendDisabled
                     ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                     : `linear-gradient(135deg, ${primaryColor} 0%, ${secondaryColor} 100%)`,
                 border: 'none',
@@ -434,11 +612,11 @@ export function LiveChat({
                 fontWeight: 600,
                 fontSize: '12px',
                 letterSpacing: '0.05em',
-                cursor: !newMessage.trim() || showSuperChat ? 'not-allowed' : 'pointer',
+                cursor: sendDisabled ? 'not-allowed' : 'pointer',
                 textTransform: 'uppercase',
               }}
             >
-              Send
+              {isTooLong ? `${chat.maxMessageBytes - messageBytes}` : 'Send'}
             </button>
           </>
         ) : !isConnected ? (
@@ -486,12 +664,28 @@ export function LiveChat({
                 color: '#b8860b',
               }}
             >
-              Hold 1%+ of {tokenSymbol} to chat
+              {access.liveChat.reason}
             </span>
           </div>
         )}
       </div>
 
+      {menu && (
+        <ContextMenu
+          x={menu.x}
+          y={menu.y}
+          title={shortAddress(menu.sender)}
+          onClose={closeMenu}
+          items={[
+            isMuted(menu.sender)
+              ? { label: 'Unmute user', onSelect: () => moderation.unmute(menu.sender), disabled: moderation.pending !== null }
+              : { label: 'Mute user', onSelect: () => moderation.mute(menu.sender), danger: true, disabled: moderation.pending !== null },
+            { label: 'View profile', onSelect: () => navigate(profilePath(menu.sender)) },
+            { label: 'Copy address', onSelect: () => navigator.clipboard.writeText(menu.sender) },
+          ]}
+        />
+      )}
+
       <style>{`
         @keyframes liveDot {
           0%, 100% { opacity: 1; }
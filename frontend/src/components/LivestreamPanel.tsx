@@ -1,9 +1,12 @@
 import { useState } from 'react'
 import { useAccount } from 'wagmi'
+import { isAddress } from 'viem'
+import { useChatAccess } from '../hooks/useChatAccess'
+import { shortAddress } from '../utils/identity'
 
 interface LivestreamPanelProps {
+  tokenAddress: string
   tokenSymbol: string
-  holderPercentage: number
   primaryColor: string
   secondaryColor: string
   isLive: boolean
@@ -11,16 +14,18 @@ interface LivestreamPanelProps {
 }
 
 export function LivestreamPanel({
+  tokenAddress,
   tokenSymbol,
-  holderPercentage,
   primaryColor,
   secondaryColor,
   isLive,
   streamerAddress,
 }: LivestreamPanelProps) {
-  const { isConnected } = useAccount()
+  const { address, isConnected } = useAccount()
   const [isStreaming, setIsStreaming] = useState(false)
-  const canStream = holderPercentage >= 1.0
+  // Streaming is gated like voice chat
+  const access = useChatAccess(isAddress(tokenAddress) ? tokenAddress : undefined, address)
+  const canStream = access.voiceChat.allowed
 
   const handleStartStream = () => {
     if (!canStream) return
@@ -179,7 +184,7 @@ export function LivestreamPanel({
                   fontSize: '14px',
                 }}
               >
-                {streamerAddress.slice(0, 6)}...{streamerAddress.slice(-4)} is streaming
+                {shortAddress(streamerAddress)} is streaming
               </span>
             </div>
           </>
@@ -378,7 +383,7 @@ export function LivestreamPanel({
                     color: '#b8860b',
                   }}
                 >
-                  You hold {holderPercentage.toFixed(2)}% (need 1%+)
+                  You hold {access.holderPercentage.toFixed(2)}% - {access.voiceChat.reason}
                 </span>
               </div>
             )}
@@ -1,42 +1,139 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { useAccount } from 'wagmi'
+import { isAddress } from 'viem'
+import { useTokenChat, messageByteLength, type ChatMessage, type ChatMessageStatus } from '../hooks/useTokenChat'
+import {
+  useSuperChatTier,
+  usePinnedSuperChats,
+  getSuperChatTier,
+  parseTipAmount,
+  formatTipAmount,
+  formatPinDuration,
+} from '../hooks/useSuperChat'
+import { usePumpFudToken } from '../hooks/usePumpFud'
+import { useChatAccess } from '../hooks/useChatAccess'
+import { useModeration } from '../hooks/useModeration'
+import { profilePath } from '../hooks/useProfile'
+import { ContextMenu } from './ui/ContextMenu'
+import { ProfileName } from './ui/ProfileName'
+import { TokenRolesProvider } from '../context/TokenRolesContext'
+import { shortAddress } from '../utils/identity'
 
 interface BoardMessage {
   id: string
-  address: string
+  sender: `0x${string}`
   message: string
   timestamp: number
   likes: number
   replies: BoardMessage[]
+  status: ChatMessageStatus
+  error?: string
+  isMuted: boolean // Only ever true for moderators - everyone else never sees muted users
   isSuperChat?: boolean
-  superChatAmount?: number
+  superChatLabel?: string
   superChatColor?: string
 }
 
 interface MessageBoardProps {
+  tokenAddress: string
   tokenSymbol: string
-  holderPercentage: number
   primaryColor: string
   secondaryColor: string
 }
 
+// Quick picks sit on the contract's tier thresholds
+const TOKEN_TIP_PRESETS = [1000, 10000, 100000, 1000000]
+const PLS_TIP_PRESETS = [100, 1000, 10000, 100000]
+
+// Replies are plain board messages that quote their parent's on-chain id: ">>42 text"
+const REPLY_PATTERN = /^>>(\d+) /
+
+function parseReply(content: string): { parentId: string | null; text: string } {
+  const match = content.match(REPLY_PATTERN)
+  return match ? { parentId: match[1], text: content.slice(match[0].length) } : { parentId: null, text: content }
+}
+
 export function MessageBoard({
+  tokenAddress,
   tokenSymbol,
-  holderPercentage,
   primaryColor,
   secondaryColor,
 }: MessageBoardProps) {
+  const navigate = useNavigate()
   const { address, isConnected } = useAccount()
-  const [messages, setMessages] = useState<BoardMessage[]>([])
+  const validToken = isAddress(tokenAddress) ? tokenAddress : undefined
+  const chat = useTokenChat(validToken)
+  const pinned = usePinnedSuperChats(validToken)
+  // Super chats tip the token's creator
+  const { token } = usePumpFudToken(validToken)
+  // Likes are local to this session until they have on-chain backing
+  const [likes, setLikes] = useState<Record<string, number>>({})
   const [newMessage, setNewMessage] = useState('')
   const [replyingTo, setReplyingTo] = useState<string | null>(null)
   const [replyText, setReplyText] = useState('')
   const [showSuperChat, setShowSuperChat] = useState(false)
   const [superChatAmount, setSuperChatAmount] = useState('')
+  const [tipInPls, setTipInPls] = useState(false)
   const [sortBy, setSortBy] = useState<'recent' | 'popular'>('recent')
-
-  const canPost = holderPercentage >= 0.5
-  const canSuperChat = holderPercentage >= 0.5
+  const [now, setNow] = useState(() => Date.now())
+  const [menu, setMenu] = useState<{ x: number; y: number; sender: `0x${string}` } | null>(null)
+  const closeMenu = useCallback(() => setMenu(null), [])
+
+  // Keep relative timestamps fresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const access = useChatAccess(validToken, address)
+  const moderation = useModeration(validToken, address)
+  const { canModerate, isMuted } = moderation
+
+  const canPost = access.messageBoard.allowed
+  const canSuperChat = canPost && access.superChat.allowed
+
+  const tipAmount = parseTipAmount(superChatAmount)
+  const preview = useSuperChatTier(tipAmount, tipInPls)
+  const recipient = token?.creator
+  const moderatorAddresses = useMemo(() => moderation.moderators.map(m => m.user), [moderation.moderators])
+  const isOwnToken = !!recipient && !!address && recipient.toLowerCase() === address.toLowerCase()
+  const tipUnit = tipInPls ? 'PLS' : tokenSymbol
+
+  // Thread on-chain messages: replies hang off the parent they quote when it is loaded
+  const messages = useMemo(() => {
+    const toBoardMessage = (m: ChatMessage, text: string): BoardMessage => ({
+      id: m.id,
+      sender: m.sender,
+      message: text,
+      timestamp: m.timestamp * 1000,
+      likes: likes[m.id] ?? 0,
+      replies: [],
+      status: m.status,
+    error: m.error,
+      isMuted: isMuted(m.sender),
+      isSuperChat: m.kind === 'superchat',
+      superChatLabel: m.tip ? `${getSuperChatTier(m.tip.tier).name} - ${formatTipAmount(m.tip, tokenSymbol)}` : undefined,
+      superChatColor: getSuperChatTier(m.tip?.tier ?? 0).color,
+    })
+
+    const threads = new Map<string, BoardMessage>()
+    const topLevel: BoardMessage[] = []
+    for (const m of chat.messages) {
+      // Muted users stay visible to moderators so they can review and unmute them
+      if (!canModerate && isMuted(m.sender)) continue
+      const { parentId, text } = parseReply(m.content)
+      const parent = parentId ? threads.get(parentId) : undefined
+      const msg = toBoardMessage(m, text)
+      if (parent) {
+        parent.replies.push(msg)
+      } else {
+        threads.set(m.id, msg)
+        topLevel.push(msg)
+      }
+    }
+    return topLevel
+  }, [chat.messages, likes, tokenSymbol, canModerate, isMuted])
 
   const sortedMessages = useMemo(() => {
     const sorted = [...messages]
@@ -48,93 +145,43 @@ export function MessageBoard({
     return sorted
   }, [messages, sortBy])
 
-  const handlePost = () => {
-    if (!newMessage.trim() || !canPost || !isConnected) return
-
-    const msg: BoardMessage = {
-      id: Date.now().toString(),
-      address: address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '0x????...????',
-      message: newMessage,
-      timestamp: Date.now(),
-      likes: 0,
-      replies: [],
-    }
+  const postBytes = messageByteLength(newMessage.trim())
+  const isPostTooLong = postBytes > chat.maxMessageBytes
 
-    setMessages((prev) => [msg, ...prev])
+  const handlePost = () => {
+    if (!newMessage.trim() || isPostTooLong || !canPost || !isConnected) return
+    chat.send(newMessage.trim())
     setNewMessage('')
   }
 
-  const handleSuperChatPost = () => {
-    if (!newMessage.trim() || !superChatAmount || !canSuperChat || !isConnected) return
-
-    const amount = parseFloat(superChatAmount)
-    let color = '#22c55e'
-    if (amount >= 5000) color = '#a855f7'
-    if (amount >= 10000) color = '#ffd700'
-
-    const msg: BoardMessage = {
-      id: Date.now().toString(),
-      address: address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '0x????...????',
-      message: newMessage,
-      timestamp: Date.now(),
-      likes: 0,
-      replies: [],
-      isSuperChat: true,
-      superChatAmount: amount,
-      superChatColor: color,
-    }
+  const superChatDisabled = !newMessage.trim() || isPostTooLong || !tipAmount || !recipient || isOwnToken
 
-    setMessages((prev) => [msg, ...prev])
+  const handleSuperChatPost = () => {
+    if (superChatDisabled || !tipAmount || !recipient || !canSuperChat || !isConnected) return
+    chat.send(newMessage.trim(), { recipient, amount: tipAmount, tier: preview.tier ?? 0, isPLS: tipInPls })
     setNewMessage('')
     setSuperChatAmount('')
     setShowSuperChat(false)
   }
 
-  const handleReply = (parentId: string) => {
-    if (!replyText.trim() || !canPost || !isConnected) return
-
-    const reply: BoardMessage = {
-      id: `${parentId}-${Date.now()}`,
-      address: address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '0x????...????',
-      message: replyText,
-      timestamp: Date.now(),
-      likes: 0,
-      replies: [],
-    }
+  // The quote prefix counts toward the contract's byte limit
+  const replyContent = (parentId: string) => `>>${parentId} ${replyText.trim()}`
+  const isReplyTooLong = replyingTo !== null && messageByteLength(replyContent(replyingTo)) > chat.maxMessageBytes
 
-    setMessages((prev) =>
-      prev.map((msg) => {
-        if (msg.id === parentId) {
-          return { ...msg, replies: [...msg.replies, reply] }
-        }
-        return msg
-      })
-    )
+  const handleReply = (parentId: string) => {
+    if (!replyText.trim() || isReplyTooLong || !canPost || !isConnected) return
+    const content = replyContent(parentId)
+    chat.send(content)
     setReplyText('')
     setReplyingTo(null)
   }
 
   const handleLike = (messageId: string) => {
-    setMessages((prev) =>
-      prev.map((msg) => {
-        if (msg.id === messageId) {
-          return { ...msg, likes: msg.likes + 1 }
-        }
-        if (msg.replies.some((r) => r.id === messageId)) {
-          return {
-            ...msg,
-            replies: msg.replies.map((r) =>
-              r.id === messageId ? { ...r, likes: r.likes + 1 } : r
-            ),
-          }
-        }
-        return msg
-      })
-    )
+    setLikes((prev) => ({ ...prev, [messageId]: (prev[messageId] ?? 0) + 1 }))
   }
 
   const formatTimeAgo = (timestamp: number) => {
-    const diff = Date.now() - timestamp
+    const diff = now - timestamp
     const minutes = Math.floor(diff / 60000)
     const hours = Math.floor(diff / 3600000)
     const days = Math.floor(diff / 86400000)
@@ -161,7 +208,12 @@ export function MessageBoard({
           : `1px solid ${primaryColor}15`,
         marginLeft: isReply ? '24px' : 0,
         marginTop: isReply ? '8px' : 0,
+        opacity: msg.status === 'pending' || msg.isMuted ? 0.55 : 1,
       }}
+      onContextMenu={canModerate && msg.status === 'confirmed' ? (e) => {
+        e.preventDefault()
+        setMenu({ x: e.clientX, y: e.clientY, sender: msg.sender })
+      } : undefined}
     >
       {msg.isSuperChat && (
         <div
@@ -184,7 +236,7 @@ export function MessageBoard({
               textTransform: 'uppercase',
             }}
           >
-            Super Chat - {msg.superChatAmount?.toLocaleString()} {tokenSymbol}
+            Super Chat{msg.superChatLabel ? ` - ${msg.superChatLabel}` : ''}
           </span>
         </div>
       )}
@@ -220,7 +272,7 @@ export function MessageBoard({
               fontWeight: 600,
             }}
           >
-            {msg.address}
+            <ProfileName address={msg.sender} />
           </span>
           <span
             style={{
@@ -230,8 +282,24 @@ export function MessageBoard({
               marginLeft: '10px',
             }}
           >
-            {formatTimeAgo(msg.timestamp)}
+            {msg.status === 'pending' ? 'posting...' : formatTimeAgo(msg.timestamp)}
           </span>
+          {msg.isMuted && (
+            <span
+              style={{
+                fontFamily: 'monospace',
+                fontSize: '9px',
+                color: '#ef4444',
+                marginLeft: '8px',
+                padding: '1px 6px',
+                border: '1px solid rgba(239,68,68,0.4)',
+                borderRadius: '4px',
+                textTransform: 'uppercase',
+              }}
+            >
+              muted
+            </span>
+          )}
         </div>
       </div>
 
@@ -246,61 +314,81 @@ export function MessageBoard({
         {msg.message}
       </p>
 
-      <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
-        <button
-          onClick={() => handleLike(msg.id)}
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '6px',
-            padding: '6px 12px',
-            backgroundColor: 'rgba(0,0,0,0.3)',
-            border: '1px solid rgba(255,255,255,0.1)',
-            borderRadius: '6px',
-            color: '#888',
-            fontSize: '12px',
-            cursor: 'pointer',
-            transition: 'all 0.2s ease',
-          }}
-        >
-          <span>👍</span>
-          <span style={{ fontFamily: 'monospace' }}>{msg.likes}</span>
-        </button>
+      {msg.status === 'failed' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '11px' }}>
+          <span style={{ color: '#ef4444', fontFamily: 'monospace' }}>Not posted{msg.error && `: ${msg.error}`}</span>
+          <button
+            onClick={() => chat.retry(msg.id)}
+            style={{ background: 'none', border: 'none', color: primaryColor, fontSize: '11px', cursor: 'pointer', padding: 0 }}
+          >
+            Retry
+          </button>
+          <button
+            onClick={() => chat.dismiss(msg.id)}
+            style={{ background: 'none', border: 'none', color: '#666', fontSize: '11px', cursor: 'pointer', padding: 0 }}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
 
-        {!isReply && canPost && (
+      {msg.status === 'confirmed' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
           <button
-            onClick={() => setReplyingTo(replyingTo === msg.id ? null : msg.id)}
+            onClick={() => handleLike(msg.id)}
             style={{
               display: 'flex',
               alignItems: 'center',
               gap: '6px',
               padding: '6px 12px',
-              backgroundColor: replyingTo === msg.id ? `${primaryColor}20` : 'rgba(0,0,0,0.3)',
-              border: `1px solid ${replyingTo === msg.id ? primaryColor : 'rgba(255,255,255,0.1)'}`,
+              backgroundColor: 'rgba(0,0,0,0.3)',
+              border: '1px solid rgba(255,255,255,0.1)',
               borderRadius: '6px',
-              color: replyingTo === msg.id ? primaryColor : '#888',
+              color: '#888',
               fontSize: '12px',
               cursor: 'pointer',
               transition: 'all 0.2s ease',
             }}
           >
-            <span>💬</span>
-            <span>Reply</span>
+            <span>👍</span>
+            <span style={{ fontFamily: 'monospace' }}>{msg.likes}</span>
           </button>
-        )}
 
-        {!isReply && msg.replies.length > 0 && (
-          <span
-            style={{
-              fontFamily: 'monospace',
-              fontSize: '11px',
-              color: '#666',
-            }}
-          >
-            {msg.replies.length} {msg.replies.length === 1 ? 'reply' : 'replies'}
-          </span>
-        )}
-      </div>
+          {!isReply && canPost && (
+            <button
+              onClick={() => setReplyingTo(replyingTo === msg.id ? null : msg.id)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '6px 12px',
+                backgroundColor: replyingTo === msg.id ? `${primaryColor}20` : 'rgba(0,0,0,0.3)',
+                border: `1px solid ${replyingTo === msg.id ? primaryColor : 'rgba(255,255,255,0.1)'}`,
+                borderRadius: '6px',
+                color: replyingTo === msg.id ? primaryColor : '#888',
+                fontSize: '12px',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+              }}
+            >
+              <span>💬</span>
+              <span>Reply</span>
+            </button>
+          )}
+
+          {!isReply && msg.replies.length > 0 && (
+            <span
+              style={{
+                fontFamily: 'monospace',
+                fontSize: '11px',
+                color: '#666',
+              }}
+            >
+              {msg.replies.length} {msg.replies.length === 1 ? 'reply' : 'replies'}
+            </span>
+          )}
+        </div>
+      )}
 
       {/* Reply Input */}
       {replyingTo === msg.id && (
@@ -324,11 +412,11 @@ export function MessageBoard({
           />
           <button
             onClick={() => handleReply(msg.id)}
-            disabled={!replyText.trim()}
+            disabled={!replyText.trim() || isReplyTooLong}
             style={{
               padding: '10px 16px',
               borderRadius: '8px',
-              background: !replyText.trim()
+              background: !replyText.trim() || isReplyTooLong
                 ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                 : `linear-gradient(135deg, ${primaryColor} 0%, ${secondaryColor} 100%)`,
               border: 'none',
@@ -337,7 +425,7 @@ export function MessageBoard({
               fontWeight: 600,
               fontSize: '11px',
               letterSpacing: '0.05em',
-              cursor: !replyText.trim() ? 'not-allowed' : 'pointer',
+              cursor: !replyText.trim() || isReplyTooLong ? 'not-allowed' : 'pointer',
               textTransform: 'uppercase',
             }}
           >
@@ -427,6 +515,56 @@ export function MessageBoard({
         </div>
       </div>
 
+      <TokenRolesProvider creator={recipient} moderators={moderatorAddresses}>
+        {/* Pinned Super Chats */}
+        {pinned.length > 0 && (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '8px',
+              padding: '12px 20px',
+              borderBottom: `1px solid ${primaryColor}10`,
+            }}
+          >
+            {pinned.map((sc) => {
+              const tier = getSuperChatTier(sc.tip.tier)
+              return (
+                <div
+                  key={sc.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '10px',
+                    padding: '8px 12px',
+                    borderRadius: '8px',
+                    backgroundColor: `${tier.color}15`,
+                    border: `1px solid ${tier.color}50`,
+                  }}
+                >
+                  <span style={{ fontSize: '12px' }}>📌</span>
+                  <span style={{ fontFamily: 'monospace', fontSize: '11px', color: tier.color, flexShrink: 0 }}>
+                    <ProfileName address={sc.sender} avatarSize={0} /> - {formatTipAmount(sc.tip, tokenSymbol)}
+                  </span>
+                  <span
+                    style={{
+                      flex: 1,
+                      fontSize: '13px',
+                      color: '#e8e8e8',
+                      whiteSpace: 'nowrap',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                    }}
+                  >
+                    {sc.content}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </TokenRolesProvider>
+
       {/* Post Input */}
       <div style={{ padding: '16px 20px', borderBottom: `1px solid ${primaryColor}10` }}>
         {canPost && isConnected ? (
@@ -478,12 +616,36 @@ export function MessageBoard({
                       textTransform: 'uppercase',
                     }}
                   >
-                    Super Chat Post - Pay {tokenSymbol} to highlight
+                    Super Chat Post - Tip the creator to highlight
                   </span>
                 </div>
 
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '10px' }}>
+                  {[false, true].map((pls) => (
+                    <button
+                      key={pls ? 'pls' : 'token'}
+                      onClick={() => {
+                        setTipInPls(pls)
+                        setSuperChatAmount('')
+                      }}
+                      style={{
+                        padding: '6px 14px',
+                        borderRadius: '6px',
+                        backgroundColor: tipInPls === pls ? 'rgba(168,85,247,0.3)' : 'rgba(0,0,0,0.3)',
+                        border: `1px solid ${tipInPls === pls ? '#a855f7' : 'rgba(139,92,246,0.2)'}`,
+                        color: tipInPls === pls ? '#a855f7' : '#888',
+                        fontFamily: 'monospace',
+                        fontSize: '12px',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {pls ? 'PLS' : tokenSymbol}
+                    </button>
+                  ))}
+                </div>
+
                 <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
-                  {[500, 1000, 5000, 10000].map((amount) => (
+                  {(tipInPls ? PLS_TIP_PRESETS : TOKEN_TIP_PRESETS).map((amount) => (
                     <button
                       key={amount}
                       onClick={() => setSuperChatAmount(amount.toString())}
@@ -505,7 +667,7 @@ export function MessageBoard({
                         cursor: 'pointer',
                       }}
                     >
-                      {amount >= 1000 ? `${amount / 1000}K` : amount} {tokenSymbol}
+                      {amount >= 1000000 ? `${amount / 1000000}M` : amount >= 1000 ? `${amount / 1000}K` : amount} {tipUnit}
                     </button>
                   ))}
                   <input
@@ -526,6 +688,20 @@ export function MessageBoard({
                     }}
                   />
                 </div>
+
+                <div style={{ marginTop: '10px', fontFamily: 'monospace', fontSize: '11px', color: '#888' }}>
+                  {isOwnToken ? (
+                    <span style={{ color: '#ef4444' }}>You can't tip your own token</span>
+                  ) : preview.style ? (
+                    <>
+                      <span style={{ color: preview.style.color }}>{preview.style.name}</span>
+                      {preview.style.pinSeconds > 0 ? ` - pinned ${formatPinDuration(preview.style.pinSeconds)}` : ' - not pinned'}
+                      {recipient && ` - to creator ${shortAddress(recipient)}`}
+                    </>
+                  ) : (
+                    'Enter an amount to preview the tier'
+                  )}
+                </div>
               </div>
             )}
 
@@ -577,12 +753,12 @@ export function MessageBoard({
                   </button>
                   <button
                     onClick={handleSuperChatPost}
-                    disabled={!newMessage.trim() || !superChatAmount}
+                    disabled={superChatDisabled}
                     style={{
                       padding: '10px 20px',
                       borderRadius: '8px',
                       background:
-                        !newMessage.trim() || !superChatAmount
+                        superChatDisabled
                           ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                           : 'linear-gradient(135deg, #7c3aed 0%, #a855f7 100%)',
                       border: 'none',
@@ -591,7 +767,7 @@ export function MessageBoard({
                       fontWeight: 600,
                       fontSize: '11px',
                       letterSpacing: '0.05em',
-                      cursor: !newMessage.trim() || !superChatAmount ? 'not-allowed' : 'pointer',
+                      cursor: superChatDisabled ? 'not-allowed' : 'pointer',
                       textTransform: 'uppercase',
                     }}
                   >
@@ -601,11 +777,11 @@ export function MessageBoard({
               ) : (
                 <button
                   onClick={handlePost}
-                  disabled={!newMessage.trim()}
+                  disabled={!newMessage.trim() || isPostTooLong}
                   style={{
                     padding: '10px 20px',
                     borderRadius: '8px',
-                    background: !newMessage.trim()
+                    background: !newMessage.trim() || isPostTooLong
                       ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                       : `linear-gradient(135deg, ${primaryColor} 0%, ${secondaryColor} 100%)`,
                     border: 'none',
@@ -614,11 +790,11 @@ export function MessageBoard({
                     fontWeight: 600,
                     fontSize: '11px',
                     letterSpacing: '0.05em',
-                    cursor: !newMessage.trim() ? 'not-allowed' : 'pointer',
+                    cursor: !newMessage.trim() || isPostTooLong ? 'not-allowed' : 'pointer',
                     textTransform: 'uppercase',
                   }}
                 >
-                  Post
+                  {isPostTooLong ? `${chat.maxMessageBytes - postBytes} bytes` : 'Post'}
                 </button>
               )}
             </div>
@@ -666,42 +842,84 @@ export function MessageBoard({
                 color: '#b8860b',
               }}
             >
-              Hold 0.5%+ of {tokenSymbol} to post
+              {access.messageBoard.reason}
             </span>
           </div>
         )}
       </div>
 
-      {/* Messages List */}
-      <div
-        style={{
-          padding: '16px 20px',
-          display: 'flex',
-          flexDirection: 'column',
-          gap: '12px',
-          maxHeight: '600px',
-          overflowY: 'auto',
-        }}
-      >
-        {sortedMessages.length > 0 ? (
-          sortedMessages.map((msg) => renderMessage(msg))
-        ) : (
-          <div
-            style={{
-              padding: '40px 20px',
-              textAlign: 'center',
-              color: '#666',
-            }}
-          >
-            <span style={{ fontSize: '32px', display: 'block', marginBottom: '12px', opacity: 0.4 }}>
-              📋
-            </span>
-            <p style={{ fontFamily: 'Cinzel, serif', fontSize: '13px' }}>
-              No messages yet. Be the first to post!
-            </p>
-          </div>
-        )}
-      </div>
+      <TokenRolesProvider creator={recipient} moderators={moderatorAddresses}>
+        {/* Messages List */}
+        <div
+          style={{
+            padding: '16px 20px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '12px',
+            maxHeight: '600px',
+            overflowY: 'auto',
+          }}
+        >
+          {chat.isLoading ? (
+            <div style={{ padding: '40px 20px', textAlign: 'center', color: '#666', fontFamily: 'Cinzel, serif', fontSize: '13px' }}>
+              Loading messages...
+            </div>
+          ) : sortedMessages.length > 0 ? (
+            <>
+              {sortedMessages.map((msg) => renderMessage(msg))}
+              {chat.hasOlder && (
+                <button
+                  onClick={chat.loadOlder}
+                  disabled={chat.isLoadingOlder}
+                  style={{
+                    padding: '10px',
+                    borderRadius: '8px',
+                    backgroundColor: 'rgba(0,0,0,0.3)',
+                    border: `1px solid ${primaryColor}20`,
+                    color: '#888',
+                    fontFamily: 'Cinzel, serif',
+                    fontSize: '11px',
+                    cursor: chat.isLoadingOlder ? 'wait' : 'pointer',
+                  }}
+                >
+                  {chat.isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+                </button>
+              )}
+            </>
+          ) : (
+            <div
+              style={{
+                padding: '40px 20px',
+                textAlign: 'center',
+                color: '#666',
+              }}
+            >
+              <span style={{ fontSize: '32px', display: 'block', marginBottom: '12px', opacity: 0.4 }}>
+                📋
+              </span>
+              <p style={{ fontFamily: 'Cinzel, serif', fontSize: '13px' }}>
+                No messages yet. Be the first to post!
+              </p>
+            </div>
+          )}
+        </div>
+      </TokenRolesProvider>
+
+      {menu && (
+        <ContextMenu
+          x={menu.x}
+          y={menu.y}
+          title={shortAddress(menu.sender)}
+          onClose={closeMenu}
+          items={[
+            isMuted(menu.sender)
+              ? { label: 'Unmute user', onSelect: () => moderation.unmute(menu.sender), disabled: moderation.pending !== null }
+              : { label: 'Mute user', onSelect: () => moderation.mute(menu.sender), danger: true, disabled: moderation.pending !== null },
+            { label: 'View profile', onSelect: () => navigate(profilePath(menu.sender)) },
+            { label: 'Copy address', onSelect: () => navigator.clipboard.writeText(menu.sender) },
+          ]}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,252 @@
+import { useState } from 'react'
+import { isAddress } from 'viem'
+import type { UseModerationReturn } from '../hooks/useModeration'
+import { shortAddress } from '../utils/identity'
+
+interface ModerationPanelProps {
+  moderation: UseModerationReturn
+  userAddress?: `0x${string}`
+  primaryColor: string
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+const sectionTitleStyle = {
+  fontFamily: 'Cinzel, serif',
+  fontSize: '11px',
+  color: '#888',
+  letterSpacing: '0.1em',
+  textTransform: 'uppercase' as const,
+  marginBottom: '8px',
+}
+
+const rowStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '8px',
+  padding: '6px 10px',
+  backgroundColor: 'rgba(0,0,0,0.3)',
+  borderRadius: '6px',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+}
+
+const inputStyle = {
+  flex: 1,
+  padding: '6px 10px',
+  backgroundColor: 'rgba(0,0,0,0.4)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: '6px',
+  color: '#fff',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+  outline: 'none',
+}
+
+/**
+ * Token creator / moderator console for PumpFudSuperChat: chat toggles, mutes and moderators.
+ * Only rendered for wallets where canModerate is true; controls needing more rights are hidden
+ */
+export function ModerationPanel({ moderation, userAddress, primaryColor }: ModerationPanelProps) {
+  const [muteInput, setMuteInput] = useState('')
+  const [moderatorInput, setModeratorInput] = useState('')
+  const { status, pending, canControl, isOwner } = moderation
+  const busy = pending !== null
+  const isHost = !!userAddress && status?.liveChatHost?.toLowerCase() === userAddress.toLowerCase()
+
+  const buttonStyle = (active = true, danger = false) => ({
+    padding: '5px 10px',
+    backgroundColor: danger ? 'rgba(239,68,68,0.15)' : active ? `${primaryColor}20` : 'rgba(0,0,0,0.3)',
+    border: `1px solid ${danger ? 'rgba(239,68,68,0.4)' : active ? `${primaryColor}60` : 'rgba(255,255,255,0.1)'}`,
+    borderRadius: '6px',
+    color: danger ? '#ef4444' : active ? primaryColor : '#888',
+    fontSize: '11px',
+    cursor: busy ? 'wait' : 'pointer',
+    opacity: busy ? 0.6 : 1,
+    whiteSpace: 'nowrap' as const,
+  })
+
+  const handleMute = async () => {
+    const target = muteInput.trim()
+    if (!isAddress(target) || busy) return
+    if (await moderation.mute(target)) setMuteInput('')
+  }
+
+  const handleAddModerator = async () => {
+    const target = moderatorInput.trim()
+    if (!isAddress(target) || busy) return
+    if (await moderation.addModerator(target)) setModeratorInput('')
+  }
+
+  return (
+    <div
+      style={{
+        height: '100%',
+        overflowY: 'auto',
+        padding: '14px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '16px',
+        color: '#e8e8e8',
+      }}
+    >
+      {status?.isShutdown && (
+        <div
+          style={{
+            padding: '10px 12px',
+            backgroundColor: 'rgba(239,68,68,0.12)',
+            border: '1px solid rgba(239,68,68,0.4)',
+            borderRadius: '8px',
+            fontSize: '12px',
+            color: '#ef4444',
+          }}
+        >
+          This dashboard is shut down - messages, tips and voice are disabled until the platform reopens it.
+        </div>
+      )}
+
+      {/* Chat status */}
+      <div>
+        <div style={sectionTitleStyle}>Chat</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          <div style={rowStyle}>
+            <span>Message board: {status ? (status.messageBoardActive ? 'open' : 'closed') : '...'}</span>
+            {canControl && status && (
+              <button
+                disabled={busy}
+                onClick={() => moderation.setMessageBoardActive(!status.messageBoardActive)}
+                style={buttonStyle(!status.messageBoardActive)}
+              >
+                {pending === 'toggleMessageBoard' ? 'Confirming...' : status.messageBoardActive ? 'Close' : 'Open'}
+              </button>
+            )}
+          </div>
+          <div style={rowStyle}>
+            <span>
+              Live chat: {!status ? '...' : status.liveChatActive
+                ? `live${status.liveChatHost ? ` - host ${shortAddress(status.liveChatHost)}` : ''} since ${formatDate(status.liveChatStartedAt)}`
+                : 'off'}
+            </span>
+            {status && (status.liveChatActive ? (canControl || isHost || isOwner) : canControl) && (
+              <button
+                disabled={busy}
+                onClick={() => (status.liveChatActive ? moderation.endLiveChat() : moderation.startLiveChat())}
+                style={buttonStyle(!status.liveChatActive)}
+              >
+                {pending === 'startLiveChat' || pending === 'endLiveChat'
+                  ? 'Confirming...'
+                  : status.liveChatActive ? 'End' : 'Go live'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Muted users */}
+      <div>
+        <div style={sectionTitleStyle}>Muted users ({moderation.muted.length})</div>
+        <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+          <input
+            type="text"
+            value={muteInput}
+            onChange={(e) => setMuteInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleMute()}
+            placeholder="0x... address to mute"
+            style={inputStyle}
+          />
+          <button
+            disabled={busy || !isAddress(muteInput.trim())}
+            onClick={handleMute}
+            style={buttonStyle(true, true)}
+          >
+            {pending === 'muteUser' ? 'Confirming...' : 'Mute'}
+          </button>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          {moderation.isSyncing && moderation.muted.length === 0 ? (
+            <div style={{ fontSize: '11px', color: '#666' }}>Loading mute history...</div>
+          ) : moderation.muted.length === 0 ? (
+            <div style={{ fontSize: '11px', color: '#666' }}>Nobody is muted</div>
+          ) : (
+            moderation.muted.map((m) => (
+              <div key={m.user} style={rowStyle}>
+                <span title={m.user}>
+                  {shortAddress(m.user)}
+                  <span style={{ color: '#555', marginLeft: '8px' }}>
+                    by {shortAddress(m.moderator)} · {formatDate(m.timestamp)}
+                  </span>
+                </span>
+                <button disabled={busy} onClick={() => moderation.unmute(m.user)} style={buttonStyle()}>
+                  Unmute
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Moderators */}
+      <div>
+        <div style={sectionTitleStyle}>Moderators ({moderation.moderators.length})</div>
+        {canControl && (
+          <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+            <input
+              type="text"
+              value={moderatorInput}
+              onChange={(e) => setModeratorInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddModerator()}
+              placeholder="0x... address to promote"
+              style={inputStyle}
+            />
+            <button
+              disabled={busy || !isAddress(moderatorInput.trim())}
+              onClick={handleAddModerator}
+              style={buttonStyle()}
+            >
+              {pending === 'addModerator' ? 'Confirming...' : 'Add'}
+            </button>
+          </div>
+        )}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          {moderation.moderators.length === 0 ? (
+            <div style={{ fontSize: '11px', color: '#666' }}>
+              {moderation.isSyncing ? 'Loading moderators...' : 'No moderators appointed'}
+            </div>
+          ) : (
+            moderation.moderators.map((m) => (
+              <div key={m.user} style={rowStyle}>
+                <span title={m.user}>
+                  {shortAddress(m.user)}
+                  <span style={{ color: '#555', marginLeft: '8px' }}>since {formatDate(m.timestamp)}</span>
+                </span>
+                {canControl && (
+                  <button disabled={busy} onClick={() => moderation.removeModerator(m.user)} style={buttonStyle(true, true)}>
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Platform admin */}
+      {isOwner && status && (
+        <div>
+          <div style={sectionTitleStyle}>Platform</div>
+          <button
+            disabled={busy}
+            onClick={() => (status.isShutdown ? moderation.reopen() : moderation.shutdown())}
+            style={buttonStyle(true, !status.isShutdown)}
+          >
+            {pending === 'shutdownDashboard' || pending === 'reopenDashboard'
+              ? 'Confirming...'
+              : status.isShutdown ? 'Reopen dashboard' : 'Shut down dashboard'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
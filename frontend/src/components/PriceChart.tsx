@@ -2,66 +2,45 @@ import { useEffect, useRef, useMemo } from 'react'
 import { createChart, ColorType, AreaSeries } from 'lightweight-charts'
 import type { IChartApi, ISeriesApi, AreaData, Time } from 'lightweight-charts'
 import { formatEther } from 'viem'
+import { useTokenTrades } from '../hooks/useTokenTrades'
+import { useCurveParams } from '../hooks/usePumpFud'
+import { getCurvePrice, priceToNumber } from '../utils/curve'
 
 interface PriceChartProps {
-  tokenAddress: string
+  tokenAddress: string | undefined
   reserveBalance: bigint
   tokensSold: bigint
-  launchTime: number
   themeColor: string
 }
 
-export function PriceChart({ reserveBalance, tokensSold, launchTime, themeColor }: PriceChartProps) {
+export function PriceChart({ tokenAddress, reserveBalance, tokensSold, themeColor }: PriceChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null)
   const chartRef = useRef<IChartApi | null>(null)
   const seriesRef = useRef<ISeriesApi<'Area'> | null>(null)
 
+  const { trades } = useTokenTrades(tokenAddress)
+
+  // One point per second - the chart needs strictly increasing times, so the last trade in a second wins
   const chartData = useMemo(() => {
     const data: AreaData<Time>[] = []
-    const now = Math.floor(Date.now() / 1000)
-    const startTime = launchTime > 0 ? launchTime : now - 3600
-
-    const INITIAL_PRICE = 0.00001
-    const CURVE_STEEPNESS = 0.000001
-
-    if (!tokensSold || tokensSold === 0n) {
-      const interval = Math.max(1, (now - startTime) / 50)
-      for (let i = 0; i <= 50; i++) {
-        const time = startTime + Math.floor(interval * i)
-        data.push({
-          time: time as Time,
-          value: INITIAL_PRICE,
-        })
+    for (const trade of trades) {
+      const last = data[data.length - 1]
+      if (last && last.time === trade.timestamp) {
+        last.value = trade.price
+      } else {
+        data.push({ time: trade.timestamp as Time, value: trade.price })
       }
-      return data
-    }
-
-    const totalSold = Number(formatEther(tokensSold))
-    const steps = 50
-    const interval = Math.max(1, (now - startTime) / steps)
-
-    for (let i = 0; i <= steps; i++) {
-      const progress = i / steps
-      const soldAtPoint = totalSold * progress
-      const price = INITIAL_PRICE + (CURVE_STEEPNESS * soldAtPoint)
-      const time = startTime + Math.floor(interval * i)
-      data.push({
-        time: time as Time,
-        value: price,
-      })
     }
-
     return data
-  }, [tokensSold, launchTime])
+  }, [trades])
+
+  const curveParams = useCurveParams()
 
+  // Last traded price, falling back to the curve's spot price before the first trade
   const currentPrice = useMemo(() => {
-    if (!tokensSold || tokensSold === 0n) return 0.00001
-    if (!reserveBalance || reserveBalance === 0n) return 0.00001
-    const sold = Number(formatEther(tokensSold))
-    const reserve = Number(formatEther(reserveBalance))
-    if (sold === 0) return 0.00001
-    return reserve / sold
-  }, [reserveBalance, tokensSold])
+    if (trades.length > 0) return trades[trades.length - 1].price
+    return priceToNumber(getCurvePrice({ plsReserve: reserveBalance, tokensSold }, curveParams))
+  }, [trades, reserveBalance, tokensSold, curveParams])
 
   useEffect(() => {
     if (!chartContainerRef.current) return
@@ -1,20 +1,25 @@
 import { Link, useLocation } from 'react-router-dom'
 import { useAccount } from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
+import { profilePath } from '../hooks/useProfile'
 
 export function Sidebar() {
   const location = useLocation()
-  const { isConnected } = useAccount()
+  const { address, isConnected } = useAccount()
 
-  const isActive = (path: string) => location.pathname === path
+  // Sections with detail routes (/cults/:id) stay lit on their children
+  const isActive = (path: string) => location.pathname === path || (path !== '/' && location.pathname.startsWith(`${path}/`))
 
   const navItems = [
     { path: '/', icon: '🏰', label: 'Realm' },
     { path: '/livestreams', icon: '👁️', label: 'Visions' },
     { path: '/terminal', icon: '📜', label: 'Terminal' },
     { path: '/swap', icon: '✨', label: 'Token Swap' },
+    { path: '/cults', icon: '🕯️', label: 'Cults' },
+    { path: '/advertise', icon: '📣', label: 'Advertise' },
     { path: '/chat', icon: '💬', label: 'Whispers' },
     { path: '/support', icon: '🌟', label: 'Sanctuary' },
+    ...(address ? [{ path: profilePath(address), icon: '🎭', label: 'Profile' }] : []),
   ]
 
   return (
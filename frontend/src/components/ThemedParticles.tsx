@@ -0,0 +1,50 @@
+import { generateParticleCSS, type TokenTheme } from '../utils/themeGenerator'
+
+// Keyframes each particle type defines in generateParticleCSS ('void' has none)
+const PARTICLE_ANIMATIONS: Record<TokenTheme['particleType'], string | null> = {
+  embers: 'emberFloat',
+  snow: 'snowFall',
+  blood: 'bloodDrip',
+  void: null,
+  spirits: 'spiritFloat',
+  poison: 'poisonBubble',
+  gold: 'goldSparkle',
+  smoke: 'smokeRise',
+  stars: 'starTwinkle',
+  leaves: 'leafFall',
+}
+
+interface ThemedParticlesProps {
+  theme: TokenTheme
+  count?: number
+}
+
+/**
+ * The theme's particle drift, filling the nearest positioned ancestor
+ */
+export function ThemedParticles({ theme, count = 14 }: ThemedParticlesProps) {
+  const animation = PARTICLE_ANIMATIONS[theme.particleType]
+  if (!animation) return null
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, overflow: 'hidden', pointerEvents: 'none' }}>
+      <style>{generateParticleCSS(theme)}</style>
+      {Array.from({ length: count }, (_, i) => (
+        <span
+          key={i}
+          style={{
+            position: 'absolute',
+            left: `${(i * 37) % 100}%`,
+            top: `${(i * 53) % 100}%`,
+            width: i % 3 === 0 ? '4px' : '3px',
+            height: i % 3 === 0 ? '4px' : '3px',
+            borderRadius: '50%',
+            backgroundColor: i % 2 === 0 ? theme.primary : theme.accent,
+            boxShadow: `0 0 6px ${theme.glow}`,
+            animation: `${animation} ${4 + (i % 5)}s linear ${(i * 0.7) % 5}s infinite`,
+          }}
+        />
+      ))}
+    </div>
+  )
+}
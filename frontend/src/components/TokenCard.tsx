@@ -1,19 +1,29 @@
+import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
-import { useReadContract } from 'wagmi'
 import { formatEther } from 'viem'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
+import { usePumpFudToken } from '../hooks/usePumpFud'
+import { useGraduationProgress } from '../hooks/useGraduationProgress'
+import { useTokenTheme } from '../hooks/useTokenTheme'
+import { getTokenStreamUrl } from '../utils/tokenMetadata'
+import type { PumpFudToken } from '../utils/pumpFud'
+import { StoredImage } from './ui/StoredImage'
+import { ProfileName } from './ui/ProfileName'
 
 interface TokenCardProps {
   tokenAddress: `0x${string}`
 }
 
 export function TokenCard({ tokenAddress }: TokenCardProps) {
-  const { data: tokenData } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'getTokenByAddress',
-    args: [tokenAddress],
-  })
+  const { token: tokenData } = usePumpFudToken(tokenAddress)
+  const { progress, remaining } = useGraduationProgress(tokenData)
+  const theme = useTokenTheme(tokenData?.name ?? '', tokenData?.symbol ?? '', tokenData?.metadata.description ?? '', tokenData?.imageUri)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep the "new" badge honest as the card ages
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
 
   if (!tokenData) {
     return (
@@ -29,22 +39,45 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
     )
   }
 
-  const { creator, name, symbol, description, imageUri, reserveBalance, status, createdAt } = tokenData
-  const graduationThreshold = 50_000_000n * 10n ** 18n // 50M PLS
-  const progress = Number((reserveBalance * 100n) / graduationThreshold)
+  return (
+    <TokenCardView
+      token={tokenData}
+      progress={progress}
+      remaining={remaining}
+      accentColor={theme.primary}
+      isNew={now / 1000 - Number(tokenData.createdAt) < 3600} // Less than 1 hour old
+      linkTo={`/token/${tokenAddress}`}
+    />
+  )
+}
+
+interface TokenCardViewProps {
+  token: PumpFudToken
+  progress: number // 0-100
+  remaining: bigint // PLS to graduation
+  accentColor: string // Theme primary (hooks/useTokenTheme)
+  isNew: boolean
+  linkTo?: string // Omitted for previews of tokens that don't exist yet
+}
+
+/**
+ * Card body without the chain reads, so the launch preview can render a draft token
+ */
+export function TokenCardView({ token, progress, remaining, accentColor, isNew, linkTo }: TokenCardViewProps) {
+  const { creator, name, symbol, metadata, imageUri, reserveBalance, graduated: isGraduated } = token
+  const { description, tags } = metadata
+  const streamUrl = getTokenStreamUrl(metadata)
   const marketCap = Number(formatEther(reserveBalance))
-  const isGraduated = Number(status) === 1
-  const isNew = Date.now() / 1000 - Number(createdAt) < 3600 // Less than 1 hour old
 
-  return (
-    <Link to={`/token/${tokenAddress}`} className="token-card group">
+  const content = (
+    <>
       {/* Header */}
       <div className="p-4 border-b border-pump-dark-border/50">
         <div className="flex items-start gap-3">
           {/* Token Image */}
           <div className="relative">
             {imageUri ? (
-              <img
+              <StoredImage
                 src={imageUri}
                 alt={name}
                 className="w-14 h-14 rounded-xl object-cover ring-2 ring-pump-dark-border group-hover:ring-pump-green transition-all"
@@ -76,7 +109,7 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
                 </span>
               )}
             </div>
-            <p className="text-pump-green font-mono text-sm font-medium">${symbol}</p>
+            <p className="font-mono text-sm font-medium" style={{ color: accentColor }}>${symbol}</p>
           </div>
 
           {/* Status Badge */}
@@ -91,9 +124,23 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
       </div>
 
       {/* Description */}
-      {description && (
+      {(description || tags.length > 0 || streamUrl) && (
         <div className="px-4 py-3 border-b border-pump-dark-border/50">
-          <p className="text-sm text-pump-white-muted line-clamp-2 leading-relaxed">{description}</p>
+          {description && (
+            <p className="text-sm text-pump-white-muted line-clamp-2 leading-relaxed">{description}</p>
+          )}
+          {(tags.length > 0 || streamUrl) && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {streamUrl && (
+                <span className="px-2 py-0.5 text-[10px] font-bold bg-red-500/20 text-red-400 rounded-full">📺 STREAM</span>
+              )}
+              {tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 text-[10px] font-mono bg-pump-dark-lighter text-pump-white-muted rounded-full">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -102,7 +149,7 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
         {/* Market Cap */}
         <div className="flex justify-between items-center">
           <span className="text-pump-white-muted text-sm">Market Cap</span>
-          <span className="font-mono font-bold text-pump-green text-lg">
+          <span className="font-mono font-bold text-lg" style={{ color: accentColor }}>
             {marketCap.toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS
           </span>
         </div>
@@ -112,18 +159,18 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
           <div className="space-y-2">
             <div className="flex justify-between text-xs">
               <span className="text-pump-white-muted">Progress to Graduation</span>
-              <span className="text-pump-green font-mono font-bold">{Math.min(progress, 100).toFixed(1)}%</span>
+              <span className="font-mono font-bold" style={{ color: accentColor }}>{progress.toFixed(1)}%</span>
             </div>
             <div className="h-3 bg-pump-dark rounded-full overflow-hidden ring-1 ring-pump-dark-border">
               <div
                 className="progress-bar h-full relative"
-                style={{ width: `${Math.min(progress, 100)}%` }}
+                style={{ width: `${progress}%`, background: `linear-gradient(90deg, ${accentColor} 0%, ${accentColor}80 100%)` }}
               >
                 <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent animate-shimmer" />
               </div>
             </div>
             <div className="text-xs text-pump-dark-border text-center">
-              {(50_000_000 - marketCap).toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS to graduation
+              {Number(formatEther(remaining)).toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS to graduation
             </div>
           </div>
         )}
@@ -131,8 +178,8 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
         {/* Creator */}
         <div className="flex justify-between items-center text-xs">
           <span className="text-pump-white-muted">Creator</span>
-          <span className="text-pump-white font-mono">
-            {creator.slice(0, 6)}...{creator.slice(-4)}
+          <span className="text-pump-white font-mono min-w-0">
+            <ProfileName address={creator} avatarSize={14} link={false} />
           </span>
         </div>
       </div>
@@ -143,6 +190,10 @@ export function TokenCard({ tokenAddress }: TokenCardProps) {
           TRADE NOW
         </div>
       </div>
-    </Link>
+    </>
   )
+
+  return linkTo
+    ? <Link to={linkTo} className="token-card group">{content}</Link>
+    : <div className="token-card group">{content}</div>
 }
@@ -2,6 +2,8 @@ import { Link } from 'react-router-dom'
 import { useReadContract } from 'wagmi'
 import { formatEther } from 'viem'
 import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
+import { StoredImage } from './ui/StoredImage'
+import { ProfileName } from './ui/ProfileName'
 
 interface TokenCardGridProps {
   tokenAddress: `0x${string}`
@@ -44,7 +46,7 @@ export function TokenCardGrid({ tokenAddress }: TokenCardGridProps) {
         {/* Token Image */}
         <div className="relative">
           {imageUri ? (
-            <img
+            <StoredImage
               src={imageUri}
               alt={name}
               className="w-12 h-12 rounded-lg object-cover"
@@ -100,7 +102,7 @@ export function TokenCardGrid({ tokenAddress }: TokenCardGridProps) {
       {/* Creator */}
       <div className="flex items-center justify-between text-xs">
         <span className="text-pump-dark-border">
-          by {creator.slice(0, 6)}...{creator.slice(-4)}
+          by <ProfileName address={creator} avatarSize={12} link={false} />
         </span>
         {!isGraduated && (
           <span className="text-pump-green animate-pulse">● LIVE</span>
@@ -0,0 +1,79 @@
+import { StoredImage } from './ui/StoredImage'
+import type { TokenTheme } from '../utils/themeGenerator'
+
+export type TokenHeaderStatus = 'live' | 'graduated' | 'scheduled'
+
+const STATUS_BADGES: Record<TokenHeaderStatus, { label: string; color: string; background: string; border: string }> = {
+  live: { label: '🟢 Live', color: '#00ff00', background: 'rgba(0,255,0,0.2)', border: 'rgba(0,255,0,0.5)' },
+  graduated: { label: '🎓 Graduated', color: '#a855f7', background: 'rgba(168,85,247,0.2)', border: 'rgba(168,85,247,0.5)' },
+  scheduled: { label: '📺 Scheduled', color: '#ef4444', background: 'rgba(239,68,68,0.2)', border: 'rgba(239,68,68,0.5)' },
+}
+
+interface TokenHeaderIdentityProps {
+  name: string
+  symbol: string
+  imageUri: string
+  status: TokenHeaderStatus
+  theme: TokenTheme
+}
+
+/**
+ * Logo, name, symbol and status from the TokenDashboard header - the launch preview renders the same block
+ */
+export function TokenHeaderIdentity({ name, symbol, imageUri, status, theme }: TokenHeaderIdentityProps) {
+  const badge = STATUS_BADGES[status]
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '12px', minWidth: 0 }}>
+      <div style={{
+        width: '40px',
+        height: '40px',
+        borderRadius: '8px',
+        backgroundColor: '#252525',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        overflow: 'hidden',
+        border: `2px solid ${theme.primary}`,
+        boxShadow: `0 0 10px ${theme.shadowColor}`,
+        flexShrink: 0,
+      }}>
+        {imageUri ? (
+          <StoredImage src={imageUri} alt={symbol} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+        ) : (
+          <span style={{ fontSize: '22px' }}>{theme.emoji}</span>
+        )}
+      </div>
+      <div style={{ minWidth: 0 }}>
+        <div style={{
+          fontFamily: theme.titleFont,
+          fontSize: '16px',
+          fontWeight: 700,
+          color: '#fff',
+          whiteSpace: 'nowrap',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+        }}>
+          {name}
+        </div>
+        <div style={{ fontFamily: theme.accentFont, fontSize: '12px', color: theme.primary }}>
+          ${symbol}
+        </div>
+      </div>
+
+      {/* Status Badge */}
+      <div style={{
+        padding: '4px 10px',
+        borderRadius: '4px',
+        backgroundColor: badge.background,
+        border: `1px solid ${badge.border}`,
+        marginLeft: '8px',
+        flexShrink: 0,
+      }}>
+        <span style={{ fontSize: '11px', fontWeight: 700, color: badge.color }}>
+          {badge.label}
+        </span>
+      </div>
+    </div>
+  )
+}
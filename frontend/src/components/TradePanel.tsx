@@ -1,7 +1,13 @@
-import { useState, useEffect } from 'react'
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useBalance } from 'wagmi'
+import { useState } from 'react'
+import { useAccount, useReadContract, useBalance } from 'wagmi'
 import { parseEther, formatEther } from 'viem'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
+import { ACTIVE_PUMP_FUD_ADDRESS } from '../config/wagmi'
+import { usePumpFudToken, useBuyQuote, useSellQuote, usePumpFudWrite } from '../hooks/usePumpFud'
+import { useLimitOrders } from '../hooks/useLimitOrders'
+import { useTransactions } from '../hooks/useTransactions'
+import { useTradeSettings, applySlippage, formatPresetLabel } from '../hooks/useTradeSettings'
+import { LimitOrderForm, MyOrders } from './LimitOrders'
+import { TradeSettingsMenu } from './TradeSettingsMenu'
 
 // ERC20 ABI for token balance
 const ERC20_ABI = [
@@ -42,9 +48,9 @@ interface TradePanelProps {
 
 export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePanelProps) {
   const { address, isConnected } = useAccount()
-  const [mode, setMode] = useState<'buy' | 'sell'>('buy')
+  const [mode, setMode] = useState<'buy' | 'sell' | 'limit'>('buy')
   const [amount, setAmount] = useState('')
-  const [slippage, setSlippage] = useState(5) // 5% default
+  const { settings, update: updateSettings } = useTradeSettings()
 
   // PLS balance
   const { data: plsBalance } = useBalance({
@@ -60,91 +66,68 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
     query: { enabled: !!address },
   })
 
-  // Get token ID from address
-  const { data: tokenId } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'tokenToId',
-    args: [tokenAddress],
-  })
+  // Token on the active deployment (carries the legacy id when on v1)
+  const { token } = usePumpFudToken(tokenAddress)
+
+  // Limit orders for this token only
+  const limitOrders = useLimitOrders(address, tokenAddress)
 
   // Token allowance
-  const { data: allowance } = useReadContract({
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
     address: tokenAddress,
     abi: ERC20_ABI,
     functionName: 'allowance',
-    args: address ? [address, PUMP_FUD_ADDRESS] : undefined,
+    args: address ? [address, ACTIVE_PUMP_FUD_ADDRESS] : undefined,
     query: { enabled: !!address && mode === 'sell' },
   })
 
-  // Buy quote
-  const { data: buyQuote } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'calculateBuyAmount',
-    args: amount && mode === 'buy' && tokenId !== undefined ? [tokenId, parseEther(amount)] : undefined,
-    query: { enabled: !!amount && mode === 'buy' && Number(amount) > 0 && tokenId !== undefined },
-  })
+  const parsedAmount = amount && Number(amount) > 0 ? parseEther(amount) : undefined
 
-  // Sell quote
-  const { data: sellQuote } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'calculateSellAmount',
-    args: amount && mode === 'sell' && tokenId !== undefined ? [tokenId, parseEther(amount)] : undefined,
-    query: { enabled: !!amount && mode === 'sell' && Number(amount) > 0 && tokenId !== undefined },
-  })
+  // Quotes
+  const buyQuote = useBuyQuote(token ?? undefined, mode === 'buy' ? parsedAmount : undefined)
+  const sellQuote = useSellQuote(token ?? undefined, mode === 'sell' ? parsedAmount : undefined)
 
-  // Buy transaction
-  const { writeContract: buyTokens, data: buyHash, isPending: isBuying } = useWriteContract()
-  const { isLoading: isBuyConfirming, isSuccess: buyConfirmed } = useWaitForTransactionReceipt({ hash: buyHash })
+  // Buy, sell and approve go through the transaction manager, which shows their toasts
+  const { buy, sell, writeContractAsync } = usePumpFudWrite()
+  const { send } = useTransactions()
+  const [pendingAction, setPendingAction] = useState<'buy' | 'sell' | 'approve' | null>(null)
 
-  // Approve transaction
-  const { writeContract: approveTokens, data: approveHash, isPending: isApproving } = useWriteContract()
-  const { isLoading: isApproveConfirming } = useWaitForTransactionReceipt({ hash: approveHash })
-
-  // Sell transaction
-  const { writeContract: sellTokens, data: sellHash, isPending: isSelling } = useWriteContract()
-  const { isLoading: isSellConfirming, isSuccess: sellConfirmed } = useWaitForTransactionReceipt({ hash: sellHash })
-
-  // Reset amount after successful transaction
-  useEffect(() => {
-    if (buyConfirmed || sellConfirmed) {
-      setAmount('')
-    }
-  }, [buyConfirmed, sellConfirmed])
+  const runTransaction = async (
+    action: 'buy' | 'sell' | 'approve',
+    label: string,
+    execute: () => Promise<`0x${string}` | undefined>
+  ) => {
+    setPendingAction(action)
+    const receipt = await send({ label, execute })
+    setPendingAction(null)
+    if (!receipt) return
+    if (action === 'approve') refetchAllowance()
+    else setAmount('')
+  }
 
   const handleBuy = () => {
-    if (!amount || !buyQuote || tokenId === undefined) return
-    const minOut = (buyQuote * BigInt(100 - slippage)) / 100n
-    buyTokens({
-      address: PUMP_FUD_ADDRESS,
-      abi: PUMP_FUD_ABI,
-      functionName: 'buyTokens',
-      args: [tokenId, minOut],
-      value: parseEther(amount),
-    })
+    if (!amount || !buyQuote || !token) return
+    const minOut = applySlippage(buyQuote, settings.slippageBps)
+    const plsIn = parseEther(amount)
+    void runTransaction('buy', `Buy ${tokenSymbol}`, () => buy({ token, plsIn, minTokensOut: minOut }))
   }
 
   const handleApprove = () => {
     if (!amount) return
-    approveTokens({
+    const approveAmount = parseEther(amount)
+    void runTransaction('approve', `Approve ${tokenSymbol}`, () => writeContractAsync({
       address: tokenAddress,
       abi: ERC20_ABI,
       functionName: 'approve',
-      args: [PUMP_FUD_ADDRESS, parseEther(amount)],
-    })
+      args: [ACTIVE_PUMP_FUD_ADDRESS, approveAmount],
+    }))
   }
 
   const handleSell = () => {
-    if (!amount || !sellQuote || tokenId === undefined) return
-    const minOut = (sellQuote * BigInt(100 - slippage)) / 100n
-    sellTokens({
-      address: PUMP_FUD_ADDRESS,
-      abi: PUMP_FUD_ABI,
-      functionName: 'sellTokens',
-      args: [tokenId, parseEther(amount), minOut],
-    })
+    if (!amount || !sellQuote || !token) return
+    const minOut = applySlippage(sellQuote, settings.slippageBps)
+    const tokenAmount = parseEther(amount)
+    void runTransaction('sell', `Sell ${tokenSymbol}`, () => sell({ token, tokenAmount, minPlsOut: minOut }))
   }
 
   const needsApproval = mode === 'sell' && amount && allowance !== undefined && parseEther(amount) > allowance
@@ -159,8 +142,13 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
     }
   }
 
+  const setSellPercent = (pct: number) => {
+    if (!tokenBalance) return
+    setAmount(formatEther((tokenBalance * BigInt(pct)) / 100n))
+  }
+
   const quote = mode === 'buy' ? buyQuote : sellQuote
-  const isLoading = isBuying || isBuyConfirming || isApproving || isApproveConfirming || isSelling || isSellConfirming
+  const isLoading = pendingAction !== null
 
   if (isGraduated) {
     return (
@@ -206,8 +194,31 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
         >
           SELL
         </button>
+        <button
+          onClick={() => setMode('limit')}
+          className={`flex-1 py-4 font-display font-bold text-lg transition-all ${
+            mode === 'limit'
+              ? 'bg-tier-3/20 text-tier-3 border-b-2 border-tier-3'
+              : 'text-pump-white-muted hover:bg-pump-dark-lighter'
+          }`}
+        >
+          LIMIT
+        </button>
       </div>
 
+      {mode === 'limit' ? (
+        <div className="p-6 space-y-6">
+          <LimitOrderForm
+            orders={limitOrders}
+            tokenAddress={tokenAddress}
+            tokenSymbol={tokenSymbol}
+            isConnected={isConnected}
+          />
+          {isConnected && (
+            <MyOrders orders={limitOrders} tokenSymbols={{ [tokenAddress.toLowerCase()]: tokenSymbol }} />
+          )}
+        </div>
+      ) : (
       <div className="p-6 space-y-6">
         {/* Input */}
         <div className="space-y-2">
@@ -242,6 +253,28 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
               </span>
             </div>
           </div>
+          {/* Quick amounts from trade settings */}
+          <div className="flex gap-2">
+            {mode === 'buy'
+              ? settings.buyPresets.map((preset) => (
+                  <button
+                    key={preset}
+                    onClick={() => setAmount(preset)}
+                    className="flex-1 py-1 rounded-lg text-xs font-mono bg-pump-dark-lighter text-pump-white-muted hover:text-pump-green transition-colors"
+                  >
+                    {formatPresetLabel(preset)}
+                  </button>
+                ))
+              : settings.sellPresetsPct.map((pct) => (
+                  <button
+                    key={pct}
+                    onClick={() => setSellPercent(pct)}
+                    className="flex-1 py-1 rounded-lg text-xs font-mono bg-pump-dark-lighter text-pump-white-muted hover:text-tier-5 transition-colors"
+                  >
+                    {pct === 100 ? 'MAX' : `${pct}%`}
+                  </button>
+                ))}
+          </div>
         </div>
 
         {/* Arrow */}
@@ -269,13 +302,13 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
         {/* Slippage */}
         <div className="flex items-center justify-between">
           <span className="text-sm text-pump-white-muted">Slippage Tolerance</span>
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
             {[1, 3, 5, 10].map((s) => (
               <button
                 key={s}
-                onClick={() => setSlippage(s)}
+                onClick={() => updateSettings({ slippageBps: s * 100 })}
                 className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
-                  slippage === s
+                  settings.slippageBps === s * 100
                     ? 'bg-pump-green/20 text-pump-green'
                     : 'bg-pump-dark-lighter text-pump-white-muted hover:text-white'
                 }`}
@@ -283,6 +316,7 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
                 {s}%
               </button>
             ))}
+            <TradeSettingsMenu />
           </div>
         </div>
 
@@ -300,12 +334,12 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
             disabled={isLoading}
             className="w-full py-4 rounded-xl font-display font-bold text-lg bg-tier-3 text-pump-dark hover:opacity-90 disabled:opacity-50 transition-opacity"
           >
-            {isApproving || isApproveConfirming ? 'Approving...' : `Approve ${tokenSymbol}`}
+            {pendingAction === 'approve' ? 'Approving...' : `Approve ${tokenSymbol}`}
           </button>
         ) : (
           <button
             onClick={mode === 'buy' ? handleBuy : handleSell}
-            disabled={!amount || isLoading}
+            disabled={!amount || isLoading || !quote}
             className={`w-full py-4 rounded-xl font-display font-bold text-lg disabled:opacity-50 transition-all ${
               mode === 'buy'
                 ? 'gradient-button text-pump-dark'
@@ -314,25 +348,16 @@ export function TradePanel({ tokenAddress, tokenSymbol, isGraduated }: TradePane
           >
             {isLoading
               ? 'Processing...'
+              : amount && !quote
+              ? 'Getting quote...'
               : mode === 'buy'
               ? `Buy ${tokenSymbol}`
               : `Sell ${tokenSymbol}`
             }
           </button>
         )}
-
-        {/* Success Messages */}
-        {buyConfirmed && (
-          <div className="text-center text-pump-green text-sm">
-            Purchase successful!
-          </div>
-        )}
-        {sellConfirmed && (
-          <div className="text-center text-tier-5 text-sm">
-            Sale successful!
-          </div>
-        )}
       </div>
+      )}
     </div>
   )
 }
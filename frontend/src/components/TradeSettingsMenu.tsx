@@ -0,0 +1,184 @@
+import { useState, useEffect, useRef } from 'react'
+import { useTradeSettings, MAX_SLIPPAGE_BPS, MIN_QUOTE_AGE_SECONDS } from '../hooks/useTradeSettings'
+
+const SLIPPAGE_PRESETS_BPS = [50, 100, 300, 500]
+// Above this most of the tolerance is a gift to whoever trades ahead of you
+const HIGH_SLIPPAGE_BPS = 1000
+
+// "100, 500, 1000" -> ['100', '500', '1000'], dropping anything that is not a positive number
+function parsePresetList(value: string): string[] {
+  return value
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '' && Number.isFinite(Number(part)) && Number(part) > 0)
+}
+
+/**
+ * ⚙️ button with a popover for the per-wallet trade settings - slippage, max quote age and one-click presets
+ */
+export function TradeSettingsMenu() {
+  const { settings, update, reset } = useTradeSettings()
+  const { slippageBps, maxQuoteAgeSeconds, buyPresets, sellPresetsPct } = settings
+  const [isOpen, setIsOpen] = useState(false)
+  const [customSlippage, setCustomSlippage] = useState('')
+  const [buyPresetInput, setBuyPresetInput] = useState('')
+  const [sellPresetInput, setSellPresetInput] = useState('')
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    document.addEventListener('keydown', handleKey)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [isOpen])
+
+  const open = () => {
+    setBuyPresetInput(buyPresets.join(', '))
+    setSellPresetInput(sellPresetsPct.join(', '))
+    setIsOpen(true)
+  }
+
+  const handleCustomSlippage = (value: string) => {
+    setCustomSlippage(value)
+    const percent = Number(value)
+    if (value && Number.isFinite(percent) && percent > 0) {
+      update({ slippageBps: Math.min(Math.round(percent * 100), MAX_SLIPPAGE_BPS) })
+    }
+  }
+
+  const saveBuyPresets = () => {
+    const presets = parsePresetList(buyPresetInput)
+    if (presets.length > 0) update({ buyPresets: presets })
+    setBuyPresetInput((presets.length > 0 ? presets : buyPresets).join(', '))
+  }
+
+  const saveSellPresets = () => {
+    const presets = parsePresetList(sellPresetInput)
+      .map(Number)
+      .filter(pct => pct <= 100)
+    if (presets.length > 0) update({ sellPresetsPct: presets })
+    setSellPresetInput((presets.length > 0 ? presets : sellPresetsPct).join(', '))
+  }
+
+  const handleReset = () => {
+    reset()
+    setCustomSlippage('')
+    setIsOpen(false)
+  }
+
+  const isPreset = SLIPPAGE_PRESETS_BPS.includes(slippageBps)
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        className="flex items-center gap-1 text-pump-white-muted hover:text-white transition-colors"
+        title="Trade settings"
+      >
+        <span className="text-xs font-mono">{(slippageBps / 100).toFixed(slippageBps % 100 ? 1 : 0)}%</span>
+        ⚙️
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-8 z-20 w-72 bg-pump-dark rounded-xl border border-pump-dark-border p-4 space-y-4 shadow-xl">
+          <div className="space-y-2">
+            <div className="text-sm text-pump-white-muted">Slippage Tolerance</div>
+            <div className="flex gap-2">
+              {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                <button
+                  key={bps}
+                  onClick={() => {
+                    update({ slippageBps: bps })
+                    setCustomSlippage('')
+                  }}
+                  className={`flex-1 py-1 rounded-lg text-sm font-medium transition-colors ${
+                    slippageBps === bps
+                      ? 'bg-pump-green/20 text-pump-green'
+                      : 'bg-pump-dark-lighter text-pump-white-muted hover:text-white'
+                  }`}
+                >
+                  {bps / 100}%
+                </button>
+              ))}
+            </div>
+            <div className="relative">
+              <input
+                type="number"
+                value={isPreset ? customSlippage : customSlippage || (slippageBps / 100).toString()}
+                onChange={(e) => handleCustomSlippage(e.target.value)}
+                placeholder="Custom"
+                className="w-full bg-pump-dark-lighter border border-pump-dark-border rounded-lg px-3 py-1.5 text-sm font-mono text-white focus:border-pump-green outline-none"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-pump-white-muted">%</span>
+            </div>
+            {slippageBps >= HIGH_SLIPPAGE_BPS && (
+              <div className="text-xs text-tier-3">High slippage - your trade may be front-run</div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm text-pump-white-muted">Max Quote Age</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={MIN_QUOTE_AGE_SECONDS}
+                value={maxQuoteAgeSeconds}
+                onChange={(e) => {
+                  const seconds = Math.floor(Number(e.target.value))
+                  if (seconds >= MIN_QUOTE_AGE_SECONDS) update({ maxQuoteAgeSeconds: seconds })
+                }}
+                className="w-20 bg-pump-dark-lighter border border-pump-dark-border rounded-lg px-3 py-1.5 text-sm font-mono text-white focus:border-pump-green outline-none"
+              />
+              <span className="text-sm text-pump-white-muted">seconds</span>
+            </div>
+            <div className="text-xs text-pump-white-muted">
+              Swaps carry no on-chain deadline. Quotes stop refreshing while the tab is in the background, so one older than this is refreshed for you to review instead of sent.
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm text-pump-white-muted">Quick Buy Amounts (PLS)</div>
+            <input
+              type="text"
+              value={buyPresetInput}
+              onChange={(e) => setBuyPresetInput(e.target.value)}
+              onBlur={saveBuyPresets}
+              onKeyDown={(e) => e.key === 'Enter' && saveBuyPresets()}
+              placeholder="100, 500, 1000, 5000"
+              className="w-full bg-pump-dark-lighter border border-pump-dark-border rounded-lg px-3 py-1.5 text-sm font-mono text-white focus:border-pump-green outline-none"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm text-pump-white-muted">Quick Sell (% of balance)</div>
+            <input
+              type="text"
+              value={sellPresetInput}
+              onChange={(e) => setSellPresetInput(e.target.value)}
+              onBlur={saveSellPresets}
+              onKeyDown={(e) => e.key === 'Enter' && saveSellPresets()}
+              placeholder="25, 50, 100"
+              className="w-full bg-pump-dark-lighter border border-pump-dark-border rounded-lg px-3 py-1.5 text-sm font-mono text-white focus:border-pump-green outline-none"
+            />
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-pump-white-muted">
+            <span>Saved for this wallet</span>
+            <button onClick={handleReset} className="hover:text-white transition-colors">
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
-import { useWatchContractEvent, usePublicClient } from 'wagmi'
-import { formatEther, parseAbiItem } from 'viem'
-import { PUMP_FUD_ADDRESS } from '../config/wagmi'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { formatEther } from 'viem'
+import { PULSESCAN_URL } from '../config/wagmi'
+import { useTokenTrades } from '../hooks/useTokenTrades'
+import { useFollows } from '../hooks/useFollows'
+import { ProfileName } from './ui/ProfileName'
 
 interface Transaction {
   id: string
@@ -13,91 +15,43 @@ interface Transaction {
   txHash: `0x${string}`
 }
 
-// RL-007: Wallet tracking storage key
-const TRACKED_WALLETS_KEY = 'pump-phud-tracked-wallets'
-
-// Load tracked wallets from localStorage
-function loadTrackedWallets(): Set<string> {
-  try {
-    const stored = localStorage.getItem(TRACKED_WALLETS_KEY)
-    if (stored) {
-      const wallets = JSON.parse(stored) as string[]
-      console.log('[RALPH RL-007] Tracked wallets loaded:', wallets.length)
-      return new Set(wallets.map(w => w.toLowerCase()))
-    }
-  } catch (error) {
-    console.error('[RALPH RL-007] Failed to load tracked wallets:', error)
-  }
-  return new Set()
-}
-
-// Save tracked wallets to localStorage
-function saveTrackedWallets(wallets: Set<string>) {
-  try {
-    localStorage.setItem(TRACKED_WALLETS_KEY, JSON.stringify(Array.from(wallets)))
-    console.log('[RALPH RL-007] Tracked wallets saved:', wallets.size)
-  } catch (error) {
-    console.error('[RALPH RL-007] Failed to save tracked wallets:', error)
-  }
-}
-
 interface TransactionFeedProps {
-  tokenAddress: `0x${string}`
+  tokenAddress: string | undefined
   tokenSymbol: string
-  reserveBalance: bigint
-  tokensSold: bigint
 }
 
-const PULSESCAN_URL = 'https://scan.pulsechain.com'
-
-// ERC20 Transfer event
-const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)')
+// Most recent trades rendered in the feed
+const MAX_FEED_ITEMS = 100
 
 export function TransactionFeed({
   tokenAddress,
   tokenSymbol,
-  reserveBalance,
-  tokensSold,
 }: TransactionFeedProps) {
-  const [transactions, setTransactions] = useState<Transaction[]>([])
   const [isPaused, setIsPaused] = useState(false)
   const [soundEnabled, setSoundEnabled] = useState(false)
-  const [trackedWallets, setTrackedWallets] = useState<Set<string>>(() => loadTrackedWallets())
   const [showTrackedOnly, setShowTrackedOnly] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
   const feedRef = useRef<HTMLDivElement>(null)
-  const publicClient = usePublicClient()
-
-  // RL-007: Toggle wallet tracking
-  const toggleWalletTracking = useCallback((wallet: string) => {
-    const normalizedWallet = wallet.toLowerCase()
-    setTrackedWallets(prev => {
-      const updated = new Set(prev)
-      if (updated.has(normalizedWallet)) {
-        updated.delete(normalizedWallet)
-        console.log('[RALPH RL-007] Wallet untracked:', wallet)
-      } else {
-        updated.add(normalizedWallet)
-        console.log('[RALPH RL-007] Wallet tracked:', wallet)
-      }
-      saveTrackedWallets(updated)
-      return updated
-    })
-  }, [])
-
-  // RL-007: Check if wallet is tracked
-  const isWalletTracked = useCallback((wallet: string) => {
-    return trackedWallets.has(wallet.toLowerCase())
-  }, [trackedWallets])
-
-  // Calculate current price from bonding curve
-  const currentPrice = (() => {
-    if (!tokensSold || tokensSold === 0n) return 0.00001
-    if (!reserveBalance || reserveBalance === 0n) return 0.00001
-    const sold = Number(formatEther(tokensSold))
-    const reserve = Number(formatEther(reserveBalance))
-    if (sold === 0) return 0.00001
-    return reserve / sold
-  })()
+  const lastTradeIdRef = useRef<string | null>(null)
+  // RL-007: Tracked wallets are follows - on-chain between profiles, on this device otherwise
+  const { following, isFollowing: isWalletTracked, toggleFollow, pending: pendingFollow } = useFollows()
+
+  // Full history from the shared indexer - no per-widget getLogs or getBlock calls
+  const { trades } = useTokenTrades(tokenAddress)
+
+  const transactions = useMemo((): Transaction[] =>
+    trades.slice(-MAX_FEED_ITEMS).reverse().map(trade => ({
+      id: trade.id,
+      type: trade.type,
+      amount: formatEther(trade.tokenAmount),
+      price: trade.price.toFixed(8),
+      wallet: trade.wallet,
+      timestamp: trade.timestamp * 1000,
+      txHash: trade.txHash,
+    })),
+  [trades])
+
+  const buyCount = useMemo(() => trades.filter(t => t.type === 'buy').length, [trades])
 
   // Play notification sound
   const playSound = useCallback(() => {
@@ -119,111 +73,20 @@ export function TransactionFeed({
     }
   }, [soundEnabled])
 
-  // Add transaction to feed
-  const addTransaction = useCallback((tx: Transaction) => {
-    setTransactions(prev => {
-      // Prevent duplicates
-      if (prev.some(t => t.id === tx.id)) return prev
-      playSound()
-      // Keep only last 50 transactions
-      return [tx, ...prev].slice(0, 50)
-    })
-  }, [playSound])
-
-  // Watch Transfer events
-  useWatchContractEvent({
-    address: tokenAddress,
-    abi: [TRANSFER_EVENT],
-    eventName: 'Transfer',
-    onLogs(logs) {
-      logs.forEach((log) => {
-        const typedLog = log as unknown as {
-          args: { from: `0x${string}`; to: `0x${string}`; value: bigint }
-          transactionHash: `0x${string}`
-          logIndex: number
-        }
-        const args = typedLog.args
-        if (!args) return
-
-        const { from, to, value } = args
-        const isBuy = from.toLowerCase() === PUMP_FUD_ADDRESS.toLowerCase()
-        const isSell = to.toLowerCase() === PUMP_FUD_ADDRESS.toLowerCase()
-
-        if (!isBuy && !isSell) return // Skip regular transfers
-
-        const tx: Transaction = {
-          id: `${typedLog.transactionHash}-${typedLog.logIndex}`,
-          type: isBuy ? 'buy' : 'sell',
-          amount: formatEther(value),
-          price: currentPrice.toFixed(8),
-          wallet: isBuy ? to : from,
-          timestamp: Date.now(),
-          txHash: typedLog.transactionHash,
-        }
-
-        addTransaction(tx)
-      })
-    },
-  })
-
-  // Fetch historical transactions on mount
+  // Chime when a new trade lands (not for the initial history load)
   useEffect(() => {
-    if (!publicClient || !tokenAddress) return
-
-    const fetchHistorical = async () => {
-      try {
-        const currentBlock = await publicClient.getBlockNumber()
-        const fromBlock = currentBlock > 10000n ? currentBlock - 10000n : 0n
-
-        const logs = await publicClient.getLogs({
-          address: tokenAddress,
-          event: TRANSFER_EVENT,
-          fromBlock,
-          toBlock: 'latest',
-        })
-
-        const historicalTxs: Transaction[] = []
-
-        for (const log of logs.slice(-20)) { // Last 20 transfers
-          const args = log.args as { from: `0x${string}`; to: `0x${string}`; value: bigint } | undefined
-          if (!args) continue
-
-          const { from, to, value } = args
-          const isBuy = from.toLowerCase() === PUMP_FUD_ADDRESS.toLowerCase()
-          const isSell = to.toLowerCase() === PUMP_FUD_ADDRESS.toLowerCase()
-
-          if (!isBuy && !isSell) continue
-
-          // Get block timestamp
-          let timestamp = Date.now()
-          try {
-            const block = await publicClient.getBlock({ blockNumber: log.blockNumber })
-            timestamp = Number(block.timestamp) * 1000
-          } catch {
-            // Use current time as fallback
-          }
-
-          historicalTxs.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: isBuy ? 'buy' : 'sell',
-            amount: formatEther(value),
-            price: currentPrice.toFixed(8),
-            wallet: isBuy ? to : from,
-            timestamp,
-            txHash: log.transactionHash!,
-          })
-        }
-
-        // Sort by timestamp descending
-        historicalTxs.sort((a, b) => b.timestamp - a.timestamp)
-        setTransactions(historicalTxs)
-      } catch (error) {
-        console.error('Failed to fetch historical transactions:', error)
-      }
+    const latestId = transactions.length > 0 ? transactions[0].id : null
+    if (lastTradeIdRef.current !== null && latestId !== lastTradeIdRef.current) {
+      playSound()
     }
+    lastTradeIdRef.current = latestId
+  }, [transactions, playSound])
 
-    fetchHistorical()
-  }, [publicClient, tokenAddress, currentPrice])
+  // Keep relative times fresh between trades
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 10000)
+    return () => clearInterval(interval)
+  }, [])
 
   // Auto-scroll
   useEffect(() => {
@@ -232,14 +95,9 @@ export function TransactionFeed({
     }
   }, [transactions, isPaused])
 
-  // Format wallet address
-  const formatWallet = (address: string) =>
-    `${address.slice(0, 6)}...${address.slice(-4)}`
-
   // Format time
   const formatTime = (timestamp: number) => {
-    const now = Date.now()
-    const diff = now - timestamp
+    const diff = Math.max(0, now - timestamp)
 
     if (diff < 60000) return `${Math.floor(diff / 1000)}s ago`
     if (diff < 3600000) return `${Math.floor(diff / 60000)}m ago`
@@ -294,8 +152,8 @@ export function TransactionFeed({
         </div>
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-          {/* RL-007: Tracked Only Filter */}
-          {trackedWallets.size > 0 && (
+          {/* RL-007: Following Only Filter */}
+          {following.length > 0 && (
             <button
               onClick={() => setShowTrackedOnly(!showTrackedOnly)}
               style={{
@@ -310,9 +168,9 @@ export function TransactionFeed({
                 alignItems: 'center',
                 gap: '4px',
               }}
-              title={showTrackedOnly ? 'Show all transactions' : 'Show tracked wallets only'}
+              title={showTrackedOnly ? 'Show all transactions' : 'Show followed wallets only'}
             >
-              👁️ {trackedWallets.size}
+              👁️ {following.length}
             </button>
           )}
 
@@ -401,12 +259,12 @@ export function TransactionFeed({
                 </div>
                 <div>
                   {showTrackedOnly
-                    ? 'No transactions from tracked wallets'
+                    ? 'No transactions from followed wallets'
                     : 'Waiting for transactions...'}
                 </div>
                 <div style={{ marginTop: '4px', fontSize: '11px', color: '#444' }}>
                   {showTrackedOnly
-                    ? 'Track a wallet by clicking the ★ next to their address'
+                    ? 'Follow a wallet by clicking the ☆ next to their address'
                     : `Buy or sell ${tokenSymbol} to see activity`}
                 </div>
               </div>
@@ -482,13 +340,14 @@ export function TransactionFeed({
                 <button
                   onClick={(e) => {
                     e.stopPropagation()
-                    toggleWalletTracking(tx.wallet)
+                    void toggleFollow(tx.wallet)
                   }}
+                  disabled={pendingFollow === tx.wallet.toLowerCase()}
                   style={{
                     padding: '2px 4px',
                     background: 'none',
                     border: 'none',
-                    cursor: 'pointer',
+                    cursor: pendingFollow === tx.wallet.toLowerCase() ? 'wait' : 'pointer',
                     fontSize: '10px',
                     color: isTracked ? '#c084fc' : '#444',
                     transition: 'color 0.2s',
@@ -499,7 +358,7 @@ export function TransactionFeed({
                   onMouseLeave={(e) => {
                     if (!isTracked) e.currentTarget.style.color = '#444'
                   }}
-                  title={isTracked ? 'Stop tracking this wallet' : 'Track this wallet'}
+                  title={isTracked ? 'Unfollow this wallet' : 'Follow this wallet'}
                 >
                   {isTracked ? '★' : '☆'}
                 </button>
@@ -524,7 +383,7 @@ export function TransactionFeed({
                   }}
                   title={`View ${tx.wallet} on PulseScan`}
                 >
-                  {formatWallet(tx.wallet)}
+                  <ProfileName address={tx.wallet} avatarSize={12} link={false} />
                 </a>
               </div>
 
@@ -554,7 +413,7 @@ export function TransactionFeed({
         })()}
       </div>
 
-      {/* Footer Stats - RL-007: Added tracked wallet count */}
+      {/* Footer Stats - RL-007: Added followed wallet count */}
       <div style={{
         display: 'flex',
         alignItems: 'center',
@@ -566,17 +425,17 @@ export function TransactionFeed({
         color: '#666',
       }}>
         <span>
-          {transactions.filter(t => t.type === 'buy').length} buys /{' '}
-          {transactions.filter(t => t.type === 'sell').length} sells
+          {buyCount} buys /{' '}
+          {trades.length - buyCount} sells
         </span>
         <span style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-          {trackedWallets.size > 0 && (
+          {following.length > 0 && (
             <span style={{ color: '#c084fc' }}>
-              ★ {trackedWallets.size} tracked
+              ★ {following.length} following
             </span>
           )}
           <span>
-            {transactions.length} transactions
+            {trades.length} transactions
           </span>
         </span>
       </div>
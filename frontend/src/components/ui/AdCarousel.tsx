@@ -1,7 +1,10 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { AD_LOCATION, useActiveAds } from '../../hooks/useAdSpaces'
+import { StoredImage } from './StoredImage'
 
 // RL-009: Ad Carousel System
-// Displays rotating advertisements with configurable timing
+// Displays rotating advertisements with configurable timing. Ads rented on PumpFudAdManager
+// take over the rotation; the locally configured ads show when nothing is booked
 
 const AD_STORAGE_KEY = 'pump-phud-ad-config'
 
@@ -18,7 +21,21 @@ export interface AdSlot {
   clicks: number
 }
 
+// Rented ads are keyed apart from local ones and keep no local stats
+const CHAIN_AD_PREFIX = 'chain-'
+
+// Rented links come straight from the chain, so only web links are ever opened
+function webLinkOrUndefined(url: string): string | undefined {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:' ? url : undefined
+  } catch {
+    return undefined
+  }
+}
+
 interface AdCarouselProps {
+  location?: number // AD_LOCATION whose rented ads rotate here, alongside the global carousel
   position?: 'top' | 'bottom' | 'sidebar'
   height?: number
   autoRotate?: boolean
@@ -76,6 +93,7 @@ function saveAds(ads: AdSlot[]) {
 }
 
 export function AdCarousel({
+  location = AD_LOCATION.CarouselAllPages,
   position = 'top',
   height = 80,
   autoRotate = true,
@@ -86,8 +104,24 @@ export function AdCarousel({
   const [isHovered, setIsHovered] = useState(false)
   const [isTransitioning, setIsTransitioning] = useState(false)
 
+  const locations = useMemo(() => Array.from(new Set([location, AD_LOCATION.CarouselAllPages])), [location])
+  const rentedAds = useActiveAds(locations)
+  const chainAds = useMemo(
+    () => rentedAds.map((ad, i): AdSlot => ({
+      id: `${CHAIN_AD_PREFIX}${ad.id}`,
+      imageUrl: ad.imageUri,
+      linkUrl: webLinkOrUndefined(ad.linkUrl),
+      title: ad.altText || undefined,
+      active: true,
+      priority: i,
+      impressions: 0,
+      clicks: 0,
+    })),
+    [rentedAds]
+  )
+
   // Get active ads sorted by priority
-  const activeAds = ads
+  const localAds = ads
     .filter(ad => {
       if (!ad.active) return false
       const now = Date.now()
@@ -96,6 +130,7 @@ export function AdCarousel({
       return true
     })
     .sort((a, b) => a.priority - b.priority)
+  const activeAds = chainAds.length > 0 ? chainAds : localAds
 
   // Rotate ads
   useEffect(() => {
@@ -116,7 +151,7 @@ export function AdCarousel({
   useEffect(() => {
     if (activeAds.length === 0) return
     const currentAd = activeAds[currentAdIndex]
-    if (!currentAd) return
+    if (!currentAd || currentAd.id.startsWith(CHAIN_AD_PREFIX)) return
 
     // Update impressions
     setAds(prevAds => {
@@ -137,6 +172,11 @@ export function AdCarousel({
 
   // Handle ad click
   const handleAdClick = useCallback((ad: AdSlot) => {
+    if (ad.id.startsWith(CHAIN_AD_PREFIX)) {
+      if (ad.linkUrl) window.open(ad.linkUrl, '_blank', 'noopener,noreferrer')
+      return
+    }
+
     // Update clicks
     setAds(prevAds => {
       const updated = prevAds.map(a =>
@@ -182,7 +222,9 @@ export function AdCarousel({
     return null
   }
 
-  const currentAd = activeAds[currentAdIndex]
+  // The rotation can shrink under the index when a rental ends
+  const shownIndex = currentAdIndex % activeAds.length
+  const currentAd = activeAds[shownIndex]
 
   return (
     <div
@@ -215,7 +257,7 @@ export function AdCarousel({
         }}
       >
         {currentAd.imageUrl ? (
-          <img
+          <StoredImage
             src={currentAd.imageUrl}
             alt={currentAd.title || 'Advertisement'}
             style={{
@@ -317,7 +359,7 @@ export function AdCarousel({
                 width: '8px',
                 height: '8px',
                 borderRadius: '50%',
-                backgroundColor: index === currentAdIndex ? '#00ff00' : 'rgba(255,255,255,0.3)',
+                backgroundColor: index === shownIndex ? '#00ff00' : 'rgba(255,255,255,0.3)',
                 border: 'none',
                 cursor: 'pointer',
                 transition: 'background-color 0.2s',
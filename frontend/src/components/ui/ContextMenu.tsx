@@ -0,0 +1,105 @@
+import { useEffect, useRef } from 'react'
+
+export interface ContextMenuItem {
+  label: string
+  onSelect: () => void
+  danger?: boolean
+  disabled?: boolean
+}
+
+interface ContextMenuProps {
+  x: number // Viewport coordinates from the contextmenu event
+  y: number
+  title?: string
+  items: ContextMenuItem[]
+  onClose: () => void
+}
+
+/**
+ * Right-click menu rendered at the cursor. Closes on selection, outside click, scroll or Escape
+ */
+export function ContextMenu({ x, y, title, items, onClose }: ContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handlePointer = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose()
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('mousedown', handlePointer)
+    document.addEventListener('keydown', handleKey)
+    window.addEventListener('scroll', onClose, true)
+    return () => {
+      document.removeEventListener('mousedown', handlePointer)
+      document.removeEventListener('keydown', handleKey)
+      window.removeEventListener('scroll', onClose, true)
+    }
+  }, [onClose])
+
+  return (
+    <div
+      ref={menuRef}
+      onContextMenu={(e) => e.preventDefault()}
+      style={{
+        position: 'fixed',
+        // Keep the menu on screen near the right and bottom edges
+        left: Math.min(x, window.innerWidth - 200),
+        top: Math.min(y, window.innerHeight - 40 - items.length * 34),
+        minWidth: '180px',
+        padding: '6px',
+        backgroundColor: 'rgba(12,12,15,0.98)',
+        border: '1px solid rgba(255,255,255,0.12)',
+        borderRadius: '8px',
+        boxShadow: '0 8px 24px rgba(0,0,0,0.6)',
+        zIndex: 10000,
+      }}
+    >
+      {title && (
+        <div
+          style={{
+            padding: '4px 10px 8px',
+            fontFamily: 'monospace',
+            fontSize: '10px',
+            color: '#666',
+            borderBottom: '1px solid rgba(255,255,255,0.08)',
+            marginBottom: '4px',
+          }}
+        >
+          {title}
+        </div>
+      )}
+      {items.map((item) => (
+        <button
+          key={item.label}
+          disabled={item.disabled}
+          onClick={() => {
+            item.onSelect()
+            onClose()
+          }}
+          style={{
+            display: 'block',
+            width: '100%',
+            padding: '8px 10px',
+            background: 'none',
+            border: 'none',
+            borderRadius: '4px',
+            textAlign: 'left',
+            fontSize: '12px',
+            color: item.disabled ? '#444' : item.danger ? '#ef4444' : '#ddd',
+            cursor: item.disabled ? 'not-allowed' : 'pointer',
+          }}
+          onMouseEnter={(e) => {
+            if (!item.disabled) e.currentTarget.style.backgroundColor = 'rgba(255,255,255,0.06)'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'transparent'
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  )
+}
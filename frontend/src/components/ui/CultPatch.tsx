@@ -0,0 +1,24 @@
+import { useState } from 'react'
+import { StoredImage } from './StoredImage'
+
+interface CultPatchProps {
+  imageUri: string
+  className?: string // Sizing and shape; the patch fills it
+}
+
+/**
+ * A cult's patch image, or a candle when it has none or the image doesn't load
+ */
+export function CultPatch({ imageUri, className = '' }: CultPatchProps) {
+  const [failedUri, setFailedUri] = useState<string | null>(null)
+
+  return (
+    <div className={`bg-pump-dark border border-pump-dark-border overflow-hidden flex items-center justify-center shrink-0 ${className}`}>
+      {imageUri && failedUri !== imageUri ? (
+        <StoredImage src={imageUri} alt="" className="w-full h-full object-cover" onError={() => setFailedUri(imageUri)} />
+      ) : (
+        <span className="text-2xl">🕯️</span>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,8 @@ import { Resizable } from 're-resizable'
 import { useDraggable, type Position } from '../../hooks/useDraggable'
 import { useResizable, type Size } from '../../hooks/useResizable'
 import type { FrameConfig } from '../../hooks/useCustomFrames'
+import { useImageUrl } from '../../hooks/useImageUrl'
+import { isStoredImageUri } from '../../utils/imageStorage'
 
 export interface DraggableResizableBoxProps {
   id: string
@@ -44,6 +46,11 @@ export function DraggableResizableBox({
   frameSelector,
 }: DraggableResizableBoxProps) {
   const [isHovered, setIsHovered] = useState(false)
+  // Only uploaded frames carry a background image (legacy uploads were data: URLs)
+  const frameImageUri = frameConfig && (frameConfig.imageUrl.startsWith('data:') || isStoredImageUri(frameConfig.imageUrl))
+    ? frameConfig.imageUrl
+    : undefined
+  const frameImageUrl = useImageUrl(frameImageUri)
   const boxRef = useRef<HTMLDivElement>(null)
 
   // Draggable state
@@ -208,8 +215,8 @@ export function DraggableResizableBox({
           display: 'flex',
           flexDirection: 'column',
           // RL-005: Apply frame background image if present
-          ...(frameConfig?.imageUrl.startsWith('data:') && {
-            backgroundImage: `url(${frameConfig.imageUrl})`,
+          ...(frameImageUrl && {
+            backgroundImage: `url(${frameImageUrl})`,
             backgroundSize: 'cover',
             backgroundPosition: 'center',
           }),
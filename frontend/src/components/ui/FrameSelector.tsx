@@ -1,5 +1,8 @@
 import { useState, useRef } from 'react'
 import type { FrameConfig } from '../../hooks/useCustomFrames'
+import { ACCEPTED_IMAGE_TYPES, FRAME_IMAGE_OPTIONS, uploadImage } from '../../utils/imagePipeline'
+import { isStoredImageUri } from '../../utils/imageStorage'
+import { StoredImage } from './StoredImage'
 
 interface FrameSelectorProps {
   frames: FrameConfig[]
@@ -19,19 +22,23 @@ export function FrameSelector({
   const [isOpen, setIsOpen] = useState(false)
   const [showUpload, setShowUpload] = useState(false)
   const [uploadName, setUploadName] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    e.target.value = ''
     if (!file || !onAddFrame) return
 
-    // Convert to base64 for localStorage storage
-    const reader = new FileReader()
-    reader.onload = (event) => {
-      const imageUrl = event.target?.result as string
+    // Frames go through the image pipeline; only the short URI lands in localStorage
+    setIsUploading(true)
+    setUploadError(null)
+    try {
+      const image = await uploadImage(file, FRAME_IMAGE_OPTIONS)
       onAddFrame({
         name: uploadName || file.name.replace(/\.[^/.]+$/, ''),
-        imageUrl,
+        imageUrl: image.uri,
         borderWidth: 10,
         borderRadius: 12,
         glowColor: '#00ff00',
@@ -45,9 +52,13 @@ export function FrameSelector({
         boxId,
         fileName: file.name,
         fileSize: file.size,
+        storedBytes: image.bytes,
       })
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setIsUploading(false)
     }
-    reader.readAsDataURL(file)
   }
 
   if (!isOpen) {
@@ -165,8 +176,8 @@ export function FrameSelector({
               alignItems: 'center',
               justifyContent: 'center',
             }}>
-              {frame.imageUrl.startsWith('data:') ? (
-                <img
+              {frame.imageUrl.startsWith('data:') || isStoredImageUri(frame.imageUrl) ? (
+                <StoredImage
                   src={frame.imageUrl}
                   alt={frame.name}
                   style={{
@@ -216,13 +227,14 @@ export function FrameSelector({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept={ACCEPTED_IMAGE_TYPES.join(',')}
                 onChange={handleFileUpload}
                 style={{ display: 'none' }}
               />
               <div style={{ display: 'flex', gap: '6px' }}>
                 <button
                   onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
                   style={{
                     flex: 1,
                     padding: '6px 8px',
@@ -234,7 +246,7 @@ export function FrameSelector({
                     cursor: 'pointer',
                   }}
                 >
-                  Choose Image
+                  {isUploading ? 'Uploading...' : 'Choose Image'}
                 </button>
                 <button
                   onClick={() => setShowUpload(false)}
@@ -251,6 +263,9 @@ export function FrameSelector({
                   Cancel
                 </button>
               </div>
+              {uploadError && (
+                <div style={{ marginTop: '6px', fontSize: '10px', color: '#ef4444' }}>{uploadError}</div>
+              )}
             </div>
           ) : (
             <button
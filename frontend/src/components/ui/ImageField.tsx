@@ -0,0 +1,71 @@
+import { useState } from 'react'
+import { ACCEPTED_IMAGE_TYPES, FRAME_IMAGE_OPTIONS, LOGO_IMAGE_OPTIONS, uploadImage } from '../../utils/imagePipeline'
+import { StoredImage } from './StoredImage'
+
+interface ImageFieldProps {
+  label: string
+  uri: string
+  square: boolean
+  onChange: (uri: string) => void
+}
+
+/**
+ * Upload field for an on-chain image URI. Square fields get the logo pipeline (avatars,
+ * cult patches), wide ones the frame pipeline (banners)
+ */
+export function ImageField({ label, uri, square, onChange }: ImageFieldProps) {
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setIsUploading(true)
+    setError(null)
+    try {
+      const image = await uploadImage(file, square ? LOGO_IMAGE_OPTIONS : FRAME_IMAGE_OPTIONS)
+      onChange(image.uri)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Image upload failed')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div>
+      <label className="block text-sm text-pump-white-muted mb-2">{label}</label>
+      <div className="flex items-center gap-3">
+        <div className={`${square ? 'w-16 h-16 rounded-full' : 'w-32 h-16 rounded-lg'} bg-pump-dark border border-pump-dark-border overflow-hidden flex items-center justify-center shrink-0`}>
+          {uri ? (
+            <StoredImage src={uri} alt="" className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-pump-white-muted text-xs">None</span>
+          )}
+        </div>
+        <label className="px-3 py-2 rounded-lg bg-pump-dark-lighter border border-pump-dark-border text-sm cursor-pointer hover:border-pump-green transition-colors">
+          {isUploading ? 'Uploading...' : 'Upload'}
+          <input
+            type="file"
+            accept={ACCEPTED_IMAGE_TYPES.join(',')}
+            className="hidden"
+            disabled={isUploading}
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+        </label>
+        {uri && (
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="text-sm text-pump-white-muted hover:text-white transition-colors"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import type { CSSProperties } from 'react'
+import { Link } from 'react-router-dom'
+import { profilePath } from '../../hooks/useProfile'
+import { useIdentity, type IdentityRole } from '../../hooks/useIdentity'
+import { StoredImage } from './StoredImage'
+
+interface ProfileNameProps {
+  address: `0x${string}`
+  avatarSize?: number // 0 hides the avatar
+  link?: boolean // Link to the wallet's profile page
+  showRoles?: boolean // you / creator / mod chips from the surrounding TokenRolesProvider
+  style?: CSSProperties
+}
+
+const ROLE_CHIPS: Record<IdentityRole, { label: string; color: string }> = {
+  you: { label: 'YOU', color: '#39ff14' },
+  creator: { label: 'DEV', color: '#ffd700' },
+  moderator: { label: 'MOD', color: '#3b82f6' },
+}
+
+/**
+ * A wallet as its PumpFudProfile display name and avatar, or the truncated address and
+ * identicon without one. Inherits font and color from where it's placed
+ */
+export function ProfileName({ address, avatarSize = 16, link = true, showRoles = true, style }: ProfileNameProps) {
+  const identity = useIdentity(address)
+
+  const content = (
+    <>
+      {avatarSize > 0 && (
+        <StoredImage
+          src={identity.avatarUri}
+          alt=""
+          style={{
+            width: `${avatarSize}px`,
+            height: `${avatarSize}px`,
+            borderRadius: '50%',
+            objectFit: 'cover',
+            flexShrink: 0,
+          }}
+          onError={(e) => {
+            e.currentTarget.style.display = 'none'
+          }}
+        />
+      )}
+      {identity.cultTag && (
+        <span style={{ color: identity.color, fontWeight: 700, flexShrink: 0 }}>[{identity.cultTag}]</span>
+      )}
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+        {identity.label}
+      </span>
+      {identity.isPremium && <span title="Premium" style={{ flexShrink: 0 }}>⭐</span>}
+      {identity.isVerified && <span title="Verified" style={{ color: '#3b82f6', flexShrink: 0 }}>✓</span>}
+      {showRoles && identity.roles.map(role => (
+        <span
+          key={role}
+          style={{
+            padding: '0 4px',
+            borderRadius: '3px',
+            border: `1px solid ${ROLE_CHIPS[role].color}`,
+            color: ROLE_CHIPS[role].color,
+            fontSize: '0.7em',
+            fontWeight: 700,
+            lineHeight: 1.4,
+            flexShrink: 0,
+          }}
+        >
+          {ROLE_CHIPS[role].label}
+        </span>
+      ))}
+    </>
+  )
+
+  const containerStyle: CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    minWidth: 0,
+    maxWidth: '100%',
+    verticalAlign: 'bottom',
+    color: 'inherit',
+    textDecoration: 'none',
+    ...style,
+  }
+
+  if (!link) {
+    return <span title={address} style={containerStyle}>{content}</span>
+  }
+
+  return (
+    <Link
+      to={profilePath(address)}
+      title={address}
+      onClick={(e) => e.stopPropagation()}
+      style={containerStyle}
+    >
+      {content}
+    </Link>
+  )
+}
@@ -0,0 +1,10 @@
+import type { ImgHTMLAttributes } from 'react'
+import { useImageUrl } from '../../hooks/useImageUrl'
+
+/**
+ * <img> that understands ipfs:// and local:// URIs from the image pipeline
+ */
+export function StoredImage({ src, ...props }: ImgHTMLAttributes<HTMLImageElement>) {
+  const url = useImageUrl(src)
+  return <img src={url} {...props} />
+}
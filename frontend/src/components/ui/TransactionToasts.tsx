@@ -0,0 +1,112 @@
+import { PULSESCAN_URL } from '../../config/wagmi'
+import type { TrackedTransaction, TransactionStatus } from '../../context/TransactionContext'
+
+interface TransactionToastsProps {
+  transactions: TrackedTransaction[]
+  onRetry: (id: number) => void
+  onDismiss: (id: number) => void
+}
+
+const STATUS_STYLES: Record<TransactionStatus, { icon: string; text: string; color: string }> = {
+  signing: { icon: '✍️', text: 'Confirm in wallet', color: '#888' },
+  pending: { icon: '⏳', text: 'Pending', color: '#ffaa00' },
+  confirmed: { icon: '✅', text: 'Confirmed', color: '#00ff00' },
+  failed: { icon: '❌', text: 'Failed', color: '#ef4444' },
+  replaced: { icon: '↩️', text: 'Replaced in wallet', color: '#888' },
+}
+
+// Newest toasts stack on top; older ones are hidden past this many
+const MAX_TOASTS_SHOWN = 5
+
+/**
+ * Stacked toast center for every transaction sent through the TransactionProvider
+ */
+export function TransactionToasts({ transactions, onRetry, onDismiss }: TransactionToastsProps) {
+  if (transactions.length === 0) return null
+  const shown = transactions.slice(-MAX_TOASTS_SHOWN).reverse()
+
+  return (
+    <div style={{
+      position: 'fixed',
+      right: '20px',
+      bottom: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+      width: '320px',
+      zIndex: 10001,
+    }}>
+      {shown.map((tx) => {
+        const style = STATUS_STYLES[tx.status]
+        return (
+          <div
+            key={tx.id}
+            style={{
+              padding: '12px 14px',
+              backgroundColor: 'rgba(12,12,15,0.98)',
+              border: `1px solid ${style.color}55`,
+              borderLeft: `3px solid ${style.color}`,
+              borderRadius: '8px',
+              boxShadow: '0 8px 24px rgba(0,0,0,0.6)',
+              fontFamily: 'monospace',
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+              <span style={{ fontSize: '12px', fontWeight: 'bold', color: '#e8e8e8' }}>
+                {style.icon} {tx.label}
+              </span>
+              <button
+                onClick={() => onDismiss(tx.id)}
+                title="Dismiss"
+                style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', fontSize: '14px', padding: 0 }}
+              >
+                ×
+              </button>
+            </div>
+
+            <div style={{ marginTop: '4px', fontSize: '11px', color: style.color }}>
+              {tx.status === 'failed' && tx.error ? tx.error : style.text}
+            </div>
+            {tx.status === 'failed' && tx.fix && (
+              <div style={{ marginTop: '2px', fontSize: '10px', color: '#aaa' }}>💡 {tx.fix}</div>
+            )}
+            {tx.replacedHash && tx.status !== 'replaced' && (
+              <div style={{ marginTop: '2px', fontSize: '10px', color: '#666' }}>Sped up in wallet</div>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '8px', fontSize: '11px' }}>
+              {tx.hash && (
+                <a
+                  href={`${PULSESCAN_URL}/tx/${tx.hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: '#00ff00', textDecoration: 'none' }}
+                >
+                  View on PulseScan ↗
+                </a>
+              )}
+              {(tx.status === 'failed' || tx.status === 'replaced') && (
+                <button
+                  onClick={() => onRetry(tx.id)}
+                  style={{
+                    marginLeft: 'auto',
+                    padding: '4px 10px',
+                    backgroundColor: 'rgba(0,255,0,0.1)',
+                    border: '1px solid rgba(0,255,0,0.4)',
+                    borderRadius: '4px',
+                    color: '#00ff00',
+                    fontFamily: 'monospace',
+                    fontSize: '11px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+/**
+ * PumpFudAdManager ABI
+ * Rentable ad spaces per page location, PLS rentals and carousel reads
+ * User-facing surface of out/PumpFudAdManager.sol/PumpFudAdManager.json - owner functions and impression/click recorders omitted
+ */
+
+const AD_SPACE_COMPONENTS = [
+  { name: 'id', type: 'uint256' },
+  { name: 'location', type: 'uint8' },
+  { name: 'name', type: 'string' },
+  { name: 'weeklyRate', type: 'uint256' },
+  { name: 'isActive', type: 'bool' },
+  { name: 'isPremium', type: 'bool' },
+  { name: 'premiumMultiplier', type: 'uint256' },
+] as const
+
+const AD_COMPONENTS = [
+  { name: 'id', type: 'uint256' },
+  { name: 'spaceId', type: 'uint256' },
+  { name: 'advertiser', type: 'address' },
+  { name: 'imageUri', type: 'string' },
+  { name: 'linkUrl', type: 'string' },
+  { name: 'altText', type: 'string' },
+  { name: 'startTime', type: 'uint256' },
+  { name: 'endTime', type: 'uint256' },
+  { name: 'paidAmount', type: 'uint256' },
+  { name: 'isOwnerAd', type: 'bool' },
+  { name: 'isActive', type: 'bool' },
+] as const
+
+export const AD_MANAGER_ABI = [
+  // Rentals
+  {
+    name: 'rentAdSpace',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'spaceId', type: 'uint256' },
+      { name: 'imageUri', type: 'string' },
+      { name: 'linkUrl', type: 'string' },
+      { name: 'altText', type: 'string' },
+      { name: 'durationWeeks', type: 'uint256' },
+    ],
+    outputs: [{ name: 'adId', type: 'uint256' }],
+  },
+  {
+    // Extends from the current end time, or from now once expired
+    name: 'extendAdRental',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'adId', type: 'uint256' },
+      { name: 'additionalWeeks', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+  // Views
+  {
+    name: 'calculateRentalCost',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'spaceId', type: 'uint256' },
+      { name: 'weeks_', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getAvailableSpaces',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'tuple[]', components: AD_SPACE_COMPONENTS }],
+  },
+  {
+    name: 'getSpacesForLocation',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'location', type: 'uint8' }],
+    outputs: [{ name: '', type: 'tuple[]', components: AD_SPACE_COMPONENTS }],
+  },
+  {
+    // Unexpired ads in the location's carousel; owner ads may run forever (endTime = uint256 max)
+    name: 'getActiveAdsForLocation',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'location', type: 'uint8' }],
+    outputs: [{ name: '', type: 'tuple[]', components: AD_COMPONENTS }],
+  },
+  {
+    // Zeroed when the space is free
+    name: 'getCurrentAdForSpace',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'spaceId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'tuple', components: AD_COMPONENTS }],
+  },
+  {
+    name: 'getAdStats',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'adId', type: 'uint256' }],
+    outputs: [
+      { name: 'impressions', type: 'uint256' },
+      { name: 'clicks', type: 'uint256' },
+      { name: 'ctr', type: 'uint256' }, // Basis points
+    ],
+  },
+  {
+    name: 'ads',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: AD_COMPONENTS,
+  },
+  {
+    name: 'adCount',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'weeklyRatePLS',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  // Events
+  {
+    // Also emitted by extendAdRental with the added weeks
+    name: 'AdPlaced',
+    type: 'event',
+    inputs: [
+      { name: 'adId', type: 'uint256', indexed: true },
+      { name: 'spaceId', type: 'uint256', indexed: true },
+      { name: 'advertiser', type: 'address', indexed: true },
+      { name: 'duration', type: 'uint256', indexed: false },
+      { name: 'paid', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'OwnerAdPlaced',
+    type: 'event',
+    inputs: [
+      { name: 'adId', type: 'uint256', indexed: true },
+      { name: 'spaceId', type: 'uint256', indexed: true },
+      { name: 'imageUri', type: 'string', indexed: false },
+    ],
+  },
+  {
+    name: 'AdRemoved',
+    type: 'event',
+    inputs: [
+      { name: 'adId', type: 'uint256', indexed: true },
+      { name: 'spaceId', type: 'uint256', indexed: true },
+    ],
+  },
+  {
+    name: 'AdSpaceUpdated',
+    type: 'event',
+    inputs: [
+      { name: 'spaceId', type: 'uint256', indexed: true },
+      { name: 'weeklyRate', type: 'uint256', indexed: false },
+      { name: 'isActive', type: 'bool', indexed: false },
+    ],
+  },
+] as const
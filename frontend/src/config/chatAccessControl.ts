@@ -0,0 +1,99 @@
+/**
+ * ChatAccessControl ABI
+ * Per-token holding requirements for token-gated chat (custom config or platform defaults)
+ * User-facing surface of out/ChatAccessControl.sol/ChatAccessControl.json - owner setters omitted
+ */
+
+export const CHAT_ACCESS_CONTROL_ABI = [
+  // Access checks
+  {
+    name: 'canAccessChat',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'getUserChatStatus',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [
+      { name: 'hasAccess', type: 'bool' },
+      { name: 'userBalance', type: 'uint256' },
+      { name: 'userPercentage', type: 'uint256' },
+      { name: 'requiredBalance', type: 'uint256' },
+      { name: 'requiredPercentage', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'getAccessConfig',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'minimumBalance', type: 'uint256' },
+          { name: 'minimumPercentage', type: 'uint256' },
+          { name: 'requiresHolding', type: 'bool' },
+          { name: 'superchatEnabled', type: 'bool' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'hasCustomConfig',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  // Platform defaults
+  { name: 'defaultMinimumPercentage', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'defaultRequiresHolding', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'bool' }] },
+  { name: 'defaultSuperchatEnabled', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'bool' }] },
+  // Per-token config
+  {
+    name: 'setTokenConfig',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'minimumBalance', type: 'uint256' },
+      { name: 'minimumPercentage', type: 'uint256' },
+      { name: 'requiresHolding', type: 'bool' },
+      { name: 'superchatEnabled', type: 'bool' },
+    ],
+    outputs: [],
+  },
+  // Events
+  {
+    name: 'AccessConfigUpdated',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'minimumBalance', type: 'uint256', indexed: false },
+      { name: 'minimumPercentage', type: 'uint256', indexed: false },
+      { name: 'requiresHolding', type: 'bool', indexed: false },
+      { name: 'superchatEnabled', type: 'bool', indexed: false },
+    ],
+  },
+  {
+    name: 'DefaultsUpdated',
+    type: 'event',
+    inputs: [
+      { name: 'minimumPercentage', type: 'uint256', indexed: false },
+      { name: 'requiresHolding', type: 'bool', indexed: false },
+      { name: 'superchatEnabled', type: 'bool', indexed: false },
+    ],
+  },
+] as const
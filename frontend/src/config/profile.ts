@@ -0,0 +1,396 @@
+/**
+ * PumpFudProfile ABI
+ * Display names, avatars, cults, follows, reputation stats and badges
+ * User-facing surface of out/PumpFudProfile.sol/PumpFudProfile.json - owner setters and stat recorders omitted
+ */
+
+const PROFILE_COMPONENTS = [
+  { name: 'wallet', type: 'address' },
+  { name: 'displayName', type: 'string' },
+  { name: 'avatarUri', type: 'string' },
+  { name: 'bannerUri', type: 'string' },
+  { name: 'bio', type: 'string' },
+  { name: 'cultId', type: 'uint256' },
+  { name: 'createdAt', type: 'uint256' },
+  { name: 'lastUpdated', type: 'uint256' },
+  { name: 'isPremium', type: 'bool' },
+  { name: 'isVerified', type: 'bool' },
+  { name: 'exists', type: 'bool' },
+] as const
+
+export const PROFILE_ABI = [
+  // Profile management
+  {
+    name: 'createProfile',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'displayName', type: 'string' },
+      { name: 'avatarUri', type: 'string' },
+      { name: 'bio', type: 'string' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'updateProfile',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'displayName', type: 'string' },
+      { name: 'avatarUri', type: 'string' },
+      { name: 'bannerUri', type: 'string' },
+      { name: 'bio', type: 'string' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'upgradeToPremium',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [],
+    outputs: [],
+  },
+  // Cults
+  {
+    name: 'createCult',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'tag', type: 'string' },
+      { name: 'imageUri', type: 'string' },
+      { name: 'description', type: 'string' },
+      { name: 'isPublic', type: 'bool' },
+    ],
+    outputs: [{ name: 'cultId', type: 'uint256' }],
+  },
+  {
+    name: 'joinCult',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'cultId', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'inviteToCult',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'cultId', type: 'uint256' },
+      { name: 'invitee', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'leaveCult',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'transferCultLeadership',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'cultId', type: 'uint256' },
+      { name: 'newLeader', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'updateCult',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'cultId', type: 'uint256' },
+      { name: 'imageUri', type: 'string' },
+      { name: 'description', type: 'string' },
+      { name: 'isPublic', type: 'bool' },
+    ],
+    outputs: [],
+  },
+  // Follows
+  {
+    name: 'follow',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'toFollow', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'unfollow',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'toUnfollow', type: 'address' }],
+    outputs: [],
+  },
+  // Views
+  {
+    name: 'getProfile',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'tuple', components: PROFILE_COMPONENTS }],
+  },
+  {
+    name: 'getProfileByName',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'name', type: 'string' }],
+    outputs: [{ name: '', type: 'tuple', components: PROFILE_COMPONENTS }],
+  },
+  {
+    name: 'getStats',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'tokensLaunched', type: 'uint256' },
+          { name: 'tokensGraduated', type: 'uint256' },
+          { name: 'totalVolume', type: 'uint256' },
+          { name: 'totalTips', type: 'uint256' },
+          { name: 'followerCount', type: 'uint256' },
+          { name: 'followingCount', type: 'uint256' },
+          { name: 'reputation', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'getUserBadges',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256[]' }],
+  },
+  {
+    name: 'badges',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [
+      { name: 'id', type: 'uint256' },
+      { name: 'name', type: 'string' },
+      { name: 'imageUri', type: 'string' },
+      { name: 'description', type: 'string' },
+      { name: 'isTransferable', type: 'bool' },
+    ],
+  },
+  {
+    name: 'getCult',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'cultId', type: 'uint256' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'name', type: 'string' },
+          { name: 'tag', type: 'string' },
+          { name: 'imageUri', type: 'string' },
+          { name: 'description', type: 'string' },
+          { name: 'founder', type: 'address' },
+          { name: 'leader', type: 'address' },
+          { name: 'memberCount', type: 'uint256' },
+          { name: 'createdAt', type: 'uint256' },
+          { name: 'isPublic', type: 'bool' },
+          { name: 'isActive', type: 'bool' },
+        ],
+      },
+    ],
+  },
+  {
+    // Every wallet that ever joined, in join order - leavers stay listed, check cultMembers
+    name: 'getCultMembers',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'cultId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    name: 'cultMembers',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: '', type: 'uint256' },
+      { name: '', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    // Every wallet ever followed - unfollows stay listed, check isFollowing
+    name: 'getFollowing',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    name: 'getFollowers',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    name: 'isFollowing',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: '', type: 'address' },
+      { name: '', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'cultTagToId',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'string' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  // Fees and limits
+  {
+    name: 'profileCreationFee',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'premiumProfileFee',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'maxNameLength',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'maxBioLength',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'cultCreationFee',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'maxCultNameLength',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'maxCultMembers',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  // Events
+  {
+    name: 'ProfileCreated',
+    type: 'event',
+    inputs: [
+      { name: 'wallet', type: 'address', indexed: true },
+      { name: 'displayName', type: 'string', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ProfileUpdated',
+    type: 'event',
+    inputs: [
+      { name: 'wallet', type: 'address', indexed: true },
+      { name: 'displayName', type: 'string', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ProfileUpgraded',
+    type: 'event',
+    inputs: [
+      { name: 'wallet', type: 'address', indexed: true },
+      { name: 'isPremium', type: 'bool', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'CultCreated',
+    type: 'event',
+    inputs: [
+      { name: 'cultId', type: 'uint256', indexed: true },
+      { name: 'name', type: 'string', indexed: false },
+      { name: 'tag', type: 'string', indexed: false },
+      { name: 'founder', type: 'address', indexed: false },
+    ],
+  },
+  {
+    name: 'CultJoined',
+    type: 'event',
+    inputs: [
+      { name: 'cultId', type: 'uint256', indexed: true },
+      { name: 'member', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'CultLeft',
+    type: 'event',
+    inputs: [
+      { name: 'cultId', type: 'uint256', indexed: true },
+      { name: 'member', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'CultLeaderChanged',
+    type: 'event',
+    inputs: [
+      { name: 'cultId', type: 'uint256', indexed: true },
+      { name: 'oldLeader', type: 'address', indexed: true },
+      { name: 'newLeader', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'Followed',
+    type: 'event',
+    inputs: [
+      { name: 'follower', type: 'address', indexed: true },
+      { name: 'followed', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'Unfollowed',
+    type: 'event',
+    inputs: [
+      { name: 'follower', type: 'address', indexed: true },
+      { name: 'unfollowed', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'BadgeAwarded',
+    type: 'event',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'badgeId', type: 'uint256', indexed: true },
+    ],
+  },
+] as const
@@ -0,0 +1,402 @@
+/**
+ * PumpFudV2 ABI
+ * Address-based bonding curve deployment (createToken/buy/sell/burn by token address)
+ * User-facing surface of out/PumpFudV2.sol/PumpFudV2.json - admin setters omitted
+ */
+
+export const PUMP_FUD_V2_ABI = [
+  // Token creation
+  {
+    name: 'createToken',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'symbol', type: 'string' },
+      { name: 'imageUri', type: 'string' },
+    ],
+    outputs: [{ name: 'tokenAddress', type: 'address' }],
+  },
+  {
+    name: 'createTokenWithBuy',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'symbol', type: 'string' },
+      { name: 'imageUri', type: 'string' },
+      { name: 'buyAmount', type: 'uint256' },
+      { name: 'minTokens', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'tokenAddress', type: 'address' },
+      { name: 'tokensOut', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'createLivestreamToken',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'symbol', type: 'string' },
+      { name: 'imageUri', type: 'string' },
+      { name: 'scheduledStartTime', type: 'uint256' },
+    ],
+    outputs: [{ name: 'tokenAddress', type: 'address' }],
+  },
+  {
+    name: 'startLivestream',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  // Trading (by token address)
+  {
+    name: 'buy',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'minTokens', type: 'uint256' },
+      { name: 'referrer', type: 'address' },
+    ],
+    outputs: [{ name: 'tokensOut', type: 'uint256' }],
+  },
+  {
+    name: 'sell',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'tokenAmount', type: 'uint256' },
+      { name: 'minPls', type: 'uint256' },
+      { name: 'referrer', type: 'address' },
+    ],
+    outputs: [{ name: 'plsOut', type: 'uint256' }],
+  },
+  {
+    name: 'burn',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'tokenAmount', type: 'uint256' },
+    ],
+    outputs: [{ name: 'plsReceived', type: 'uint256' }],
+  },
+  // Super chat
+  {
+    name: 'superChat',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'recipient', type: 'address' },
+      { name: 'message', type: 'string' },
+    ],
+    outputs: [{ name: 'tierIndex', type: 'uint256' }],
+  },
+  {
+    name: 'getSuperChatTiers',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple[]',
+        components: [
+          { name: 'minAmount', type: 'uint256' },
+          { name: 'durationSeconds', type: 'uint256' },
+          { name: 'tierName', type: 'string' },
+        ],
+      },
+    ],
+  },
+  // Quotes and pricing
+  {
+    name: 'getEstimatedTokens',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'plsAmount', type: 'uint256' },
+    ],
+    outputs: [{ name: 'tokensOut', type: 'uint256' }],
+  },
+  {
+    name: 'getEstimatedPls',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'tokenAmount', type: 'uint256' },
+    ],
+    outputs: [{ name: 'plsOut', type: 'uint256' }],
+  },
+  {
+    name: 'getTokenPrice',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ name: 'price', type: 'uint256' }],
+  },
+  {
+    name: 'getPrices',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokens', type: 'address[]' }],
+    outputs: [{ name: 'prices', type: 'uint256[]' }],
+  },
+  {
+    name: 'getBondingCurveProgress',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [
+      { name: 'plsRaised', type: 'uint256' },
+      { name: 'plsTarget', type: 'uint256' },
+      { name: 'progressBps', type: 'uint256' },
+      { name: 'tokensSold', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'getCirculatingSupply',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  // Token data
+  {
+    name: 'getTokenData',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'tokenAddress', type: 'address' },
+          { name: 'creator', type: 'address' },
+          { name: 'name', type: 'string' },
+          { name: 'symbol', type: 'string' },
+          { name: 'imageUri', type: 'string' },
+          { name: 'plsReserve', type: 'uint256' },
+          { name: 'tokensSold', type: 'uint256' },
+          { name: 'totalVolume', type: 'uint256' },
+          { name: 'createdAt', type: 'uint256' },
+          { name: 'graduatedAt', type: 'uint256' },
+          { name: 'isGraduated', type: 'bool' },
+          { name: 'isLivestream', type: 'bool' },
+          { name: 'livestreamStartTime', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  { name: 'getTokenCount', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  {
+    name: 'getAllTokens',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    name: 'getLiveTokens',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    name: 'tokenOverrides',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'address' }],
+    outputs: [
+      { name: 'hasBuyFeeOverride', type: 'bool' },
+      { name: 'buyFeeBps', type: 'uint256' },
+      { name: 'hasSellFeeOverride', type: 'bool' },
+      { name: 'sellFeeBps', type: 'uint256' },
+      { name: 'hasCreationFeeOverride', type: 'bool' },
+      { name: 'creationFee', type: 'uint256' },
+      { name: 'hasGraduationTargetOverride', type: 'bool' },
+      { name: 'graduationTarget', type: 'uint256' },
+    ],
+  },
+  // Token-gated access
+  {
+    name: 'canUseChat',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'canUseMessageBoard',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  // Config
+  {
+    name: 'getConfig',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'totalSupply', type: 'uint256' },
+          { name: 'bondingSupply', type: 'uint256' },
+          { name: 'lpReserve', type: 'uint256' },
+          { name: 'graduationTarget', type: 'uint256' },
+          { name: 'burnAmount', type: 'uint256' },
+          { name: 'lpAmount', type: 'uint256' },
+          { name: 'buyFeeBps', type: 'uint256' },
+          { name: 'sellFeeBps', type: 'uint256' },
+          { name: 'creatorRewardBps', type: 'uint256' },
+          { name: 'creationFee', type: 'uint256' },
+          { name: 'virtualPls', type: 'uint256' },
+          { name: 'virtualTokens', type: 'uint256' },
+          { name: 'chatHoldingBps', type: 'uint256' },
+          { name: 'messageBoardHoldingBps', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  { name: 'CREATION_FEE', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'creationFee', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'isFeeExempt', type: 'function', stateMutability: 'view', inputs: [{ name: 'account', type: 'address' }], outputs: [{ name: '', type: 'bool' }] },
+  { name: 'graduationTarget', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'buyFeeBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'sellFeeBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'paused', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'bool' }] },
+  { name: 'TREASURY', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  // Events
+  {
+    name: 'TokenCreated',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'creator', type: 'address', indexed: true },
+      { name: 'name', type: 'string', indexed: false },
+      { name: 'symbol', type: 'string', indexed: false },
+      { name: 'creatorBuyAmount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenBought',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'buyer', type: 'address', indexed: true },
+      { name: 'plsIn', type: 'uint256', indexed: false },
+      { name: 'tokensOut', type: 'uint256', indexed: false },
+      { name: 'referrer', type: 'address', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenSold',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'seller', type: 'address', indexed: true },
+      { name: 'tokensIn', type: 'uint256', indexed: false },
+      { name: 'plsOut', type: 'uint256', indexed: false },
+      { name: 'referrer', type: 'address', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenBurned',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'burner', type: 'address', indexed: true },
+      { name: 'tokensBurned', type: 'uint256', indexed: false },
+      { name: 'plsReceived', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenGraduated',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'plsBurned', type: 'uint256', indexed: false },
+      { name: 'plsToLP', type: 'uint256', indexed: false },
+      { name: 'tokensToLP', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'SuperChatSent',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'recipient', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'message', type: 'string', indexed: false },
+      { name: 'tierIndex', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'LivestreamStarted',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'startTime', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenOverrideSet',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'param', type: 'string', indexed: false },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ReferralPaid',
+    type: 'event',
+    inputs: [
+      { name: 'referrer', type: 'address', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'plsAmount', type: 'uint256', indexed: false },
+    ],
+  },
+  // Errors
+  { name: 'ContractPaused', type: 'error', inputs: [] },
+  { name: 'InvalidToken', type: 'error', inputs: [] },
+  { name: 'TokenAlreadyGraduated', type: 'error', inputs: [] },
+  { name: 'InsufficientPayment', type: 'error', inputs: [] },
+  { name: 'InsufficientTokens', type: 'error', inputs: [] },
+  { name: 'SlippageExceeded', type: 'error', inputs: [] },
+  { name: 'ZeroAmount', type: 'error', inputs: [] },
+  { name: 'TransferFailed', type: 'error', inputs: [] },
+  { name: 'NothingToBurn', type: 'error', inputs: [] },
+  { name: 'Unauthorized', type: 'error', inputs: [] },
+  { name: 'InvalidTier', type: 'error', inputs: [] },
+  { name: 'InsufficientHolding', type: 'error', inputs: [] },
+  { name: 'LivestreamNotActive', type: 'error', inputs: [] },
+  { name: 'ZeroAddress', type: 'error', inputs: [] },
+] as const
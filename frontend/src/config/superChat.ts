@@ -0,0 +1,563 @@
+/**
+ * PumpFudSuperChat ABI
+ * Token-gated message board, super chat tips, voice chat and per-token moderation
+ * User-facing surface of out/PumpFudSuperChat.sol/PumpFudSuperChat.json - owner setters omitted apart from dashboard shutdown
+ */
+
+export const SUPER_CHAT_ABI = [
+  // Messages
+  {
+    name: 'sendMessage',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'content', type: 'string' },
+    ],
+    outputs: [{ name: 'messageId', type: 'uint256' }],
+  },
+  {
+    name: 'getRecentMessages',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'count', type: 'uint256' },
+    ],
+    outputs: [
+      {
+        name: 'result',
+        type: 'tuple[]',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'token', type: 'address' },
+          { name: 'sender', type: 'address' },
+          { name: 'recipient', type: 'address' },
+          { name: 'tipAmount', type: 'uint256' },
+          { name: 'tier', type: 'uint8' },
+          { name: 'msgType', type: 'uint8' },
+          { name: 'content', type: 'string' },
+          { name: 'timestamp', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'getTokenMessages',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [
+      {
+        name: 'result',
+        type: 'tuple[]',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'token', type: 'address' },
+          { name: 'sender', type: 'address' },
+          { name: 'recipient', type: 'address' },
+          { name: 'tipAmount', type: 'uint256' },
+          { name: 'tier', type: 'uint8' },
+          { name: 'msgType', type: 'uint8' },
+          { name: 'content', type: 'string' },
+          { name: 'timestamp', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'getUserMessages',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [
+      {
+        name: 'result',
+        type: 'tuple[]',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'token', type: 'address' },
+          { name: 'sender', type: 'address' },
+          { name: 'recipient', type: 'address' },
+          { name: 'tipAmount', type: 'uint256' },
+          { name: 'tier', type: 'uint8' },
+          { name: 'msgType', type: 'uint8' },
+          { name: 'content', type: 'string' },
+          { name: 'timestamp', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'getTokenMessageCount',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  { name: 'maxMessageLength', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  // Super chat
+  {
+    name: 'sendSuperChat',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'recipient', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'content', type: 'string' },
+    ],
+    outputs: [{ name: 'messageId', type: 'uint256' }],
+  },
+  {
+    name: 'sendSuperChatPLS',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'recipient', type: 'address' },
+      { name: 'content', type: 'string' },
+    ],
+    outputs: [{ name: 'messageId', type: 'uint256' }],
+  },
+  {
+    name: 'previewTier',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'amount', type: 'uint256' },
+      { name: 'isPLS', type: 'bool' },
+    ],
+    outputs: [{ name: '', type: 'uint8' }],
+  },
+  { name: 'platformFeeBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'bronzeThreshold', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'silverThreshold', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'goldThreshold', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'diamondThreshold', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'bronzeThresholdPLS', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'silverThresholdPLS', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'goldThresholdPLS', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'diamondThresholdPLS', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  // Token-gated access
+  {
+    name: 'canUseMessageBoard',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'canUseVoiceChat',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'canControlLiveChat',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'getUserStatus',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [
+      {
+        name: 'status',
+        type: 'tuple',
+        components: [
+          { name: 'canVoiceChat', type: 'bool' },
+          { name: 'canMessageBoard', type: 'bool' },
+          { name: 'canControlLive', type: 'bool' },
+          { name: 'isWhale', type: 'bool' },
+          { name: 'tokenBalance', type: 'uint256' },
+          { name: 'balancePercent', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  { name: 'messageBoardThresholdBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'voiceChatThresholdBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'whaleControlThresholdBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  {
+    name: 'registeredWhale',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'address' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'registerWhale',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'whale', type: 'address' },
+    ],
+    outputs: [],
+  },
+  // Voice and live chat
+  {
+    name: 'joinVoiceChat',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'leaveVoiceChat',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'isInVoiceChat',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'getUserVoiceChat',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'startLiveChat',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'endLiveChat',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'isLiveChatActive',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'toggleMessageBoard',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'active', type: 'bool' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'isMessageBoardActive',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  // Moderation
+  {
+    name: 'muteUser',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'unmuteUser',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'addModerator',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'removeModerator',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'canModerate',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'isUserMuted',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'user', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'isModerator',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: '', type: 'address' },
+      { name: '', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  // Dashboard data
+  {
+    name: 'getDashboardStats',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [
+      { name: 'totalMessages', type: 'uint256' },
+      { name: 'totalTips', type: 'uint256' },
+      { name: 'uniqueParticipants', type: 'uint256' },
+      { name: 'activeVoiceUsers', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'getDashboardInfo',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [
+      { name: 'totalMessages', type: 'uint256' },
+      { name: 'totalTips', type: 'uint256' },
+      { name: 'uniqueParticipants', type: 'uint256' },
+      { name: 'activeVoiceUsers', type: 'uint256' },
+      { name: 'liveChatActive', type: 'bool' },
+      { name: 'messageBoardActive', type: 'bool' },
+      { name: 'isShutdown', type: 'bool' },
+      { name: 'liveChatHost', type: 'address' },
+      { name: 'liveChatStartedAt', type: 'uint256' },
+    ],
+  },
+  // Platform admin
+  { name: 'owner', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  {
+    name: 'shutdownDashboard',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'reopenDashboard',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+  },
+  // Events
+  {
+    name: 'MessageSent',
+    type: 'event',
+    inputs: [
+      { name: 'id', type: 'uint256', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'msgType', type: 'uint8', indexed: false },
+      { name: 'content', type: 'string', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'SuperChatSent',
+    type: 'event',
+    inputs: [
+      { name: 'id', type: 'uint256', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'recipient', type: 'address', indexed: false },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'tier', type: 'uint8', indexed: false },
+      { name: 'message', type: 'string', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'UserMuted',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'moderator', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'UserUnmuted',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'moderator', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ModeratorAdded',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ModeratorRemoved',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'LiveChatStarted',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'host', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'LiveChatEnded',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'host', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'MessageBoardToggled',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'active', type: 'bool', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'VoiceChatJoined',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'VoiceChatLeft',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DashboardShutdown',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DashboardReopened',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'WhaleRegistered',
+    type: 'event',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'whale', type: 'address', indexed: true },
+      { name: 'balance', type: 'uint256', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  // Errors
+  { name: 'AlreadyInVoiceChat', type: 'error', inputs: [] },
+  { name: 'DashboardIsShutdown', type: 'error', inputs: [] },
+  { name: 'InsufficientTokenBalance', type: 'error', inputs: [] },
+  { name: 'InvalidRecipient', type: 'error', inputs: [] },
+  { name: 'InvalidToken', type: 'error', inputs: [] },
+  { name: 'LiveChatAlreadyActive', type: 'error', inputs: [] },
+  { name: 'LiveChatNotActive', type: 'error', inputs: [] },
+  { name: 'MessageBoardNotActive', type: 'error', inputs: [] },
+  { name: 'MessageTooLong', type: 'error', inputs: [] },
+  { name: 'NotAuthorizedToControlLive', type: 'error', inputs: [] },
+  { name: 'NotInVoiceChat', type: 'error', inputs: [] },
+  { name: 'NotModerator', type: 'error', inputs: [] },
+  { name: 'TransferFailed', type: 'error', inputs: [] },
+  { name: 'UserIsMuted', type: 'error', inputs: [] },
+  { name: 'ZeroAmount', type: 'error', inputs: [] },
+] as const
@@ -0,0 +1,178 @@
+/**
+ * PumpFudSwap ABI
+ * Routed swaps (bonding curve or best DEX) and limit order positions
+ * User-facing surface of out/PumpFudSwap.sol/PumpFudSwap.json - owner setters omitted
+ */
+
+export const SWAP_ABI = [
+  // Swap
+  {
+    name: 'swap',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'tokenIn', type: 'address' },
+      { name: 'tokenOut', type: 'address' },
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'minAmountOut', type: 'uint256' },
+    ],
+    outputs: [{ name: 'amountOut', type: 'uint256' }],
+  },
+  {
+    name: 'getQuote',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'tokenIn', type: 'address' },
+      { name: 'tokenOut', type: 'address' },
+      { name: 'amountIn', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'bestRoute', type: 'string' },
+    ],
+  },
+  { name: 'swapFeeBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  // Limit order positions
+  {
+    name: 'createPosition',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'tokenIn', type: 'address' },
+      { name: 'tokenOut', type: 'address' },
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'minAmountOut', type: 'uint256' },
+      { name: 'duration', type: 'uint256' },
+    ],
+    outputs: [{ name: 'positionId', type: 'uint256' }],
+  },
+  {
+    name: 'fillPosition',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'positionId', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'cancelPosition',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'positionId', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'getPosition',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'positionId', type: 'uint256' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'owner', type: 'address' },
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'minAmountOut', type: 'uint256' },
+          { name: 'createdAt', type: 'uint256' },
+          { name: 'expiresAt', type: 'uint256' },
+          { name: 'isActive', type: 'bool' },
+          { name: 'isFilled', type: 'bool' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'getUserPositions',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256[]' }],
+  },
+  {
+    name: 'getActivePositions',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple[]',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'owner', type: 'address' },
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'minAmountOut', type: 'uint256' },
+          { name: 'createdAt', type: 'uint256' },
+          { name: 'expiresAt', type: 'uint256' },
+          { name: 'isActive', type: 'bool' },
+          { name: 'isFilled', type: 'bool' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'isPositionFillable',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'positionId', type: 'uint256' }],
+    outputs: [
+      { name: 'fillable', type: 'bool' },
+      { name: 'currentQuote', type: 'uint256' },
+    ],
+  },
+  { name: 'positionCount', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  // Events
+  {
+    name: 'Swapped',
+    type: 'event',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'tokenIn', type: 'address', indexed: true },
+      { name: 'tokenOut', type: 'address', indexed: true },
+      { name: 'amountIn', type: 'uint256', indexed: false },
+      { name: 'amountOut', type: 'uint256', indexed: false },
+      { name: 'route', type: 'string', indexed: false },
+    ],
+  },
+  {
+    name: 'PositionCreated',
+    type: 'event',
+    inputs: [
+      { name: 'positionId', type: 'uint256', indexed: true },
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'tokenIn', type: 'address', indexed: false },
+      { name: 'tokenOut', type: 'address', indexed: false },
+      { name: 'amountIn', type: 'uint256', indexed: false },
+      { name: 'minAmountOut', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'PositionFilled',
+    type: 'event',
+    inputs: [
+      { name: 'positionId', type: 'uint256', indexed: true },
+      { name: 'amountOut', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'PositionCancelled',
+    type: 'event',
+    inputs: [{ name: 'positionId', type: 'uint256', indexed: true }],
+  },
+  // Errors
+  { name: 'FeeTooHigh', type: 'error', inputs: [] },
+  { name: 'InsufficientOutput', type: 'error', inputs: [] },
+  { name: 'InvalidAmount', type: 'error', inputs: [] },
+  { name: 'InvalidToken', type: 'error', inputs: [] },
+  { name: 'NotPositionOwner', type: 'error', inputs: [] },
+  { name: 'PositionExpired', type: 'error', inputs: [] },
+  { name: 'PositionNotActive', type: 'error', inputs: [] },
+  { name: 'PositionNotFound', type: 'error', inputs: [] },
+  { name: 'SwapFailed', type: 'error', inputs: [] },
+] as const
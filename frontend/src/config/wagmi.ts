@@ -1,5 +1,6 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit'
 import { http } from 'wagmi'
+import { zeroAddress } from 'viem'
 
 // PulseChain definition
 const pulsechain = {
@@ -12,8 +13,15 @@ const pulsechain = {
   blockExplorers: {
     default: { name: 'PulseScan', url: 'https://scan.pulsechain.com' },
   },
+  // Inherited from the Ethereum fork - lets useReadContracts and the identity resolver batch reads into one call
+  contracts: {
+    multicall3: { address: '0xcA11bde05977b3631167028862bE2a173976CA11', blockCreated: 14353601 },
+  },
 } as const
 
+// Explorer links for transactions and addresses
+export const PULSESCAN_URL = pulsechain.blockExplorers.default.url
+
 export const config = getDefaultConfig({
   appName: 'PUMP.FUD',
   projectId: 'pump-fud-pulsechain',
@@ -30,6 +38,57 @@ export const TREASURY = '0x49bBEFa1d94702C0e9a5EAdDEc7c3C5D3eb9086B' as const
 export const WPLS = '0xA1077a294dDE1B09bB078844df40758a5D0f9a27' as const
 export const WFUD = '0xa59A460B9bd6Db7b167e7082Df3C9D87EeBc9825' as const
 
+// Which PumpFud deployment the UI trades against - 'v1' (legacy, tokenId-based) or 'v2' (address-based)
+// Select with VITE_PUMP_FUD_VERSION; V2 also needs VITE_PUMP_FUD_V2_ADDRESS
+export type PumpFudVersion = 'v1' | 'v2'
+export const PUMP_FUD_VERSION: PumpFudVersion = import.meta.env.VITE_PUMP_FUD_VERSION === 'v2' ? 'v2' : 'v1'
+export const PUMP_FUD_V2_ADDRESS = (import.meta.env.VITE_PUMP_FUD_V2_ADDRESS ?? zeroAddress) as `0x${string}`
+// Contract users trade with and approve as spender
+export const ACTIVE_PUMP_FUD_ADDRESS = PUMP_FUD_VERSION === 'v2' ? PUMP_FUD_V2_ADDRESS : PUMP_FUD_ADDRESS
+
+// First block scanned for legacy PumpFud events (earliest PumpFud deployment in broadcast/)
+export const PUMP_FUD_START_BLOCK = 25540000n
+
+// First block scanned for events of a contract deployed outside broadcast/ - its VITE_*_START_BLOCK
+// (the deploy block), or the earliest PumpFud block when unset
+function envStartBlock(value: string | undefined): bigint {
+  return value && /^\d+$/.test(value) ? BigInt(value) : PUMP_FUD_START_BLOCK
+}
+
+export const PUMP_FUD_V2_START_BLOCK = envStartBlock(import.meta.env.VITE_PUMP_FUD_V2_START_BLOCK)
+
+// PumpFudSuperChat (message board, super chats, moderation) - not in broadcast/ yet, set VITE_SUPER_CHAT_ADDRESS
+export const SUPER_CHAT_ADDRESS = (import.meta.env.VITE_SUPER_CHAT_ADDRESS ?? zeroAddress) as `0x${string}`
+export const IS_SUPER_CHAT_DEPLOYED = SUPER_CHAT_ADDRESS !== zeroAddress
+export const SUPER_CHAT_START_BLOCK = envStartBlock(import.meta.env.VITE_SUPER_CHAT_START_BLOCK)
+
+// ChatAccessControl (per-token live chat requirements) - not in broadcast/ yet, set VITE_CHAT_ACCESS_CONTROL_ADDRESS
+// Without it the contract's platform defaults apply (hold 1% of supply)
+export const CHAT_ACCESS_CONTROL_ADDRESS = (import.meta.env.VITE_CHAT_ACCESS_CONTROL_ADDRESS ?? zeroAddress) as `0x${string}`
+export const IS_CHAT_ACCESS_CONTROL_DEPLOYED = CHAT_ACCESS_CONTROL_ADDRESS !== zeroAddress
+
+// PumpFudSwap (routed swaps and limit order positions) - not in broadcast/ yet, set VITE_SWAP_ADDRESS
+export const SWAP_ADDRESS = (import.meta.env.VITE_SWAP_ADDRESS ?? zeroAddress) as `0x${string}`
+export const IS_SWAP_DEPLOYED = SWAP_ADDRESS !== zeroAddress
+export const SWAP_START_BLOCK = envStartBlock(import.meta.env.VITE_SWAP_START_BLOCK)
+
+// PumpFudProfile (display names, avatars, reputation, badges) - not in broadcast/ yet, set VITE_PROFILE_ADDRESS
+// Without it every wallet shows as a truncated address
+export const PROFILE_ADDRESS = (import.meta.env.VITE_PROFILE_ADDRESS ?? zeroAddress) as `0x${string}`
+export const IS_PROFILE_DEPLOYED = PROFILE_ADDRESS !== zeroAddress
+export const PROFILE_START_BLOCK = envStartBlock(import.meta.env.VITE_PROFILE_START_BLOCK)
+
+// PumpFudAdManager (rentable ad spaces) - not in broadcast/ yet, set VITE_AD_MANAGER_ADDRESS
+// Without it carousels show the built-in ads and the advertiser portal is read-only
+export const AD_MANAGER_ADDRESS = (import.meta.env.VITE_AD_MANAGER_ADDRESS ?? zeroAddress) as `0x${string}`
+export const IS_AD_MANAGER_DEPLOYED = AD_MANAGER_ADDRESS !== zeroAddress
+
+// IPFS node or pinning proxy exposing the Kubo /api/v0/add endpoint - set VITE_IPFS_API_URL
+// Without it uploads fall back to a browser-local store that only this device can see
+export const IPFS_API_URL = (import.meta.env.VITE_IPFS_API_URL ?? '').replace(/\/+$/, '')
+export const IPFS_GATEWAY_URL = (import.meta.env.VITE_IPFS_GATEWAY_URL ?? 'https://ipfs.io/ipfs').replace(/\/+$/, '')
+export const IS_IPFS_CONFIGURED = IPFS_API_URL !== ''
+
 // ABI for PumpFud contract
 export const PUMP_FUD_ABI = [
   // Launch token
@@ -240,6 +299,8 @@ export const PUMP_FUD_ABI = [
   // Parameters
   { name: 'graduationThreshold', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
   { name: 'maxSupply', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'virtualPlsReserves', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'virtualTokenReserves', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
   { name: 'launchFee', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
   { name: 'buyFeeBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
   { name: 'sellFeeBps', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
@@ -251,6 +312,58 @@ export const PUMP_FUD_ABI = [
   { name: 'TREASURY', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
   { name: 'creationFee', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
   { name: 'treasury', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+  // Events
+  {
+    name: 'TokenLaunched',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'tokenAddress', type: 'address', indexed: true },
+      { name: 'creator', type: 'address', indexed: true },
+      { name: 'name', type: 'string', indexed: false },
+      { name: 'symbol', type: 'string', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenBought',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'buyer', type: 'address', indexed: true },
+      { name: 'plsIn', type: 'uint256', indexed: false },
+      { name: 'tokensOut', type: 'uint256', indexed: false },
+      { name: 'newPrice', type: 'uint256', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenSold',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'seller', type: 'address', indexed: true },
+      { name: 'tokensIn', type: 'uint256', indexed: false },
+      { name: 'plsOut', type: 'uint256', indexed: false },
+      { name: 'newPrice', type: 'uint256', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'TokenGraduated',
+    type: 'event',
+    inputs: [
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'tokenAddress', type: 'address', indexed: true },
+      { name: 'lpPair', type: 'address', indexed: true },
+      { name: 'plsLiquidity', type: 'uint256', indexed: false },
+      { name: 'tokenLiquidity', type: 'uint256', indexed: false },
+      { name: 'lpBurned', type: 'uint256', indexed: false },
+      { name: 'tokensBurnedToDead', type: 'uint256', indexed: false },
+      { name: 'creatorReward', type: 'uint256', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
 ] as const
 
 // ABI for PumpFudLeaderboard contract
@@ -0,0 +1,23 @@
+import { useMemo, type ReactNode } from 'react'
+import { TokenRolesContext, type TokenRoles } from '../hooks/useTokenRoles'
+
+/**
+ * Token Roles
+ * Who created and moderates the token a view is about, so every address rendered inside
+ * it can show "creator" / "mod" chips without each row being handed the token
+ */
+
+interface TokenRolesProviderProps {
+  creator?: string
+  moderators?: readonly string[]
+  children: ReactNode
+}
+
+export function TokenRolesProvider({ creator, moderators, children }: TokenRolesProviderProps) {
+  const value = useMemo<TokenRoles>(() => ({
+    creator: creator?.toLowerCase(),
+    moderators: new Set((moderators ?? []).map(m => m.toLowerCase())),
+  }), [creator, moderators])
+
+  return <TokenRolesContext.Provider value={value}>{children}</TokenRolesContext.Provider>
+}
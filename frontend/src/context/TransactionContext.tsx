@@ -0,0 +1,115 @@
+import { useCallback, useRef, useState, type ReactNode } from 'react'
+import { usePublicClient } from 'wagmi'
+import type { TransactionReceipt } from 'viem'
+import { getRevertReason } from '../utils/transactions'
+import { decodeTxError, isUserRejection } from '../utils/contractErrors'
+import { TransactionToasts } from '../components/ui/TransactionToasts'
+import { TransactionContext } from '../hooks/useTransactions'
+
+export type TransactionStatus = 'signing' | 'pending' | 'confirmed' | 'failed' | 'replaced'
+
+export interface TrackedTransaction {
+  id: number
+  label: string // "Buy PEPE", "Approve PEPE"...
+  status: TransactionStatus
+  hash?: `0x${string}`
+  replacedHash?: `0x${string}` // Original hash when the wallet sped up or cancelled the transaction
+  errorName?: string | null // Decoded custom error, e.g. InsufficientPayment
+  error?: string
+  fix?: string // Suggested next step for a decoded revert
+}
+
+export interface SendTransactionOptions {
+  label: string
+  execute: () => Promise<`0x${string}` | undefined> // Prompts the wallet and resolves with the hash
+  onConfirmed?: (receipt: TransactionReceipt) => void
+}
+
+// Confirmed and cancelled toasts clear themselves; failures stay until dismissed or retried
+const AUTO_DISMISS_MS = 6000
+
+interface TransactionProviderProps {
+  children: ReactNode
+}
+
+export function TransactionProvider({ children }: TransactionProviderProps) {
+  const publicClient = usePublicClient()
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([])
+  const nextId = useRef(1)
+  // Kept outside state so retry can re-run the original request
+  const requests = useRef(new Map<number, SendTransactionOptions>())
+
+  const patch = useCallback((id: number, changes: Partial<TrackedTransaction>) => {
+    setTransactions(prev => prev.map(tx => (tx.id === id ? { ...tx, ...changes } : tx)))
+  }, [])
+
+  const dismiss = useCallback((id: number) => {
+    requests.current.delete(id)
+    setTransactions(prev => prev.filter(tx => tx.id !== id))
+  }, [])
+
+  const send = useCallback(async (options: SendTransactionOptions): Promise<TransactionReceipt | null> => {
+    const id = nextId.current++
+    requests.current.set(id, options)
+    setTransactions(prev => [...prev, { id, label: options.label, status: 'signing' }])
+
+    try {
+      const hash = await options.execute()
+      if (!hash) {
+        dismiss(id)
+        return null
+      }
+      patch(id, { status: 'pending', hash })
+      if (!publicClient) {
+        // Sent, but there is no RPC client to wait on - don't leave the toast spinning
+        patch(id, { status: 'failed', error: 'Could not track this transaction', fix: 'Check it on PulseScan before retrying' })
+        return null
+      }
+
+      let cancelled = false
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash,
+        onReplaced: replacement => {
+          // Sped-up (repriced) transactions are the same trade; a cancel or a different tx is not
+          cancelled = replacement.reason !== 'repriced'
+          patch(id, { hash: replacement.transaction.hash, replacedHash: hash })
+        },
+      })
+
+      if (cancelled) {
+        patch(id, { status: 'replaced' })
+        return null
+      }
+      if (receipt.status !== 'success') {
+        const revert = await getRevertReason(publicClient, receipt)
+        patch(id, { status: 'failed', errorName: revert.errorName, error: revert.message, fix: revert.fix })
+        return null
+      }
+
+      patch(id, { status: 'confirmed' })
+      options.onConfirmed?.(receipt)
+      setTimeout(() => dismiss(id), AUTO_DISMISS_MS)
+      return receipt
+    } catch (err) {
+      console.error(`[Transactions] ${options.label} failed:`, err)
+      const { errorName, message, fix } = decodeTxError(err)
+      patch(id, { status: 'failed', errorName, error: message, fix })
+      if (isUserRejection(err)) setTimeout(() => dismiss(id), AUTO_DISMISS_MS)
+      return null
+    }
+  }, [publicClient, patch, dismiss])
+
+  const retry = useCallback((id: number) => {
+    const options = requests.current.get(id)
+    if (!options) return
+    dismiss(id)
+    void send(options)
+  }, [dismiss, send])
+
+  return (
+    <TransactionContext.Provider value={{ transactions, send, retry, dismiss }}>
+      {children}
+      <TransactionToasts transactions={transactions} onRetry={retry} onDismiss={dismiss} />
+    </TransactionContext.Provider>
+  )
+}
@@ -0,0 +1,289 @@
+import { useMemo } from 'react'
+import { maxUint256 } from 'viem'
+import { useReadContract, useReadContracts, useWatchContractEvent } from 'wagmi'
+import { AD_MANAGER_ADDRESS, IS_AD_MANAGER_DEPLOYED } from '../config/wagmi'
+import { AD_MANAGER_ABI } from '../config/adManager'
+
+// PumpFudAdManager initial weekly rate, used until the contract answers
+const DEFAULT_WEEKLY_RATE = 25_000n * 10n ** 18n
+
+const AD_EVENTS = new Set(['AdPlaced', 'OwnerAdPlaced', 'AdRemoved', 'AdSpaceUpdated'])
+
+// PumpFudAdManager.AdLocation
+export const AD_LOCATION = {
+  LandingCarousel: 0,
+  LandingBanner: 1,
+  DashboardSidebar: 2,
+  DashboardBanner: 3,
+  TokenListBanner: 4,
+  LaunchPageSpot: 5,
+  FooterBanner: 6,
+  CarouselAllPages: 7,
+} as const
+
+export interface AdLocationInfo {
+  id: number // AD_LOCATION value
+  label: string
+  description: string
+}
+
+export const AD_LOCATIONS: AdLocationInfo[] = [
+  { id: AD_LOCATION.LandingCarousel, label: 'Landing Carousel', description: 'Rotating slides at the top of the realm' },
+  { id: AD_LOCATION.LandingBanner, label: 'Landing Banner', description: 'Top banner on the landing page' },
+  { id: AD_LOCATION.DashboardSidebar, label: 'Dashboard Sidebar', description: 'Beside the chart on token dashboards' },
+  { id: AD_LOCATION.DashboardBanner, label: 'Dashboard Banner', description: 'Across the top of every token dashboard' },
+  { id: AD_LOCATION.TokenListBanner, label: 'Token List Banner', description: 'Above the token list' },
+  { id: AD_LOCATION.LaunchPageSpot, label: 'Launch Page Spot', description: 'Next to the launch form' },
+  { id: AD_LOCATION.FooterBanner, label: 'Footer Banner', description: 'Footer on every page' },
+  { id: AD_LOCATION.CarouselAllPages, label: 'Global Carousel', description: 'Rotates through every carousel on every page' },
+]
+
+export interface AdSpace {
+  id: bigint
+  location: number
+  name: string
+  weeklyRate: bigint // 0 = the contract's default rate
+  isActive: boolean // Open for bookings
+  isPremium: boolean
+  premiumMultiplier: number // 100 = 1x, applied only to premium spaces
+}
+
+export interface PlacedAd {
+  id: bigint
+  spaceId: bigint
+  advertiser: `0x${string}`
+  imageUri: string
+  linkUrl: string
+  altText: string
+  startTime: number // Unix seconds
+  endTime: number | null // Null for owner ads that run until removed
+  paidAmount: bigint
+  isOwnerAd: boolean
+  isActive: boolean // False once the owner removes it
+}
+
+type RawAd = Omit<PlacedAd, 'startTime' | 'endTime'> & { startTime: bigint; endTime: bigint }
+
+function fromRawAd(raw: RawAd): PlacedAd | null {
+  // Free spaces and unknown ids come back zeroed
+  if (raw.id === 0n) return null
+  return {
+    id: raw.id,
+    spaceId: raw.spaceId,
+    advertiser: raw.advertiser,
+    imageUri: raw.imageUri,
+    linkUrl: raw.linkUrl,
+    altText: raw.altText,
+    startTime: Number(raw.startTime),
+    endTime: raw.endTime === maxUint256 ? null : Number(raw.endTime),
+    paidAmount: raw.paidAmount,
+    isOwnerAd: raw.isOwnerAd,
+    isActive: raw.isActive,
+  }
+}
+
+/**
+ * Weekly PLS price of a space, mirroring calculateRentalCost for display before a quote loads
+ */
+export function spaceWeeklyPrice(space: AdSpace, defaultRate: bigint): bigint {
+  const rate = space.weeklyRate > 0n ? space.weeklyRate : defaultRate
+  return (rate * BigInt(space.isPremium ? space.premiumMultiplier : 100)) / 100n
+}
+
+function useAdEvents(onChange: () => void, enabled = true) {
+  useWatchContractEvent({
+    address: AD_MANAGER_ADDRESS,
+    abi: AD_MANAGER_ABI,
+    enabled: IS_AD_MANAGER_DEPLOYED && enabled,
+    onLogs(logs) {
+      if (logs.some(l => AD_EVENTS.has(l.eventName))) onChange()
+    },
+  })
+}
+
+export interface BookedSpace extends AdSpace {
+  currentAd: PlacedAd | null // Running ad, null when the space can be rented
+}
+
+export interface UseAdSpacesReturn {
+  spaces: BookedSpace[]
+  defaultRate: bigint
+  isLoading: boolean
+  refetch: () => void
+}
+
+/**
+ * Every ad space at a location with the ad currently running in it
+ */
+export function useAdSpaces(location: number): UseAdSpacesReturn {
+  const { data: rawSpaces, isLoading: spacesLoading, refetch: refetchSpaces } = useReadContract({
+    address: AD_MANAGER_ADDRESS,
+    abi: AD_MANAGER_ABI,
+    functionName: 'getSpacesForLocation',
+    args: [location],
+    query: { enabled: IS_AD_MANAGER_DEPLOYED },
+  })
+
+  const { data: rate } = useReadContract({
+    address: AD_MANAGER_ADDRESS,
+    abi: AD_MANAGER_ABI,
+    functionName: 'weeklyRatePLS',
+    query: { enabled: IS_AD_MANAGER_DEPLOYED },
+  })
+
+  const { data: current, isLoading: currentLoading, refetch: refetchCurrent } = useReadContracts({
+    allowFailure: false,
+    contracts: (rawSpaces ?? []).map(space => ({
+      address: AD_MANAGER_ADDRESS,
+      abi: AD_MANAGER_ABI,
+      functionName: 'getCurrentAdForSpace',
+      args: [space.id],
+    } as const)),
+    query: { enabled: !!rawSpaces && rawSpaces.length > 0 },
+  })
+
+  const refetch = () => {
+    refetchSpaces()
+    refetchCurrent()
+  }
+  useAdEvents(refetch)
+
+  const spaces = useMemo(
+    () => (rawSpaces ?? []).map((space, i): BookedSpace => ({
+      id: space.id,
+      location: space.location,
+      name: space.name,
+      weeklyRate: space.weeklyRate,
+      isActive: space.isActive,
+      isPremium: space.isPremium,
+      premiumMultiplier: Number(space.premiumMultiplier),
+      currentAd: current ? fromRawAd(current[i]) : null,
+    })),
+    [rawSpaces, current]
+  )
+
+  return {
+    spaces,
+    defaultRate: rate ?? DEFAULT_WEEKLY_RATE,
+    isLoading: IS_AD_MANAGER_DEPLOYED && (spacesLoading || currentLoading),
+    refetch,
+  }
+}
+
+/**
+ * calculateRentalCost quote for booking or extending a space by `weeks`
+ */
+export function useRentalQuote(spaceId: bigint | undefined, weeks: number): { cost: bigint | undefined; isLoading: boolean } {
+  const valid = spaceId !== undefined && Number.isInteger(weeks) && weeks > 0
+  const { data, isLoading } = useReadContract({
+    address: AD_MANAGER_ADDRESS,
+    abi: AD_MANAGER_ABI,
+    functionName: 'calculateRentalCost',
+    args: valid ? [spaceId, BigInt(weeks)] : undefined,
+    query: { enabled: IS_AD_MANAGER_DEPLOYED && valid },
+  })
+
+  return { cost: valid ? data : undefined, isLoading: valid && isLoading }
+}
+
+/**
+ * Running ads across locations, oldest booking first, each listed once
+ */
+export function useActiveAds(locations: readonly number[]): PlacedAd[] {
+  const { data, refetch } = useReadContracts({
+    contracts: locations.map(location => ({
+      address: AD_MANAGER_ADDRESS,
+      abi: AD_MANAGER_ABI,
+      functionName: 'getActiveAdsForLocation',
+      args: [location],
+    } as const)),
+    query: { enabled: IS_AD_MANAGER_DEPLOYED && locations.length > 0 },
+  })
+  useAdEvents(refetch)
+
+  return useMemo(() => {
+    const byId = new Map<bigint, PlacedAd>()
+    data?.forEach(r => {
+      if (r.status !== 'success') return
+      r.result.forEach(raw => {
+        const ad = fromRawAd(raw)
+        if (ad) byId.set(ad.id, ad)
+      })
+    })
+    return Array.from(byId.values()).sort((a, b) => (a.id < b.id ? -1 : 1))
+  }, [data])
+}
+
+export interface AdvertiserAd extends PlacedAd {
+  impressions: number
+  clicks: number
+}
+
+/**
+ * Every ad a wallet has booked, newest first. Ad ids are sequential, so this reads them all -
+ * fine at PumpFudAdManager's scale of a few dozen weekly spaces
+ */
+export function useAdvertiserAds(advertiser: `0x${string}` | undefined): { ads: AdvertiserAd[]; refetch: () => void } {
+  const { data: count, refetch: refetchCount } = useReadContract({
+    address: AD_MANAGER_ADDRESS,
+    abi: AD_MANAGER_ABI,
+    functionName: 'adCount',
+    query: { enabled: IS_AD_MANAGER_DEPLOYED && !!advertiser },
+  })
+
+  const ids = useMemo(
+    () => Array.from({ length: Number(count ?? 0n) }, (_, i) => BigInt(i + 1)),
+    [count]
+  )
+
+  const { data: rawAds, refetch: refetchAds } = useReadContracts({
+    allowFailure: false,
+    contracts: ids.map(id => ({
+      address: AD_MANAGER_ADDRESS,
+      abi: AD_MANAGER_ABI,
+      functionName: 'ads',
+      args: [id],
+    } as const)),
+    query: { enabled: ids.length > 0 },
+  })
+
+  const mine = useMemo(
+    () => (rawAds ?? []).flatMap(([id, spaceId, owner, imageUri, linkUrl, altText, startTime, endTime, paidAmount, isOwnerAd, isActive]) => {
+      if (!advertiser || owner.toLowerCase() !== advertiser.toLowerCase()) return []
+      const ad = fromRawAd({ id, spaceId, advertiser: owner, imageUri, linkUrl, altText, startTime, endTime, paidAmount, isOwnerAd, isActive })
+      return ad ? [ad] : []
+    }),
+    [rawAds, advertiser]
+  )
+
+  const { data: stats, refetch: refetchStats } = useReadContracts({
+    allowFailure: false,
+    contracts: mine.map(ad => ({
+      address: AD_MANAGER_ADDRESS,
+      abi: AD_MANAGER_ABI,
+      functionName: 'getAdStats',
+      args: [ad.id],
+    } as const)),
+    query: { enabled: mine.length > 0 },
+  })
+
+  const refetch = () => {
+    refetchCount()
+    refetchAds()
+    refetchStats()
+  }
+  useAdEvents(refetch, !!advertiser)
+
+  const ads = useMemo(
+    () => mine
+      .map((ad, i): AdvertiserAd => ({
+        ...ad,
+        impressions: stats ? Number(stats[i][0]) : 0,
+        clicks: stats ? Number(stats[i][1]) : 0,
+      }))
+      .reverse(),
+    [mine, stats]
+  )
+
+  return { ads, refetch }
+}
@@ -0,0 +1,191 @@
+import { useMemo } from 'react'
+import { useReadContracts, useWatchContractEvent } from 'wagmi'
+import { formatEther, zeroAddress } from 'viem'
+import {
+  SUPER_CHAT_ADDRESS,
+  IS_SUPER_CHAT_DEPLOYED,
+  CHAT_ACCESS_CONTROL_ADDRESS,
+  IS_CHAT_ACCESS_CONTROL_DEPLOYED,
+} from '../config/wagmi'
+import { SUPER_CHAT_ABI } from '../config/superChat'
+import { CHAT_ACCESS_CONTROL_ABI } from '../config/chatAccessControl'
+
+// Balances move with every trade, so the gates are re-read on an interval
+const REFETCH_INTERVAL = 15000
+const BPS_DENOMINATOR = 10000n
+
+// ChatAccessControl platform defaults - what getAccessConfig returns for a token without a custom config
+const DEFAULT_ACCESS_CONFIG = {
+  minimumBalance: 0n,
+  minimumPercentage: 100n,
+  requiresHolding: true,
+  superchatEnabled: true,
+}
+// PumpFudSuperChat constructor values, used until its thresholds load
+const DEFAULT_MESSAGE_BOARD_BPS = 50n
+const DEFAULT_VOICE_CHAT_BPS = 100n
+
+const ERC20_ABI = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'totalSupply',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const
+
+export interface ChatAccessGate {
+  allowed: boolean
+  reason: string | null // Why access is denied, e.g. "need 12.3K more tokens"
+  shortfall: bigint // Tokens still needed; 0 when allowed or when the denial is not about balance
+}
+
+export interface UseChatAccessReturn {
+  liveChat: ChatAccessGate // ChatAccessControl requirement, plus the board threshold sendMessage enforces
+  messageBoard: ChatAccessGate
+  voiceChat: ChatAccessGate
+  superChat: ChatAccessGate // Token's superchatEnabled flag, plus the board threshold the tip functions enforce
+  balance: bigint
+  holderPercentage: number // 0-100
+  isLoading: boolean
+}
+
+// Same rounding as the contracts: floor(balance * 10000 / supply) >= bps
+function requiredBalance(bps: bigint, totalSupply: bigint, minimumBalance = 0n): bigint {
+  const byShare = (bps * totalSupply + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR
+  return byShare > minimumBalance ? byShare : minimumBalance
+}
+
+function formatShortfall(amount: bigint): string {
+  const num = Number(formatEther(amount))
+  if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(1)}B`
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
+  return num.toFixed(num >= 1 ? 1 : 4)
+}
+
+const ALLOWED: ChatAccessGate = { allowed: true, reason: null, shortfall: 0n }
+const denied = (reason: string): ChatAccessGate => ({ allowed: false, reason, shortfall: 0n })
+
+/**
+ * Whether `user` may use each chat surface of `token`, from ChatAccessControl and PumpFudSuperChat.
+ * The contracts' own checks decide; balances only explain a denial
+ */
+export function useChatAccess(
+  token: `0x${string}` | undefined,
+  user: `0x${string}` | undefined
+): UseChatAccessReturn {
+  const enabled = !!token && !!user
+  // Placeholders keep the call tuples typed; nothing is read until both are known
+  const tokenArg = token ?? zeroAddress
+  const userArg = user ?? zeroAddress
+
+  const { data: holdings, isLoading: holdingsLoading } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: tokenArg, abi: ERC20_ABI, functionName: 'balanceOf', args: [userArg] },
+      { address: tokenArg, abi: ERC20_ABI, functionName: 'totalSupply' },
+    ],
+    query: { enabled, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  const { data: superChat, isLoading: superChatLoading } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'canUseMessageBoard', args: [tokenArg, userArg] },
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'canUseVoiceChat', args: [tokenArg, userArg] },
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'messageBoardThresholdBps' },
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'voiceChatThresholdBps' },
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'getDashboardInfo', args: [tokenArg] },
+    ],
+    query: { enabled: enabled && IS_SUPER_CHAT_DEPLOYED, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  const { data: access, isLoading: accessLoading, refetch: refetchAccess } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: CHAT_ACCESS_CONTROL_ADDRESS, abi: CHAT_ACCESS_CONTROL_ABI, functionName: 'getAccessConfig', args: [tokenArg] },
+      { address: CHAT_ACCESS_CONTROL_ADDRESS, abi: CHAT_ACCESS_CONTROL_ABI, functionName: 'getUserChatStatus', args: [tokenArg, userArg] },
+    ],
+    query: { enabled: enabled && IS_CHAT_ACCESS_CONTROL_DEPLOYED, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  // Creators can retune their token's requirements at any time
+  useWatchContractEvent({
+    address: CHAT_ACCESS_CONTROL_ADDRESS,
+    abi: CHAT_ACCESS_CONTROL_ABI,
+    eventName: 'AccessConfigUpdated',
+    args: token ? { token } : undefined,
+    enabled: !!token && IS_CHAT_ACCESS_CONTROL_DEPLOYED,
+    onLogs() {
+      refetchAccess()
+    },
+  })
+
+  const [balance, totalSupply] = holdings ?? [0n, 0n]
+
+  const gates = useMemo(() => {
+    const config = access?.[0] ?? DEFAULT_ACCESS_CONFIG
+    const [canUseBoard, canUseVoice, boardBps, voiceBps] = superChat
+      ?? [undefined, undefined, DEFAULT_MESSAGE_BOARD_BPS, DEFAULT_VOICE_CHAT_BPS]
+    // A shut down dashboard rejects every message, tip and voice join regardless of holdings
+    if (superChat?.[4][6]) {
+      const shutdown = denied('Chat is shut down for this token')
+      return { liveChat: shutdown, messageBoard: shutdown, voiceChat: shutdown, superChat: shutdown }
+    }
+
+    // The contract's answer when it has one, the same rule applied locally while it loads
+    const gate = (onChain: boolean | undefined, required: bigint): ChatAccessGate => {
+      if (!user) return denied('Connect wallet')
+      if (onChain ?? balance >= required) return ALLOWED
+      const shortfall = required > balance ? required - balance : 0n
+      if (shortfall === 0n) return denied('Not eligible yet')
+      return { allowed: false, reason: `need ${formatShortfall(shortfall)} more tokens`, shortfall }
+    }
+
+    const boardRequired = requiredBalance(boardBps, totalSupply)
+    const messageBoard = IS_SUPER_CHAT_DEPLOYED ? gate(canUseBoard, boardRequired) : denied('Chat contract not configured')
+    const voiceChat = IS_SUPER_CHAT_DEPLOYED
+      ? gate(canUseVoice, requiredBalance(voiceBps, totalSupply))
+      : denied('Chat contract not configured')
+
+    const accessRequired = config.requiresHolding
+      ? requiredBalance(config.minimumPercentage, totalSupply, config.minimumBalance)
+      : 0n
+    // Without a ChatAccessControl deployment its default rule is applied locally
+    const hasAccess = IS_CHAT_ACCESS_CONTROL_DEPLOYED ? access?.[1][0] : balance >= accessRequired
+    const liveChat = !IS_SUPER_CHAT_DEPLOYED
+      ? denied('Chat contract not configured')
+      : gate(
+          hasAccess === undefined || canUseBoard === undefined ? undefined : hasAccess && canUseBoard,
+          accessRequired > boardRequired ? accessRequired : boardRequired
+        )
+
+    const superChatGate = !config.superchatEnabled
+      ? denied('Super chats are disabled for this token')
+      : messageBoard
+
+    return { liveChat, messageBoard, voiceChat, superChat: superChatGate }
+  }, [user, access, superChat, balance, totalSupply])
+
+  const holderPercentage = totalSupply > 0n ? Number((balance * BPS_DENOMINATOR) / totalSupply) / 100 : 0
+
+  return {
+    ...gates,
+    balance,
+    holderPercentage,
+    isLoading: enabled && (
+      holdingsLoading
+      || (IS_SUPER_CHAT_DEPLOYED && superChatLoading)
+      || (IS_CHAT_ACCESS_CONTROL_DEPLOYED && accessLoading)
+    ),
+  }
+}
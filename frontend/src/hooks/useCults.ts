@@ -0,0 +1,333 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { usePublicClient, useReadContract, useReadContracts, useWatchContractEvent } from 'wagmi'
+import { PROFILE_ADDRESS, IS_PROFILE_DEPLOYED, LEADERBOARD_ADDRESS, LEADERBOARD_ABI } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+import { getCultLog, EMPTY_CULT_LOG_SNAPSHOT } from '../utils/cultLog'
+
+// PumpFudProfile initial values, used until the contract answers
+const DEFAULT_MAX_CULT_NAME_LENGTH = 24
+const DEFAULT_MAX_CULT_MEMBERS = 1000
+
+const CULT_EVENTS = new Set(['CultCreated', 'CultJoined', 'CultLeft', 'CultLeaderChanged'])
+
+export interface CultInfo {
+  id: bigint
+  name: string
+  tag: string
+  imageUri: string
+  description: string
+  founder: `0x${string}`
+  leader: `0x${string}` // Founder until leadership is transferred
+  memberCount: number
+  createdAt: number // Unix seconds
+  isPublic: boolean // Anyone with a profile can join; otherwise the leader invites
+  isActive: boolean // False once the owner deactivates it
+}
+
+type RawCult = Omit<CultInfo, 'memberCount' | 'createdAt'> & { memberCount: bigint; createdAt: bigint }
+
+function fromRawCult(raw: RawCult): CultInfo | null {
+  // Unknown ids come back zeroed
+  if (raw.id === 0n) return null
+  return {
+    id: raw.id,
+    name: raw.name,
+    tag: raw.tag,
+    imageUri: raw.imageUri,
+    description: raw.description,
+    founder: raw.founder,
+    leader: raw.leader,
+    memberCount: Number(raw.memberCount),
+    createdAt: Number(raw.createdAt),
+    isPublic: raw.isPublic,
+    isActive: raw.isActive,
+  }
+}
+
+export function cultPath(cultId: bigint): string {
+  return `/cults/${cultId}`
+}
+
+const noopSubscribe = () => () => {}
+const emptySnapshot = () => EMPTY_CULT_LOG_SNAPSHOT
+
+export interface UseCultsReturn {
+  cults: CultInfo[] // Active cults, newest first
+  isLoading: boolean
+  refresh: () => void
+}
+
+/**
+ * Every active cult, discovered from CultCreated events and read live through getCult
+ */
+export function useCults(): UseCultsReturn {
+  const publicClient = usePublicClient()
+  const log = useMemo(
+    () => (publicClient && IS_PROFILE_DEPLOYED ? getCultLog(publicClient) : null),
+    [publicClient]
+  )
+  const snapshot = useSyncExternalStore(
+    log ? log.subscribe : noopSubscribe,
+    log ? log.getSnapshot : emptySnapshot
+  )
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: snapshot.cults.map(record => ({
+      address: PROFILE_ADDRESS,
+      abi: PROFILE_ABI,
+      functionName: 'getCult',
+      args: [record.id],
+    } as const)),
+    query: { enabled: snapshot.cults.length > 0 },
+  })
+
+  // Member counts and leaders move with joins, leaves and handovers
+  useWatchContractEvent({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    enabled: IS_PROFILE_DEPLOYED,
+    onLogs(logs) {
+      if (logs.some(l => CULT_EVENTS.has(l.eventName))) refetch()
+    },
+  })
+
+  const cults = useMemo(
+    () => (data ?? []).flatMap((r): CultInfo[] => {
+      const cult = r.status === 'success' ? fromRawCult(r.result) : null
+      return cult?.isActive ? [cult] : []
+    }),
+    [data]
+  )
+
+  const refresh = () => {
+    void log?.refresh()
+    refetch()
+  }
+
+  return {
+    cults,
+    isLoading: IS_PROFILE_DEPLOYED && (snapshot.status === 'idle' || snapshot.status === 'loading' || isLoading),
+    refresh,
+  }
+}
+
+export interface UseCultRostersReturn {
+  rosters: Map<bigint, `0x${string}`[]> // Current members per cult, in join order
+  isLoading: boolean
+  refetch: () => void
+}
+
+/**
+ * Current members of each cult. getCultMembers keeps everyone who ever joined (leaveCult only
+ * clears the cultMembers flag), so each listed wallet is checked against cultMembers
+ */
+export function useCultRosters(cultIds: readonly bigint[]): UseCultRostersReturn {
+  const { data: lists, isLoading: listsLoading, refetch: refetchLists } = useReadContracts({
+    allowFailure: false,
+    contracts: cultIds.map(id => ({
+      address: PROFILE_ADDRESS,
+      abi: PROFILE_ABI,
+      functionName: 'getCultMembers',
+      args: [id],
+    } as const)),
+    query: { enabled: IS_PROFILE_DEPLOYED && cultIds.length > 0 },
+  })
+
+  // A wallet that left and rejoined is listed twice
+  const candidates = useMemo(
+    () => (lists ?? []).flatMap((list, i) => {
+      const seen = new Set<string>()
+      return list.flatMap(member => {
+        const key = member.toLowerCase()
+        if (seen.has(key)) return []
+        seen.add(key)
+        return [{ cultId: cultIds[i], member }]
+      })
+    }),
+    [lists, cultIds]
+  )
+
+  const { data: flags, isLoading: flagsLoading, refetch: refetchFlags } = useReadContracts({
+    allowFailure: false,
+    contracts: candidates.map(({ cultId, member }) => ({
+      address: PROFILE_ADDRESS,
+      abi: PROFILE_ABI,
+      functionName: 'cultMembers',
+      args: [cultId, member],
+    } as const)),
+    query: { enabled: candidates.length > 0 },
+  })
+
+  const rosters = useMemo(() => {
+    const map = new Map<bigint, `0x${string}`[]>(cultIds.map(id => [id, []]))
+    if (!flags) return map
+    candidates.forEach(({ cultId, member }, i) => {
+      if (flags[i]) map.get(cultId)?.push(member)
+    })
+    return map
+  }, [cultIds, candidates, flags])
+
+  const refetch = () => {
+    refetchLists()
+    refetchFlags()
+  }
+
+  return { rosters, isLoading: listsLoading || flagsLoading, refetch }
+}
+
+export interface UseCultReturn {
+  cult: CultInfo | null | undefined // Null when no cult has the id, undefined while loading
+  members: `0x${string}`[]
+  isLoading: boolean
+  refetch: () => void
+}
+
+/**
+ * One cult with its roster, refreshed on that cult's join/leave/leadership events
+ */
+export function useCult(cultId: bigint | undefined): UseCultReturn {
+  const { data: raw, isLoading, refetch: refetchCult } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getCult',
+    args: cultId !== undefined ? [cultId] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && cultId !== undefined },
+  })
+
+  const ids = useMemo(() => (cultId !== undefined ? [cultId] : []), [cultId])
+  const { rosters, isLoading: rosterLoading, refetch: refetchRoster } = useCultRosters(ids)
+
+  const refetch = () => {
+    refetchCult()
+    refetchRoster()
+  }
+
+  useWatchContractEvent({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    enabled: IS_PROFILE_DEPLOYED && cultId !== undefined,
+    onLogs(logs) {
+      const touched = logs.some(l => {
+        const args = l.args as { cultId?: bigint }
+        return CULT_EVENTS.has(l.eventName) && args.cultId === cultId
+      })
+      if (touched) refetch()
+    },
+  })
+
+  return {
+    cult: raw ? fromRawCult(raw) : undefined,
+    members: (cultId !== undefined && rosters.get(cultId)) || [],
+    isLoading: isLoading || rosterLoading,
+    refetch,
+  }
+}
+
+export interface CultMembership {
+  hasProfile: boolean | undefined // Cults need a profile; undefined while loading
+  cultId: bigint // 0n = not in a cult
+  refetch: () => void
+}
+
+/**
+ * Whether a wallet can found or join a cult, and which one it's in
+ */
+export function useCultMembership(account: `0x${string}` | undefined): CultMembership {
+  const { data: raw, refetch } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getProfile',
+    args: account ? [account] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && !!account },
+  })
+
+  return {
+    hasProfile: raw?.exists,
+    cultId: raw?.exists ? raw.cultId : 0n,
+    refetch,
+  }
+}
+
+export interface CultSettings {
+  creationFee: bigint | undefined
+  maxNameLength: number
+  maxMembers: number
+}
+
+/**
+ * Founding fee and limits the cult wizard validates against
+ */
+export function useCultSettings(): CultSettings {
+  const { data } = useReadContracts({
+    contracts: [
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'cultCreationFee' },
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'maxCultNameLength' },
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'maxCultMembers' },
+    ],
+    query: { enabled: IS_PROFILE_DEPLOYED },
+  })
+
+  return {
+    creationFee: data?.[0].result,
+    maxNameLength: data?.[1].result !== undefined ? Number(data[1].result) : DEFAULT_MAX_CULT_NAME_LENGTH,
+    maxMembers: data?.[2].result !== undefined ? Number(data[2].result) : DEFAULT_MAX_CULT_MEMBERS,
+  }
+}
+
+/**
+ * PumpFudLeaderboard trading volume per wallet, keyed by lowercase address
+ */
+export function useMemberVolumes(members: readonly `0x${string}`[]): Map<string, bigint> {
+  const { data } = useReadContracts({
+    contracts: members.map(member => ({
+      address: LEADERBOARD_ADDRESS,
+      abi: LEADERBOARD_ABI,
+      functionName: 'getUserStats',
+      args: [member],
+    } as const)),
+    query: { enabled: members.length > 0 },
+  })
+
+  return useMemo(() => {
+    const map = new Map<string, bigint>()
+    data?.forEach((r, i) => {
+      if (r.status === 'success') map.set(members[i].toLowerCase(), r.result.totalVolume)
+    })
+    return map
+  }, [data, members])
+}
+
+export interface CultStanding {
+  cult: CultInfo
+  members: number
+  volume: bigint // Summed PumpFudLeaderboard volume of current members
+}
+
+/**
+ * Active cults ranked by their members' combined trading volume
+ */
+export function useCultStandings(): { standings: CultStanding[]; isLoading: boolean } {
+  const { cults, isLoading: cultsLoading } = useCults()
+  const ids = useMemo(() => cults.map(c => c.id), [cults])
+  const { rosters, isLoading: rostersLoading } = useCultRosters(ids)
+
+  const everyone = useMemo(() => {
+    const seen = new Map<string, `0x${string}`>()
+    rosters.forEach(members => members.forEach(m => seen.set(m.toLowerCase(), m)))
+    return Array.from(seen.values())
+  }, [rosters])
+  const volumes = useMemberVolumes(everyone)
+
+  const standings = useMemo(
+    () => cults
+      .map(cult => {
+        const members = rosters.get(cult.id) ?? []
+        const volume = members.reduce((sum, m) => sum + (volumes.get(m.toLowerCase()) ?? 0n), 0n)
+        return { cult, members: members.length, volume }
+      })
+      .sort((a, b) => (a.volume === b.volume ? b.members - a.members : a.volume > b.volume ? -1 : 1)),
+    [cults, rosters, volumes]
+  )
+
+  return { standings, isLoading: cultsLoading || rostersLoading }
+}
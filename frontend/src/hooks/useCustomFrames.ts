@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect } from 'react'
+import { FRAME_IMAGE_OPTIONS, uploadImage } from '../utils/imagePipeline'
 
 const STORAGE_KEY = 'pump-phud-custom-frames'
 
@@ -72,6 +73,21 @@ interface StoredState {
   boxFrames: BoxFrameAssignment
 }
 
+// Frames uploaded before the image pipeline stored base64 data: URLs, which ate the localStorage quota.
+// Moves each into image storage and returns frameId -> new URI for the ones that made it
+async function migrateDataUrlFrames(frames: FrameConfig[]): Promise<Record<string, string>> {
+  const migrated: Record<string, string> = {}
+  for (const frame of frames) {
+    try {
+      const blob = await (await fetch(frame.imageUrl)).blob()
+      migrated[frame.id] = (await uploadImage(blob, FRAME_IMAGE_OPTIONS)).uri
+    } catch (error) {
+      console.error('[RALPH RL-005] Failed to migrate frame image:', frame.id, error)
+    }
+  }
+  return migrated
+}
+
 export function useCustomFrames(): UseCustomFramesReturn {
   const [frames, setFrames] = useState<FrameConfig[]>(DEFAULT_FRAMES)
   const [boxFrames, setBoxFrames] = useState<BoxFrameAssignment>({})
@@ -88,6 +104,25 @@ export function useCustomFrames(): UseCustomFramesReturn {
         setFrames([...DEFAULT_FRAMES, ...customFrames])
         setBoxFrames(parsed.boxFrames || {})
 
+        const legacyFrames = customFrames.filter(f => f.imageUrl.startsWith('data:'))
+        if (legacyFrames.length > 0) {
+          void migrateDataUrlFrames(legacyFrames).then(migrated => {
+            if (Object.keys(migrated).length === 0) return
+            const withUri = (f: FrameConfig) => (migrated[f.id] ? { ...f, imageUrl: migrated[f.id] } : f)
+            setFrames(prev => prev.map(withUri))
+            // Rewrite storage directly so box assignments made meanwhile are kept
+            try {
+              const latest = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<StoredState>
+              localStorage.setItem(STORAGE_KEY, JSON.stringify({
+                customFrames: (latest.customFrames ?? []).map(withUri),
+                boxFrames: latest.boxFrames ?? {},
+              }))
+            } catch (error) {
+              console.error('[RALPH RL-005] Failed to save migrated frames:', error)
+            }
+          })
+        }
+
         // RALPH RL-005 VALIDATION
         console.log('[RALPH RL-005] Custom frames loaded:', {
           defaultFrames: DEFAULT_FRAMES.length,
@@ -0,0 +1,69 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { usePublicClient } from 'wagmi'
+import {
+  getEventIndexer,
+  isTokenEvent,
+  EMPTY_INDEXER_SNAPSHOT,
+  type IndexedEvent,
+  type IndexerSnapshot,
+} from '../utils/eventIndexer'
+
+const noopSubscribe = () => () => {}
+const emptySnapshot = () => EMPTY_INDEXER_SNAPSHOT
+
+/**
+ * Subscribe to the shared PumpFud event indexer.
+ * The first subscriber starts the backfill; the last one to unmount pauses tailing.
+ */
+export function useIndexedEvents(): IndexerSnapshot {
+  const publicClient = usePublicClient()
+  const indexer = useMemo(() => (publicClient ? getEventIndexer(publicClient) : null), [publicClient])
+
+  return useSyncExternalStore(
+    indexer ? indexer.subscribe : noopSubscribe,
+    indexer ? indexer.getSnapshot : emptySnapshot
+  )
+}
+
+/**
+ * Most recent indexed event for a token - changes whenever the token trades or graduates
+ */
+export function useLatestTokenEvent(tokenAddress: string | undefined): IndexedEvent | null {
+  const { events } = useIndexedEvents()
+
+  return useMemo(() => {
+    if (tokenAddress === undefined) return null
+    for (let i = events.length - 1; i >= 0; i--) {
+      if (isTokenEvent(events[i], tokenAddress)) return events[i]
+    }
+    return null
+  }, [events, tokenAddress])
+}
+
+export interface TraderVolume {
+  wallet: `0x${string}`
+  volume: bigint // PLS bought + sold across all tokens
+  trades: number
+}
+
+/**
+ * Per-wallet trading volume derived from indexed trades, highest first
+ */
+export function useTraderVolumes(limit = 50): TraderVolume[] {
+  const { events } = useIndexedEvents()
+
+  return useMemo(() => {
+    const byWallet = new Map<string, TraderVolume>()
+    for (const event of events) {
+      if (event.kind !== 'trade') continue
+      const key = event.wallet.toLowerCase()
+      const entry = byWallet.get(key) ?? { wallet: event.wallet, volume: 0n, trades: 0 }
+      entry.volume += event.plsAmount
+      entry.trades += 1
+      byWallet.set(key, entry)
+    }
+    return Array.from(byWallet.values())
+      .sort((a, b) => (a.volume === b.volume ? 0 : a.volume > b.volume ? -1 : 1))
+      .slice(0, limit)
+  }, [events, limit])
+}
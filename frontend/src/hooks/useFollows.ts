@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { useAccount, usePublicClient, useReadContract, useReadContracts, useWatchContractEvent, useWriteContract } from 'wagmi'
+import { PROFILE_ADDRESS, IS_PROFILE_DEPLOYED } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+import { useTransactions } from './useTransactions'
+import { shortAddress } from '../utils/identity'
+
+// Wallets followed on this device only - no profile or contract needed
+const TRACKED_WALLETS_KEY = 'pump-phud-tracked-wallets'
+// Last on-chain following list per account, so follows survive an RPC outage, plus muted wallets
+const FOLLOW_STATE_KEY = 'pump-phud-follow-state'
+// Mutes saved before a wallet connects
+const GUEST_KEY = 'guest'
+
+interface FollowState {
+  following: Record<string, string[]> // Account -> wallets it follows on-chain
+  muted: Record<string, string[]> // Account -> wallets hidden from its Following stream
+}
+
+interface StoredValue<T> {
+  read: () => T
+  write: (next: T) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+// One localStorage key with a parse cache, so useSyncExternalStore sees a stable snapshot
+function storedValue<T>(key: string, fallback: T): StoredValue<T> {
+  const listeners = new Set<() => void>()
+  let cachedRaw: string | null = null
+  let cachedValue = fallback
+
+  return {
+    read() {
+      let raw: string | null = null
+      try {
+        raw = localStorage.getItem(key)
+      } catch {
+        // Storage blocked - nothing is remembered
+      }
+      if (raw === cachedRaw) return cachedValue
+      cachedRaw = raw
+      try {
+        cachedValue = raw ? (JSON.parse(raw) as T) : fallback
+      } catch (error) {
+        console.error(`[Follows] Failed to parse ${key}:`, error)
+        cachedValue = fallback
+      }
+      return cachedValue
+    },
+    write(next) {
+      try {
+        localStorage.setItem(key, JSON.stringify(next))
+      } catch (error) {
+        console.error(`[Follows] Failed to save ${key}:`, error)
+      }
+      listeners.forEach(listener => listener())
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      // Keep other tabs in step
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key === key) listener()
+      }
+      window.addEventListener('storage', handleStorage)
+      return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+      }
+    },
+  }
+}
+
+const trackedStore = storedValue<string[]>(TRACKED_WALLETS_KEY, [])
+const followStateStore = storedValue<FollowState>(FOLLOW_STATE_KEY, { following: {}, muted: {} })
+
+function withWallet(list: readonly string[], wallet: string, present: boolean): string[] {
+  const rest = list.filter(w => w !== wallet)
+  return present ? [...rest, wallet] : rest
+}
+
+export interface UseFollowsReturn {
+  following: `0x${string}`[] // On-chain and local follows, lowercase, oldest first
+  isFollowing: (wallet: string) => boolean
+  isFollowingOnChain: (wallet: string) => boolean
+  toggleFollow: (wallet: `0x${string}`) => Promise<void>
+  pending: string | null // Lowercase wallet with a follow/unfollow in flight
+  canFollowOnChain: boolean // Connected wallet has a profile; otherwise follows stay on this device
+  isMuted: (wallet: string) => boolean
+  toggleMute: (wallet: string) => void
+}
+
+/**
+ * Wallets the connected account follows. Follows go through PumpFudProfile when both sides
+ * have a profile and fall back to the RL-007 tracked list on this device otherwise; the last
+ * on-chain list is cached so the Following stream still works when the contract can't be read
+ */
+export function useFollows(): UseFollowsReturn {
+  const { address } = useAccount()
+  const account = address?.toLowerCase()
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+  const [pending, setPending] = useState<string | null>(null)
+
+  const tracked = useSyncExternalStore(trackedStore.subscribe, trackedStore.read)
+  const followState = useSyncExternalStore(followStateStore.subscribe, followStateStore.read)
+
+  const { data: profile } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getProfile',
+    args: address ? [address] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && !!address },
+  })
+  const canFollowOnChain = IS_PROFILE_DEPLOYED && !!profile?.exists
+
+  const { data: listed, refetch: refetchListed } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getFollowing',
+    args: address ? [address] : undefined,
+    query: { enabled: canFollowOnChain && !!address },
+  })
+
+  // getFollowing keeps unfollowed wallets and lists refollows twice, so check each flag
+  const candidates = useMemo(() => {
+    const seen = new Set<string>()
+    return (listed ?? []).filter(wallet => {
+      const key = wallet.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }, [listed])
+
+  const { data: flags, refetch: refetchFlags } = useReadContracts({
+    allowFailure: false,
+    contracts: address
+      ? candidates.map(wallet => ({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'isFollowing',
+        args: [address, wallet],
+      } as const))
+      : [],
+    query: { enabled: candidates.length > 0 },
+  })
+
+  const chainFollowing = useMemo((): string[] | undefined => {
+    if (!listed) return undefined
+    if (candidates.length === 0) return []
+    if (!flags) return undefined
+    return candidates.filter((_, i) => flags[i]).map(w => w.toLowerCase())
+  }, [listed, candidates, flags])
+
+  // Remember the latest on-chain list for this account
+  useEffect(() => {
+    if (!account || !chainFollowing) return
+    const current = followStateStore.read()
+    if (JSON.stringify(current.following[account] ?? []) === JSON.stringify(chainFollowing)) return
+    followStateStore.write({ ...current, following: { ...current.following, [account]: chainFollowing } })
+  }, [account, chainFollowing])
+
+  const refetch = useCallback(() => {
+    refetchListed()
+    refetchFlags()
+  }, [refetchListed, refetchFlags])
+
+  useWatchContractEvent({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    enabled: canFollowOnChain,
+    onLogs(logs) {
+      const touched = logs.some(l =>
+        (l.eventName === 'Followed' || l.eventName === 'Unfollowed') && l.args.follower?.toLowerCase() === account
+      )
+      if (touched) refetch()
+    },
+  })
+
+  const onChain = useMemo(
+    () => new Set(chainFollowing ?? (account ? followState.following[account] : undefined) ?? []),
+    [chainFollowing, account, followState]
+  )
+
+  const following = useMemo(() => {
+    const all = new Set(onChain)
+    tracked.forEach(w => all.add(w.toLowerCase()))
+    return Array.from(all) as `0x${string}`[]
+  }, [onChain, tracked])
+
+  const followingSet = useMemo(() => new Set<string>(following), [following])
+  const muted = useMemo(() => new Set(followState.muted[account ?? GUEST_KEY] ?? []), [followState, account])
+
+  const isFollowing = useCallback((wallet: string) => followingSet.has(wallet.toLowerCase()), [followingSet])
+  const isFollowingOnChain = useCallback((wallet: string) => onChain.has(wallet.toLowerCase()), [onChain])
+  const isMuted = useCallback((wallet: string) => muted.has(wallet.toLowerCase()), [muted])
+
+  const setTracked = (wallet: string, present: boolean) => {
+    trackedStore.write(withWallet(trackedStore.read().map(w => w.toLowerCase()), wallet, present))
+  }
+
+  const toggleFollow = async (wallet: `0x${string}`) => {
+    const key = wallet.toLowerCase()
+    if (pending) return
+
+    if (onChain.has(key)) {
+      setPending(key)
+      const receipt = await send({
+        label: `Unfollow ${shortAddress(wallet)}`,
+        execute: () => writeContractAsync({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'unfollow',
+          args: [wallet],
+        }),
+      })
+      setPending(null)
+      if (!receipt) return
+      if (tracked.includes(key)) setTracked(key, false)
+      refetch()
+      return
+    }
+
+    if (followingSet.has(key)) {
+      setTracked(key, false)
+      return
+    }
+
+    // The contract only links two profiles; anyone else is followed on this device
+    let targetHasProfile = false
+    if (canFollowOnChain && publicClient && key !== account) {
+      setPending(key)
+      try {
+        const target = await publicClient.readContract({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'getProfile',
+          args: [wallet],
+        })
+        targetHasProfile = target.exists
+      } catch (error) {
+        console.error('[Follows] Profile lookup failed:', error)
+      }
+      setPending(null)
+    }
+
+    if (!targetHasProfile) {
+      setTracked(key, true)
+      return
+    }
+
+    setPending(key)
+    const receipt = await send({
+      label: `Follow ${shortAddress(wallet)}`,
+      execute: () => writeContractAsync({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'follow',
+        args: [wallet],
+      }),
+    })
+    setPending(null)
+    if (receipt) refetch()
+  }
+
+  const toggleMute = (wallet: string) => {
+    const key = wallet.toLowerCase()
+    const viewer = account ?? GUEST_KEY
+    const current = followStateStore.read()
+    const list = current.muted[viewer] ?? []
+    followStateStore.write({
+      ...current,
+      muted: { ...current.muted, [viewer]: withWallet(list, key, !list.includes(key)) },
+    })
+  }
+
+  return {
+    following,
+    isFollowing,
+    isFollowingOnChain,
+    toggleFollow,
+    pending,
+    canFollowOnChain,
+    isMuted,
+    toggleMute,
+  }
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useReadContract, useWatchContractEvent } from 'wagmi'
+import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI, PUMP_FUD_V2_ADDRESS } from '../config/wagmi'
+import { PUMP_FUD_V2_ABI } from '../config/pumpFudV2'
+import { IS_PUMP_FUD_V2, type PumpFudToken } from '../utils/pumpFud'
+import { applyFee, BPS_DENOMINATOR } from '../utils/curve'
+import { useCurveParams } from './usePumpFud'
+import { useTokenBurns } from './useTokenBurns'
+import { useTokenTrades } from './useTokenTrades'
+
+// Net reserve growth in this window sets the velocity behind the ETA
+const VELOCITY_WINDOW_SECONDS = 6 * 60 * 60
+
+export type GraduationToken = Pick<PumpFudToken, 'tokenAddress' | 'reserveBalance' | 'graduated' | 'createdAt'>
+
+export interface UseGraduationProgressOptions {
+  // Estimate time to graduation (subscribes to the event indexer, so only enable where it is shown)
+  withEta?: boolean
+}
+
+export interface UseGraduationProgressReturn {
+  plsRaised: bigint
+  plsTarget: bigint | undefined // Undefined until the target has loaded
+  progress: number // 0-100
+  remaining: bigint // PLS still needed
+  etaSeconds: number | null // Null when the reserve has not grown recently
+  isLoading: boolean
+}
+
+/**
+ * Progress toward the graduation target of the active deployment.
+ * V2 reads getBondingCurveProgress so per-token overrides apply; legacy uses the global graduationThreshold()
+ */
+export function useGraduationProgress(
+  token: GraduationToken | null | undefined,
+  { withEta = false }: UseGraduationProgressOptions = {}
+): UseGraduationProgressReturn {
+  const tokenAddress = token?.tokenAddress
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!withEta) return
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [withEta])
+
+  const { data: legacyThreshold, isLoading: legacyLoading } = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'graduationThreshold',
+    query: { enabled: !IS_PUMP_FUD_V2 },
+  })
+
+  const { data: v2Progress, isLoading: v2Loading, refetch: refetchV2 } = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getBondingCurveProgress',
+    args: tokenAddress ? [tokenAddress] : undefined,
+    query: { enabled: IS_PUMP_FUD_V2 && !!tokenAddress },
+  })
+
+  // Reserve moves on every trade; keep the V2 read in step with the token data the caller polls
+  const reserveBalance = token?.reserveBalance
+  const v2Raised = v2Progress?.[0]
+  useEffect(() => {
+    if (v2Raised !== undefined && reserveBalance !== undefined && v2Raised !== reserveBalance) refetchV2()
+  }, [v2Raised, reserveBalance, refetchV2])
+
+  // Admin overrides change the target without touching the reserve
+  useWatchContractEvent({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    eventName: 'TokenOverrideSet',
+    args: tokenAddress ? { token: tokenAddress } : undefined,
+    enabled: IS_PUMP_FUD_V2 && !!tokenAddress,
+    onLogs() {
+      refetchV2()
+    },
+  })
+
+  const { trades } = useTokenTrades(withEta ? tokenAddress : undefined)
+  const { burns } = useTokenBurns(withEta ? tokenAddress : undefined)
+  const { buyFeeBps, sellFeeBps } = useCurveParams(withEta ? tokenAddress : undefined)
+
+  const plsRaised = (IS_PUMP_FUD_V2 ? v2Raised : undefined) ?? reserveBalance ?? 0n
+  const plsTarget = IS_PUMP_FUD_V2 ? v2Progress?.[1] : legacyThreshold
+  const graduated = !!token?.graduated
+
+  const progress = useMemo(() => {
+    if (graduated) return 100
+    if (!plsTarget) return 0
+    // Basis points keep bigint precision before the float conversion
+    const bps = (plsRaised * 10000n) / plsTarget
+    return Math.min(100, Number(bps) / 100)
+  }, [graduated, plsRaised, plsTarget])
+
+  const remaining = !graduated && plsTarget && plsTarget > plsRaised ? plsTarget - plsRaised : 0n
+
+  const createdAt = token?.createdAt
+  const etaSeconds = useMemo(() => {
+    if (!withEta || remaining === 0n || createdAt === undefined) return null
+    const nowSeconds = Math.floor(now / 1000)
+    const windowStart = nowSeconds - VELOCITY_WINDOW_SECONDS
+
+    // Buys add what is left after the fee; sells take the PLS paid out plus the fee, burns their redemption
+    let netInflow = 0n
+    for (const trade of trades) {
+      if (trade.timestamp < windowStart) continue
+      netInflow += trade.type === 'buy'
+        ? applyFee(trade.plsAmount, buyFeeBps).net
+        : -(trade.plsAmount * BPS_DENOMINATOR) / (BPS_DENOMINATOR - sellFeeBps)
+    }
+    for (const burn of burns) {
+      if (burn.timestamp >= windowStart) netInflow -= burn.plsReceived
+    }
+    if (netInflow <= 0n) return null
+
+    // Young tokens have not been trading for the whole window
+    const windowSeconds = Math.min(VELOCITY_WINDOW_SECONDS, Math.max(nowSeconds - createdAt, 1))
+    const plsPerSecond = Number(netInflow) / windowSeconds
+    return Math.ceil(Number(remaining) / plsPerSecond)
+  }, [withEta, remaining, createdAt, now, trades, burns, buyFeeBps, sellFeeBps])
+
+  return {
+    plsRaised,
+    plsTarget,
+    progress,
+    remaining,
+    etaSeconds,
+    isLoading: IS_PUMP_FUD_V2 ? v2Loading : legacyLoading,
+  }
+}
+
+/**
+ * Graduation target a token launched now would get - no per-token override can exist yet
+ */
+export function useDefaultGraduationTarget(): bigint | undefined {
+  const { data: legacyThreshold } = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'graduationThreshold',
+    query: { enabled: !IS_PUMP_FUD_V2 },
+  })
+  const { data: v2Target } = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'graduationTarget',
+    query: { enabled: IS_PUMP_FUD_V2 },
+  })
+  return IS_PUMP_FUD_V2 ? v2Target : legacyThreshold
+}
+
+/**
+ * Compact "~3h 20m" style label for an ETA in seconds
+ */
+export function formatGraduationEta(seconds: number): string {
+  if (seconds < 60) return '< 1m'
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `~${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `~${hours}h ${minutes % 60}m`
+  const days = Math.floor(hours / 24)
+  if (days < 30) return `~${days}d ${hours % 24}h`
+  return '30d+'
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { useAccount, usePublicClient } from 'wagmi'
+import { IS_PROFILE_DEPLOYED } from '../config/wagmi'
+import { getIdentityStore, type IdentityRecord } from '../utils/identityStore'
+import { shortAddress, addressColor, identiconUri } from '../utils/identity'
+import { useTokenRoles } from './useTokenRoles'
+
+export type IdentityRole = 'you' | 'creator' | 'moderator'
+
+export interface Identity {
+  address: `0x${string}`
+  label: string // Display name, or the truncated address without a profile
+  displayName: string | undefined
+  avatarUri: string // Profile avatar, or the wallet's identicon
+  hasAvatar: boolean // False when avatarUri is the identicon
+  color: string // Stable per-address accent
+  cultTag: string | undefined
+  isPremium: boolean
+  isVerified: boolean
+  roles: IdentityRole[] // Relative to the connected wallet and the surrounding TokenRolesProvider
+}
+
+const noopSubscribe = () => () => {}
+const noRecord = (): IdentityRecord | undefined => undefined
+
+/**
+ * Everything needed to render a wallet: profile name and avatar, cult tag, premium/verified
+ * flags, an identicon fallback and role badges. Lookups from every mounted row are batched
+ * into shared multicalls by utils/identityStore
+ */
+export function useIdentity(address: `0x${string}`): Identity {
+  const publicClient = usePublicClient()
+  const { address: account } = useAccount()
+  const tokenRoles = useTokenRoles()
+
+  const store = useMemo(
+    () => (publicClient && IS_PROFILE_DEPLOYED ? getIdentityStore(publicClient) : null),
+    [publicClient]
+  )
+  const record = useSyncExternalStore(
+    store ? store.subscribe : noopSubscribe,
+    store ? () => store.get(address) : noRecord
+  )
+
+  useEffect(() => {
+    store?.request(address)
+  }, [store, address])
+
+  return useMemo(() => {
+    const key = address.toLowerCase()
+    const roles: IdentityRole[] = []
+    if (account && account.toLowerCase() === key) roles.push('you')
+    if (tokenRoles.creator === key) roles.push('creator')
+    if (tokenRoles.moderators.has(key)) roles.push('moderator')
+
+    return {
+      address,
+      label: record?.displayName ?? shortAddress(address),
+      displayName: record?.displayName,
+      avatarUri: record?.avatarUri ?? identiconUri(address),
+      hasAvatar: !!record?.avatarUri,
+      color: addressColor(address),
+      cultTag: record?.cultTag,
+      isPremium: record?.isPremium ?? false,
+      isVerified: record?.isVerified ?? false,
+      roles,
+    }
+  }, [address, record, account, tokenRoles])
+}
+
+/**
+ * Drop a wallet's cached identity and re-read it, e.g. after a profile edit
+ */
+export function useIdentityRefresh(): (address: string) => void {
+  const publicClient = usePublicClient()
+  return useCallback((address: string) => {
+    if (publicClient && IS_PROFILE_DEPLOYED) getIdentityStore(publicClient).invalidate(address)
+  }, [publicClient])
+}
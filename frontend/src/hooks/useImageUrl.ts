@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import { loadImageUri, resolveImageUri } from '../utils/imageStorage'
+
+/**
+ * Display URL for a stored image URI (ipfs://, local://, or a plain link).
+ * Undefined while a browser-local image is still being read
+ */
+export function useImageUrl(uri: string | undefined): string | undefined {
+  const direct = uri ? resolveImageUri(uri) : undefined
+  const [loaded, setLoaded] = useState<{ uri: string; url: string | undefined } | null>(null)
+
+  useEffect(() => {
+    if (!uri || direct !== undefined) return
+    let cancelled = false
+    loadImageUri(uri)
+      .then(url => {
+        if (!cancelled) setLoaded({ uri, url })
+      })
+      .catch(err => console.error('[Images] Failed to load', uri, err))
+    return () => {
+      cancelled = true
+    }
+  }, [uri, direct])
+
+  if (direct !== undefined) return direct
+  return loaded && loaded.uri === uri ? loaded.url : undefined
+}
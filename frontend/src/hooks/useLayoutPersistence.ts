@@ -43,6 +43,11 @@ const DEFAULT_LAYOUTS: LayoutState = {
     size: { width: 470, height: 280 },
     zIndex: 10,
   },
+  'moderation-box': {
+    position: { x: 980, y: 80 },
+    size: { width: 380, height: 450 },
+    zIndex: 10,
+  },
 }
 
 export function useLayoutPersistence(): UseLayoutPersistenceReturn {
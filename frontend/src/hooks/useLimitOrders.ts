@@ -0,0 +1,272 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { usePublicClient, useReadContract, useReadContracts, useWatchContractEvent, useWriteContract } from 'wagmi'
+import { parseEventLogs, zeroAddress } from 'viem'
+import { SWAP_ADDRESS, IS_SWAP_DEPLOYED } from '../config/wagmi'
+import { SWAP_ABI } from '../config/swap'
+import {
+  toLimitOrder,
+  getMinAmountOut,
+  fetchLimitOrderHistory,
+  type LimitOrder,
+  type LimitOrderHistoryEntry,
+  type LimitSide,
+} from '../utils/limitOrders'
+import { formatTxError } from '../utils/contractErrors'
+import { useTransactions } from './useTransactions'
+
+// Fillability moves with every trade on the curve or the DEX
+const REFETCH_INTERVAL = 15000
+
+const ERC20_ABI = [
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
+] as const
+
+export interface ActiveLimitOrder extends LimitOrder {
+  fillable: boolean // isPositionFillable - false once expired
+  currentQuote: bigint | undefined // Output the position would get right now
+}
+
+export interface PlaceLimitOrderParams {
+  side: LimitSide
+  token: `0x${string}`
+  amountIn: bigint
+  limitPrice: bigint // Wei of PLS per whole token
+  duration: number // Seconds
+  symbol: string // For the transaction toasts
+}
+
+export type LimitOrderAction = 'approve' | 'create' | 'cancel' | 'fill'
+
+export interface UseLimitOrdersReturn {
+  isAvailable: boolean
+  active: ActiveLimitOrder[] // Open and expired-but-unrefunded positions, newest first
+  history: LimitOrderHistoryEntry[]
+  isLoading: boolean
+  isHistoryLoading: boolean
+  pending: { action: LimitOrderAction; id?: bigint } | null
+  error: string | null // Allowance check failures; transaction failures show in their toast
+  nowSeconds: number // Clock the statuses were computed against, ticks every second for countdowns
+  place: (params: PlaceLimitOrderParams) => Promise<bigint | null> // New position id
+  cancel: (id: bigint) => Promise<boolean>
+  fill: (id: bigint) => Promise<boolean>
+}
+
+/**
+ * A wallet's PumpFudSwap limit orders: live positions with fillability, closed history,
+ * and place / cancel / fill. Optionally narrowed to one token
+ */
+export function useLimitOrders(
+  user: `0x${string}` | undefined,
+  token?: `0x${string}`
+): UseLimitOrdersReturn {
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+  const enabled = IS_SWAP_DEPLOYED && !!user
+  const [history, setHistory] = useState<LimitOrderHistoryEntry[]>([])
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [pending, setPending] = useState<UseLimitOrdersReturn['pending']>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Expiry is judged against the clock, not the last block read
+  useEffect(() => {
+    if (!enabled) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [enabled])
+
+  const { data: positions, isLoading, refetch: refetchPositions } = useReadContract({
+    address: SWAP_ADDRESS,
+    abi: SWAP_ABI,
+    functionName: 'getActivePositions',
+    args: [user ?? zeroAddress],
+    query: { enabled, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  const { data: fillability, refetch: refetchFillability } = useReadContracts({
+    contracts: (positions ?? []).map(p => ({
+      address: SWAP_ADDRESS,
+      abi: SWAP_ABI,
+      functionName: 'isPositionFillable',
+      args: [p.id],
+    }) as const),
+    query: { enabled: enabled && !!positions?.length, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  useEffect(() => {
+    if (!enabled || !publicClient || !user) return
+    let cancelled = false
+
+    const load = async () => {
+      setIsHistoryLoading(true)
+      try {
+        const entries = await fetchLimitOrderHistory(publicClient, user)
+        if (!cancelled) setHistory(entries)
+      } catch (err) {
+        console.error('Failed to load limit order history:', err)
+      } finally {
+        if (!cancelled) setIsHistoryLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, publicClient, user, historyVersion])
+
+  const refresh = useCallback(() => {
+    refetchPositions()
+    refetchFillability()
+    setHistoryVersion(v => v + 1)
+  }, [refetchPositions, refetchFillability])
+
+  // Positions can be filled by anyone, so fills land without this wallet doing anything
+  useWatchContractEvent({
+    address: SWAP_ADDRESS,
+    abi: SWAP_ABI,
+    enabled,
+    onLogs(logs) {
+      const ours = new Set((positions ?? []).map(p => p.id))
+      const relevant = logs.some(log =>
+        log.eventName === 'PositionCreated'
+          ? log.args.owner?.toLowerCase() === user?.toLowerCase()
+          : (log.eventName === 'PositionFilled' || log.eventName === 'PositionCancelled')
+            && log.args.positionId !== undefined && ours.has(log.args.positionId)
+      )
+      if (relevant) refresh()
+    },
+  })
+
+  const active = useMemo(() => {
+    const nowSeconds = Math.floor(now / 1000)
+    return (positions ?? [])
+      .map((p, i): ActiveLimitOrder => {
+        const result = fillability?.[i]?.result
+        return {
+          ...toLimitOrder(p, nowSeconds),
+          fillable: result?.[0] ?? false,
+          currentQuote: result && result[1] > 0n ? result[1] : undefined,
+        }
+      })
+      .filter(o => !token || o.token.toLowerCase() === token.toLowerCase())
+      .sort((a, b) => Number(b.id - a.id))
+  }, [positions, fillability, token, now])
+
+  const filteredHistory = useMemo(
+    () => (token ? history.filter(h => h.token.toLowerCase() === token.toLowerCase()) : history),
+    [history, token]
+  )
+
+  const place = useCallback(async ({ side, token: orderToken, amountIn, limitPrice, duration, symbol }: PlaceLimitOrderParams) => {
+    if (!enabled || !publicClient || !user) return null
+    setError(null)
+    const minAmountOut = getMinAmountOut(side, amountIn, limitPrice)
+    const [tokenIn, tokenOut] = side === 'buy' ? [zeroAddress, orderToken] : [orderToken, zeroAddress]
+
+    try {
+      // Sells escrow the token, so the swap contract needs an allowance first
+      if (side === 'sell') {
+        let allowance: bigint
+        try {
+          allowance = await publicClient.readContract({
+            address: orderToken,
+            abi: ERC20_ABI,
+            functionName: 'allowance',
+            args: [user, SWAP_ADDRESS],
+          })
+        } catch (err) {
+          console.error('Limit order allowance check failed:', err)
+          setError(formatTxError(err))
+          return null
+        }
+        if (allowance < amountIn) {
+          setPending({ action: 'approve' })
+          const approval = await send({
+            label: `Approve ${symbol}`,
+            execute: () => writeContractAsync({
+              address: orderToken,
+              abi: ERC20_ABI,
+              functionName: 'approve',
+              args: [SWAP_ADDRESS, amountIn],
+            }),
+          })
+          if (!approval) return null
+        }
+      }
+
+      setPending({ action: 'create' })
+      const receipt = await send({
+        label: `Limit ${side} ${symbol}`,
+        execute: () => writeContractAsync({
+          address: SWAP_ADDRESS,
+          abi: SWAP_ABI,
+          functionName: 'createPosition',
+          args: [tokenIn, tokenOut, amountIn, minAmountOut, BigInt(duration)],
+          value: side === 'buy' ? amountIn : undefined,
+        }),
+      })
+      if (!receipt) return null
+
+      const [created] = parseEventLogs({ abi: SWAP_ABI, eventName: 'PositionCreated', logs: receipt.logs })
+      refresh()
+      return created?.args.positionId ?? null
+    } finally {
+      setPending(null)
+    }
+  }, [enabled, publicClient, user, writeContractAsync, send, refresh])
+
+  const close = useCallback(async (action: 'cancel' | 'fill', id: bigint) => {
+    if (!enabled) return false
+    setError(null)
+    setPending({ action, id })
+    const receipt = await send({
+      label: `${action === 'cancel' ? 'Cancel' : 'Fill'} limit order #${id}`,
+      execute: () => writeContractAsync({
+        address: SWAP_ADDRESS,
+        abi: SWAP_ABI,
+        functionName: action === 'cancel' ? 'cancelPosition' : 'fillPosition',
+        args: [id],
+      }),
+    })
+    setPending(null)
+    if (!receipt) return false
+    refresh()
+    return true
+  }, [enabled, writeContractAsync, send, refresh])
+
+  return {
+    isAvailable: IS_SWAP_DEPLOYED,
+    active,
+    history: filteredHistory,
+    isLoading: enabled && isLoading,
+    isHistoryLoading,
+    pending,
+    error,
+    nowSeconds: Math.floor(now / 1000),
+    place,
+    cancel: (id) => close('cancel', id),
+    fill: (id) => close('fill', id),
+  }
+}
@@ -0,0 +1,213 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from 'react'
+import { usePublicClient, useReadContracts, useWatchContractEvent, useWriteContract } from 'wagmi'
+import { zeroAddress } from 'viem'
+import { SUPER_CHAT_ADDRESS, IS_SUPER_CHAT_DEPLOYED } from '../config/wagmi'
+import { SUPER_CHAT_ABI } from '../config/superChat'
+import {
+  getModerationLog,
+  EMPTY_MODERATION_SNAPSHOT,
+  type ModerationSnapshot,
+} from '../utils/moderationLog'
+import { shortAddress } from '../utils/identity'
+import { useTransactions } from './useTransactions'
+
+const REFETCH_INTERVAL = 15000
+
+const noopSubscribe = () => () => {}
+const emptySnapshot = () => EMPTY_MODERATION_SNAPSHOT
+
+export type ModerationAction =
+  | 'muteUser'
+  | 'unmuteUser'
+  | 'addModerator'
+  | 'removeModerator'
+  | 'toggleMessageBoard'
+  | 'startLiveChat'
+  | 'endLiveChat'
+  | 'shutdownDashboard'
+  | 'reopenDashboard'
+
+// One variant per PumpFudSuperChat moderation call, carrying the arguments after `token`
+type ModerationCall =
+  | { action: 'muteUser' | 'unmuteUser' | 'addModerator' | 'removeModerator'; user: `0x${string}` }
+  | { action: 'toggleMessageBoard'; active: boolean }
+  | { action: 'startLiveChat' | 'endLiveChat' | 'shutdownDashboard' | 'reopenDashboard' }
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  muteUser: 'Mute',
+  unmuteUser: 'Unmute',
+  addModerator: 'Add moderator',
+  removeModerator: 'Remove moderator',
+  toggleMessageBoard: 'Toggle message board',
+  startLiveChat: 'Start live chat',
+  endLiveChat: 'End live chat',
+  shutdownDashboard: 'Shut down dashboard',
+  reopenDashboard: 'Reopen dashboard',
+}
+
+function callLabel(call: ModerationCall): string {
+  if ('user' in call) return `${ACTION_LABELS[call.action]} ${shortAddress(call.user)}`
+  if (call.action === 'toggleMessageBoard') return call.active ? 'Open message board' : 'Close message board'
+  return ACTION_LABELS[call.action]
+}
+
+export interface DashboardStatus {
+  liveChatActive: boolean
+  liveChatHost: `0x${string}` | null
+  liveChatStartedAt: number // Unix seconds, 0 when no live chat
+  messageBoardActive: boolean
+  isShutdown: boolean
+}
+
+export interface UseModerationReturn extends Pick<ModerationSnapshot, 'muted' | 'moderators'> {
+  canModerate: boolean // Owner, a moderator, or a live chat controller - may mute and unmute
+  canControl: boolean // 5% whale, registered whale or owner - may manage moderators and toggle chat
+  isOwner: boolean // Platform owner - may shut the dashboard down
+  status: DashboardStatus | undefined
+  isSyncing: boolean // Mute and moderator history still backfilling
+  isMuted: (user: string) => boolean
+  pending: ModerationAction | null
+  mute: (user: `0x${string}`) => Promise<boolean>
+  unmute: (user: `0x${string}`) => Promise<boolean>
+  addModerator: (user: `0x${string}`) => Promise<boolean>
+  removeModerator: (user: `0x${string}`) => Promise<boolean>
+  setMessageBoardActive: (active: boolean) => Promise<boolean>
+  startLiveChat: () => Promise<boolean>
+  endLiveChat: () => Promise<boolean>
+  shutdown: () => Promise<boolean>
+  reopen: () => Promise<boolean>
+}
+
+/**
+ * Moderation rights and state for `token` as seen by `user`, plus the PumpFudSuperChat
+ * moderation calls. Mutes and moderators come from the shared event log in utils/moderationLog
+ */
+export function useModeration(
+  token: `0x${string}` | undefined,
+  user: `0x${string}` | undefined
+): UseModerationReturn {
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+  const [pending, setPending] = useState<ModerationAction | null>(null)
+
+  const enabled = IS_SUPER_CHAT_DEPLOYED && !!token
+  const tokenArg = token ?? zeroAddress
+  const userArg = user ?? zeroAddress
+
+  const log = useMemo(
+    () => (publicClient && enabled && token ? getModerationLog(publicClient, token) : null),
+    [publicClient, enabled, token]
+  )
+  const snapshot = useSyncExternalStore(
+    log ? log.subscribe : noopSubscribe,
+    log ? log.getSnapshot : emptySnapshot
+  )
+
+  const { data: rights, refetch: refetchRights } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'canModerate', args: [tokenArg, userArg] },
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'canControlLiveChat', args: [tokenArg, userArg] },
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'owner' },
+    ],
+    query: { enabled: enabled && !!user, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  const { data: info, refetch: refetchInfo } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI, functionName: 'getDashboardInfo', args: [tokenArg] },
+    ],
+    query: { enabled, refetchInterval: REFETCH_INTERVAL },
+  })
+
+  // Another moderator's changes show up without waiting for the poll. viem drops `args` when
+  // no eventName is given, so other tokens' events are filtered out here
+  useWatchContractEvent({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    enabled,
+    onLogs(logs) {
+      const ours = logs.filter(l => !!token && l.args.token?.toLowerCase() === token.toLowerCase())
+      const names = new Set(ours.map(l => l.eventName))
+      if (names.has('UserMuted') || names.has('UserUnmuted') || names.has('ModeratorAdded') || names.has('ModeratorRemoved')) {
+        log?.refresh()
+        refetchRights()
+      }
+      if (names.has('LiveChatStarted') || names.has('LiveChatEnded') || names.has('MessageBoardToggled')
+        || names.has('DashboardShutdown') || names.has('DashboardReopened')) {
+        refetchInfo()
+      }
+    },
+  })
+
+  const status = useMemo((): DashboardStatus | undefined => {
+    if (!info) return undefined
+    const [, , , , liveChatActive, messageBoardActive, isShutdown, liveChatHost, liveChatStartedAt] = info[0]
+    return {
+      liveChatActive,
+      liveChatHost: liveChatHost === zeroAddress ? null : liveChatHost,
+      liveChatStartedAt: Number(liveChatStartedAt),
+      messageBoardActive,
+      isShutdown,
+    }
+  }, [info])
+
+  const mutedSet = useMemo(() => new Set(snapshot.muted.map(m => m.user.toLowerCase())), [snapshot.muted])
+  const isMuted = useCallback((address: string) => mutedSet.has(address.toLowerCase()), [mutedSet])
+
+  const write = useCallback((call: ModerationCall) => {
+    const contract = { address: SUPER_CHAT_ADDRESS, abi: SUPER_CHAT_ABI } as const
+    switch (call.action) {
+      case 'muteUser':
+        return writeContractAsync({ ...contract, functionName: 'muteUser', args: [tokenArg, call.user] })
+      case 'unmuteUser':
+        return writeContractAsync({ ...contract, functionName: 'unmuteUser', args: [tokenArg, call.user] })
+      case 'addModerator':
+        return writeContractAsync({ ...contract, functionName: 'addModerator', args: [tokenArg, call.user] })
+      case 'removeModerator':
+        return writeContractAsync({ ...contract, functionName: 'removeModerator', args: [tokenArg, call.user] })
+      case 'toggleMessageBoard':
+        return writeContractAsync({ ...contract, functionName: 'toggleMessageBoard', args: [tokenArg, call.active] })
+      case 'startLiveChat':
+        return writeContractAsync({ ...contract, functionName: 'startLiveChat', args: [tokenArg] })
+      case 'endLiveChat':
+        return writeContractAsync({ ...contract, functionName: 'endLiveChat', args: [tokenArg] })
+      case 'shutdownDashboard':
+        return writeContractAsync({ ...contract, functionName: 'shutdownDashboard', args: [tokenArg] })
+      case 'reopenDashboard':
+        return writeContractAsync({ ...contract, functionName: 'reopenDashboard', args: [tokenArg] })
+    }
+  }, [writeContractAsync, tokenArg])
+
+  const run = useCallback(async (call: ModerationCall): Promise<boolean> => {
+    if (!enabled) return false
+    setPending(call.action)
+    const receipt = await send({ label: callLabel(call), execute: () => write(call) })
+    if (receipt) await Promise.all([log?.refresh(), refetchRights(), refetchInfo()])
+    setPending(null)
+    return !!receipt
+  }, [enabled, send, write, log, refetchRights, refetchInfo])
+
+  return {
+    muted: snapshot.muted,
+    moderators: snapshot.moderators,
+    canModerate: rights?.[0] ?? false,
+    canControl: rights?.[1] ?? false,
+    isOwner: !!user && !!rights && rights[2].toLowerCase() === user.toLowerCase(),
+    status,
+    isSyncing: snapshot.status === 'idle' || snapshot.status === 'loading',
+    isMuted,
+    pending,
+    mute: (u) => run({ action: 'muteUser', user: u }),
+    unmute: (u) => run({ action: 'unmuteUser', user: u }),
+    addModerator: (u) => run({ action: 'addModerator', user: u }),
+    removeModerator: (u) => run({ action: 'removeModerator', user: u }),
+    setMessageBoardActive: (active) => run({ action: 'toggleMessageBoard', active }),
+    startLiveChat: () => run({ action: 'startLiveChat' }),
+    endLiveChat: () => run({ action: 'endLiveChat' }),
+    shutdown: () => run({ action: 'shutdownDashboard' }),
+    reopen: () => run({ action: 'reopenDashboard' }),
+  }
+}
@@ -0,0 +1,226 @@
+import { useMemo } from 'react'
+import { isAddress, zeroAddress } from 'viem'
+import { useReadContract, useReadContracts, useWatchContractEvent } from 'wagmi'
+import { PROFILE_ADDRESS, IS_PROFILE_DEPLOYED } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+
+// PumpFudProfile constructor values, used until the contract answers
+const DEFAULT_MAX_NAME_LENGTH = 32
+const DEFAULT_MAX_BIO_LENGTH = 500
+
+export interface UserProfile {
+  wallet: `0x${string}`
+  displayName: string
+  avatarUri: string
+  bannerUri: string
+  bio: string
+  cultId: bigint // 0n = no cult
+  createdAt: number // Unix seconds
+  isPremium: boolean
+  isVerified: boolean
+}
+
+export interface ProfileStats {
+  tokensLaunched: number
+  tokensGraduated: number
+  totalVolume: bigint // PLS traded
+  totalTips: bigint // Super chat tips received
+  followerCount: number
+  followingCount: number
+  reputation: number
+}
+
+export interface ProfileBadge {
+  id: number
+  name: string
+  imageUri: string
+  description: string
+}
+
+type RawProfile = {
+  wallet: `0x${string}`
+  displayName: string
+  avatarUri: string
+  bannerUri: string
+  bio: string
+  cultId: bigint
+  createdAt: bigint
+  isPremium: boolean
+  isVerified: boolean
+  exists: boolean
+}
+
+function fromRawProfile(raw: RawProfile): UserProfile | null {
+  if (!raw.exists) return null
+  return {
+    wallet: raw.wallet,
+    displayName: raw.displayName,
+    avatarUri: raw.avatarUri,
+    bannerUri: raw.bannerUri,
+    bio: raw.bio,
+    cultId: raw.cultId,
+    createdAt: Number(raw.createdAt),
+    isPremium: raw.isPremium,
+    isVerified: raw.isVerified,
+  }
+}
+
+export function profilePath(addressOrName: string): string {
+  return `/profile/${encodeURIComponent(addressOrName)}`
+}
+
+export interface UseProfileReturn {
+  wallet: `0x${string}` | undefined // Undefined when a name doesn't resolve
+  profile: UserProfile | null | undefined // Null when the wallet has no profile, undefined while loading
+  stats: ProfileStats | undefined
+  badges: ProfileBadge[]
+  isLoading: boolean
+  refetch: () => void
+}
+
+/**
+ * Profile page data for a wallet address or display name: profile, getStats and the badge shelf.
+ * Stats are recorded per wallet, so they load even when the wallet never created a profile
+ */
+export function useProfile(addressOrName: string | undefined): UseProfileReturn {
+  const byAddress = !!addressOrName && isAddress(addressOrName)
+
+  const { data: rawByAddress, isLoading: addressLoading, refetch: refetchByAddress } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getProfile',
+    args: byAddress ? [addressOrName] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && byAddress },
+  })
+
+  const { data: rawByName, isLoading: nameLoading, refetch: refetchByName } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getProfileByName',
+    args: addressOrName && !byAddress ? [addressOrName] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && !!addressOrName && !byAddress },
+  })
+
+  const raw = byAddress ? rawByAddress : rawByName
+  const profile = raw ? fromRawProfile(raw) : undefined
+  const wallet = byAddress ? addressOrName : profile?.wallet
+
+  const { data: walletData, isLoading: walletLoading, refetch: refetchWalletData } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'getStats', args: [wallet ?? zeroAddress] },
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'getUserBadges', args: [wallet ?? zeroAddress] },
+    ],
+    query: { enabled: IS_PROFILE_DEPLOYED && !!wallet },
+  })
+
+  const badgeIds = walletData?.[1] ?? []
+  const { data: badgeData } = useReadContracts({
+    contracts: badgeIds.map(id => ({
+      address: PROFILE_ADDRESS,
+      abi: PROFILE_ABI,
+      functionName: 'badges',
+      args: [id],
+    } as const)),
+    query: { enabled: badgeIds.length > 0 },
+  })
+
+  const refetch = () => {
+    if (byAddress) refetchByAddress()
+    else refetchByName()
+    refetchWalletData()
+  }
+
+  useWatchContractEvent({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    enabled: IS_PROFILE_DEPLOYED && !!wallet,
+    onLogs(logs) {
+      const touched = logs.some(log => {
+        const args = log.args as { wallet?: string; user?: string }
+        const account = args.wallet ?? args.user
+        return !!account && account.toLowerCase() === wallet?.toLowerCase()
+      })
+      if (touched) refetch()
+    },
+  })
+
+  const stats = useMemo((): ProfileStats | undefined => {
+    if (!walletData) return undefined
+    const s = walletData[0]
+    return {
+      tokensLaunched: Number(s.tokensLaunched),
+      tokensGraduated: Number(s.tokensGraduated),
+      totalVolume: s.totalVolume,
+      totalTips: s.totalTips,
+      followerCount: Number(s.followerCount),
+      followingCount: Number(s.followingCount),
+      reputation: Number(s.reputation),
+    }
+  }, [walletData])
+
+  const badges = useMemo(
+    () => (badgeData ?? []).flatMap((r): ProfileBadge[] => {
+      if (r.status !== 'success') return []
+      const [id, name, imageUri, description] = r.result
+      return [{ id: Number(id), name, imageUri, description }]
+    }),
+    [badgeData]
+  )
+
+  return {
+    wallet,
+    profile: IS_PROFILE_DEPLOYED ? profile : null,
+    stats,
+    badges,
+    isLoading: (IS_PROFILE_DEPLOYED && (byAddress ? addressLoading : nameLoading)) || walletLoading,
+    refetch,
+  }
+}
+
+export interface ProfileSettings {
+  creationFee: bigint | undefined
+  premiumFee: bigint | undefined
+  maxNameLength: number
+  maxBioLength: number
+}
+
+/**
+ * Fees and field limits the profile forms validate against
+ */
+export function useProfileSettings(): ProfileSettings {
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'profileCreationFee' },
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'premiumProfileFee' },
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'maxNameLength' },
+      { address: PROFILE_ADDRESS, abi: PROFILE_ABI, functionName: 'maxBioLength' },
+    ],
+    query: { enabled: IS_PROFILE_DEPLOYED },
+  })
+
+  return {
+    creationFee: data?.[0],
+    premiumFee: data?.[1],
+    maxNameLength: data ? Number(data[2]) : DEFAULT_MAX_NAME_LENGTH,
+    maxBioLength: data ? Number(data[3]) : DEFAULT_MAX_BIO_LENGTH,
+  }
+}
+
+/**
+ * Wallet holding a display name (names are unique case-insensitively), null when free
+ */
+export function useNameOwner(name: string): `0x${string}` | null | undefined {
+  const trimmed = name.trim()
+  const { data: raw } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'getProfileByName',
+    args: trimmed ? [trimmed] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && !!trimmed },
+  })
+  if (!trimmed) return null
+  if (!raw) return undefined
+  return raw.exists ? raw.wallet : null
+}
@@ -0,0 +1,420 @@
+import { useCallback, useMemo } from 'react'
+import { useReadContract, useReadContracts, useWriteContract } from 'wagmi'
+import { zeroAddress } from 'viem'
+import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI, PUMP_FUD_V2_ADDRESS } from '../config/wagmi'
+import { PUMP_FUD_V2_ABI } from '../config/pumpFudV2'
+import {
+  IS_PUMP_FUD_V2,
+  encodeV2ImageUri,
+  fromLegacyToken,
+  fromV2Token,
+  type PumpFudToken,
+  type TokenRef,
+} from '../utils/pumpFud'
+import { LEGACY_CURVE_DEFAULTS, V2_CURVE_DEFAULTS, applyFee, type CurveParams } from '../utils/curve'
+
+// Both deployments' reads are declared so hook order never changes; only the active one is enabled
+
+export interface UsePumpFudTokenReturn {
+  token: PumpFudToken | null
+  isLoading: boolean
+  refetch: () => void
+}
+
+/**
+ * One token from the active PumpFud deployment
+ */
+export function usePumpFudToken(
+  tokenAddress: `0x${string}` | undefined,
+  refetchInterval?: number
+): UsePumpFudTokenReturn {
+  const { data: legacyData, isLoading: legacyLoading, refetch: refetchLegacy } = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'getTokenByAddress',
+    args: tokenAddress ? [tokenAddress] : undefined,
+    query: { enabled: !IS_PUMP_FUD_V2 && !!tokenAddress, refetchInterval },
+  })
+
+  const { data: v2Data, isLoading: v2Loading, refetch: refetchV2 } = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getTokenData',
+    args: tokenAddress ? [tokenAddress] : undefined,
+    query: { enabled: IS_PUMP_FUD_V2 && !!tokenAddress, refetchInterval },
+  })
+
+  const token = useMemo(() => {
+    if (IS_PUMP_FUD_V2) {
+      return v2Data && v2Data.tokenAddress !== zeroAddress ? fromV2Token(v2Data) : null
+    }
+    return legacyData && legacyData.tokenAddress !== zeroAddress ? fromLegacyToken(legacyData) : null
+  }, [legacyData, v2Data])
+
+  const refetch = useCallback(() => {
+    if (IS_PUMP_FUD_V2) refetchV2()
+    else refetchLegacy()
+  }, [refetchLegacy, refetchV2])
+
+  return {
+    token,
+    isLoading: IS_PUMP_FUD_V2 ? v2Loading : legacyLoading,
+    refetch,
+  }
+}
+
+export interface UsePumpFudTokensReturn {
+  tokens: PumpFudToken[]
+  isLoading: boolean
+}
+
+/**
+ * First `limit` tokens launched on the active deployment
+ */
+export function usePumpFudTokens(limit: number): UsePumpFudTokensReturn {
+  const { data: legacyTokens, isLoading: legacyLoading } = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'getAllTokens',
+    args: [0n, BigInt(limit)],
+    query: { enabled: !IS_PUMP_FUD_V2 },
+  })
+
+  // V2 lists addresses; token data comes from one multicall
+  const { data: v2Addresses, isLoading: v2ListLoading } = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getAllTokens',
+    args: [0n, BigInt(limit)],
+    query: { enabled: IS_PUMP_FUD_V2 },
+  })
+
+  const { data: v2Tokens, isLoading: v2DataLoading } = useReadContracts({
+    contracts: (v2Addresses ?? []).map(token => ({
+      address: PUMP_FUD_V2_ADDRESS,
+      abi: PUMP_FUD_V2_ABI,
+      functionName: 'getTokenData',
+      args: [token],
+    } as const)),
+    query: { enabled: IS_PUMP_FUD_V2 && !!v2Addresses && v2Addresses.length > 0 },
+  })
+
+  const tokens = useMemo(() => {
+    if (IS_PUMP_FUD_V2) {
+      return (v2Tokens ?? []).flatMap(r => (r.status === 'success' ? [fromV2Token(r.result)] : []))
+    }
+    return (legacyTokens ?? []).map(fromLegacyToken)
+  }, [legacyTokens, v2Tokens])
+
+  return {
+    tokens,
+    isLoading: IS_PUMP_FUD_V2 ? v2ListLoading || v2DataLoading : legacyLoading,
+  }
+}
+
+export interface CurveQuoteOptions {
+  refetchInterval?: number // Re-read while shown - the curve moves with every trade
+}
+
+export interface CurveQuote {
+  amountOut: bigint | undefined // Tokens for a buy, PLS for a sell, after fees
+  quotedAt: number // ms timestamp of the read, 0 before the first one
+  isLoading: boolean
+  refetch: () => void
+}
+
+/**
+ * Bonding curve quote for a buy (PLS in) or sell (tokens in) on the active deployment.
+ * The estimate reads price the curve alone, so the buy fee comes off the PLS before the read and
+ * the sell fee off the PLS after it - as the contract executes the trade for a wallet that pays fees
+ */
+export function useCurveQuote(
+  token: TokenRef | undefined,
+  side: 'buy' | 'sell',
+  amountIn: bigint | undefined,
+  { refetchInterval }: CurveQuoteOptions = {}
+): CurveQuote {
+  const params = useCurveParams(token?.tokenAddress)
+  const curveIn = amountIn && side === 'buy' ? applyFee(amountIn, params.buyFeeBps).net : amountIn
+
+  const legacyArgs = token?.id !== undefined && curveIn ? [token.id, curveIn] as const : undefined
+  const v2Args = token && curveIn ? [token.tokenAddress, curveIn] as const : undefined
+
+  const legacyBuy = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'calculateBuyAmount',
+    args: legacyArgs,
+    query: { enabled: !IS_PUMP_FUD_V2 && side === 'buy' && !!legacyArgs, refetchInterval },
+  })
+
+  const legacySell = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'calculateSellAmount',
+    args: legacyArgs,
+    query: { enabled: !IS_PUMP_FUD_V2 && side === 'sell' && !!legacyArgs, refetchInterval },
+  })
+
+  const v2Buy = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getEstimatedTokens',
+    args: v2Args,
+    query: { enabled: IS_PUMP_FUD_V2 && side === 'buy' && !!v2Args, refetchInterval },
+  })
+
+  const v2Sell = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getEstimatedPls',
+    args: v2Args,
+    query: { enabled: IS_PUMP_FUD_V2 && side === 'sell' && !!v2Args, refetchInterval },
+  })
+
+  const active = IS_PUMP_FUD_V2
+    ? (side === 'buy' ? v2Buy : v2Sell)
+    : (side === 'buy' ? legacyBuy : legacySell)
+
+  const amountOut = active.data !== undefined && side === 'sell'
+    ? applyFee(active.data, params.sellFeeBps).net
+    : active.data
+
+  return {
+    amountOut,
+    quotedAt: active.data === undefined ? 0 : active.dataUpdatedAt,
+    isLoading: active.isLoading,
+    refetch: () => {
+      active.refetch()
+    },
+  }
+}
+
+/**
+ * Tokens out for a PLS amount, after the buy fee
+ */
+export function useBuyQuote(token: TokenRef | undefined, plsIn: bigint | undefined): bigint | undefined {
+  return useCurveQuote(token, 'buy', plsIn).amountOut
+}
+
+/**
+ * PLS out for a token amount, after the sell fee
+ */
+export function useSellQuote(token: TokenRef | undefined, tokenAmount: bigint | undefined): bigint | undefined {
+  return useCurveQuote(token, 'sell', tokenAmount).amountOut
+}
+
+/**
+ * Curve parameters of the active deployment for offline quotes (see utils/curve).
+ * Falls back to the constructor defaults until the reads land; V2 applies per-token fee overrides
+ */
+export function useCurveParams(tokenAddress?: `0x${string}`): CurveParams {
+  const legacyParam = (functionName: 'virtualPlsReserves' | 'virtualTokenReserves' | 'maxSupply' | 'buyFeeBps' | 'sellFeeBps') =>
+    ({ address: PUMP_FUD_ADDRESS, abi: PUMP_FUD_ABI, functionName } as const)
+
+  const { data: legacyParams } = useReadContracts({
+    contracts: [
+      legacyParam('virtualPlsReserves'),
+      legacyParam('virtualTokenReserves'),
+      legacyParam('maxSupply'),
+      legacyParam('buyFeeBps'),
+      legacyParam('sellFeeBps'),
+    ],
+    allowFailure: false,
+    query: { enabled: !IS_PUMP_FUD_V2 },
+  })
+
+  const { data: v2Config } = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getConfig',
+    query: { enabled: IS_PUMP_FUD_V2 },
+  })
+
+  const { data: v2Overrides } = useReadContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'tokenOverrides',
+    args: tokenAddress ? [tokenAddress] : undefined,
+    query: { enabled: IS_PUMP_FUD_V2 && !!tokenAddress },
+  })
+
+  return useMemo(() => {
+    if (IS_PUMP_FUD_V2) {
+      if (!v2Config) return V2_CURVE_DEFAULTS
+      const [hasBuyFeeOverride, buyFeeOverride, hasSellFeeOverride, sellFeeOverride] = v2Overrides ?? [false, 0n, false, 0n]
+      return {
+        virtualPls: v2Config.virtualPls,
+        virtualTokens: v2Config.virtualTokens,
+        bondingSupply: v2Config.bondingSupply,
+        buyFeeBps: hasBuyFeeOverride ? buyFeeOverride : v2Config.buyFeeBps,
+        sellFeeBps: hasSellFeeOverride ? sellFeeOverride : v2Config.sellFeeBps,
+      }
+    }
+    if (!legacyParams) return LEGACY_CURVE_DEFAULTS
+    const [virtualPls, virtualTokens, bondingSupply, buyFeeBps, sellFeeBps] = legacyParams
+    return { virtualPls, virtualTokens, bondingSupply, buyFeeBps, sellFeeBps }
+  }, [legacyParams, v2Config, v2Overrides])
+}
+
+export interface UseLaunchFeeReturn {
+  fee: bigint | undefined // PLS the launch must send on top of any creator buy; 0 for fee-exempt wallets
+  isFeeExempt: boolean
+  isLoading: boolean
+}
+
+/**
+ * Token creation fee of the active deployment - V1 launchFee, V2 creationFee (waived for fee-exempt roles)
+ */
+export function useLaunchFee(user: `0x${string}` | undefined): UseLaunchFeeReturn {
+  const { data: legacyFee, isLoading: legacyLoading } = useReadContract({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    functionName: 'launchFee',
+    query: { enabled: !IS_PUMP_FUD_V2 },
+  })
+
+  const { data: v2Fee, isLoading: v2Loading } = useReadContracts({
+    contracts: [
+      { address: PUMP_FUD_V2_ADDRESS, abi: PUMP_FUD_V2_ABI, functionName: 'creationFee' },
+      { address: PUMP_FUD_V2_ADDRESS, abi: PUMP_FUD_V2_ABI, functionName: 'isFeeExempt', args: [user ?? zeroAddress] },
+    ],
+    allowFailure: false,
+    query: { enabled: IS_PUMP_FUD_V2 },
+  })
+
+  if (!IS_PUMP_FUD_V2) {
+    return { fee: legacyFee, isFeeExempt: false, isLoading: legacyLoading }
+  }
+  const [creationFee, isFeeExempt] = v2Fee ?? [undefined, false]
+  return {
+    fee: isFeeExempt ? 0n : creationFee,
+    isFeeExempt,
+    isLoading: v2Loading,
+  }
+}
+
+export interface BuyParams {
+  token: TokenRef
+  plsIn: bigint
+  minTokensOut: bigint
+  referrer?: `0x${string}` // V2 pays referral fees inline; ignored on v1
+}
+
+export interface SellParams {
+  token: TokenRef
+  tokenAmount: bigint
+  minPlsOut: bigint
+  referrer?: `0x${string}`
+}
+
+export interface LaunchParams {
+  name: string
+  symbol: string
+  description: string // Metadata JSON
+  imageUri: string
+  fee: bigint
+  initialBuy: bigint
+  minTokensOut?: bigint
+  livestreamStartTime?: bigint // V2 only - unix seconds trading opens; livestream launches take no creator buy
+}
+
+/**
+ * useWriteContract plus version-aware buy/sell/burn/launch calls, each resolving with the tx hash
+ * (undefined when the active deployment has no such call). Pass them to useTransactions().send.
+ * The raw writeContractAsync stays available so approvals and transfers share the same tx state.
+ */
+export function usePumpFudWrite() {
+  const write = useWriteContract()
+  const { writeContractAsync } = write
+
+  const buy = useCallback(({ token, plsIn, minTokensOut, referrer }: BuyParams) => {
+    if (IS_PUMP_FUD_V2) {
+      return writeContractAsync({
+        address: PUMP_FUD_V2_ADDRESS,
+        abi: PUMP_FUD_V2_ABI,
+        functionName: 'buy',
+        args: [token.tokenAddress, minTokensOut, referrer ?? zeroAddress],
+        value: plsIn,
+      })
+    }
+    if (token.id === undefined) return Promise.resolve(undefined)
+    return writeContractAsync({
+      address: PUMP_FUD_ADDRESS,
+      abi: PUMP_FUD_ABI,
+      functionName: 'buyTokens',
+      args: [token.id, minTokensOut],
+      value: plsIn,
+    })
+  }, [writeContractAsync])
+
+  const sell = useCallback(({ token, tokenAmount, minPlsOut, referrer }: SellParams) => {
+    if (IS_PUMP_FUD_V2) {
+      return writeContractAsync({
+        address: PUMP_FUD_V2_ADDRESS,
+        abi: PUMP_FUD_V2_ABI,
+        functionName: 'sell',
+        args: [token.tokenAddress, tokenAmount, minPlsOut, referrer ?? zeroAddress],
+      })
+    }
+    if (token.id === undefined) return Promise.resolve(undefined)
+    return writeContractAsync({
+      address: PUMP_FUD_ADDRESS,
+      abi: PUMP_FUD_ABI,
+      functionName: 'sellTokens',
+      args: [token.id, tokenAmount, minPlsOut],
+    })
+  }, [writeContractAsync])
+
+  // Burn-for-PLS only exists on V2; the legacy contract has no redeem path
+  const burn = useCallback((token: TokenRef, tokenAmount: bigint) => {
+    if (!IS_PUMP_FUD_V2) return Promise.resolve(undefined)
+    return writeContractAsync({
+      address: PUMP_FUD_V2_ADDRESS,
+      abi: PUMP_FUD_V2_ABI,
+      functionName: 'burn',
+      args: [token.tokenAddress, tokenAmount],
+    })
+  }, [writeContractAsync])
+
+  const launch = useCallback(({ name, symbol, description, imageUri, fee, initialBuy, minTokensOut = 0n, livestreamStartTime }: LaunchParams) => {
+    if (IS_PUMP_FUD_V2) {
+      const packedUri = encodeV2ImageUri(imageUri, description)
+      if (livestreamStartTime !== undefined) {
+        return writeContractAsync({
+          address: PUMP_FUD_V2_ADDRESS,
+          abi: PUMP_FUD_V2_ABI,
+          functionName: 'createLivestreamToken',
+          args: [name, symbol, packedUri, livestreamStartTime],
+          value: fee,
+        })
+      }
+      if (initialBuy > 0n) {
+        return writeContractAsync({
+          address: PUMP_FUD_V2_ADDRESS,
+          abi: PUMP_FUD_V2_ABI,
+          functionName: 'createTokenWithBuy',
+          args: [name, symbol, packedUri, initialBuy, minTokensOut],
+          value: fee + initialBuy,
+        })
+      }
+      return writeContractAsync({
+        address: PUMP_FUD_V2_ADDRESS,
+        abi: PUMP_FUD_V2_ABI,
+        functionName: 'createToken',
+        args: [name, symbol, packedUri],
+        value: fee,
+      })
+    }
+    // Legacy launchToken spends any value above the fee on an initial buy
+    return writeContractAsync({
+      address: PUMP_FUD_ADDRESS,
+      abi: PUMP_FUD_ABI,
+      functionName: 'launchToken',
+      args: [name, symbol, description, imageUri],
+      value: fee + initialBuy,
+    })
+  }, [writeContractAsync])
+
+  return { ...write, buy, sell, burn, launch }
+}
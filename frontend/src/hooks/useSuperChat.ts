@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { usePublicClient, useReadContract, useWatchContractEvent } from 'wagmi'
+import { formatEther, parseEther } from 'viem'
+import { SUPER_CHAT_ADDRESS, IS_SUPER_CHAT_DEPLOYED } from '../config/wagmi'
+import { SUPER_CHAT_ABI } from '../config/superChat'
+import { fromSuperChatSent, type ChatMessage, type SuperChatTip } from './useTokenChat'
+
+// PulseChain targets 10s blocks; converts the pin window into a block range for log reads
+const BLOCK_TIME_SECONDS = 10
+
+export interface SuperChatTierStyle {
+  name: string
+  color: string
+  pinSeconds: number // How long the super chat stays pinned above the chat (0 = never pinned)
+}
+
+// Indexed by PumpFudSuperChat.TipTier
+export const SUPER_CHAT_TIERS: SuperChatTierStyle[] = [
+  { name: 'Basic', color: '#22c55e', pinSeconds: 0 },
+  { name: 'Bronze', color: '#cd7f32', pinSeconds: 60 },
+  { name: 'Silver', color: '#c0c0c0', pinSeconds: 5 * 60 },
+  { name: 'Gold', color: '#ffd700', pinSeconds: 30 * 60 },
+  { name: 'Diamond', color: '#a855f7', pinSeconds: 2 * 60 * 60 },
+]
+
+const MAX_PIN_SECONDS = Math.max(...SUPER_CHAT_TIERS.map(t => t.pinSeconds))
+
+export function getSuperChatTier(tier: number): SuperChatTierStyle {
+  return SUPER_CHAT_TIERS[tier] ?? SUPER_CHAT_TIERS[0]
+}
+
+/**
+ * Tip input in whole units, or undefined while the field is empty or invalid
+ */
+export function parseTipAmount(value: string): bigint | undefined {
+  try {
+    const amount = parseEther(value.trim())
+    return amount > 0n ? amount : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Compact "1.50K PLS" label - the unit is dropped when the tip currency is unknown
+ */
+export function formatTipAmount(tip: SuperChatTip, tokenSymbol: string): string {
+  const num = Number(formatEther(tip.amount))
+  const amount = num >= 1_000_000_000 ? `${(num / 1_000_000_000).toFixed(2)}B`
+    : num >= 1_000_000 ? `${(num / 1_000_000).toFixed(2)}M`
+    : num >= 1_000 ? `${(num / 1_000).toFixed(2)}K`
+    : num.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  if (tip.isPLS === undefined) return amount
+  return `${amount} ${tip.isPLS ? 'PLS' : tokenSymbol}`
+}
+
+export function formatPinDuration(seconds: number): string {
+  if (seconds >= 3600) return `${Math.round(seconds / 3600)}h`
+  if (seconds >= 60) return `${Math.round(seconds / 60)}m`
+  return `${seconds}s`
+}
+
+export interface UseSuperChatTierReturn {
+  tier: number | undefined // Undefined until previewTier answers for this amount
+  style: SuperChatTierStyle | undefined
+}
+
+/**
+ * Tier the contract will assign to a tip - previewTier(amount, isPLS)
+ */
+export function useSuperChatTier(amount: bigint | undefined, isPLS: boolean): UseSuperChatTierReturn {
+  const { data: tier } = useReadContract({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    functionName: 'previewTier',
+    args: amount ? [amount, isPLS] : undefined,
+    query: { enabled: IS_SUPER_CHAT_DEPLOYED && !!amount },
+  })
+
+  return {
+    tier,
+    style: tier !== undefined ? getSuperChatTier(tier) : undefined,
+  }
+}
+
+export interface PinnedSuperChat extends ChatMessage {
+  tip: SuperChatTip
+  pinnedUntil: number // Unix seconds
+}
+
+interface SuperChatLog {
+  args: Parameters<typeof fromSuperChatSent>[0]
+  transactionHash: `0x${string}` | null
+}
+
+/**
+ * Super chats still inside their tier's pin window, from SuperChatSent events.
+ * Highest tier first, newest first within a tier
+ */
+export function usePinnedSuperChats(tokenAddress: `0x${string}` | undefined): PinnedSuperChat[] {
+  const publicClient = usePublicClient()
+  const enabled = IS_SUPER_CHAT_DEPLOYED && !!tokenAddress
+  const [superChats, setSuperChats] = useState<ChatMessage[]>([])
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!enabled) return
+    const interval = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(interval)
+  }, [enabled])
+
+  // The event has no currency; PLS super chats are the only ones that carry value
+  const resolve = useCallback(async (logs: SuperChatLog[]) => {
+    if (!publicClient) return []
+    const resolved = await Promise.all(logs.map(async (log) => {
+      const tx = log.transactionHash ? await publicClient.getTransaction({ hash: log.transactionHash }) : null
+      return fromSuperChatSent(log.args, log.transactionHash, tx ? tx.value > 0n : undefined)
+    }))
+    return resolved.flatMap(m => (m ? [m] : []))
+  }, [publicClient])
+
+  const addSuperChats = useCallback((incoming: ChatMessage[]) => {
+    if (incoming.length === 0) return
+    setSuperChats(prev => {
+      const known = new Map(prev.map(m => [m.id, m]))
+      for (const m of incoming) known.set(m.id, m)
+      return [...known.values()]
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !publicClient || !tokenAddress) return
+    let cancelled = false
+
+    const fetchRecent = async () => {
+      try {
+        const latestBlock = await publicClient.getBlockNumber()
+        const windowBlocks = BigInt(Math.ceil(MAX_PIN_SECONDS / BLOCK_TIME_SECONDS))
+        const logs = await publicClient.getContractEvents({
+          address: SUPER_CHAT_ADDRESS,
+          abi: SUPER_CHAT_ABI,
+          eventName: 'SuperChatSent',
+          args: { token: tokenAddress },
+          fromBlock: latestBlock > windowBlocks ? latestBlock - windowBlocks : 0n,
+          toBlock: latestBlock,
+        })
+        const recent = await resolve(logs)
+        if (!cancelled) addSuperChats(recent)
+      } catch (error) {
+        console.error('Failed to fetch super chats:', error)
+      }
+    }
+
+    fetchRecent()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, publicClient, tokenAddress, resolve, addSuperChats])
+
+  useWatchContractEvent({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    eventName: 'SuperChatSent',
+    args: tokenAddress ? { token: tokenAddress } : undefined,
+    enabled,
+    onLogs(logs) {
+      resolve(logs)
+        .then(addSuperChats)
+        .catch(error => console.error('Failed to resolve super chats:', error))
+    },
+  })
+
+  return useMemo(() => {
+    const nowSeconds = Math.floor(now / 1000)
+    return superChats
+      .flatMap((m): PinnedSuperChat[] => {
+        if (!m.tip || m.token.toLowerCase() !== tokenAddress?.toLowerCase()) return []
+        const pinnedUntil = m.timestamp + getSuperChatTier(m.tip.tier).pinSeconds
+        return pinnedUntil > nowSeconds ? [{ ...m, tip: m.tip, pinnedUntil }] : []
+      })
+      .sort((a, b) => b.tip.tier - a.tip.tier || b.timestamp - a.timestamp)
+  }, [superChats, tokenAddress, now])
+}
@@ -0,0 +1,243 @@
+import { useState, useCallback } from 'react'
+import { usePublicClient, useReadContracts } from 'wagmi'
+import { zeroAddress } from 'viem'
+import { SWAP_ADDRESS, IS_SWAP_DEPLOYED, ACTIVE_PUMP_FUD_ADDRESS } from '../config/wagmi'
+import { SWAP_ABI } from '../config/swap'
+import { getPriceImpactBps, PRICE_PRECISION } from '../utils/curve'
+import { formatTxError } from '../utils/contractErrors'
+import type { TokenRef } from '../utils/pumpFud'
+import { useCurveQuote, usePumpFudToken, usePumpFudWrite } from './usePumpFud'
+import { MIN_QUOTE_AGE_SECONDS } from './useTradeSettings'
+import { useTransactions } from './useTransactions'
+
+// PumpFudSwap uses address(0) for native PLS on either side
+export const NATIVE_PLS = zeroAddress
+
+// Quotes go stale with every trade, so they are re-read on an interval
+const QUOTE_REFETCH_INTERVAL = MIN_QUOTE_AGE_SECONDS * 1000
+// Spot rate is read with a sliver of the trade so its own impact is negligible
+const REFERENCE_DIVISOR = 1000n
+
+// bestRoute strings returned by getQuote (_getBestQuote)
+export type SwapVenue = 'curve' | 'pulsex-v1' | 'pulsex-v2' | 'paisley'
+
+export const SWAP_VENUES: Record<SwapVenue, { label: string; description: string }> = {
+  curve: { label: 'Bonding Curve', description: 'pump.fud curve - the token has not graduated yet' },
+  'pulsex-v1': { label: 'PulseX V1', description: 'PulseX V1 pool' },
+  'pulsex-v2': { label: 'PulseX V2', description: 'PulseX V2 pool' },
+  paisley: { label: 'Paisley', description: 'Paisley Swap pool' },
+}
+
+const ERC20_ABI = [
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
+] as const
+
+export interface UseSwapQuoteReturn {
+  amountOut: bigint | undefined // After the PumpFudSwap fee
+  venue: SwapVenue | null // null when no venue can fill the pair
+  priceImpactBps: bigint | undefined // Execution rate vs spot rate; positive is worse
+  quotedAt: number // ms timestamp of the quote shown, 0 before the first one
+  isLoading: boolean
+  refetch: () => void
+}
+
+const rate = (amountIn: bigint, amountOut: bigint) => (amountOut * PRICE_PRECISION) / amountIn
+
+/**
+ * Best route PumpFudSwap would take for a trade - getQuote picks the curve or the best DEX pool.
+ * Without PumpFudSwap only PLS pairs of tokens still on the curve can be filled
+ */
+export function useSwapQuote(
+  tokenIn: `0x${string}` | undefined,
+  tokenOut: `0x${string}` | undefined,
+  amountIn: bigint | undefined
+): UseSwapQuoteReturn {
+  const routed = useRoutedQuote(tokenIn, tokenOut, amountIn)
+  const curve = useCurveOnlyQuote(tokenIn, tokenOut, amountIn)
+  return IS_SWAP_DEPLOYED ? routed : curve
+}
+
+function useRoutedQuote(
+  tokenIn: `0x${string}` | undefined,
+  tokenOut: `0x${string}` | undefined,
+  amountIn: bigint | undefined
+): UseSwapQuoteReturn {
+  const enabled = IS_SWAP_DEPLOYED && !!tokenIn && !!tokenOut && tokenIn !== tokenOut && !!amountIn
+  const referenceIn = amountIn ? amountIn / REFERENCE_DIVISOR : 0n
+
+  const { data, isLoading, dataUpdatedAt, refetch } = useReadContracts({
+    contracts: [
+      { address: SWAP_ADDRESS, abi: SWAP_ABI, functionName: 'getQuote', args: [tokenIn ?? NATIVE_PLS, tokenOut ?? NATIVE_PLS, amountIn ?? 0n] },
+      { address: SWAP_ADDRESS, abi: SWAP_ABI, functionName: 'getQuote', args: [tokenIn ?? NATIVE_PLS, tokenOut ?? NATIVE_PLS, referenceIn] },
+    ],
+    query: { enabled, refetchInterval: QUOTE_REFETCH_INTERVAL },
+  })
+
+  const [quote, reference] = data ?? []
+  const [amountOut, route] = quote?.status === 'success' ? quote.result : [undefined, undefined]
+  const venue = route && route in SWAP_VENUES && amountOut ? (route as SwapVenue) : null
+
+  let priceImpactBps: bigint | undefined
+  if (amountIn && amountOut && referenceIn > 0n && reference?.status === 'success' && reference.result[0] > 0n) {
+    priceImpactBps = -getPriceImpactBps(rate(referenceIn, reference.result[0]), rate(amountIn, amountOut))
+  }
+
+  return {
+    amountOut: enabled ? amountOut : undefined,
+    venue: enabled ? venue : null,
+    priceImpactBps: enabled ? priceImpactBps : undefined,
+    quotedAt: enabled && data ? dataUpdatedAt : 0,
+    isLoading: enabled && isLoading,
+    refetch,
+  }
+}
+
+function useCurveOnlyQuote(
+  tokenIn: `0x${string}` | undefined,
+  tokenOut: `0x${string}` | undefined,
+  amountIn: bigint | undefined
+): UseSwapQuoteReturn {
+  const enabled = !IS_SWAP_DEPLOYED && !!tokenIn && !!tokenOut && tokenIn !== tokenOut && !!amountIn
+  const side = tokenIn === NATIVE_PLS ? 'buy' : 'sell'
+  const curveAddress = tokenIn === NATIVE_PLS ? tokenOut : tokenOut === NATIVE_PLS ? tokenIn : undefined
+  const referenceIn = amountIn ? amountIn / REFERENCE_DIVISOR : 0n
+
+  const { token, isLoading: tokenLoading } = usePumpFudToken(enabled ? curveAddress : undefined)
+  const onCurve = token && !token.graduated ? token : undefined
+  const options = { refetchInterval: QUOTE_REFETCH_INTERVAL }
+  const quote = useCurveQuote(onCurve, side, enabled ? amountIn : undefined, options)
+  const reference = useCurveQuote(onCurve, side, enabled && referenceIn > 0n ? referenceIn : undefined, options)
+
+  // Token-to-token pairs and graduated tokens need a DEX route; report them like an empty getQuote
+  const unfillable = !curveAddress || !!token?.graduated
+  const amountOut = unfillable ? 0n : quote.amountOut
+
+  let priceImpactBps: bigint | undefined
+  if (amountIn && amountOut && referenceIn > 0n && reference.amountOut) {
+    priceImpactBps = -getPriceImpactBps(rate(referenceIn, reference.amountOut), rate(amountIn, amountOut))
+  }
+
+  return {
+    amountOut: enabled ? amountOut : undefined,
+    venue: enabled && amountOut ? 'curve' : null,
+    priceImpactBps: enabled ? priceImpactBps : undefined,
+    quotedAt: enabled ? quote.quotedAt : 0,
+    isLoading: enabled && (tokenLoading || quote.isLoading),
+    refetch: () => {
+      quote.refetch()
+      reference.refetch()
+    },
+  }
+}
+
+export interface SwapParams {
+  tokenIn: `0x${string}`
+  tokenOut: `0x${string}`
+  amountIn: bigint
+  minAmountOut: bigint
+  symbolIn: string // For the transaction toasts
+  symbolOut: string
+  curveToken?: TokenRef // The pump.fud side of the pair - required when PumpFudSwap isn't deployed
+}
+
+export type SwapStep = 'approve' | 'swap'
+
+export interface UseSwapExecuteReturn {
+  swap: (params: SwapParams) => Promise<`0x${string}` | null> // Confirmed tx hash
+  pending: SwapStep | null
+  error: string | null // Allowance check failures; transaction failures show in their toast
+  clearError: () => void
+}
+
+/**
+ * PumpFudSwap.swap, approving the input token first when the allowance falls short.
+ * Without PumpFudSwap the trade goes straight to the curve's buy / sell instead.
+ * Every transaction goes through useTransactions().send
+ */
+export function useSwapExecute(user: `0x${string}` | undefined): UseSwapExecuteReturn {
+  const publicClient = usePublicClient()
+  const { buy, sell, writeContractAsync } = usePumpFudWrite()
+  const { send } = useTransactions()
+  const [pending, setPending] = useState<SwapStep | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const swap = useCallback(async ({ tokenIn, tokenOut, amountIn, minAmountOut, symbolIn, symbolOut, curveToken }: SwapParams) => {
+    if (!publicClient || !user) return null
+    if (!IS_SWAP_DEPLOYED && !curveToken) return null
+    const spender = IS_SWAP_DEPLOYED ? SWAP_ADDRESS : ACTIVE_PUMP_FUD_ADDRESS
+    setError(null)
+    try {
+      if (tokenIn !== NATIVE_PLS) {
+        let allowance: bigint
+        try {
+          allowance = await publicClient.readContract({
+            address: tokenIn,
+            abi: ERC20_ABI,
+            functionName: 'allowance',
+            args: [user, spender],
+          })
+        } catch (err) {
+          console.error('Allowance check failed:', err)
+          setError(formatTxError(err))
+          return null
+        }
+        if (allowance < amountIn) {
+          setPending('approve')
+          const approval = await send({
+            label: `Approve ${symbolIn}`,
+            execute: () => writeContractAsync({
+              address: tokenIn,
+              abi: ERC20_ABI,
+              functionName: 'approve',
+              args: [spender, amountIn],
+            }),
+          })
+          if (!approval) return null
+        }
+      }
+
+      setPending('swap')
+      const execute = () => {
+        if (curveToken && !IS_SWAP_DEPLOYED) {
+          return tokenIn === NATIVE_PLS
+            ? buy({ token: curveToken, plsIn: amountIn, minTokensOut: minAmountOut })
+            : sell({ token: curveToken, tokenAmount: amountIn, minPlsOut: minAmountOut })
+        }
+        return writeContractAsync({
+          address: SWAP_ADDRESS,
+          abi: SWAP_ABI,
+          functionName: 'swap',
+          args: [tokenIn, tokenOut, amountIn, minAmountOut],
+          value: tokenIn === NATIVE_PLS ? amountIn : undefined,
+        })
+      }
+      const receipt = await send({ label: `Swap ${symbolIn} for ${symbolOut}`, execute })
+      return receipt?.transactionHash ?? null
+    } finally {
+      setPending(null)
+    }
+  }, [publicClient, user, buy, sell, writeContractAsync, send])
+
+  const clearError = useCallback(() => setError(null), [])
+
+  return { swap, pending, error, clearError }
+}
@@ -0,0 +1,27 @@
+import { useMemo } from 'react'
+import { isTokenEvent, type BurnEvent } from '../utils/eventIndexer'
+import { useIndexedEvents } from './useEventIndexer'
+
+export interface UseTokenBurnsReturn {
+  burns: BurnEvent[] // Newest first
+  isLoading: boolean
+}
+
+/**
+ * Burn-for-PLS history of a V2 token from the shared event indexer (always empty on v1)
+ */
+export function useTokenBurns(tokenAddress: string | undefined): UseTokenBurnsReturn {
+  const { events, status } = useIndexedEvents()
+
+  const burns = useMemo(
+    () => (tokenAddress === undefined
+      ? []
+      : events.filter((e): e is BurnEvent => e.kind === 'burn' && isTokenEvent(e, tokenAddress)).reverse()),
+    [events, tokenAddress]
+  )
+
+  return {
+    burns,
+    isLoading: status === 'idle' || status === 'loading' || status === 'backfilling',
+  }
+}
@@ -0,0 +1,426 @@
+import { useState, useMemo, useCallback, useRef } from 'react'
+import { useAccount, usePublicClient, useReadContract, useWatchContractEvent, useWriteContract } from 'wagmi'
+import { parseEventLogs } from 'viem'
+import { SUPER_CHAT_ADDRESS, IS_SUPER_CHAT_DEPLOYED } from '../config/wagmi'
+import { SUPER_CHAT_ABI } from '../config/superChat'
+import { formatTxError } from '../utils/contractErrors'
+import { useTransactions } from './useTransactions'
+
+// Messages loaded on mount, and per "load earlier" page
+const HISTORY_SIZE = 50n
+const PAGE_SIZE = 50n
+// Contract default, used until maxMessageLength() loads
+const DEFAULT_MAX_MESSAGE_BYTES = 280
+
+// Token super chats are pulled with transferFrom
+const ERC20_ABI = [
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
+] as const
+
+export type ChatMessageKind = 'chat' | 'superchat' | 'voiceJoin' | 'voiceLeave'
+export type ChatMessageStatus = 'confirmed' | 'pending' | 'failed'
+
+export interface SuperChatTip {
+  recipient: `0x${string}`
+  amount: bigint
+  tier: number // PumpFudSuperChat.TipTier
+  isPLS?: boolean // Unknown for history reads - neither the struct nor the event records the currency
+}
+
+export interface ChatMessage {
+  id: string // On-chain message id, or `pending-…` until the receipt lands
+  token: `0x${string}`
+  sender: `0x${string}`
+  content: string
+  timestamp: number // Unix seconds
+  kind: ChatMessageKind
+  tip?: SuperChatTip
+  status: ChatMessageStatus
+  txHash?: `0x${string}`
+  error?: string // Why a local message failed to post
+}
+
+// PumpFudSuperChat.MessageType order
+const MESSAGE_KINDS: ChatMessageKind[] = ['chat', 'superchat', 'voiceJoin', 'voiceLeave']
+
+interface ChainMessage {
+  id: bigint
+  token: `0x${string}`
+  sender: `0x${string}`
+  recipient: `0x${string}`
+  tipAmount: bigint
+  tier: number
+  msgType: number
+  content: string
+  timestamp: bigint
+}
+
+function fromChainMessage(m: ChainMessage): ChatMessage {
+  const kind = MESSAGE_KINDS[m.msgType] ?? 'chat'
+  return {
+    id: m.id.toString(),
+    token: m.token,
+    sender: m.sender,
+    content: m.content,
+    timestamp: Number(m.timestamp),
+    kind,
+    tip: kind === 'superchat' ? { recipient: m.recipient, amount: m.tipAmount, tier: m.tier } : undefined,
+    status: 'confirmed',
+  }
+}
+
+interface MessageSentArgs {
+  id?: bigint
+  token?: `0x${string}`
+  sender?: `0x${string}`
+  msgType?: number
+  content?: string
+  timestamp?: bigint
+}
+
+function fromMessageSent(args: MessageSentArgs, txHash: `0x${string}` | null): ChatMessage | null {
+  const { id, token, sender, msgType, content, timestamp } = args
+  if (id === undefined || !token || !sender || content === undefined || timestamp === undefined) return null
+  return {
+    id: id.toString(),
+    token,
+    sender,
+    content,
+    timestamp: Number(timestamp),
+    kind: MESSAGE_KINDS[msgType ?? 0] ?? 'chat',
+    status: 'confirmed',
+    txHash: txHash ?? undefined,
+  }
+}
+
+interface SuperChatSentArgs {
+  id?: bigint
+  token?: `0x${string}`
+  sender?: `0x${string}`
+  recipient?: `0x${string}`
+  amount?: bigint
+  tier?: number
+  message?: string
+  timestamp?: bigint
+}
+
+/**
+ * Chat message for a SuperChatSent log - pass isPLS when the sending transaction is known
+ */
+export function fromSuperChatSent(
+  args: SuperChatSentArgs,
+  txHash: `0x${string}` | null,
+  isPLS?: boolean
+): ChatMessage | null {
+  const { id, token, sender, recipient, amount, tier, message, timestamp } = args
+  if (id === undefined || !token || !sender || !recipient || amount === undefined || tier === undefined) return null
+  if (message === undefined || timestamp === undefined) return null
+  return {
+    id: id.toString(),
+    token,
+    sender,
+    content: message,
+    timestamp: Number(timestamp),
+    kind: 'superchat',
+    tip: { recipient, amount, tier, isPLS },
+    status: 'confirmed',
+    txHash: txHash ?? undefined,
+  }
+}
+
+const byId = (a: ChatMessage, b: ChatMessage) => {
+  const diff = BigInt(a.id) - BigInt(b.id)
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0
+}
+
+/**
+ * UTF-8 size of a message - the contract limits bytes, not characters
+ */
+export function messageByteLength(content: string): number {
+  return new TextEncoder().encode(content).length
+}
+
+export interface UseTokenChatReturn {
+  messages: ChatMessage[] // Oldest first; pending/failed sends trail the confirmed history
+  isLoading: boolean
+  hasOlder: boolean
+  isLoadingOlder: boolean
+  loadOlder: () => void
+  send: (content: string, tip?: Required<SuperChatTip>) => Promise<void> // A tip sends a super chat
+  retry: (id: string) => void
+  dismiss: (id: string) => void
+  maxMessageBytes: number
+  isAvailable: boolean // False when no PumpFudSuperChat address is configured
+}
+
+/**
+ * A token's PumpFudSuperChat message board: history on mount, live MessageSent / SuperChatSent
+ * events, and optimistic sends (plain or tipped) reconciled against their receipts
+ */
+export function useTokenChat(tokenAddress: `0x${string}` | undefined): UseTokenChatReturn {
+  const publicClient = usePublicClient()
+  const { address } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const { send: sendTransaction } = useTransactions()
+  const enabled = IS_SUPER_CHAT_DEPLOYED && !!tokenAddress
+
+  // Everything learned after the initial read: older pages, live events and our own receipts
+  const [received, setReceived] = useState<ChatMessage[]>([])
+  const [outbox, setOutbox] = useState<ChatMessage[]>([])
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const nextLocalIdRef = useRef(0)
+
+  const { data: recent, isLoading } = useReadContract({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    functionName: 'getRecentMessages',
+    args: tokenAddress ? [tokenAddress, HISTORY_SIZE] : undefined,
+    query: { enabled },
+  })
+
+  const { data: messageCount, refetch: refetchCount } = useReadContract({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    functionName: 'getTokenMessageCount',
+    args: tokenAddress ? [tokenAddress] : undefined,
+    query: { enabled },
+  })
+
+  const { data: maxLength } = useReadContract({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    functionName: 'maxMessageLength',
+    query: { enabled: IS_SUPER_CHAT_DEPLOYED },
+  })
+
+  const addReceived = useCallback((incoming: ChatMessage[]) => {
+    if (incoming.length === 0) return
+    setReceived(prev => {
+      const known = new Map(prev.map(m => [m.id, m]))
+      // Keep the tx hash when a receipt and the live event describe the same message
+      for (const m of incoming) {
+        const previous = known.get(m.id)
+        known.set(m.id, { ...previous, ...m, txHash: m.txHash ?? previous?.txHash, tip: m.tip ?? previous?.tip })
+      }
+      return [...known.values()]
+    })
+  }, [])
+
+  useWatchContractEvent({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    eventName: 'MessageSent',
+    args: tokenAddress ? { token: tokenAddress } : undefined,
+    enabled,
+    onLogs(logs) {
+      refetchCount()
+      addReceived(logs.flatMap(log => {
+        const message = fromMessageSent(log.args, log.transactionHash)
+        return message ? [message] : []
+      }))
+    },
+  })
+
+  // MessageSent carries no tip, so super chats are completed from their own event
+  useWatchContractEvent({
+    address: SUPER_CHAT_ADDRESS,
+    abi: SUPER_CHAT_ABI,
+    eventName: 'SuperChatSent',
+    args: tokenAddress ? { token: tokenAddress } : undefined,
+    enabled,
+    onLogs(logs) {
+      addReceived(logs.flatMap(log => {
+        const message = fromSuperChatSent(log.args, log.transactionHash)
+        return message ? [message] : []
+      }))
+    },
+  })
+
+  const confirmed = useMemo(() => {
+    const merged = new Map<string, ChatMessage>()
+    for (const m of recent ?? []) merged.set(m.id.toString(), fromChainMessage(m))
+    for (const m of received) {
+      if (m.token.toLowerCase() !== tokenAddress?.toLowerCase()) continue
+      const previous = merged.get(m.id)
+      merged.set(m.id, { ...previous, ...m, tip: m.tip ?? previous?.tip })
+    }
+    return [...merged.values()].sort(byId)
+  }, [recent, received, tokenAddress])
+
+  const messages = useMemo(() => {
+    const landed = new Set(confirmed.flatMap(m => (m.txHash ? [m.txHash] : [])))
+    const waiting = outbox.filter(m => m.token === tokenAddress && !(m.txHash && landed.has(m.txHash)))
+    return [...confirmed, ...waiting]
+  }, [confirmed, outbox, tokenAddress])
+
+  const total = messageCount ?? 0n
+  const hasOlder = BigInt(confirmed.length) < total
+
+  const loadOlder = useCallback(() => {
+    if (!enabled || !publicClient || !tokenAddress || isLoadingOlder) return
+    setIsLoadingOlder(true)
+
+    const fetchPage = async () => {
+      try {
+        // Loaded messages are contiguous from the newest, so the next page ends where they start
+        const count = await publicClient.readContract({
+          address: SUPER_CHAT_ADDRESS,
+          abi: SUPER_CHAT_ABI,
+          functionName: 'getTokenMessageCount',
+          args: [tokenAddress],
+        })
+        const end = count - BigInt(confirmed.length)
+        if (end <= 0n) return
+        const offset = end > PAGE_SIZE ? end - PAGE_SIZE : 0n
+        const page = await publicClient.readContract({
+          address: SUPER_CHAT_ADDRESS,
+          abi: SUPER_CHAT_ABI,
+          functionName: 'getTokenMessages',
+          args: [tokenAddress, offset, end - offset],
+        })
+        addReceived(page.map(fromChainMessage))
+      } catch (error) {
+        console.error('Failed to load earlier messages:', error)
+      } finally {
+        setIsLoadingOlder(false)
+      }
+    }
+
+    fetchPage()
+  }, [enabled, publicClient, tokenAddress, isLoadingOlder, confirmed.length, addReceived])
+
+  const send = useCallback(async (content: string, tip?: Required<SuperChatTip>) => {
+    if (!enabled || !publicClient || !tokenAddress || !address) return
+    const localId = `pending-${nextLocalIdRef.current++}`
+    const updateLocal = (patch: Partial<ChatMessage>) =>
+      setOutbox(prev => prev.map(m => (m.id === localId ? { ...m, ...patch } : m)))
+
+    setOutbox(prev => [...prev, {
+      id: localId,
+      token: tokenAddress,
+      sender: address,
+      content,
+      timestamp: Math.floor(Date.now() / 1000),
+      kind: tip ? 'superchat' : 'chat',
+      tip,
+      status: 'pending',
+    }])
+
+    if (tip && !tip.isPLS) {
+      let allowance: bigint
+      try {
+        allowance = await publicClient.readContract({
+          address: tokenAddress,
+          abi: ERC20_ABI,
+          functionName: 'allowance',
+          args: [address, SUPER_CHAT_ADDRESS],
+        })
+      } catch (error) {
+        console.error('Failed to check super chat allowance:', error)
+        updateLocal({ status: 'failed', error: formatTxError(error) })
+        return
+      }
+      if (allowance < tip.amount) {
+        const approval = await sendTransaction({
+          label: 'Approve super chat tip',
+          execute: () => writeContractAsync({
+            address: tokenAddress,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [SUPER_CHAT_ADDRESS, tip.amount],
+          }),
+        })
+        if (!approval) {
+          updateLocal({ status: 'failed' })
+          return
+        }
+      }
+    }
+
+    const write = () => !tip
+      ? writeContractAsync({
+          address: SUPER_CHAT_ADDRESS,
+          abi: SUPER_CHAT_ABI,
+          functionName: 'sendMessage',
+          args: [tokenAddress, content],
+        })
+      : tip.isPLS
+        ? writeContractAsync({
+            address: SUPER_CHAT_ADDRESS,
+            abi: SUPER_CHAT_ABI,
+            functionName: 'sendSuperChatPLS',
+            args: [tokenAddress, tip.recipient, content],
+            value: tip.amount,
+          })
+        : writeContractAsync({
+            address: SUPER_CHAT_ADDRESS,
+            abi: SUPER_CHAT_ABI,
+            functionName: 'sendSuperChat',
+            args: [tokenAddress, tip.recipient, tip.amount, content],
+          })
+
+    // The failure reason shows in the transaction toast; the message just stays marked unsent
+    const receipt = await sendTransaction({
+      label: tip ? 'Send super chat' : 'Send message',
+      execute: async () => {
+        const hash = await write()
+        updateLocal({ txHash: hash })
+        return hash
+      },
+      // Also runs when the toast's retry lands the message
+      onConfirmed: ({ logs, transactionHash }) => {
+        const [sent] = parseEventLogs({ abi: SUPER_CHAT_ABI, eventName: 'MessageSent', logs })
+        const [tipped] = parseEventLogs({ abi: SUPER_CHAT_ABI, eventName: 'SuperChatSent', logs })
+        const message = tipped
+          ? fromSuperChatSent(tipped.args, transactionHash, tip?.isPLS)
+          : sent ? fromMessageSent(sent.args, transactionHash) : null
+        if (message) addReceived([message])
+        setOutbox(prev => prev.filter(m => m.id !== localId))
+      },
+    })
+    if (!receipt) updateLocal({ status: 'failed' })
+  }, [enabled, publicClient, tokenAddress, address, writeContractAsync, sendTransaction, addReceived])
+
+  const dismiss = useCallback((id: string) => {
+    setOutbox(prev => prev.filter(m => m.id !== id))
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    const failed = outbox.find(m => m.id === id && m.status === 'failed')
+    if (!failed) return
+    dismiss(id)
+    send(failed.content, failed.tip?.isPLS !== undefined ? { ...failed.tip, isPLS: failed.tip.isPLS } : undefined)
+  }, [outbox, dismiss, send])
+
+  return {
+    messages,
+    isLoading: enabled && isLoading,
+    hasOlder,
+    isLoadingOlder,
+    loadOlder,
+    send,
+    retry,
+    dismiss,
+    maxMessageBytes: maxLength !== undefined ? Number(maxLength) : DEFAULT_MAX_MESSAGE_BYTES,
+    isAvailable: IS_SUPER_CHAT_DEPLOYED,
+  }
+}
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react'
+
+export interface TokenRoles {
+  creator: string | undefined // Lowercase
+  moderators: ReadonlySet<string> // Lowercase
+}
+
+const NO_ROLES: TokenRoles = { creator: undefined, moderators: new Set() }
+
+// Provided by TokenRolesProvider in context/TokenRolesContext; views outside one see no roles
+export const TokenRolesContext = createContext<TokenRoles>(NO_ROLES)
+
+export function useTokenRoles(): TokenRoles {
+  return useContext(TokenRolesContext)
+}
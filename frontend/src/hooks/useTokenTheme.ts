@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useImageUrl } from './useImageUrl'
+import { extractPalette, type ImagePalette } from '../utils/paletteExtractor'
+import { generateTokenTheme, type TokenTheme } from '../utils/themeGenerator'
+
+/**
+ * generateTokenTheme with the logo palette folded in once it has been sampled.
+ * Starts from the keyword theme, so there is no flash of an empty theme
+ */
+export function useTokenTheme(name: string, symbol: string, description: string, imageUri?: string): TokenTheme {
+  const imageUrl = useImageUrl(imageUri)
+  const [sampled, setSampled] = useState<{ url: string; palette: ImagePalette | null } | null>(null)
+
+  useEffect(() => {
+    if (!imageUrl) return
+    let cancelled = false
+    void extractPalette(imageUrl).then(palette => {
+      if (!cancelled) setSampled({ url: imageUrl, palette })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [imageUrl])
+
+  const palette = sampled && sampled.url === imageUrl ? sampled.palette : null
+  return useMemo(
+    () => generateTokenTheme(name, symbol, description, palette),
+    [name, symbol, description, palette]
+  )
+}
@@ -0,0 +1,27 @@
+import { useMemo } from 'react'
+import { isTokenEvent, type TradeEvent } from '../utils/eventIndexer'
+import { useIndexedEvents } from './useEventIndexer'
+
+export interface UseTokenTradesReturn {
+  trades: TradeEvent[]
+  isLoading: boolean
+}
+
+/**
+ * Full trade history for a bonding curve token, served from the shared event indexer
+ */
+export function useTokenTrades(tokenAddress: string | undefined): UseTokenTradesReturn {
+  const { events, status } = useIndexedEvents()
+
+  const trades = useMemo(
+    () => (tokenAddress === undefined
+      ? []
+      : events.filter((e): e is TradeEvent => e.kind === 'trade' && isTokenEvent(e, tokenAddress))),
+    [events, tokenAddress]
+  )
+
+  return {
+    trades,
+    isLoading: status === 'idle' || status === 'loading' || status === 'backfilling',
+  }
+}
@@ -0,0 +1,125 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+import { useAccount } from 'wagmi'
+
+const STORAGE_KEY = 'pump-phud-trade-settings'
+// Settings used before a wallet connects, and as the starting point for a wallet's first visit
+const GUEST_KEY = 'guest'
+
+export const MAX_SLIPPAGE_BPS = 5000
+// Swap quotes refetch this often while the tab is visible (useSwap); a tighter limit would reject fresh ones
+export const MIN_QUOTE_AGE_SECONDS = 15
+
+export interface TradeSettings {
+  slippageBps: number // Tolerance applied to every quote's minimum out
+  maxQuoteAgeSeconds: number // Older quotes (e.g. after the tab sat in the background) are refreshed, not sent
+  buyPresets: string[] // PLS amounts for one-click buy buttons
+  sellPresetsPct: number[] // Percent-of-balance sell buttons
+}
+
+export const DEFAULT_TRADE_SETTINGS: TradeSettings = {
+  slippageBps: 500,
+  maxQuoteAgeSeconds: 30,
+  buyPresets: ['100', '500', '1000', '5000'],
+  sellPresetsPct: [25, 50, 100],
+}
+
+export interface UseTradeSettingsReturn {
+  settings: TradeSettings
+  update: (patch: Partial<TradeSettings>) => void
+  reset: () => void
+}
+
+type StoredSettings = Record<string, Partial<TradeSettings>>
+
+const listeners = new Set<() => void>()
+let cachedRaw: string | null = null
+let cachedSettings: StoredSettings = {}
+
+function readStored(): StoredSettings {
+  let raw: string | null = null
+  try {
+    raw = localStorage.getItem(STORAGE_KEY)
+  } catch {
+    // Storage blocked - everyone gets the defaults
+  }
+  if (raw === cachedRaw) return cachedSettings
+  cachedRaw = raw
+  try {
+    cachedSettings = raw ? (JSON.parse(raw) as StoredSettings) : {}
+  } catch (error) {
+    console.error('[TradeSettings] Failed to parse stored settings:', error)
+    cachedSettings = {}
+  }
+  return cachedSettings
+}
+
+function writeStored(next: StoredSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch (error) {
+    console.error('[TradeSettings] Failed to save settings:', error)
+  }
+  listeners.forEach(listener => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  // Keep other tabs in step
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener()
+  }
+  window.addEventListener('storage', handleStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', handleStorage)
+  }
+}
+
+// Stored values are merged over the defaults field by field so older saves pick up new settings
+function resolveSettings(stored: StoredSettings, key: string): TradeSettings {
+  return { ...DEFAULT_TRADE_SETTINGS, ...stored[GUEST_KEY], ...stored[key] }
+}
+
+/**
+ * Minimum out for a quote under a slippage tolerance
+ */
+export function applySlippage(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * BigInt(10000 - slippageBps)) / 10000n
+}
+
+/**
+ * "5K" style label for a buy preset
+ */
+export function formatPresetLabel(amount: string): string {
+  const num = Number(amount)
+  if (num >= 1_000_000) return `${num / 1_000_000}M`
+  if (num >= 1_000) return `${num / 1_000}K`
+  return amount
+}
+
+/**
+ * Slippage, quote age limit and one-click presets shared by every trade surface, saved per wallet
+ */
+export function useTradeSettings(): UseTradeSettingsReturn {
+  const { address } = useAccount()
+  const key = address?.toLowerCase() ?? GUEST_KEY
+  const stored = useSyncExternalStore(subscribe, readStored)
+
+  const settings = useMemo(() => resolveSettings(stored, key), [stored, key])
+
+  const update = useCallback((patch: Partial<TradeSettings>) => {
+    const current = readStored()
+    const next = { ...resolveSettings(current, key), ...patch }
+    next.slippageBps = Math.min(Math.max(Math.round(next.slippageBps), 1), MAX_SLIPPAGE_BPS)
+    next.maxQuoteAgeSeconds = Math.max(Math.floor(next.maxQuoteAgeSeconds), MIN_QUOTE_AGE_SECONDS)
+    writeStored({ ...current, [key]: next })
+  }, [key])
+
+  const reset = useCallback(() => {
+    const next = { ...readStored() }
+    delete next[key]
+    writeStored(next)
+  }, [key])
+
+  return { settings, update, reset }
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+import type { TransactionReceipt } from 'viem'
+import type { SendTransactionOptions, TrackedTransaction } from '../context/TransactionContext'
+
+export interface TransactionContextValue {
+  transactions: TrackedTransaction[]
+  send: (options: SendTransactionOptions) => Promise<TransactionReceipt | null>
+  retry: (id: number) => void
+  dismiss: (id: number) => void
+}
+
+// Provided by TransactionProvider in context/TransactionContext
+export const TransactionContext = createContext<TransactionContextValue | null>(null)
+
+export function useTransactions(): TransactionContextValue {
+  const context = useContext(TransactionContext)
+  if (!context) {
+    throw new Error('useTransactions must be used within a TransactionProvider')
+  }
+  return context
+}
@@ -7,6 +7,7 @@ import '@rainbow-me/rainbowkit/styles.css'
 import './index.css'
 import App from './App'
 import { config } from './config/wagmi'
+import { TransactionProvider } from './context/TransactionContext'
 
 const queryClient = new QueryClient()
 
@@ -54,7 +55,9 @@ createRoot(document.getElementById('root')!).render(
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider theme={customTheme}>
-          <App />
+          <TransactionProvider>
+            <App />
+          </TransactionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,392 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useAccount, useBalance, useWriteContract } from 'wagmi'
+import { formatEther } from 'viem'
+import { AD_MANAGER_ADDRESS, IS_AD_MANAGER_DEPLOYED } from '../config/wagmi'
+import { AD_MANAGER_ABI } from '../config/adManager'
+import {
+  AD_LOCATIONS,
+  spaceWeeklyPrice,
+  useAdSpaces,
+  useAdvertiserAds,
+  useRentalQuote,
+  type AdvertiserAd,
+  type BookedSpace,
+} from '../hooks/useAdSpaces'
+import { useTransactions } from '../hooks/useTransactions'
+import { isLocalImageUri } from '../utils/imageStorage'
+import { ProfileName } from '../components/ui/ProfileName'
+import { ImageField } from '../components/ui/ImageField'
+import { StoredImage } from '../components/ui/StoredImage'
+
+// Longest booking the portal offers in one transaction
+const MAX_RENTAL_WEEKS = 52
+
+const LINK_PATTERN = /^https?:\/\/\S+$/
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60
+
+function formatPls(value: bigint): string {
+  const num = Number(formatEther(value))
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function formatDate(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleDateString()
+}
+
+interface WeeksInputProps {
+  weeks: number
+  onChange: (weeks: number) => void
+}
+
+function WeeksInput({ weeks, onChange }: WeeksInputProps) {
+  return (
+    <input
+      type="number"
+      min={1}
+      max={MAX_RENTAL_WEEKS}
+      step={1}
+      value={weeks}
+      onChange={(e) => onChange(Math.min(Math.max(Math.floor(Number(e.target.value) || 1), 1), MAX_RENTAL_WEEKS))}
+      className="w-20 px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none"
+    />
+  )
+}
+
+interface RentSpaceFormProps {
+  account: `0x${string}`
+  space: BookedSpace
+  nowSeconds: number
+  onRented: () => void
+  onCancel: () => void
+}
+
+/**
+ * rentAdSpace for a free space: weeks, creative and click-through, paid at the quoted price.
+ * The contract refunds anything sent over the quote
+ */
+function RentSpaceForm({ account, space, nowSeconds, onRented, onCancel }: RentSpaceFormProps) {
+  const [weeks, setWeeks] = useState(1)
+  const [imageUri, setImageUri] = useState('')
+  const [linkUrl, setLinkUrl] = useState('')
+  const [altText, setAltText] = useState('')
+  const [isRenting, setIsRenting] = useState(false)
+
+  const { cost, isLoading: quoteLoading } = useRentalQuote(space.id, weeks)
+  const { data: balance } = useBalance({ address: account })
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+
+  const link = linkUrl.trim()
+
+  const errors = useMemo(() => {
+    const list: string[] = []
+    if (!imageUri) list.push('Upload an ad creative')
+    // Browser-local uploads can't be seen by anyone else
+    else if (!import.meta.env.DEV && isLocalImageUri(imageUri)) list.push('The creative must be pinned to IPFS before it goes on-chain')
+    if (link && !LINK_PATTERN.test(link)) list.push('Link must start with http:// or https://')
+    if (cost !== undefined && balance && balance.value < cost) list.push(`Booking costs ${formatPls(cost)} PLS`)
+    return list
+  }, [imageUri, link, cost, balance])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (errors.length > 0 || cost === undefined) return
+    setIsRenting(true)
+    const receipt = await send({
+      label: `Rent ${space.name}`,
+      execute: () => writeContractAsync({
+        address: AD_MANAGER_ADDRESS,
+        abi: AD_MANAGER_ABI,
+        functionName: 'rentAdSpace',
+        args: [space.id, imageUri, link, altText.trim(), BigInt(weeks)],
+        value: cost,
+      }),
+    })
+    setIsRenting(false)
+    if (receipt) onRented()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-pump-dark-lighter rounded-xl border border-pump-green/40 p-6 space-y-4">
+      <div>
+        <h2 className="font-display font-bold text-lg">Rent {space.name}</h2>
+        <p className="text-sm text-pump-white-muted">Your ad goes live as soon as the booking confirms</p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-pump-white-muted">Weeks</label>
+        <WeeksInput weeks={weeks} onChange={setWeeks} />
+        <span className="text-sm text-pump-white-muted">
+          Runs until {formatDate(nowSeconds + weeks * WEEK_SECONDS)}
+        </span>
+      </div>
+
+      <ImageField label="Creative (wide banner)" uri={imageUri} square={false} onChange={setImageUri} />
+
+      <div>
+        <label className="block text-sm text-pump-white-muted mb-2">Click-through link</label>
+        <input
+          type="url"
+          value={linkUrl}
+          onChange={(e) => setLinkUrl(e.target.value)}
+          placeholder="https://"
+          className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-pump-white-muted mb-2">Alt text</label>
+        <input
+          type="text"
+          value={altText}
+          onChange={(e) => setAltText(e.target.value)}
+          placeholder="Describe the ad for screen readers"
+          className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1">
+          {errors.map(error => <li key={error}>• {error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-pump-white-muted">
+          {quoteLoading || cost === undefined ? 'Quoting...' : `Total: ${formatPls(cost)} PLS`}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg bg-pump-dark text-pump-white-muted hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isRenting || errors.length > 0 || cost === undefined}
+            className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRenting ? 'Renting...' : 'Rent Space'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
+
+interface AdRowProps {
+  ad: AdvertiserAd
+  nowSeconds: number
+  onExtended: () => void
+}
+
+/**
+ * One of the connected wallet's bookings with its stats and an extendAdRental form
+ */
+function AdRow({ ad, nowSeconds, onExtended }: AdRowProps) {
+  const [weeks, setWeeks] = useState(1)
+  const [isExtending, setIsExtending] = useState(false)
+  const { cost } = useRentalQuote(ad.spaceId, weeks)
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+
+  const isLive = ad.isActive && (ad.endTime === null || ad.endTime >= nowSeconds)
+  // An expired booking would restart from now on top of whoever rented the space since
+  const canExtend = isLive && !ad.isOwnerAd
+  const ctr = ad.impressions > 0 ? ((ad.clicks / ad.impressions) * 100).toFixed(2) : '0.00'
+
+  const handleExtend = async () => {
+    if (cost === undefined) return
+    setIsExtending(true)
+    const receipt = await send({
+      label: `Extend ad #${ad.id} by ${weeks}w`,
+      execute: () => writeContractAsync({
+        address: AD_MANAGER_ADDRESS,
+        abi: AD_MANAGER_ABI,
+        functionName: 'extendAdRental',
+        args: [ad.id, BigInt(weeks)],
+        value: cost,
+      }),
+    })
+    setIsExtending(false)
+    if (receipt) onExtended()
+  }
+
+  return (
+    <div className="p-4 rounded-lg bg-pump-dark border border-pump-dark-border flex items-center gap-4 flex-wrap">
+      <div className="w-32 h-16 rounded bg-pump-dark-lighter overflow-hidden flex items-center justify-center shrink-0">
+        {ad.imageUri ? (
+          <StoredImage src={ad.imageUri} alt={ad.altText} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-xs text-pump-white-muted">No image</span>
+        )}
+      </div>
+      <div className="flex-1 min-w-[180px] text-sm space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-bold">Ad #{ad.id.toString()}</span>
+          <span className={`px-2 py-0.5 rounded text-xs font-bold ${
+            isLive ? 'bg-pump-green/20 text-pump-green' : 'bg-pump-dark-lighter text-pump-white-muted'
+          }`}>
+            {!ad.isActive ? 'Removed' : isLive ? 'Live' : 'Expired'}
+          </span>
+        </div>
+        <div className="text-pump-white-muted">
+          {formatDate(ad.startTime)} → {ad.endTime === null ? 'until removed' : formatDate(ad.endTime)}
+          {' · '}paid {formatPls(ad.paidAmount)} PLS
+        </div>
+        <div className="text-pump-white-muted">
+          {ad.impressions.toLocaleString()} impressions · {ad.clicks.toLocaleString()} clicks · {ctr}% CTR
+        </div>
+      </div>
+      {canExtend && (
+        <div className="flex items-center gap-2">
+          <WeeksInput weeks={weeks} onChange={setWeeks} />
+          <button
+            onClick={handleExtend}
+            disabled={isExtending || cost === undefined}
+            className="px-3 py-2 rounded-lg bg-pump-green/20 border border-pump-green/40 text-pump-green text-sm font-bold disabled:opacity-50"
+          >
+            {isExtending ? 'Extending...' : `Extend${cost !== undefined ? ` (${formatPls(cost)} PLS)` : ''}`}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function AdvertisePage() {
+  const { address: account } = useAccount()
+  const [location, setLocation] = useState(AD_LOCATIONS[0].id)
+  const [selectedId, setSelectedId] = useState<bigint | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const { spaces, defaultRate, isLoading, refetch: refetchSpaces } = useAdSpaces(location)
+  const { ads: myAds, refetch: refetchMyAds } = useAdvertiserAds(account)
+
+  // Bookings flip from live to expired while the page is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const nowSeconds = Math.floor(now / 1000)
+  const locationInfo = AD_LOCATIONS.find(l => l.id === location) ?? AD_LOCATIONS[0]
+  const selected = spaces.find(s => s.id === selectedId && s.isActive && !s.currentAd) ?? null
+
+  const handleRented = () => {
+    setSelectedId(null)
+    refetchSpaces()
+    refetchMyAds()
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      {!IS_AD_MANAGER_DEPLOYED && (
+        <div className="p-3 rounded-lg bg-orange-500/10 border border-orange-500/30 text-orange-400 text-sm text-center">
+          ⚠️ Ad rentals are not enabled on this deployment - set VITE_AD_MANAGER_ADDRESS
+        </div>
+      )}
+
+      <div>
+        <h1 className="font-display font-bold text-2xl">📣 Advertise</h1>
+        <p className="text-sm text-pump-white-muted">
+          Rent ad space by the week with PLS. Rented ads replace the built-in promos in their carousel
+        </p>
+      </div>
+
+      {/* Locations */}
+      <div className="flex gap-1 p-1 rounded-lg bg-pump-dark-lighter border border-pump-dark-border flex-wrap">
+        {AD_LOCATIONS.map(l => (
+          <button
+            key={l.id}
+            onClick={() => {
+              setLocation(l.id)
+              setSelectedId(null)
+            }}
+            className={`px-3 py-1 rounded text-sm transition-colors ${location === l.id ? 'bg-pump-dark text-white' : 'text-pump-white-muted hover:text-white'}`}
+          >
+            {l.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-pump-white-muted -mt-3">{locationInfo.description}</p>
+
+      {/* Spaces */}
+      {isLoading ? (
+        <div className="text-center text-pump-white-muted py-12">Loading spaces...</div>
+      ) : spaces.length === 0 ? (
+        <div className="text-center text-pump-white-muted py-12">No ad spaces at this location</div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {spaces.map(space => {
+            const isFree = space.isActive && !space.currentAd
+            const isSelected = selected?.id === space.id
+            return (
+              <button
+                key={space.id.toString()}
+                onClick={() => setSelectedId(space.id)}
+                disabled={!isFree || !account || !IS_AD_MANAGER_DEPLOYED}
+                className={`text-left p-4 rounded-xl border transition-colors bg-pump-dark-lighter disabled:cursor-default ${
+                  isSelected ? 'border-pump-green' : 'border-pump-dark-border enabled:hover:border-pump-green/50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <span className="font-bold truncate">{space.name}</span>
+                  {space.isPremium && (
+                    <span className="px-2 py-0.5 rounded bg-pump-gold/20 text-pump-gold text-xs font-bold shrink-0">
+                      ⭐ {space.premiumMultiplier / 100}x
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-pump-green font-mono">
+                  {formatPls(spaceWeeklyPrice(space, defaultRate))} PLS / week
+                </div>
+                <div className="mt-2 text-xs text-pump-white-muted">
+                  {!space.isActive ? (
+                    'Not taking bookings'
+                  ) : space.currentAd ? (
+                    <span className="flex items-center gap-1 flex-wrap">
+                      Booked{space.currentAd.endTime !== null && ` until ${formatDate(space.currentAd.endTime)}`} by
+                      <ProfileName address={space.currentAd.advertiser} avatarSize={12} link={false} showRoles={false} />
+                    </span>
+                  ) : (
+                    <span className="text-pump-green">Available</span>
+                  )}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {!account && IS_AD_MANAGER_DEPLOYED && (
+        <p className="text-sm text-center text-pump-white-muted">Connect a wallet to rent a space</p>
+      )}
+
+      {selected && account && (
+        <RentSpaceForm
+          key={selected.id.toString()}
+          account={account}
+          space={selected}
+          nowSeconds={nowSeconds}
+          onRented={handleRented}
+          onCancel={() => setSelectedId(null)}
+        />
+      )}
+
+      {/* Bookings */}
+      {account && myAds.length > 0 && (
+        <div className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border p-6 space-y-3">
+          <h2 className="font-display font-bold text-lg">Your Ads</h2>
+          {myAds.map(ad => (
+            <AdRow key={ad.id.toString()} ad={ad} nowSeconds={nowSeconds} onExtended={refetchMyAds} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
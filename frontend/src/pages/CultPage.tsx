@@ -0,0 +1,408 @@
+import { useMemo, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useAccount, useWriteContract } from 'wagmi'
+import { formatEther, isAddress } from 'viem'
+import { PROFILE_ADDRESS, IS_PROFILE_DEPLOYED } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+import {
+  useCult,
+  useCultMembership,
+  useCultSettings,
+  useMemberVolumes,
+  cultPath,
+  type CultInfo,
+} from '../hooks/useCults'
+import { useNameOwner, profilePath } from '../hooks/useProfile'
+import { useIdentityRefresh } from '../hooks/useIdentity'
+import { useTransactions } from '../hooks/useTransactions'
+import { isLocalImageUri } from '../utils/imageStorage'
+import { ProfileName } from '../components/ui/ProfileName'
+import { ImageField } from '../components/ui/ImageField'
+import { CultPatch } from '../components/ui/CultPatch'
+
+function formatPls(value: bigint): string {
+  const num = Number(formatEther(value))
+  if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(2)}B`
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+const parseCultId = (value: string | undefined) => (value && /^\d+$/.test(value) ? BigInt(value) : undefined)
+
+interface LeaderToolsProps {
+  cult: CultInfo
+  members: `0x${string}`[]
+  isFull: boolean
+  onChanged: (wallet?: `0x${string}`) => void
+}
+
+/**
+ * Leader-only: invite by address or profile name, edit the patch/creed/access, hand over leadership
+ */
+function LeaderTools({ cult, members, isFull, onChanged }: LeaderToolsProps) {
+  const [invitee, setInvitee] = useState('')
+  const [imageUri, setImageUri] = useState(cult.imageUri)
+  const [description, setDescription] = useState(cult.description)
+  const [isPublic, setIsPublic] = useState(cult.isPublic)
+  const [successor, setSuccessor] = useState('')
+  const [pending, setPending] = useState<'invite' | 'update' | 'transfer' | null>(null)
+
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+
+  // Invitees can be named by profile; the contract wants the wallet
+  const input = invitee.trim()
+  const nameOwner = useNameOwner(isAddress(input) ? '' : input)
+  const inviteeWallet = isAddress(input) ? input : nameOwner ?? undefined
+  const inviteeMembership = useCultMembership(inviteeWallet)
+
+  const inviteError = !input
+    ? null
+    : isFull
+      ? 'The cult is full'
+      : !isAddress(input) && nameOwner === null
+        ? `No profile named "${input}"`
+        : inviteeMembership.hasProfile === false
+          ? 'That wallet has no profile yet'
+          : inviteeMembership.cultId > 0n
+            ? inviteeMembership.cultId === cult.id ? 'Already a member' : 'Already in another cult'
+            : null
+
+  const updateError = !import.meta.env.DEV && isLocalImageUri(imageUri)
+    ? 'The patch must be pinned to IPFS before it goes on-chain'
+    : null
+  const isDirty = imageUri !== cult.imageUri || description !== cult.description || isPublic !== cult.isPublic
+
+  const candidates = members.filter(m => m.toLowerCase() !== cult.leader.toLowerCase())
+
+  const handleInvite = async () => {
+    if (!inviteeWallet || inviteError || inviteeMembership.hasProfile === undefined) return
+    setPending('invite')
+    const receipt = await send({
+      label: `Invite to [${cult.tag}]`,
+      execute: () => writeContractAsync({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'inviteToCult',
+        args: [cult.id, inviteeWallet],
+      }),
+    })
+    setPending(null)
+    if (!receipt) return
+    setInvitee('')
+    onChanged(inviteeWallet)
+  }
+
+  const handleUpdate = async () => {
+    if (updateError || !isDirty) return
+    setPending('update')
+    const receipt = await send({
+      label: `Update [${cult.tag}]`,
+      execute: () => writeContractAsync({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'updateCult',
+        args: [cult.id, imageUri, description.trim(), isPublic],
+      }),
+    })
+    setPending(null)
+    if (receipt) onChanged()
+  }
+
+  const handleTransfer = async () => {
+    if (!isAddress(successor)) return
+    if (!window.confirm('Hand over leadership? Only the new leader can give it back.')) return
+    setPending('transfer')
+    const receipt = await send({
+      label: `Transfer [${cult.tag}] leadership`,
+      execute: () => writeContractAsync({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'transferCultLeadership',
+        args: [cult.id, successor],
+      }),
+    })
+    setPending(null)
+    if (!receipt) return
+    setSuccessor('')
+    onChanged()
+  }
+
+  return (
+    <div className="bg-pump-dark-lighter rounded-xl border border-pump-gold/30 p-6 space-y-6">
+      <h2 className="font-display font-bold">👑 Leader Tools</h2>
+
+      <div className="space-y-2">
+        <label className="block text-sm text-pump-white-muted">Invite a member (address or profile name)</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={invitee}
+            onChange={(e) => setInvitee(e.target.value)}
+            placeholder="0x... or degen_king"
+            className="flex-1 px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none"
+          />
+          <button
+            onClick={handleInvite}
+            disabled={pending !== null || !inviteeWallet || !!inviteError || inviteeMembership.hasProfile === undefined}
+            className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {pending === 'invite' ? 'Inviting...' : 'Invite'}
+          </button>
+        </div>
+        {inviteError && <p className="text-xs text-red-400">{inviteError}</p>}
+        {!inviteError && inviteeWallet && !isAddress(input) && (
+          <p className="text-xs text-pump-white-muted">
+            Adds <ProfileName address={inviteeWallet} avatarSize={12} link={false} /> straight to the roster
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <ImageField label="Patch" uri={imageUri} square onChange={setImageUri} />
+        <div>
+          <label className="block text-sm text-pump-white-muted mb-2">Creed</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none resize-none"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+          Open - anyone with a profile can join
+        </label>
+        {updateError && <p className="text-xs text-red-400">{updateError}</p>}
+        <button
+          onClick={handleUpdate}
+          disabled={pending !== null || !isDirty || !!updateError}
+          className="px-4 py-2 rounded-lg bg-pump-dark border border-pump-dark-border text-sm hover:border-pump-green transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {pending === 'update' ? 'Saving...' : 'Save changes'}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm text-pump-white-muted">Hand over leadership</label>
+        {candidates.length === 0 ? (
+          <p className="text-xs text-pump-white-muted">No other members yet</p>
+        ) : (
+          <div className="flex gap-2">
+            <select
+              value={successor}
+              onChange={(e) => setSuccessor(e.target.value)}
+              className="flex-1 px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none font-mono text-sm"
+            >
+              <option value="">Choose a member</option>
+              {candidates.map(member => <option key={member} value={member}>{member}</option>)}
+            </select>
+            <button
+              onClick={handleTransfer}
+              disabled={pending !== null || !successor}
+              className="px-4 py-2 rounded-lg bg-pump-gold/20 border border-pump-gold/40 text-pump-gold text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pending === 'transfer' ? 'Transferring...' : 'Transfer'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function CultPage() {
+  const { cultId: cultIdParam } = useParams<{ cultId: string }>()
+  const cultId = parseCultId(cultIdParam)
+  const { address: account } = useAccount()
+  const { cult, members, isLoading, refetch } = useCult(cultId)
+  const membership = useCultMembership(account)
+  const { maxMembers } = useCultSettings()
+  const volumes = useMemberVolumes(members)
+  const refreshIdentity = useIdentityRefresh()
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+  const [pending, setPending] = useState<'join' | 'leave' | null>(null)
+
+  const roster = useMemo(
+    () => members
+      .map(member => ({ member, volume: volumes.get(member.toLowerCase()) ?? 0n }))
+      .sort((a, b) => (a.volume === b.volume ? 0 : a.volume > b.volume ? -1 : 1)),
+    [members, volumes]
+  )
+  const totalVolume = roster.reduce((sum, entry) => sum + entry.volume, 0n)
+
+  // Joining or leaving changes the wallet's [TAG] everywhere it's shown
+  const handleChanged = (wallet?: `0x${string}`) => {
+    refetch()
+    membership.refetch()
+    if (wallet) refreshIdentity(wallet)
+  }
+
+  const handleMembership = async (action: 'join' | 'leave') => {
+    if (!cult || !account) return
+    setPending(action)
+    const receipt = await send({
+      label: action === 'join' ? `Join [${cult.tag}]` : `Leave [${cult.tag}]`,
+      execute: () => action === 'join'
+        ? writeContractAsync({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'joinCult',
+          args: [cult.id],
+        })
+        : writeContractAsync({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'leaveCult',
+        }),
+    })
+    setPending(null)
+    if (receipt) handleChanged(account)
+  }
+
+  if (!cult) {
+    return (
+      <div className="p-6 text-center text-pump-white-muted">
+        {isLoading ? 'Loading cult...' : `No cult #${cultIdParam}`}
+      </div>
+    )
+  }
+
+  const isMember = membership.cultId === cult.id
+  const isLeader = !!account && cult.leader.toLowerCase() === account.toLowerCase()
+  const isFull = cult.memberCount >= maxMembers
+
+  const renderAction = () => {
+    if (!account || !cult.isActive) return null
+    if (membership.hasProfile === false) {
+      return (
+        <Link to={profilePath(account)} className="text-sm text-pump-green hover:underline">
+          Create a profile to join →
+        </Link>
+      )
+    }
+    if (isLeader) {
+      return <span className="text-xs text-pump-white-muted">Hand over leadership before leaving</span>
+    }
+    if (isMember) {
+      return (
+        <button
+          onClick={() => handleMembership('leave')}
+          disabled={pending !== null}
+          className="px-4 py-2 rounded-lg bg-pump-dark border border-red-500/40 text-red-400 text-sm font-bold disabled:opacity-50"
+        >
+          {pending === 'leave' ? 'Leaving...' : 'Leave Cult'}
+        </button>
+      )
+    }
+    if (membership.cultId > 0n) {
+      return (
+        <Link to={cultPath(membership.cultId)} className="text-sm text-pump-white-muted hover:text-pump-green">
+          You're in another cult - leave it to join
+        </Link>
+      )
+    }
+    if (!cult.isPublic) return <span className="text-sm text-pump-white-muted">🔒 Invite only - ask the leader</span>
+    if (isFull) return <span className="text-sm text-pump-white-muted">Full ({maxMembers} members)</span>
+    return (
+      <button
+        onClick={() => handleMembership('join')}
+        disabled={pending !== null || membership.hasProfile === undefined}
+        className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50"
+      >
+        {pending === 'join' ? 'Joining...' : 'Join Cult'}
+      </button>
+    )
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      {!IS_PROFILE_DEPLOYED && (
+        <div className="p-3 rounded-lg bg-orange-500/10 border border-orange-500/30 text-orange-400 text-sm text-center">
+          ⚠️ Cults are not enabled on this deployment - set VITE_PROFILE_ADDRESS
+        </div>
+      )}
+
+      <Link to="/cults" className="text-sm text-pump-white-muted hover:text-pump-green">← All cults</Link>
+
+      {/* Header */}
+      <div className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border p-6 space-y-4">
+        <div className="flex items-start gap-4 flex-wrap">
+          <CultPatch imageUri={cult.imageUri} className="w-20 h-20 rounded-xl" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="font-display font-bold text-2xl truncate">
+                <span className="font-mono text-pump-green">[{cult.tag}]</span> {cult.name}
+              </h1>
+              <span className="px-2 py-0.5 rounded bg-pump-dark text-pump-white-muted text-xs font-bold">
+                {cult.isPublic ? '🚪 Open' : '🔒 Invite only'}
+              </span>
+              {!cult.isActive && (
+                <span className="px-2 py-0.5 rounded bg-red-500/20 text-red-400 text-xs font-bold">Disbanded</span>
+              )}
+              {isMember && (
+                <span className="px-2 py-0.5 rounded bg-pump-green/20 text-pump-green text-xs font-bold">MEMBER</span>
+              )}
+            </div>
+            <div className="text-sm text-pump-white-muted flex items-center gap-x-3 gap-y-1 flex-wrap">
+              <span>Founded {new Date(cult.createdAt * 1000).toLocaleDateString()}</span>
+              <span className="flex items-center gap-1 min-w-0">by <ProfileName address={cult.founder} showRoles={false} /></span>
+              {cult.leader.toLowerCase() !== cult.founder.toLowerCase() && (
+                <span className="flex items-center gap-1 min-w-0">led by <ProfileName address={cult.leader} showRoles={false} /></span>
+              )}
+            </div>
+          </div>
+          <div className="shrink-0">{renderAction()}</div>
+        </div>
+        {cult.description && (
+          <p className="text-pump-white-muted whitespace-pre-wrap break-words">{cult.description}</p>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-pump-dark rounded-lg p-3 text-center">
+            <div className="font-mono font-bold text-lg text-pump-green">{cult.memberCount}<span className="text-pump-white-muted text-sm">/{maxMembers}</span></div>
+            <div className="text-xs text-pump-white-muted">Members</div>
+          </div>
+          <div className="bg-pump-dark rounded-lg p-3 text-center">
+            <div className="font-mono font-bold text-lg text-tier-1">{formatPls(totalVolume)} PLS</div>
+            <div className="text-xs text-pump-white-muted">Member Volume</div>
+          </div>
+        </div>
+      </div>
+
+      {isLeader && cult.isActive && (
+        <LeaderTools key={String(cult.id)} cult={cult} members={members} isFull={isFull} onChanged={handleChanged} />
+      )}
+
+      {/* Roster */}
+      <div className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border overflow-hidden">
+        <h2 className="font-display font-bold px-4 py-3 border-b border-pump-dark-border">
+          📜 Roster <span className="text-pump-white-muted text-sm font-normal">({roster.length})</span>
+        </h2>
+        {roster.length === 0 ? (
+          <p className="p-4 text-sm text-pump-white-muted">{isLoading ? 'Loading members...' : 'No members'}</p>
+        ) : (
+          roster.map(({ member, volume }, i) => {
+            const key = member.toLowerCase()
+            return (
+              <div key={member} className="flex items-center gap-3 px-4 py-3 border-b border-pump-dark-border last:border-b-0">
+                <span className="w-8 font-mono text-sm text-pump-white-muted">#{i + 1}</span>
+                <div className="flex-1 min-w-0 flex items-center gap-2">
+                  <ProfileName address={member} avatarSize={20} />
+                  {key === cult.leader.toLowerCase() && (
+                    <span className="px-1.5 rounded bg-pump-gold/20 text-pump-gold text-xs font-bold">👑 Leader</span>
+                  )}
+                  {key === cult.founder.toLowerCase() && (
+                    <span className="px-1.5 rounded bg-pump-dark text-pump-white-muted text-xs font-bold">Founder</span>
+                  )}
+                </div>
+                <span className="font-mono text-sm text-tier-1">{formatPls(volume)} PLS</span>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
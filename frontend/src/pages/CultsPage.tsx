@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { useAccount, useBalance, useReadContract, useWriteContract } from 'wagmi'
+import { formatEther, parseEventLogs } from 'viem'
+import { PROFILE_ADDRESS, IS_PROFILE_DEPLOYED } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+import { useCults, useCultMembership, useCultSettings, cultPath, type CultInfo } from '../hooks/useCults'
+import { useIdentityRefresh } from '../hooks/useIdentity'
+import { profilePath } from '../hooks/useProfile'
+import { useTransactions } from '../hooks/useTransactions'
+import { isLocalImageUri } from '../utils/imageStorage'
+import { ProfileName } from '../components/ui/ProfileName'
+import { ImageField } from '../components/ui/ImageField'
+import { CultPatch } from '../components/ui/CultPatch'
+
+type AccessFilter = 'all' | 'open' | 'invite'
+
+// The contract takes any tag; short alphanumerics keep [TAG] prefixes readable next to names
+const TAG_PATTERN = /^[A-Za-z0-9]{2,6}$/
+
+const WIZARD_STEPS = ['Name', 'Patch', 'Access', 'Review'] as const
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length
+
+function formatPls(value: bigint): string {
+  const num = Number(formatEther(value))
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+interface FoundCultWizardProps {
+  account: `0x${string}`
+  onFounded: (cultId: bigint | undefined) => void
+  onCancel: () => void
+}
+
+/**
+ * createCult in four steps. The fee is shown throughout and checked against the balance before
+ * the final step; the founder needs a profile and must not already be in a cult
+ */
+function FoundCultWizard({ account, onFounded, onCancel }: FoundCultWizardProps) {
+  const [step, setStep] = useState(0)
+  const [name, setName] = useState('')
+  const [tag, setTag] = useState('')
+  const [imageUri, setImageUri] = useState('')
+  const [description, setDescription] = useState('')
+  const [isPublic, setIsPublic] = useState(true)
+  const [isFounding, setIsFounding] = useState(false)
+
+  const { creationFee, maxNameLength } = useCultSettings()
+  const membership = useCultMembership(account)
+  const { data: balance } = useBalance({ address: account })
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+
+  const trimmedName = name.trim()
+  const trimmedTag = tag.trim()
+  const validTag = TAG_PATTERN.test(trimmedTag)
+
+  // Tags are unique case-insensitively
+  const { data: tagOwner } = useReadContract({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    functionName: 'cultTagToId',
+    args: validTag ? [trimmedTag.toLowerCase()] : undefined,
+    query: { enabled: IS_PROFILE_DEPLOYED && validTag },
+  })
+
+  const stepErrors = useMemo(() => {
+    const name: string[] = []
+    if (!trimmedName) name.push('Name your cult')
+    else if (byteLength(trimmedName) > maxNameLength) name.push(`Name is over ${maxNameLength} bytes`)
+    if (!validTag) name.push('Tags are 2-6 letters or digits')
+    else if (tagOwner !== undefined && tagOwner > 0n) name.push(`[${trimmedTag}] is taken`)
+
+    const patch: string[] = []
+    // Browser-local uploads can't be seen by anyone else
+    if (!import.meta.env.DEV && isLocalImageUri(imageUri)) patch.push('The patch must be pinned to IPFS before it goes on-chain')
+
+    const review: string[] = []
+    if (membership.hasProfile === false) review.push('Create a profile before founding a cult')
+    if (membership.cultId > 0n) review.push('Leave your current cult before founding one')
+    if (creationFee !== undefined && balance && balance.value < creationFee) {
+      review.push(`Founding a cult costs ${formatPls(creationFee)} PLS`)
+    }
+
+    return [name, patch, [], review]
+  }, [trimmedName, trimmedTag, validTag, tagOwner, maxNameLength, imageUri, membership.hasProfile, membership.cultId, creationFee, balance])
+
+  const errors = stepErrors[step]
+  const isLastStep = step === WIZARD_STEPS.length - 1
+
+  const handleFound = async () => {
+    if (creationFee === undefined || stepErrors.some(list => list.length > 0)) return
+    setIsFounding(true)
+    const receipt = await send({
+      label: `Found [${trimmedTag}] ${trimmedName}`,
+      execute: () => writeContractAsync({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'createCult',
+        args: [trimmedName, trimmedTag, imageUri, description.trim(), isPublic],
+        value: creationFee,
+      }),
+    })
+    setIsFounding(false)
+    if (!receipt) return
+    const [created] = parseEventLogs({ abi: PROFILE_ABI, eventName: 'CultCreated', logs: receipt.logs })
+    onFounded(created?.args.cultId)
+  }
+
+  return (
+    <div className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h2 className="font-display font-bold text-lg">Found a Cult</h2>
+        <div className="flex gap-1 text-xs">
+          {WIZARD_STEPS.map((label, i) => (
+            <span
+              key={label}
+              className={`px-2 py-1 rounded ${i === step ? 'bg-pump-green text-pump-dark font-bold' : i < step ? 'bg-pump-green/20 text-pump-green' : 'bg-pump-dark text-pump-white-muted'}`}
+            >
+              {i + 1}. {label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {step === 0 && (
+        <>
+          <div>
+            <label className="block text-sm text-pump-white-muted mb-2">
+              Name <span className="text-xs">({byteLength(trimmedName)}/{maxNameLength})</span>
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Order of the Burnt Candle"
+              className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-pump-white-muted mb-2">Tag - shown as [TAG] before members' names</label>
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              placeholder="FUD"
+              maxLength={6}
+              className="w-40 px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none font-mono uppercase"
+            />
+          </div>
+        </>
+      )}
+
+      {step === 1 && (
+        <>
+          <ImageField label="Patch" uri={imageUri} square onChange={setImageUri} />
+          <div>
+            <label className="block text-sm text-pump-white-muted mb-2">Creed</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              placeholder="What does your cult stand for?"
+              className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none resize-none"
+            />
+          </div>
+        </>
+      )}
+
+      {step === 2 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {[
+            { value: true, title: '🚪 Open', text: 'Anyone with a profile can join' },
+            { value: false, title: '🔒 Invite only', text: 'Only the leader can add members' },
+          ].map(option => (
+            <button
+              key={option.title}
+              type="button"
+              onClick={() => setIsPublic(option.value)}
+              className={`p-4 rounded-lg border text-left transition-colors ${isPublic === option.value ? 'border-pump-green bg-pump-green/10' : 'border-pump-dark-border bg-pump-dark hover:border-pump-green/50'}`}
+            >
+              <div className="font-bold">{option.title}</div>
+              <div className="text-sm text-pump-white-muted">{option.text}</div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {step === 3 && (
+        <div className="flex items-start gap-4">
+          <CultPatch imageUri={imageUri} className="w-16 h-16 rounded-lg" />
+          <div className="min-w-0 space-y-1">
+            <div className="font-bold">
+              <span className="font-mono text-pump-green">[{trimmedTag}]</span> {trimmedName}
+            </div>
+            <div className="text-sm text-pump-white-muted">{isPublic ? '🚪 Open' : '🔒 Invite only'} · You become its leader</div>
+            {description.trim() && <p className="text-sm text-pump-white-muted whitespace-pre-wrap break-words">{description.trim()}</p>}
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1">
+          {errors.map(error => <li key={error}>• {error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-pump-white-muted">
+          {creationFee === undefined ? 'Loading fee...' : `Founding fee: ${formatPls(creationFee)} PLS`}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={step === 0 ? onCancel : () => setStep(step - 1)}
+            className="px-4 py-2 rounded-lg bg-pump-dark text-pump-white-muted hover:text-white transition-colors"
+          >
+            {step === 0 ? 'Cancel' : 'Back'}
+          </button>
+          {isLastStep ? (
+            <button
+              type="button"
+              onClick={handleFound}
+              disabled={isFounding || errors.length > 0 || creationFee === undefined}
+              className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isFounding ? 'Founding...' : `Found Cult${creationFee !== undefined ? ` (${formatPls(creationFee)} PLS)` : ''}`}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setStep(step + 1)}
+              disabled={errors.length > 0}
+              className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function CultCard({ cult, isYours }: { cult: CultInfo; isYours: boolean }) {
+  return (
+    <Link
+      to={cultPath(cult.id)}
+      className={`block bg-pump-dark-lighter rounded-xl border p-4 space-y-3 transition-colors hover:border-pump-green ${isYours ? 'border-pump-green/60' : 'border-pump-dark-border'}`}
+    >
+      <div className="flex items-center gap-3">
+        <CultPatch imageUri={cult.imageUri} className="w-12 h-12 rounded-lg" />
+        <div className="min-w-0">
+          <div className="font-bold truncate">
+            <span className="font-mono text-pump-green">[{cult.tag}]</span> {cult.name}
+          </div>
+          <div className="text-xs text-pump-white-muted">
+            {cult.memberCount} {cult.memberCount === 1 ? 'member' : 'members'} · {cult.isPublic ? '🚪 Open' : '🔒 Invite only'}
+          </div>
+        </div>
+        {isYours && <span className="ml-auto px-2 py-0.5 rounded bg-pump-green/20 text-pump-green text-xs font-bold">YOURS</span>}
+      </div>
+      {cult.description && <p className="text-sm text-pump-white-muted line-clamp-2 break-words">{cult.description}</p>}
+      <div className="text-xs text-pump-white-muted flex items-center gap-1 min-w-0">
+        Led by <ProfileName address={cult.leader} avatarSize={14} link={false} showRoles={false} />
+      </div>
+    </Link>
+  )
+}
+
+export function CultsPage() {
+  const navigate = useNavigate()
+  const { address: account } = useAccount()
+  const { cults, isLoading, refresh } = useCults()
+  const membership = useCultMembership(account)
+  const refreshIdentity = useIdentityRefresh()
+  const [isFounding, setIsFounding] = useState(false)
+  const [search, setSearch] = useState('')
+  const [access, setAccess] = useState<AccessFilter>('all')
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return cults.filter(cult => {
+      if (access === 'open' && !cult.isPublic) return false
+      if (access === 'invite' && cult.isPublic) return false
+      return !query || cult.name.toLowerCase().includes(query) || cult.tag.toLowerCase().includes(query)
+    })
+  }, [cults, search, access])
+
+  const handleFounded = (cultId: bigint | undefined) => {
+    setIsFounding(false)
+    refresh()
+    membership.refetch()
+    if (account) refreshIdentity(account)
+    if (cultId !== undefined) navigate(cultPath(cultId))
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      {!IS_PROFILE_DEPLOYED && (
+        <div className="p-3 rounded-lg bg-orange-500/10 border border-orange-500/30 text-orange-400 text-sm text-center">
+          ⚠️ Cults are not enabled on this deployment - set VITE_PROFILE_ADDRESS
+        </div>
+      )}
+
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="font-display font-bold text-2xl">🕯️ Cults</h1>
+          <p className="text-sm text-pump-white-muted">Crews that wear a shared [TAG] and climb the cult leaderboard together</p>
+        </div>
+        {account && !isFounding && (
+          membership.hasProfile === false ? (
+            <Link to={profilePath(account)} className="text-sm text-pump-green hover:underline">
+              Create a profile to found or join a cult →
+            </Link>
+          ) : membership.cultId === 0n && (
+            <button
+              onClick={() => setIsFounding(true)}
+              disabled={!IS_PROFILE_DEPLOYED}
+              className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50"
+            >
+              + Found a Cult
+            </button>
+          )
+        )}
+      </div>
+
+      {isFounding && account && (
+        <FoundCultWizard account={account} onFounded={handleFounded} onCancel={() => setIsFounding(false)} />
+      )}
+
+      <div className="flex gap-3 flex-wrap">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or tag"
+          className="flex-1 min-w-[200px] px-3 py-2 rounded-lg bg-pump-dark-lighter border border-pump-dark-border focus:border-pump-green outline-none"
+        />
+        <div className="flex gap-1 p-1 rounded-lg bg-pump-dark-lighter border border-pump-dark-border">
+          {([['all', 'All'], ['open', 'Open'], ['invite', 'Invite only']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setAccess(value)}
+              className={`px-3 py-1 rounded text-sm transition-colors ${access === value ? 'bg-pump-dark text-white' : 'text-pump-white-muted hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="py-12 text-center text-pump-white-muted">
+          {isLoading ? 'Gathering cults...' : cults.length === 0 ? 'No cults yet. Found the first one!' : 'No cults match'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filtered.map(cult => (
+            <CultCard key={String(cult.id)} cult={cult} isYours={membership.cultId === cult.id} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,19 +1,24 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useReadContract, useWriteContract, useAccount } from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { formatEther, isAddress } from 'viem'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI, LEADERBOARD_ADDRESS, LEADERBOARD_ABI } from '../config/wagmi'
+import { isAddress } from 'viem'
+import { LEADERBOARD_ADDRESS, LEADERBOARD_ABI } from '../config/wagmi'
+import { useTransactions } from '../hooks/useTransactions'
+import { usePumpFudTokens } from '../hooks/usePumpFud'
 import { AdCarousel } from '../components/AdCarousel'
+import { FollowingFeed } from '../components/FollowingFeed'
+import { HomeTokenCard } from '../components/HomeTokenCard'
 
-type FilterOption = 'live' | 'rising' | 'new' | 'graduated'
+type FilterOption = 'live' | 'rising' | 'new' | 'graduated' | 'following'
 
 export function HomePage() {
   const [filter, setFilter] = useState<FilterOption>('live')
   const [searchParams] = useSearchParams()
   const navigate = useNavigate()
   const { address: userAddress, isConnected } = useAccount()
-  const [referralRegistered, setReferralRegistered] = useState(false)
+  const referralRegisteredRef = useRef(false)
+  const [now, setNow] = useState(() => Date.now())
 
   const refParam = searchParams.get('ref')
   const leaderboardDeployed = true
@@ -27,7 +32,8 @@ export function HomePage() {
   })
 
   // Register referrer from URL param
-  const { writeContract: registerRef, isPending: isRegisteringRef } = useWriteContract()
+  const { send } = useTransactions()
+  const { writeContractAsync: registerRef, isPending: isRegisteringRef } = useWriteContract()
 
   useEffect(() => {
     if (
@@ -38,40 +44,45 @@ export function HomePage() {
       isAddress(refParam) &&
       refParam.toLowerCase() !== userAddress.toLowerCase() &&
       existingReferrer === '0x0000000000000000000000000000000000000000' &&
-      !referralRegistered &&
+      !referralRegisteredRef.current &&
       !isRegisteringRef
     ) {
-      registerRef({
-        address: LEADERBOARD_ADDRESS,
-        abi: LEADERBOARD_ABI,
-        functionName: 'registerReferrer',
-        args: [refParam as `0x${string}`],
+      const referrerAddress = refParam as `0x${string}`
+      void send({
+        label: 'Register referrer',
+        execute: () => registerRef({
+          address: LEADERBOARD_ADDRESS,
+          abi: LEADERBOARD_ABI,
+          functionName: 'registerReferrer',
+          args: [referrerAddress],
+        }),
       })
-      setReferralRegistered(true)
+      referralRegisteredRef.current = true
     }
-  }, [leaderboardDeployed, isConnected, userAddress, refParam, existingReferrer, referralRegistered, isRegisteringRef, registerRef])
+  }, [leaderboardDeployed, isConnected, userAddress, refParam, existingReferrer, isRegisteringRef, registerRef, send])
 
-  // Fetch all tokens (paginated)
-  const { data: allTokens } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'getAllTokens',
-    args: [0n, 100n],
-  })
+  // Keep "x minutes ago" labels fresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Fetch all tokens from the active deployment
+  const { tokens: allTokens } = usePumpFudTokens(100)
 
   // Process and filter tokens
-  const tokens = (allTokens || []).map((t) => ({
+  const tokens = allTokens.map((t) => ({
     id: t.id,
     tokenAddress: t.tokenAddress,
     name: t.name,
     symbol: t.symbol,
-    description: t.description,
+    description: t.metadata.description,
     imageUri: t.imageUri,
     creator: t.creator,
     reserveBalance: t.reserveBalance,
     tokensSold: t.tokensSold,
-    status: Number(t.status),
-    launchTime: Number(t.createdAt),
+    status: t.graduated ? 1 : 0,
+    launchTime: t.createdAt,
   }))
 
   // Filter tokens based on selection
@@ -94,17 +105,11 @@ export function HomePage() {
     { key: 'rising', label: 'Rising' },
     { key: 'new', label: 'New' },
     { key: 'graduated', label: 'Graduated' },
+    { key: 'following', label: 'Following' },
   ]
 
-  const formatMcap = (reserve: bigint): string => {
-    const value = Number(formatEther(reserve))
-    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`
-    if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`
-    return value.toFixed(0)
-  }
-
   const formatTime = (timestamp: number): string => {
-    const diff = Date.now() / 1000 - timestamp
+    const diff = now / 1000 - timestamp
     if (diff < 60) return 'Just now'
     if (diff < 3600) return `${Math.floor(diff / 60)}m ago`
     if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`
@@ -117,6 +122,7 @@ export function HomePage() {
     rising: '/backgrounds/stained-glass.jpg',       // Green stained glass cathedral  
     new: '/backgrounds/fantasy-tree-maze.png',      // Enchanted tree portal
     graduated: '/backgrounds/launch-altar.png',     // Celebratory altar
+    following: '/backgrounds/cathedral-interior.jpg', // Congregation of followed wallets
   }
 
   return (
@@ -285,220 +291,65 @@ export function HomePage() {
           <AdCarousel />
         </div>
 
-        {/* Section Title */}
-        <div style={{
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'space-between',
-          marginBottom: '16px',
-        }}>
-          <h2 style={{
-            fontSize: '18px',
-            fontWeight: 700,
-            color: '#fff',
-            margin: 0,
-            display: 'flex',
-            alignItems: 'center',
-            gap: '8px',
-          }}>
-            <span style={{ color: '#22c55e' }}>●</span>
-            {filter === 'live' && 'Live Tokens'}
-            {filter === 'rising' && 'Rising Tokens'}
-            {filter === 'new' && 'New Tokens'}
-            {filter === 'graduated' && 'Graduated Tokens'}
-            <span style={{ color: '#666', fontSize: '14px', fontWeight: 400 }}>
-              ({filteredTokens.length})
-            </span>
-          </h2>
-        </div>
-
-        {/* Token Grid */}
-        {filteredTokens.length === 0 ? (
-          <div style={{
-            textAlign: 'center',
-            padding: '80px 20px',
-            color: '#666',
-          }}>
-            <span style={{ fontSize: '48px', display: 'block', marginBottom: '16px', opacity: 0.5 }}>🔥</span>
-            <p style={{ fontSize: '16px', marginBottom: '8px' }}>No tokens found</p>
-            <p style={{ fontSize: '13px', color: '#555' }}>Be the first to create one!</p>
-          </div>
+        {filter === 'following' ? (
+          <FollowingFeed />
         ) : (
-          <div style={{
-            display: 'grid',
-            gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
-            gap: '16px',
-          }}>
-            {filteredTokens.map((token) => {
-              // Generate color from address
-              const hash = parseInt(token.tokenAddress.slice(2, 8), 16)
-              const hue = hash % 360
-              const accentColor = `hsl(${hue}, 60%, 50%)`
-
-              return (
-                <div
-                  key={token.tokenAddress}
-                  onClick={() => navigate(`/dashboard/${token.tokenAddress}`)}
-                  style={{
-                    background: 'rgba(26,26,26,0.8)',
-                    backdropFilter: 'blur(10px)',
-                    WebkitBackdropFilter: 'blur(10px)',
-                    borderRadius: '12px',
-                    border: '1px solid rgba(255,255,255,0.1)',
-                    padding: '16px',
-                    cursor: 'pointer',
-                    transition: 'all 0.3s ease',
-                    boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
-                  }}
-                  onMouseOver={(e) => {
-                    e.currentTarget.style.borderColor = accentColor
-                    e.currentTarget.style.transform = 'translateY(-4px) scale(1.02)'
-                    e.currentTarget.style.boxShadow = `0 12px 32px rgba(0,0,0,0.4), 0 0 30px ${accentColor}30`
-                  }}
-                  onMouseOut={(e) => {
-                    e.currentTarget.style.borderColor = 'rgba(255,255,255,0.1)'
-                    e.currentTarget.style.transform = 'translateY(0) scale(1)'
-                    e.currentTarget.style.boxShadow = '0 4px 16px rgba(0,0,0,0.2)'
-                  }}
-                >
-                  {/* Card Header */}
-                  <div style={{ display: 'flex', alignItems: 'flex-start', gap: '12px', marginBottom: '12px' }}>
-                    {/* Token Image */}
-                    <div style={{
-                      width: '56px',
-                      height: '56px',
-                      borderRadius: '10px',
-                      backgroundColor: '#252525',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      overflow: 'hidden',
-                      flexShrink: 0,
-                      border: `2px solid ${accentColor}40`,
-                    }}>
-                      {token.imageUri ? (
-                        <img
-                          src={token.imageUri}
-                          alt={token.symbol}
-                          style={{ width: '100%', height: '100%', objectFit: 'cover' }}
-                          onError={(e) => {
-                            e.currentTarget.style.display = 'none'
-                          }}
-                        />
-                      ) : (
-                        <span style={{ fontSize: '28px' }}>🔥</span>
-                      )}
-                    </div>
-
-                    {/* Token Info */}
-                    <div style={{ flex: 1, minWidth: 0 }}>
-                      <div style={{
-                        fontSize: '15px',
-                        fontWeight: 700,
-                        color: '#fff',
-                        marginBottom: '2px',
-                        whiteSpace: 'nowrap',
-                        overflow: 'hidden',
-                        textOverflow: 'ellipsis',
-                      }}>
-                        {token.name}
-                      </div>
-                      <div style={{
-                        fontFamily: 'monospace',
-                        fontSize: '12px',
-                        color: accentColor,
-                        marginBottom: '4px',
-                      }}>
-                        ${token.symbol}
-                      </div>
-                      <div style={{
-                        fontSize: '11px',
-                        color: '#666',
-                      }}>
-                        {formatTime(token.launchTime)}
-                      </div>
-                    </div>
-
-                    {/* Status Badge */}
-                    <div style={{
-                      padding: '4px 8px',
-                      borderRadius: '4px',
-                      backgroundColor: token.status === 1 ? 'rgba(168,85,247,0.2)' : 'rgba(34,197,94,0.2)',
-                      border: `1px solid ${token.status === 1 ? 'rgba(168,85,247,0.4)' : 'rgba(34,197,94,0.4)'}`,
-                    }}>
-                      <span style={{
-                        fontSize: '10px',
-                        fontWeight: 700,
-                        color: token.status === 1 ? '#a855f7' : '#22c55e',
-                      }}>
-                        {token.status === 1 ? '🎓' : '🔴'}
-                      </span>
-                    </div>
-                  </div>
-
-                  {/* Stats Row */}
-                  <div style={{
-                    display: 'flex',
-                    justifyContent: 'space-between',
-                    padding: '10px 0',
-                    borderTop: '1px solid #252525',
-                  }}>
-                    <div>
-                      <div style={{ fontSize: '10px', color: '#666', marginBottom: '2px' }}>Reserve</div>
-                      <div style={{
-                        fontFamily: 'monospace',
-                        fontSize: '14px',
-                        fontWeight: 700,
-                        color: '#22c55e',
-                      }}>
-                        {formatMcap(token.reserveBalance)} PLS
-                      </div>
-                    </div>
-                    <div style={{ textAlign: 'right' }}>
-                      <div style={{ fontSize: '10px', color: '#666', marginBottom: '2px' }}>Creator</div>
-                      <div style={{
-                        fontFamily: 'monospace',
-                        fontSize: '11px',
-                        color: '#888',
-                      }}>
-                        {token.creator.slice(0, 6)}...{token.creator.slice(-4)}
-                      </div>
-                    </div>
-                  </div>
+          <>
+            {/* Section Title */}
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              marginBottom: '16px',
+            }}>
+              <h2 style={{
+                fontSize: '18px',
+                fontWeight: 700,
+                color: '#fff',
+                margin: 0,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+              }}>
+                <span style={{ color: '#22c55e' }}>●</span>
+                {filter === 'live' && 'Live Tokens'}
+                {filter === 'rising' && 'Rising Tokens'}
+                {filter === 'new' && 'New Tokens'}
+                {filter === 'graduated' && 'Graduated Tokens'}
+                <span style={{ color: '#666', fontSize: '14px', fontWeight: 400 }}>
+                  ({filteredTokens.length})
+                </span>
+              </h2>
+            </div>
 
-                  {/* Progress Bar (for live tokens) */}
-                  {token.status === 0 && (
-                    <div style={{ marginTop: '8px' }}>
-                      <div style={{
-                        display: 'flex',
-                        justifyContent: 'space-between',
-                        fontSize: '10px',
-                        color: '#666',
-                        marginBottom: '4px',
-                      }}>
-                        <span>Progress to Graduation</span>
-                        <span style={{ color: accentColor, fontFamily: 'monospace' }}>
-                          {Math.min(100, (Number(formatEther(token.reserveBalance)) / 50000000) * 100).toFixed(1)}% / 50M PLS
-                        </span>
-                      </div>
-                      <div style={{
-                        height: '4px',
-                        backgroundColor: '#252525',
-                        borderRadius: '2px',
-                        overflow: 'hidden',
-                      }}>
-                        <div style={{
-                          width: `${Math.min(100, (Number(formatEther(token.reserveBalance)) / 50000000) * 100)}%`,
-                          height: '100%',
-                          background: `linear-gradient(90deg, ${accentColor} 0%, ${accentColor}80 100%)`,
-                        }} />
-                      </div>
-                    </div>
-                  )}
-                </div>
-              )
-            })}
-          </div>
+            {/* Token Grid */}
+            {filteredTokens.length === 0 ? (
+              <div style={{
+                textAlign: 'center',
+                padding: '80px 20px',
+                color: '#666',
+              }}>
+                <span style={{ fontSize: '48px', display: 'block', marginBottom: '16px', opacity: 0.5 }}>🔥</span>
+                <p style={{ fontSize: '16px', marginBottom: '8px' }}>No tokens found</p>
+                <p style={{ fontSize: '13px', color: '#555' }}>Be the first to create one!</p>
+              </div>
+            ) : (
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+                gap: '16px',
+              }}>
+                {filteredTokens.map((token) => (
+                  <HomeTokenCard
+                    key={token.tokenAddress}
+                    token={token}
+                    timeLabel={formatTime(token.launchTime)}
+                    onClick={() => navigate(`/dashboard/${token.tokenAddress}`)}
+                  />
+                ))}
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -1,9 +1,30 @@
-import { useState, useEffect } from 'react'
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useBalance } from 'wagmi'
-import { parseEther, formatEther } from 'viem'
+import { useState, useMemo, useRef } from 'react'
+import { useAccount, useBalance } from 'wagmi'
+import { parseEther, formatEther, zeroAddress } from 'viem'
 import { useNavigate } from 'react-router-dom'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
+import { usePumpFudWrite, useLaunchFee, useCurveParams } from '../hooks/usePumpFud'
+import { useTradeSettings, applySlippage } from '../hooks/useTradeSettings'
+import { useTransactions } from '../hooks/useTransactions'
+import { IS_PUMP_FUD_V2, encodeV2ImageUri, parseLaunchedToken, type PumpFudToken } from '../utils/pumpFud'
+import {
+  decodeTokenMetadata,
+  encodeTokenMetadata,
+  validateTokenMetadata,
+  metadataByteSize,
+  METADATA_MAX_BYTES,
+  MAX_TAGS,
+  type TokenMetadataInput,
+} from '../utils/tokenMetadata'
+import { quoteBuy } from '../utils/curve'
+import { ACCEPTED_IMAGE_TYPES, LOGO_IMAGE_OPTIONS, uploadImage } from '../utils/imagePipeline'
+import { getImageStorage, isLocalImageUri } from '../utils/imageStorage'
+import { StoredImage } from '../components/ui/StoredImage'
+import { LaunchPreview } from '../components/LaunchPreview'
+import { BondingCurvePlot } from '../components/BondingCurvePlot'
+
+const formatPls = (wei: bigint) =>
+  Number(formatEther(wei)).toLocaleString(undefined, { maximumFractionDigits: 2 })
 
 interface SocialLinks {
   twitter: string
@@ -25,10 +46,19 @@ export function LaunchPage() {
   const [symbol, setSymbol] = useState('')
   const [description, setDescription] = useState('')
   const [imageUri, setImageUri] = useState('')
+  const [bannerUri, setBannerUri] = useState('')
+  const [isUploadingImage, setIsUploadingImage] = useState(false)
+  const [imageError, setImageError] = useState<string | null>(null)
+  const [isDraggingImage, setIsDraggingImage] = useState(false)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const [tagsInput, setTagsInput] = useState('') // Comma separated
   const [showSocials, setShowSocials] = useState(false)
   const [initialBuyAmount, setInitialBuyAmount] = useState('')
   const [showInitialBuy, setShowInitialBuy] = useState(true)
-  const [, setLaunchedTokenAddress] = useState<string | null>(null)
+  // Livestream tokens (V2 only) are created locked and open for trading at the scheduled start
+  const [launchMode, setLaunchMode] = useState<'standard' | 'livestream'>('standard')
+  const [livestreamStart, setLivestreamStart] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
   const [socials, setSocials] = useState<SocialLinks>({
     twitter: '',
     telegram: '',
@@ -45,68 +75,125 @@ export function LaunchPage() {
   // Get user PLS balance
   const { data: plsBalance } = useBalance({ address })
 
-  const { writeContract, data: hash, isPending } = useWriteContract()
-  const { isLoading: isConfirming, isSuccess, data: receipt } = useWaitForTransactionReceipt({ hash })
+  const { launch } = usePumpFudWrite()
+  const { send } = useTransactions()
+  const [isLaunching, setIsLaunching] = useState(false)
 
-  const handleLaunch = () => {
-    if (!name || !symbol) return
+  // Fee straight from the contract, and the creator buy previewed against a fresh curve
+  const { fee: launchFee, isFeeExempt } = useLaunchFee(address)
+  const curveParams = useCurveParams()
+  const { settings } = useTradeSettings()
+  const isLivestream = IS_PUMP_FUD_V2 && launchMode === 'livestream'
+  const buyAmount = useMemo(() => {
+    if (isLivestream || !initialBuyAmount) return 0n
+    try {
+      const amount = parseEther(initialBuyAmount.trim())
+      return amount > 0n ? amount : 0n
+    } catch {
+      return 0n
+    }
+  }, [isLivestream, initialBuyAmount])
+  const buyPreview = useMemo(() => buyAmount > 0n
+    ? quoteBuy({ plsReserve: 0n, tokensSold: 0n }, buyAmount, curveParams, isFeeExempt)
+    : null, [buyAmount, curveParams, isFeeExempt])
+  const minTokensOut = buyPreview ? applySlippage(buyPreview.tokensOut, settings.slippageBps) : 0n
+  const totalCost = launchFee !== undefined ? launchFee + buyAmount : undefined
+  const insufficientBalance = !!plsBalance && totalCost !== undefined && totalCost > plsBalance.value
 
-    // Encode socials into description JSON for on-chain storage
-    const metadata = {
+  const metadataInput = useMemo<TokenMetadataInput>(() => {
+    const { website, livestreamUrl, ...links } = socials
+    return {
       description,
-      socials: Object.fromEntries(
-        Object.entries(socials).filter(([, v]) => v.trim() !== '')
-      ),
+      socials: links,
+      website,
+      livestreamUrl,
+      bannerUri,
+      tags: tagsInput.split(',').filter(tag => tag.trim() !== ''),
     }
+  }, [description, socials, bannerUri, tagsInput])
+  const encodedMetadata = encodeTokenMetadata(metadataInput)
+  // V2 stores the metadata packed into imageUri, so the image link counts toward the budget
+  const metadataBytes = metadataByteSize(IS_PUMP_FUD_V2 ? encodeV2ImageUri(imageUri, encodedMetadata) : encodedMetadata)
+  const metadataErrors = validateTokenMetadata(metadataInput, metadataBytes - metadataByteSize(encodedMetadata))
 
-    // Base launch fee + optional initial buy amount
-    const launchFee = parseEther('100000')
-    const buyAmount = initialBuyAmount ? parseEther(initialBuyAmount) : 0n
-    const totalValue = launchFee + buyAmount
-
-    writeContract({
-      address: PUMP_FUD_ADDRESS,
-      abi: PUMP_FUD_ABI,
-      functionName: 'launchToken',
-      args: [name, symbol, JSON.stringify(metadata), imageUri],
-      value: totalValue,
-    })
+  const localImageBlocked = !import.meta.env.DEV && isLocalImageUri(imageUri)
+  const localBannerBlocked = !import.meta.env.DEV && isLocalImageUri(bannerUri)
+
+  // The token as it would exist right after launch, creator buy included
+  const previewToken = useMemo<PumpFudToken>(() => ({
+    tokenAddress: zeroAddress,
+    creator: address ?? zeroAddress,
+    name: name || 'Your Token',
+    symbol: symbol || 'TICKER',
+    description: encodedMetadata,
+    metadata: decodeTokenMetadata(encodedMetadata),
+    imageUri,
+    reserveBalance: buyPreview?.plsForTokens ?? 0n,
+    tokensSold: buyPreview?.tokensOut ?? 0n,
+    tradingVolume: buyAmount,
+    createdAt: 0, // Not launched yet - preview views show it as brand new
+    graduated: false,
+    isLivestream,
+  }), [address, name, symbol, encodedMetadata, imageUri, buyPreview, buyAmount, isLivestream])
+
+  const cannotLaunch = !name || !symbol || isLaunching || launchFee === undefined || insufficientBalance
+    || metadataErrors.length > 0 || isUploadingImage || localImageBlocked || localBannerBlocked
+
+  // Logos are squared, shrunk and content-addressed before the URI goes on-chain
+  const handleImageFile = async (file: File | undefined) => {
+    if (!file) return
+    setIsUploadingImage(true)
+    setImageError(null)
+    try {
+      const image = await uploadImage(file, LOGO_IMAGE_OPTIONS)
+      setImageUri(image.uri)
+    } catch (err) {
+      setImageError(err instanceof Error ? err.message : 'Image upload failed')
+    } finally {
+      setIsUploadingImage(false)
+    }
   }
 
-  // Extract token address from receipt logs and redirect
-  useEffect(() => {
-    if (isSuccess && receipt) {
-      // Find TokenLaunched event in logs - token address is typically in the first topic or data
-      const logs = receipt.logs
-      if (logs && logs.length > 0) {
-        // The token address should be in one of the event logs
-        // TokenLaunched event emits (tokenId, tokenAddress, name, symbol, creator)
-        for (const log of logs) {
-          // Check for token address in topics (indexed params) or data
-          if (log.topics && log.topics.length >= 3) {
-            // Second topic is often the token address (after event sig)
-            const potentialAddress = '0x' + log.topics[2]?.slice(-40)
-            if (potentialAddress && potentialAddress.length === 42) {
-              setLaunchedTokenAddress(potentialAddress)
-              navigate(`/dashboard/${potentialAddress}`)
-              return
-            }
-          }
-        }
-        // Fallback: try to extract from log data
-        if (logs[0]?.data && logs[0].data.length >= 66) {
-          const dataAddress = '0x' + logs[0].data.slice(26, 66)
-          if (dataAddress.length === 42) {
-            setLaunchedTokenAddress(dataAddress)
-            navigate(`/dashboard/${dataAddress}`)
-            return
-          }
-        }
+  const handleLaunch = async () => {
+    if (!name || !symbol || launchFee === undefined) return
+    setFormError(null)
+
+    let livestreamStartTime: bigint | undefined
+    if (isLivestream) {
+      const startMs = new Date(livestreamStart).getTime()
+      if (!livestreamStart || Number.isNaN(startMs) || startMs <= Date.now()) {
+        setFormError('Pick a livestream start time in the future')
+        return
       }
-      // If we can't extract address, go home
-      navigate('/')
+      livestreamStartTime = BigInt(Math.floor(startMs / 1000))
     }
-  }, [isSuccess, receipt, navigate])
+
+    setIsLaunching(true)
+    const receipt = await send({
+      label: `Launch ${symbol}`,
+      execute: () => launch({
+        name,
+        symbol,
+        description: encodedMetadata,
+        imageUri,
+        fee: launchFee,
+        initialBuy: buyAmount,
+        minTokensOut,
+        livestreamStartTime,
+      }),
+    })
+    setIsLaunching(false)
+    if (!receipt) return
+
+    // Read the new token address from the launch event and redirect
+    const launchedAddress = parseLaunchedToken(receipt.logs)
+    if (launchedAddress) {
+      navigate(`/dashboard/${launchedAddress}`)
+      return
+    }
+    // If we can't extract address, go home
+    navigate('/')
+  }
 
   const updateSocial = (key: keyof SocialLinks, value: string) => {
     setSocials(prev => ({ ...prev, [key]: value }))
@@ -201,6 +288,8 @@ export function LaunchPage() {
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'flex-start',
+        flexWrap: 'wrap',
+        gap: '32px',
         minHeight: '100vh',
         padding: '60px 20px',
       }}>
@@ -338,6 +427,42 @@ export function LaunchPage() {
                     e.target.style.boxShadow = 'none'
                   }}
                 />
+                <p style={{
+                  marginTop: '4px',
+                  fontSize: '10px',
+                  fontFamily: 'monospace',
+                  textAlign: 'right',
+                  color: metadataBytes > METADATA_MAX_BYTES ? '#ef4444' : '#666',
+                }}>
+                  {metadataBytes} / {METADATA_MAX_BYTES} bytes on-chain
+                </p>
+              </div>
+
+              <div style={{ marginTop: '16px' }}>
+                <label style={labelStyle}>Tags</label>
+                <input
+                  type="text"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder={`meme, pulsechain, ... (up to ${MAX_TAGS})`}
+                  style={inputStyle}
+                />
+              </div>
+
+              <div style={{ marginTop: '16px' }}>
+                <label style={labelStyle}>Banner Image URL</label>
+                <input
+                  type="text"
+                  value={bannerUri}
+                  onChange={(e) => setBannerUri(e.target.value)}
+                  placeholder="https://... or ipfs://... (shown on your token page)"
+                  style={inputStyle}
+                />
+                {localBannerBlocked && (
+                  <p style={{ marginTop: '8px', fontSize: '11px', color: '#ef4444' }}>
+                    Browser-local images can't go on-chain - use an https:// or ipfs:// link.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -363,18 +488,60 @@ export function LaunchPage() {
                 </span>
               </div>
 
-              <div style={{
-                border: '2px dashed rgba(139,69,19,0.4)',
-                borderRadius: '12px',
-                padding: '24px',
-                textAlign: 'center',
-                backgroundColor: 'rgba(0,0,0,0.2)',
-              }}>
-                <div style={{ fontSize: '36px', marginBottom: '12px', opacity: 0.7 }}>
-                  📷
-                </div>
+              <div
+                onClick={() => imageInputRef.current?.click()}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setIsDraggingImage(true)
+                }}
+                onDragLeave={() => setIsDraggingImage(false)}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  setIsDraggingImage(false)
+                  void handleImageFile(e.dataTransfer.files[0])
+                }}
+                style={{
+                  border: `2px dashed ${isDraggingImage ? 'rgba(255,215,0,0.7)' : 'rgba(139,69,19,0.4)'}`,
+                  borderRadius: '12px',
+                  padding: '24px',
+                  textAlign: 'center',
+                  backgroundColor: isDraggingImage ? 'rgba(184,134,11,0.1)' : 'rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                  onChange={(e) => {
+                    void handleImageFile(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                  style={{ display: 'none' }}
+                />
+                {imageUri ? (
+                  <StoredImage
+                    src={imageUri}
+                    alt="Token logo"
+                    style={{
+                      width: '96px',
+                      height: '96px',
+                      objectFit: 'cover',
+                      borderRadius: '12px',
+                      margin: '0 auto 12px',
+                      display: 'block',
+                      border: '1px solid rgba(255,215,0,0.3)',
+                    }}
+                  />
+                ) : (
+                  <div style={{ fontSize: '36px', marginBottom: '12px', opacity: 0.7 }}>
+                    📷
+                  </div>
+                )}
                 <p style={{ color: '#888', fontSize: '13px', marginBottom: '12px' }}>
-                  Drag & drop or click to upload
+                  {isUploadingImage
+                    ? 'Processing image...'
+                    : 'Drag & drop or click to upload (PNG, JPEG, WebP, GIF - cropped square)'}
                 </p>
                 <input
                   type="text"
@@ -390,6 +557,14 @@ export function LaunchPage() {
                   onClick={(e) => e.stopPropagation()}
                 />
               </div>
+              {imageError && (
+                <p style={{ marginTop: '8px', fontSize: '11px', color: '#ef4444' }}>{imageError}</p>
+              )}
+              {!getImageStorage().isShared && (
+                <p style={{ marginTop: '8px', fontSize: '11px', color: localImageBlocked ? '#ef4444' : '#888' }}>
+                  Uploads are kept in this browser only - set VITE_IPFS_API_URL to pin them to IPFS.
+                </p>
+              )}
             </div>
 
             {/* Social Links Section */}
@@ -480,153 +655,251 @@ export function LaunchPage() {
               )}
             </div>
 
-            {/* Initial Buy Section */}
-            <div style={{ marginBottom: '24px' }}>
-              <button
-                onClick={() => setShowInitialBuy(!showInitialBuy)}
-                style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: '10px',
-                  width: '100%',
-                  background: 'none',
-                  border: 'none',
-                  padding: '12px 0',
-                  cursor: 'pointer',
-                  borderBottom: '1px solid rgba(139,69,19,0.3)',
-                }}
-              >
-                <span style={{ fontSize: '20px' }}>💰</span>
-                <span style={{
-                  fontFamily: 'Cinzel, serif',
-                  fontSize: '14px',
-                  color: '#22c55e',
-                  letterSpacing: '0.1em',
-                  textTransform: 'uppercase',
-                  flex: 1,
-                  textAlign: 'left',
-                }}>
-                  Buy Tokens at Launch
-                </span>
-                <span style={{
-                  color: '#888',
-                  fontSize: '11px',
-                  fontStyle: 'italic',
-                  marginRight: '8px',
-                }}>
-                  (Recommended)
-                </span>
-                <span style={{ color: '#22c55e', fontSize: '12px' }}>
-                  {showInitialBuy ? '▼' : '▶'}
-                </span>
-              </button>
+            {/* Launch Mode - livestream tokens are a V2 feature */}
+            {IS_PUMP_FUD_V2 && (
+              <div style={{ marginBottom: '24px' }}>
+                <label style={labelStyle}>Launch Mode</label>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                  {([
+                    { mode: 'standard', label: '🚀 Standard' },
+                    { mode: 'livestream', label: '📺 Livestream' },
+                  ] as const).map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => {
+                        setLaunchMode(mode)
+                        setFormError(null)
+                      }}
+                      style={{
+                        padding: '10px',
+                        backgroundColor: launchMode === mode ? 'rgba(184,134,11,0.2)' : 'rgba(0,0,0,0.3)',
+                        border: `1px solid ${launchMode === mode ? 'rgba(255,215,0,0.5)' : 'rgba(139,69,19,0.3)'}`,
+                        borderRadius: '8px',
+                        color: launchMode === mode ? '#ffd700' : '#888',
+                        fontFamily: 'Cinzel, serif',
+                        fontSize: '12px',
+                        letterSpacing: '0.1em',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
 
-              {showInitialBuy && (
-                <div style={{
-                  marginTop: '16px',
-                  padding: '20px',
-                  backgroundColor: 'rgba(34,197,94,0.05)',
-                  borderRadius: '12px',
-                  border: '1px solid rgba(34,197,94,0.2)',
-                }}>
-                  <p style={{
+                {isLivestream && (
+                  <div style={{ marginTop: '12px' }}>
+                    <label style={labelStyle}>Stream Start (local time)</label>
+                    <input
+                      type="datetime-local"
+                      value={livestreamStart}
+                      onChange={(e) => {
+                        setLivestreamStart(e.target.value)
+                        setFormError(null)
+                      }}
+                      style={{ ...inputStyle, colorScheme: 'dark' }}
+                    />
+                    <p style={{ color: '#666', fontSize: '11px', marginTop: '8px', lineHeight: 1.5 }}>
+                      Trading stays locked until the stream starts. You can open it early from your dashboard.
+                      Livestream launches can't include a creator buy.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Initial Buy Section */}
+            {!isLivestream && (
+              <div style={{ marginBottom: '24px' }}>
+                <button
+                  onClick={() => setShowInitialBuy(!showInitialBuy)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '10px',
+                    width: '100%',
+                    background: 'none',
+                    border: 'none',
+                    padding: '12px 0',
+                    cursor: 'pointer',
+                    borderBottom: '1px solid rgba(139,69,19,0.3)',
+                  }}
+                >
+                  <span style={{ fontSize: '20px' }}>💰</span>
+                  <span style={{
+                    fontFamily: 'Cinzel, serif',
+                    fontSize: '14px',
+                    color: '#22c55e',
+                    letterSpacing: '0.1em',
+                    textTransform: 'uppercase',
+                    flex: 1,
+                    textAlign: 'left',
+                  }}>
+                    Buy Tokens at Launch
+                  </span>
+                  <span style={{
                     color: '#888',
-                    fontSize: '12px',
-                    marginBottom: '16px',
-                    lineHeight: 1.5,
+                    fontSize: '11px',
+                    fontStyle: 'italic',
+                    marginRight: '8px',
                   }}>
-                    Be the first to buy your own token! This amount is added to the 100,000 PLS launch fee.
-                    You'll receive tokens at the initial bonding curve price.
-                  </p>
-
-                  <div style={{ marginBottom: '12px' }}>
-                    <label style={{
-                      display: 'block',
-                      fontFamily: 'Cinzel, serif',
-                      fontSize: '11px',
-                      color: '#22c55e',
-                      marginBottom: '8px',
-                      letterSpacing: '0.15em',
-                      textTransform: 'uppercase',
-                    }}>
-                      Initial Buy Amount (PLS)
-                    </label>
-                    <div style={{ position: 'relative' }}>
-                      <input
-                        type="text"
-                        value={initialBuyAmount}
-                        onChange={(e) => setInitialBuyAmount(e.target.value)}
-                        placeholder="0"
-                        style={{
-                          ...inputStyle,
-                          paddingRight: '60px',
-                          borderColor: 'rgba(34,197,94,0.3)',
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.borderColor = 'rgba(34,197,94,0.6)'
-                          e.target.style.boxShadow = '0 0 20px rgba(34,197,94,0.15)'
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.borderColor = 'rgba(34,197,94,0.3)'
-                          e.target.style.boxShadow = 'none'
-                        }}
-                      />
-                      <span style={{
-                        position: 'absolute',
-                        right: '16px',
-                        top: '50%',
-                        transform: 'translateY(-50%)',
-                        color: '#666',
-                        fontSize: '13px',
-                        fontFamily: 'monospace',
-                      }}>
-                        PLS
-                      </span>
-                    </div>
-                  </div>
+                    (Recommended)
+                  </span>
+                  <span style={{ color: '#22c55e', fontSize: '12px' }}>
+                    {showInitialBuy ? '▼' : '▶'}
+                  </span>
+                </button>
 
-                  {/* Quick amount buttons */}
+                {showInitialBuy && (
                   <div style={{
-                    display: 'grid',
-                    gridTemplateColumns: 'repeat(4, 1fr)',
-                    gap: '8px',
-                    marginBottom: '12px',
+                    marginTop: '16px',
+                    padding: '20px',
+                    backgroundColor: 'rgba(34,197,94,0.05)',
+                    borderRadius: '12px',
+                    border: '1px solid rgba(34,197,94,0.2)',
                   }}>
-                    {['1000', '5000', '10000', '50000'].map((val) => (
-                      <button
-                        key={val}
-                        onClick={() => setInitialBuyAmount(val)}
-                        style={{
-                          padding: '8px',
-                          backgroundColor: initialBuyAmount === val ? 'rgba(34,197,94,0.2)' : 'rgba(0,0,0,0.3)',
-                          border: `1px solid ${initialBuyAmount === val ? 'rgba(34,197,94,0.5)' : 'rgba(34,197,94,0.2)'}`,
-                          borderRadius: '6px',
-                          color: initialBuyAmount === val ? '#22c55e' : '#888',
-                          fontSize: '12px',
-                          fontFamily: 'monospace',
-                          cursor: 'pointer',
-                        }}
-                      >
-                        {Number(val).toLocaleString()}
-                      </button>
-                    ))}
-                  </div>
-
-                  {/* Balance display */}
-                  {plsBalance && (
                     <p style={{
-                      color: '#666',
-                      fontSize: '11px',
-                      textAlign: 'right',
+                      color: '#888',
+                      fontSize: '12px',
+                      marginBottom: '16px',
+                      lineHeight: 1.5,
                     }}>
-                      Balance: <span style={{ color: '#22c55e', fontFamily: 'monospace' }}>
-                        {Number(formatEther(plsBalance.value)).toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS
-                      </span>
+                      Be the first to buy your own token! This amount is added to the launch fee and bought
+                      in the same transaction, so nobody can snipe ahead of you.
                     </p>
-                  )}
-                </div>
-              )}
-            </div>
+
+                    <div style={{ marginBottom: '12px' }}>
+                      <label style={{
+                        display: 'block',
+                        fontFamily: 'Cinzel, serif',
+                        fontSize: '11px',
+                        color: '#22c55e',
+                        marginBottom: '8px',
+                        letterSpacing: '0.15em',
+                        textTransform: 'uppercase',
+                      }}>
+                        Initial Buy Amount (PLS)
+                      </label>
+                      <div style={{ position: 'relative' }}>
+                        <input
+                          type="text"
+                          value={initialBuyAmount}
+                          onChange={(e) => setInitialBuyAmount(e.target.value)}
+                          placeholder="0"
+                          style={{
+                            ...inputStyle,
+                            paddingRight: '60px',
+                            borderColor: 'rgba(34,197,94,0.3)',
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.borderColor = 'rgba(34,197,94,0.6)'
+                            e.target.style.boxShadow = '0 0 20px rgba(34,197,94,0.15)'
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.borderColor = 'rgba(34,197,94,0.3)'
+                            e.target.style.boxShadow = 'none'
+                          }}
+                        />
+                        <span style={{
+                          position: 'absolute',
+                          right: '16px',
+                          top: '50%',
+                          transform: 'translateY(-50%)',
+                          color: '#666',
+                          fontSize: '13px',
+                          fontFamily: 'monospace',
+                        }}>
+                          PLS
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Quick amount buttons */}
+                    <div style={{
+                      display: 'grid',
+                      gridTemplateColumns: 'repeat(4, 1fr)',
+                      gap: '8px',
+                      marginBottom: '12px',
+                    }}>
+                      {['1000', '5000', '10000', '50000'].map((val) => (
+                        <button
+                          key={val}
+                          onClick={() => setInitialBuyAmount(val)}
+                          style={{
+                            padding: '8px',
+                            backgroundColor: initialBuyAmount === val ? 'rgba(34,197,94,0.2)' : 'rgba(0,0,0,0.3)',
+                            border: `1px solid ${initialBuyAmount === val ? 'rgba(34,197,94,0.5)' : 'rgba(34,197,94,0.2)'}`,
+                            borderRadius: '6px',
+                            color: initialBuyAmount === val ? '#22c55e' : '#888',
+                            fontSize: '12px',
+                            fontFamily: 'monospace',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          {Number(val).toLocaleString()}
+                        </button>
+                      ))}
+                    </div>
+
+                    {/* Creator buy preview against an empty curve */}
+                    {buyPreview && (
+                      <div style={{
+                        marginBottom: '12px',
+                        padding: '12px',
+                        backgroundColor: 'rgba(0,0,0,0.3)',
+                        borderRadius: '8px',
+                        fontSize: '11px',
+                        color: '#888',
+                        fontFamily: 'monospace',
+                      }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                          <span>You receive</span>
+                          <span style={{ color: '#22c55e' }}>
+                            ≈ {Number(formatEther(buyPreview.tokensOut)).toLocaleString(undefined, { maximumFractionDigits: 0 })} {symbol || 'tokens'}
+                          </span>
+                        </div>
+                        {curveParams.bondingSupply > 0n && (
+                          <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px' }}>
+                            <span>Share of curve supply</span>
+                            <span>{(Number((buyPreview.tokensOut * 10000n) / curveParams.bondingSupply) / 100).toFixed(2)}%</span>
+                          </div>
+                        )}
+                        {buyPreview.fee > 0n && (
+                          <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px' }}>
+                            <span>Trading fee</span>
+                            <span>{Number(formatEther(buyPreview.fee)).toLocaleString(undefined, { maximumFractionDigits: 2 })} PLS</span>
+                          </div>
+                        )}
+                        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px' }}>
+                          <span>Min received ({settings.slippageBps / 100}% slippage)</span>
+                          <span>{Number(formatEther(minTokensOut)).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                        </div>
+                        <div style={{ marginTop: '10px' }}>
+                          <BondingCurvePlot params={curveParams} tokensSold={buyPreview.tokensOut} color="#22c55e" height={70} />
+                          <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px', fontSize: '10px', color: '#666' }}>
+                            <span>Price vs supply sold</span>
+                            <span>Your buy</span>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Balance display */}
+                    {plsBalance && (
+                      <p style={{
+                        color: '#666',
+                        fontSize: '11px',
+                        textAlign: 'right',
+                      }}>
+                        Balance: <span style={{ color: '#22c55e', fontFamily: 'monospace' }}>
+                          {Number(formatEther(plsBalance.value)).toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
 
             {/* Fee Notice */}
             <div style={{
@@ -646,12 +919,14 @@ export function LaunchPage() {
                     letterSpacing: '0.1em',
                     marginBottom: '4px',
                   }}>
-                    {initialBuyAmount ? 'TOTAL COST' : 'LAUNCH FEE'}
+                    {buyAmount > 0n ? 'TOTAL COST' : 'LAUNCH FEE'}
                   </p>
                   <p style={{ color: '#888', fontSize: '12px' }}>
-                    {initialBuyAmount
-                      ? `100K launch fee + ${Number(initialBuyAmount).toLocaleString()} PLS buy`
-                      : 'Required to create your token'
+                    {isFeeExempt
+                      ? 'Launch fee waived for this wallet'
+                      : buyAmount > 0n
+                        ? `Launch fee + ${formatPls(buyAmount)} PLS buy`
+                        : 'Required to create your token'
                     }
                   </p>
                 </div>
@@ -662,14 +937,11 @@ export function LaunchPage() {
                   color: '#ffd700',
                   textShadow: '0 0 15px rgba(255,215,0,0.5)',
                 }}>
-                  {initialBuyAmount
-                    ? `${(100000 + Number(initialBuyAmount)).toLocaleString()} PLS`
-                    : '100,000 PLS'
-                  }
+                  {totalCost !== undefined ? `${formatPls(totalCost)} PLS` : '...'}
                 </div>
               </div>
 
-              {initialBuyAmount && Number(initialBuyAmount) > 0 && (
+              {buyAmount > 0n && launchFee !== undefined && (
                 <div style={{
                   marginTop: '12px',
                   paddingTop: '12px',
@@ -679,41 +951,59 @@ export function LaunchPage() {
                   fontSize: '11px',
                   color: '#888',
                 }}>
-                  <span>Launch Fee: 100,000 PLS</span>
+                  <span>Launch Fee: {formatPls(launchFee)} PLS</span>
                   <span style={{ color: '#22c55e' }}>
-                    + Initial Buy: {Number(initialBuyAmount).toLocaleString()} PLS
+                    + Initial Buy: {formatPls(buyAmount)} PLS
                   </span>
                 </div>
               )}
+
+              {insufficientBalance && (
+                <p style={{ marginTop: '12px', fontSize: '11px', color: '#ef4444' }}>
+                  Insufficient PLS balance for the launch fee{buyAmount > 0n ? ' and initial buy' : ''}
+                </p>
+              )}
             </div>
 
+            {metadataErrors.length > 0 && (
+              <div style={{ marginBottom: '16px', fontSize: '12px', color: '#ef4444', textAlign: 'center' }}>
+                {metadataErrors.map(error => <p key={error}>{error}</p>)}
+              </div>
+            )}
+
+            {formError && (
+              <p style={{ marginBottom: '16px', fontSize: '12px', color: '#ef4444', textAlign: 'center' }}>
+                {formError}
+              </p>
+            )}
+
             {/* Submit Button */}
             {isConnected ? (
               <button
                 onClick={handleLaunch}
-                disabled={!name || !symbol || isPending || isConfirming}
+                disabled={cannotLaunch}
                 style={{
                   width: '100%',
                   padding: '18px',
                   borderRadius: '12px',
-                  background: (!name || !symbol || isPending || isConfirming)
+                  background: cannotLaunch
                     ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                     : 'linear-gradient(135deg, #b8860b 0%, #daa520 50%, #b8860b 100%)',
                   border: '2px solid rgba(255,215,0,0.5)',
-                  color: (!name || !symbol || isPending || isConfirming) ? '#666' : '#000',
+                  color: cannotLaunch ? '#666' : '#000',
                   fontFamily: 'Cinzel, serif',
                   fontWeight: 700,
                   fontSize: '16px',
                   letterSpacing: '0.15em',
                   textTransform: 'uppercase',
-                  cursor: (!name || !symbol || isPending || isConfirming) ? 'not-allowed' : 'pointer',
-                  boxShadow: (!name || !symbol || isPending || isConfirming)
+                  cursor: cannotLaunch ? 'not-allowed' : 'pointer',
+                  boxShadow: cannotLaunch
                     ? 'none'
                     : '0 0 40px rgba(255,215,0,0.3), inset 0 1px 0 rgba(255,255,255,0.3)',
                   transition: 'all 0.3s ease',
                 }}
               >
-                {isPending || isConfirming ? (
+                {isLaunching ? (
                   '⏳ Creating Token...'
                 ) : (
                   '🚀 Launch Token'
@@ -771,6 +1061,17 @@ export function LaunchPage() {
             ← Back to Home
           </button>
         </div>
+
+        {/* Live preview - sticks beside the form on wide screens */}
+        <div style={{
+          width: '100%',
+          maxWidth: '380px',
+          position: 'sticky',
+          top: '60px',
+          marginTop: '120px',
+        }}>
+          <LaunchPreview token={previewToken} />
+        </div>
       </div>
     </div>
   )
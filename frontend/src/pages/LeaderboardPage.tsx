@@ -1,15 +1,22 @@
 import { useState, useMemo } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { Link, useNavigate } from 'react-router-dom'
+import { useAccount, useReadContract, useWriteContract } from 'wagmi'
 import { formatEther } from 'viem'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { LEADERBOARD_ADDRESS, LEADERBOARD_ABI } from '../config/wagmi'
+import { useTraderVolumes } from '../hooks/useEventIndexer'
+import { useCultStandings, useCultMembership, cultPath } from '../hooks/useCults'
+import { useTransactions } from '../hooks/useTransactions'
+import { ProfileName } from '../components/ui/ProfileName'
+import { shortAddress } from '../utils/identity'
 
-type TabType = 'volume' | 'referrals' | 'roi'
+type TabType = 'volume' | 'referrals' | 'roi' | 'cults'
 
 interface LeaderboardEntry {
   rank: number
   address: string
+  wallet?: `0x${string}` // Resolved to a profile name when set; placeholder rows only have `address`
+  cultId?: bigint // Cult rows link to the cult instead
   value: string
   secondaryValue?: string
   isCurrentUser: boolean
@@ -32,6 +39,11 @@ const PLACEHOLDER_DATA: Record<TabType, LeaderboardEntry[]> = {
     { rank: 2, address: '0x3333...4444', value: '+156%', secondaryValue: '750K PLS traded', isCurrentUser: false },
     { rank: 3, address: '0x5555...6666', value: '+98%', secondaryValue: '1.2M PLS traded', isCurrentUser: false },
   ],
+  cults: [
+    { rank: 1, address: '[FUD] Order of the Burnt Candle', value: '4.2M PLS', secondaryValue: '38 members', isCurrentUser: false },
+    { rank: 2, address: '[APE] Apes Together', value: '2.9M PLS', secondaryValue: '112 members', isCurrentUser: false },
+    { rank: 3, address: '[RUG] Survivors Guild', value: '1.1M PLS', secondaryValue: '17 members', isCurrentUser: false },
+  ],
 }
 
 export function LeaderboardPage() {
@@ -75,18 +87,30 @@ export function LeaderboardPage() {
     args: [50n],
   })
 
+  // Fallback volume ranking from the shared event indexer
+  const indexedVolumes = useTraderVolumes(50)
+
+  // Cults ranked by their members' getUserStats volume
+  const { standings: cultStandings } = useCultStandings()
+  const { cultId: userCultId } = useCultMembership(userAddress)
+
   // Claim rewards
-  const { writeContract, data: claimHash, isPending: isClaiming } = useWriteContract()
-  const { isLoading: isConfirming, isSuccess: _claimSuccess } = useWaitForTransactionReceipt({ hash: claimHash })
-  void _claimSuccess // Used for transaction confirmation tracking
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+  const [isClaiming, setIsClaiming] = useState(false)
 
-  const handleClaimRewards = () => {
+  const handleClaimRewards = async () => {
     if (!contractDeployed) return
-    writeContract({
-      address: LEADERBOARD_ADDRESS,
-      abi: LEADERBOARD_ABI,
-      functionName: 'claimReferralRewards',
+    setIsClaiming(true)
+    await send({
+      label: 'Claim referral rewards',
+      execute: () => writeContractAsync({
+        address: LEADERBOARD_ADDRESS,
+        abi: LEADERBOARD_ABI,
+        functionName: 'claimReferralRewards',
+      }),
     })
+    setIsClaiming(false)
   }
 
   // Generate referral link
@@ -108,7 +132,6 @@ export function LeaderboardPage() {
       return PLACEHOLDER_DATA[activeTab]
     }
 
-    const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`
     const formatVolume = (vol: bigint) => {
       const num = Number(formatEther(vol))
       if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M PLS`
@@ -116,21 +139,35 @@ export function LeaderboardPage() {
       return `${num.toFixed(0)} PLS`
     }
 
-    if (activeTab === 'volume' && volumeData) {
+    if (activeTab === 'volume' && volumeData && volumeData[0].length > 0) {
       const [addresses, volumes] = volumeData
       return addresses.map((addr, i) => ({
         rank: i + 1,
-        address: formatAddress(addr),
+        address: shortAddress(addr),
+        wallet: addr,
         value: formatVolume(volumes[i]),
         isCurrentUser: addr.toLowerCase() === userAddress?.toLowerCase(),
       }))
     }
 
+    // Leaderboard contract has no volume yet - rank wallets from indexed bonding curve trades
+    if (activeTab === 'volume' && indexedVolumes.length > 0) {
+      return indexedVolumes.map((trader, i) => ({
+        rank: i + 1,
+        address: shortAddress(trader.wallet),
+        wallet: trader.wallet,
+        value: formatVolume(trader.volume),
+        secondaryValue: `${trader.trades} trades`,
+        isCurrentUser: trader.wallet.toLowerCase() === userAddress?.toLowerCase(),
+      }))
+    }
+
     if (activeTab === 'referrals' && referrersData) {
       const [addresses, counts, volumes] = referrersData
       return addresses.map((addr, i) => ({
         rank: i + 1,
-        address: formatAddress(addr),
+        address: shortAddress(addr),
+        wallet: addr,
         value: `${counts[i]} referrals`,
         secondaryValue: formatVolume(volumes[i]),
         isCurrentUser: addr.toLowerCase() === userAddress?.toLowerCase(),
@@ -141,15 +178,27 @@ export function LeaderboardPage() {
       const [addresses, rois, volumes] = roiData
       return addresses.map((addr, i) => ({
         rank: i + 1,
-        address: formatAddress(addr),
+        address: shortAddress(addr),
+        wallet: addr,
         value: `${Number(rois[i]) >= 0 ? '+' : ''}${(Number(rois[i]) / 100).toFixed(1)}%`,
         secondaryValue: formatVolume(volumes[i]),
         isCurrentUser: addr.toLowerCase() === userAddress?.toLowerCase(),
       }))
     }
 
+    if (activeTab === 'cults' && cultStandings.length > 0) {
+      return cultStandings.map((standing, i) => ({
+        rank: i + 1,
+        address: `[${standing.cult.tag}] ${standing.cult.name}`,
+        cultId: standing.cult.id,
+        value: formatVolume(standing.volume),
+        secondaryValue: `${standing.members} ${standing.members === 1 ? 'member' : 'members'}`,
+        isCurrentUser: standing.cult.id === userCultId,
+      }))
+    }
+
     return PLACEHOLDER_DATA[activeTab]
-  }, [activeTab, volumeData, referrersData, roiData, userAddress, contractDeployed])
+  }, [activeTab, volumeData, indexedVolumes, referrersData, roiData, cultStandings, userCultId, userAddress, contractDeployed])
 
   const pendingRewards = useMemo(() => {
     if (!userStats) return 0n
@@ -160,6 +209,7 @@ export function LeaderboardPage() {
     { key: 'volume', label: 'Volume Kings', icon: '👑' },
     { key: 'referrals', label: 'Top Referrers', icon: '🔗' },
     { key: 'roi', label: 'Best Traders', icon: '📈' },
+    { key: 'cults', label: 'Cult Wars', icon: '🕯️' },
   ]
 
   const getRankStyle = (rank: number) => {
@@ -340,19 +390,19 @@ export function LeaderboardPage() {
                     </div>
                     <button
                       onClick={handleClaimRewards}
-                      disabled={isClaiming || isConfirming || !contractDeployed}
+                      disabled={isClaiming || !contractDeployed}
                       style={{
                         padding: '10px 20px',
-                        background: (isClaiming || isConfirming) ? '#333' : 'linear-gradient(135deg, #166534 0%, #22c55e 100%)',
+                        background: (isClaiming) ? '#333' : 'linear-gradient(135deg, #166534 0%, #22c55e 100%)',
                         border: 'none',
                         borderRadius: '8px',
                         color: '#fff',
                         fontWeight: 700,
                         fontSize: '12px',
-                        cursor: (isClaiming || isConfirming) ? 'not-allowed' : 'pointer',
+                        cursor: (isClaiming) ? 'not-allowed' : 'pointer',
                       }}
                     >
-                      {isClaiming || isConfirming ? '⏳ Claiming...' : '💰 Claim'}
+                      {isClaiming ? '⏳ Claiming...' : '💰 Claim'}
                     </button>
                   </div>
                 )}
@@ -432,16 +482,18 @@ export function LeaderboardPage() {
               textTransform: 'uppercase',
             }}>
               <div>Rank</div>
-              <div>Wallet</div>
+              <div>{activeTab === 'cults' ? 'Cult' : 'Wallet'}</div>
               <div style={{ textAlign: 'right' }}>
                 {activeTab === 'volume' && 'Volume'}
                 {activeTab === 'referrals' && 'Referrals'}
                 {activeTab === 'roi' && 'ROI'}
+                {activeTab === 'cults' && 'Member Volume'}
               </div>
               <div style={{ textAlign: 'right' }}>
                 {activeTab === 'volume' && 'Trades'}
                 {activeTab === 'referrals' && 'Volume'}
                 {activeTab === 'roi' && 'Volume'}
+                {activeTab === 'cults' && 'Members'}
               </div>
             </div>
 
@@ -486,7 +538,11 @@ export function LeaderboardPage() {
                         color: entry.isCurrentUser ? '#22c55e' : '#fff',
                         fontWeight: entry.isCurrentUser ? 700 : 400,
                       }}>
-                        {entry.address}
+                        {entry.wallet ? (
+                          <ProfileName address={entry.wallet} avatarSize={20} showRoles={false} />
+                        ) : entry.cultId !== undefined ? (
+                          <Link to={cultPath(entry.cultId)} style={{ color: 'inherit', textDecoration: 'none' }}>{entry.address}</Link>
+                        ) : entry.address}
                       </span>
                       {entry.isCurrentUser && (
                         <span style={{
@@ -497,7 +553,7 @@ export function LeaderboardPage() {
                           fontWeight: 700,
                           color: '#22c55e',
                         }}>
-                          YOU
+                          {activeTab === 'cults' ? 'YOUR CULT' : 'YOU'}
                         </span>
                       )}
                     </div>
@@ -539,7 +595,7 @@ export function LeaderboardPage() {
             </h3>
             <div style={{
               display: 'grid',
-              gridTemplateColumns: 'repeat(3, 1fr)',
+              gridTemplateColumns: 'repeat(4, 1fr)',
               gap: '20px',
               marginTop: '16px',
             }}>
@@ -564,6 +620,13 @@ export function LeaderboardPage() {
                   ROI = (Sells - Buys) / Buys. Must have 100+ PLS volume and 3+ trades.
                 </div>
               </div>
+              <div>
+                <div style={{ fontSize: '20px', marginBottom: '8px' }}>🕯️</div>
+                <div style={{ fontSize: '13px', fontWeight: 600, color: '#fff', marginBottom: '4px' }}>Cult Wars</div>
+                <div style={{ fontSize: '12px', color: '#888' }}>
+                  Every current member's volume counts toward their cult. <Link to="/cults" style={{ color: '#a855f7' }}>Join one</Link>.
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -1,24 +1,37 @@
-import { useReadContract } from 'wagmi'
+import { useMemo, useState } from 'react'
 import { Link } from 'react-router-dom'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
+import { formatEther } from 'viem'
+import { usePumpFudTokens } from '../hooks/usePumpFud'
+import { getTokenStreamUrl } from '../utils/tokenMetadata'
+import { StoredImage } from '../components/ui/StoredImage'
+import { ProfileName } from '../components/ui/ProfileName'
 
-// Mock livestream data for demo
-const mockStreams = [
-  { id: 1, title: 'PUMP IT UP!', viewers: 1243, thumbnail: '/images/logo-circle.png' },
-  { id: 2, title: 'Trading Session', viewers: 856, thumbnail: '/images/logo-circle.png' },
-  { id: 3, title: 'New Token Launch', viewers: 2100, thumbnail: '/images/logo-circle.png' },
-  { id: 4, title: 'AMA Live', viewers: 543, thumbnail: '/images/logo-circle.png' },
-  { id: 5, title: 'Chart Analysis', viewers: 321, thumbnail: '/images/logo-circle.png' },
-  { id: 6, title: 'Community Call', viewers: 876, thumbnail: '/images/logo-circle.png' },
-]
+const STREAM_SCAN_LIMIT = 200
+
+type StreamSort = 'featured' | 'marketCap'
+
+function streamHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return 'stream'
+  }
+}
 
 export function LivestreamsPage() {
-  // Get all tokens for displaying with streams
-  const { data: allTokens } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'getAllTokens',
-  })
+  const { tokens, isLoading } = usePumpFudTokens(STREAM_SCAN_LIMIT)
+  const [sort, setSort] = useState<StreamSort>('featured')
+
+  // Any token whose metadata carries a stream link, newest first unless sorted by market cap
+  const streams = useMemo(() => {
+    const live = tokens.flatMap(token => {
+      const streamUrl = getTokenStreamUrl(token.metadata)
+      return streamUrl ? [{ token, streamUrl }] : []
+    })
+    return live.sort((a, b) => sort === 'marketCap'
+      ? Number(b.token.reserveBalance - a.token.reserveBalance)
+      : b.token.createdAt - a.token.createdAt)
+  }, [tokens, sort])
 
   return (
     <div className="p-6">
@@ -29,15 +42,17 @@ export function LivestreamsPage() {
             <span className="text-pump-green">📺</span> Livestreams
           </h1>
           <div className="flex gap-2">
-            <button className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-medium text-sm">
-              Featured
-            </button>
-            <button className="px-4 py-2 rounded-lg bg-pump-dark-lighter text-pump-white-muted font-medium text-sm hover:text-white transition-colors">
-              Top Market Cap
-            </button>
-            <button className="px-4 py-2 rounded-lg bg-pump-dark-lighter text-pump-white-muted font-medium text-sm hover:text-white transition-colors">
-              Most Viewers
-            </button>
+            {([['featured', 'Featured'], ['marketCap', 'Top Market Cap']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setSort(key)}
+                className={sort === key
+                  ? 'px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-medium text-sm'
+                  : 'px-4 py-2 rounded-lg bg-pump-dark-lighter text-pump-white-muted font-medium text-sm hover:text-white transition-colors'}
+              >
+                {label}
+              </button>
+            ))}
           </div>
         </div>
         <div className="flex items-center gap-2 text-sm text-pump-white-muted">
@@ -50,20 +65,20 @@ export function LivestreamsPage() {
 
       {/* Stream Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-        {mockStreams.map((stream, index) => {
-          const tokenAddress = allTokens?.[index % (allTokens?.length || 1)]
+        {streams.map(({ token, streamUrl }) => {
+          const thumbnail = token.metadata.bannerUri || token.imageUri || '/images/logo-circle.png'
           return (
             <Link
-              key={stream.id}
-              to={tokenAddress ? `/token/${tokenAddress}` : '#'}
+              key={token.tokenAddress}
+              to={`/token/${token.tokenAddress}`}
               className="group"
             >
               <div className="bg-pump-dark-lighter rounded-xl overflow-hidden border border-pump-dark-border hover:border-pump-green transition-all">
                 {/* Thumbnail */}
                 <div className="relative aspect-video bg-pump-dark">
-                  <img
-                    src={stream.thumbnail}
-                    alt={stream.title}
+                  <StoredImage
+                    src={thumbnail}
+                    alt={token.name}
                     className="w-full h-full object-cover opacity-60"
                   />
                   {/* Live Badge */}
@@ -72,7 +87,7 @@ export function LivestreamsPage() {
                       LIVE
                     </span>
                     <span className="px-2 py-1 rounded bg-pump-dark/80 text-white text-xs">
-                      {stream.viewers.toLocaleString()} watching
+                      {streamHost(streamUrl)}
                     </span>
                   </div>
                   {/* Play Button Overlay */}
@@ -87,21 +102,23 @@ export function LivestreamsPage() {
                 <div className="p-3">
                   <div className="flex items-start gap-3">
                     <div className="w-10 h-10 rounded-full bg-pump-dark flex-shrink-0 overflow-hidden">
-                      <img
-                        src={stream.thumbnail}
+                      <StoredImage
+                        src={token.imageUri || '/images/logo-circle.png'}
                         alt=""
                         className="w-full h-full object-cover"
                       />
                     </div>
                     <div className="flex-1 min-w-0">
                       <h3 className="font-medium text-white truncate group-hover:text-pump-green transition-colors">
-                        {stream.title}
+                        {token.name}
                       </h3>
                       <p className="text-pump-white-muted text-sm truncate">
-                        Token Creator
+                        {token.metadata.tags.length > 0
+                          ? token.metadata.tags.map(tag => `#${tag}`).join(' ')
+                          : <ProfileName address={token.creator} avatarSize={0} link={false} />}
                       </p>
                       <p className="text-pump-green text-xs font-mono mt-1">
-                        MC: 1.2M PLS
+                        MC: {Number(formatEther(token.reserveBalance)).toLocaleString(undefined, { maximumFractionDigits: 0 })} PLS
                       </p>
                     </div>
                   </div>
@@ -112,13 +129,13 @@ export function LivestreamsPage() {
         })}
       </div>
 
-      {/* Coming Soon Notice */}
-      {(!allTokens || allTokens.length === 0) && (
+      {/* Empty Notice */}
+      {!isLoading && streams.length === 0 && (
         <div className="text-center py-20">
           <div className="text-6xl mb-4">📺</div>
-          <h2 className="text-2xl font-display font-bold mb-2">Livestreams Coming Soon</h2>
+          <h2 className="text-2xl font-display font-bold mb-2">No Livestreams Yet</h2>
           <p className="text-pump-white-muted">
-            Token creators will be able to stream live to their community
+            Add a stream link when you launch to show up here
           </p>
         </div>
       )}
@@ -1,11 +1,14 @@
 import { useSearchParams } from 'react-router-dom'
-import { WagmiProvider } from 'wagmi'
+import { WagmiProvider, useAccount } from 'wagmi'
+import { isAddress } from 'viem'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit'
 import { config } from '../config/wagmi'
 import { MessageBoard } from '../components/MessageBoard'
+import { useChatAccess } from '../hooks/useChatAccess'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import '@rainbow-me/rainbowkit/styles.css'
+import { addressHue } from '../utils/identity'
 
 const queryClient = new QueryClient()
 
@@ -15,11 +18,12 @@ function MessageBoardContent() {
   const tokenAddress = searchParams.get('token') || ''
   const tokenName = searchParams.get('name') || 'Token'
   const tokenSymbol = searchParams.get('symbol') || 'TKN'
-  const holderPct = parseFloat(searchParams.get('holderPct') || '0')
+  const { address } = useAccount()
+  const access = useChatAccess(isAddress(tokenAddress) ? tokenAddress : undefined, address)
+  const gate = access.messageBoard
 
   // Generate theme color from token address
-  const hash = tokenAddress ? parseInt(tokenAddress.slice(2, 8), 16) : 0
-  const hue = hash % 360
+  const hue = tokenAddress ? addressHue(tokenAddress) : 0
   const primaryColor = `hsl(${hue}, 70%, 50%)`
   const secondaryColor = `hsl(${hue}, 60%, 40%)`
 
@@ -57,7 +61,7 @@ function MessageBoardContent() {
               fontSize: '10px',
               color: '#888',
             }}>
-              ${tokenSymbol} • You hold {holderPct.toFixed(2)}%
+              ${tokenSymbol} • You hold {access.holderPercentage.toFixed(2)}%
             </span>
           </div>
         </div>
@@ -65,7 +69,7 @@ function MessageBoardContent() {
       </div>
 
       {/* Requirements Banner */}
-      {holderPct < 0.5 && (
+      {!gate.allowed && (
         <div style={{
           padding: '10px 16px',
           backgroundColor: 'rgba(139,69,19,0.2)',
@@ -81,7 +85,7 @@ function MessageBoardContent() {
             fontSize: '11px',
             color: '#b8860b',
           }}>
-            Hold 0.5%+ of {tokenSymbol} to post on the board
+            Posting locked - {gate.reason}
           </span>
         </div>
       )}
@@ -89,8 +93,8 @@ function MessageBoardContent() {
       {/* Message Board Component */}
       <div style={{ flex: 1, padding: '16px', overflow: 'auto' }}>
         <MessageBoard
+          tokenAddress={tokenAddress}
           tokenSymbol={tokenSymbol}
-          holderPercentage={holderPct}
           primaryColor={primaryColor}
           secondaryColor={secondaryColor}
         />
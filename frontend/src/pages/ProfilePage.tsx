@@ -0,0 +1,415 @@
+import { useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useAccount, useBalance, useWriteContract } from 'wagmi'
+import { formatEther, isAddress } from 'viem'
+import { PROFILE_ADDRESS, IS_PROFILE_DEPLOYED, PULSESCAN_URL } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+import {
+  useProfile,
+  useProfileSettings,
+  useNameOwner,
+  profilePath,
+  type UserProfile,
+  type ProfileBadge,
+} from '../hooks/useProfile'
+import { useIdentityRefresh } from '../hooks/useIdentity'
+import { useFollows } from '../hooks/useFollows'
+import { usePumpFudTokens } from '../hooks/usePumpFud'
+import { useTransactions } from '../hooks/useTransactions'
+import { isLocalImageUri } from '../utils/imageStorage'
+import { TokenCard } from '../components/TokenCard'
+import { StoredImage } from '../components/ui/StoredImage'
+import { ImageField } from '../components/ui/ImageField'
+import { shortAddress, identiconUri } from '../utils/identity'
+
+// Launched tokens are matched against this many of the newest tokens
+const TOKEN_SCAN_LIMIT = 200
+
+// Shown when a badge's image URI doesn't load (the default badges ship placeholder URIs)
+const BADGE_EMOJI: Record<string, string> = {
+  OG: '🗝️',
+  Whale: '🐋',
+  Creator: '🛠️',
+  Graduate: '🎓',
+  Influencer: '📣',
+  'Cult Leader': '🕯️',
+  'Diamond Hands': '💎',
+  Degen: '🎲',
+}
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length
+
+function formatPls(value: bigint): string {
+  const num = Number(formatEther(value))
+  if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(2)}B`
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function BadgeIcon({ badge }: { badge: ProfileBadge }) {
+  const [failed, setFailed] = useState(false)
+  if (failed || !badge.imageUri) {
+    return <span className="text-3xl">{BADGE_EMOJI[badge.name] ?? '🏅'}</span>
+  }
+  return (
+    <StoredImage
+      src={badge.imageUri}
+      alt={badge.name}
+      className="w-10 h-10 object-contain"
+      onError={() => setFailed(true)}
+    />
+  )
+}
+
+interface ProfileFormProps {
+  account: `0x${string}`
+  existing: UserProfile | null // Null to create a profile
+  onSaved: (displayName: string) => void
+  onCancel?: () => void
+}
+
+/**
+ * createProfile / updateProfile form. A new profile has no banner until its first edit,
+ * since createProfile doesn't take one
+ */
+function ProfileForm({ account, existing, onSaved, onCancel }: ProfileFormProps) {
+  const [displayName, setDisplayName] = useState(existing?.displayName ?? '')
+  const [avatarUri, setAvatarUri] = useState(existing?.avatarUri ?? '')
+  const [bannerUri, setBannerUri] = useState(existing?.bannerUri ?? '')
+  const [bio, setBio] = useState(existing?.bio ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { creationFee, maxNameLength, maxBioLength } = useProfileSettings()
+  const { data: balance } = useBalance({ address: account })
+  const nameOwner = useNameOwner(displayName)
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+
+  const name = displayName.trim()
+  const fee = existing ? 0n : creationFee
+
+  const errors = useMemo(() => {
+    const list: string[] = []
+    if (!name) list.push('Pick a display name')
+    else if (byteLength(name) > maxNameLength) list.push(`Display name is over ${maxNameLength} bytes`)
+    // Names share the route with addresses, so an address-shaped name could never be looked up
+    if (isAddress(name)) list.push("A display name can't be a wallet address")
+    if (nameOwner && nameOwner.toLowerCase() !== account.toLowerCase()) list.push(`"${name}" is taken`)
+    if (byteLength(bio) > maxBioLength) list.push(`Bio is over ${maxBioLength} bytes`)
+    // Browser-local uploads can't be seen by anyone else
+    if (!import.meta.env.DEV && (isLocalImageUri(avatarUri) || isLocalImageUri(bannerUri))) {
+      list.push('Images must be pinned to IPFS before they go on-chain')
+    }
+    if (fee && balance && balance.value < fee) list.push(`Creating a profile costs ${formatPls(fee)} PLS`)
+    return list
+  }, [name, bio, avatarUri, bannerUri, nameOwner, account, maxNameLength, maxBioLength, fee, balance])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (errors.length > 0 || fee === undefined) return
+    setIsSaving(true)
+    const receipt = await send({
+      label: existing ? 'Update profile' : 'Create profile',
+      execute: () => existing
+        ? writeContractAsync({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'updateProfile',
+          args: [name, avatarUri, bannerUri, bio],
+        })
+        : writeContractAsync({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'createProfile',
+          args: [name, avatarUri, bio],
+          value: fee,
+        }),
+    })
+    setIsSaving(false)
+    if (receipt) onSaved(name)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border p-6 space-y-4">
+      <h2 className="font-display font-bold text-lg">{existing ? 'Edit Profile' : 'Create Your Profile'}</h2>
+
+      <div>
+        <label className="block text-sm text-pump-white-muted mb-2">
+          Display name <span className="text-xs">({byteLength(name)}/{maxNameLength})</span>
+        </label>
+        <input
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          placeholder="degen_king"
+          className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none"
+        />
+      </div>
+
+      <ImageField label="Avatar" uri={avatarUri} square onChange={setAvatarUri} />
+      {existing && <ImageField label="Banner" uri={bannerUri} square={false} onChange={setBannerUri} />}
+
+      <div>
+        <label className="block text-sm text-pump-white-muted mb-2">
+          Bio <span className="text-xs">({byteLength(bio)}/{maxBioLength})</span>
+        </label>
+        <textarea
+          value={bio}
+          onChange={(e) => setBio(e.target.value)}
+          rows={4}
+          placeholder="Tell the realm who you are"
+          className="w-full px-3 py-2 rounded-lg bg-pump-dark border border-pump-dark-border focus:border-pump-green outline-none resize-none"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-400 space-y-1">
+          {errors.map(error => <li key={error}>• {error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-pump-white-muted">
+          {existing ? 'Free to update' : fee === undefined ? 'Loading fee...' : fee > 0n ? `Fee: ${formatPls(fee)} PLS` : 'Free to create'}
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg bg-pump-dark text-pump-white-muted hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving || errors.length > 0 || fee === undefined}
+            className="px-4 py-2 rounded-lg bg-pump-green text-pump-dark font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : existing ? 'Save' : 'Create Profile'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
+
+export function ProfilePage() {
+  const { addressOrName } = useParams<{ addressOrName: string }>()
+  const navigate = useNavigate()
+  const { address: account } = useAccount()
+  const { wallet, profile, stats, badges, isLoading, refetch } = useProfile(addressOrName)
+  const refreshIdentity = useIdentityRefresh()
+  const { premiumFee } = useProfileSettings()
+  const { tokens } = usePumpFudTokens(TOKEN_SCAN_LIMIT)
+  const { writeContractAsync } = useWriteContract()
+  const { send } = useTransactions()
+  const [isEditing, setIsEditing] = useState(false)
+  const [isUpgrading, setIsUpgrading] = useState(false)
+  const { isFollowing, isFollowingOnChain, toggleFollow, pending: pendingFollow } = useFollows()
+
+  const isOwn = !!wallet && !!account && wallet.toLowerCase() === account.toLowerCase()
+
+  const launched = useMemo(
+    () => (wallet ? tokens.filter(t => t.creator.toLowerCase() === wallet.toLowerCase()) : []),
+    [tokens, wallet]
+  )
+
+  // A rename moves the profile's name route
+  const handleSaved = (displayName: string) => {
+    setIsEditing(false)
+    if (wallet) refreshIdentity(wallet)
+    if (addressOrName && !isAddress(addressOrName)) navigate(profilePath(displayName), { replace: true })
+    else refetch()
+  }
+
+  const handleUpgrade = async () => {
+    if (premiumFee === undefined) return
+    setIsUpgrading(true)
+    const receipt = await send({
+      label: 'Upgrade to premium',
+      execute: () => writeContractAsync({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'upgradeToPremium',
+        value: premiumFee,
+      }),
+    })
+    setIsUpgrading(false)
+    if (!receipt) return
+    refetch()
+    if (wallet) refreshIdentity(wallet)
+  }
+
+  const handleFollow = async () => {
+    if (!wallet) return
+    await toggleFollow(wallet)
+    refetch()
+  }
+
+  if (!wallet) {
+    return (
+      <div className="p-6 text-center text-pump-white-muted">
+        {isLoading ? 'Loading profile...' : `No profile named "${addressOrName}"`}
+      </div>
+    )
+  }
+
+  const statTiles = [
+    { label: 'Reputation', value: stats ? stats.reputation.toLocaleString() : '-', color: 'text-pump-gold' },
+    { label: 'Tokens Launched', value: stats ? String(stats.tokensLaunched) : '-', color: 'text-pump-green' },
+    { label: 'Graduations', value: stats ? String(stats.tokensGraduated) : '-', color: 'text-tier-2' },
+    { label: 'Volume', value: stats ? `${formatPls(stats.totalVolume)} PLS` : '-', color: 'text-tier-1' },
+    { label: 'Tips Received', value: stats ? `${formatPls(stats.totalTips)} PLS` : '-', color: 'text-tier-4' },
+    { label: 'Followers', value: stats ? String(stats.followerCount) : '-', color: 'text-pump-white' },
+  ]
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      {!IS_PROFILE_DEPLOYED && (
+        <div className="p-3 rounded-lg bg-orange-500/10 border border-orange-500/30 text-orange-400 text-sm text-center">
+          ⚠️ Profiles are not enabled on this deployment - set VITE_PROFILE_ADDRESS
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border overflow-hidden">
+        <div className="h-32 bg-gradient-to-r from-pump-purple-deep via-pump-midnight to-pump-dark relative">
+          {profile?.bannerUri && (
+            <StoredImage src={profile.bannerUri} alt="" className="w-full h-full object-cover" />
+          )}
+        </div>
+        <div className="px-6 pb-6 -mt-10 flex items-end gap-4 flex-wrap">
+          <div className="w-20 h-20 rounded-full border-4 border-pump-dark-lighter bg-pump-dark overflow-hidden flex items-center justify-center shrink-0 relative">
+            <StoredImage src={profile?.avatarUri || identiconUri(wallet)} alt="" className="w-full h-full object-cover" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="font-display font-bold text-2xl truncate">
+                {profile?.displayName || shortAddress(wallet)}
+              </h1>
+              {profile?.isVerified && (
+                <span className="px-2 py-0.5 rounded bg-tier-1/20 text-tier-1 text-xs font-bold">✓ Verified</span>
+              )}
+              {profile?.isPremium && (
+                <span className="px-2 py-0.5 rounded bg-pump-gold/20 text-pump-gold text-xs font-bold">⭐ Premium</span>
+              )}
+              {isOwn && (
+                <span className="px-2 py-0.5 rounded bg-pump-green/20 text-pump-green text-xs font-bold">YOU</span>
+              )}
+            </div>
+            <div className="flex items-center gap-3 text-sm text-pump-white-muted">
+              <a
+                href={`${PULSESCAN_URL}/address/${wallet}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono hover:text-pump-green transition-colors"
+              >
+                {shortAddress(wallet)} ↗
+              </a>
+              {profile && <span>Joined {new Date(profile.createdAt * 1000).toLocaleDateString()}</span>}
+            </div>
+          </div>
+          {!isOwn && account && (
+            <button
+              onClick={handleFollow}
+              disabled={pendingFollow === wallet.toLowerCase()}
+              title={isFollowing(wallet) && !isFollowingOnChain(wallet) ? 'Followed on this device only' : undefined}
+              className={`px-4 py-2 rounded-lg border text-sm font-bold transition-colors disabled:opacity-50 ${
+                isFollowing(wallet)
+                  ? 'bg-pump-dark border-pump-dark-border text-pump-white-muted hover:border-red-500 hover:text-red-400'
+                  : 'bg-tier-4/20 border-tier-4/40 text-tier-4 hover:bg-tier-4/30'
+              }`}
+            >
+              {pendingFollow === wallet.toLowerCase() ? '...' : isFollowing(wallet) ? '★ Following' : '☆ Follow'}
+            </button>
+          )}
+          {isOwn && profile && !isEditing && (
+            <div className="flex gap-2">
+              {!profile.isPremium && (
+                <button
+                  onClick={handleUpgrade}
+                  disabled={isUpgrading || premiumFee === undefined}
+                  className="px-4 py-2 rounded-lg bg-pump-gold/20 border border-pump-gold/40 text-pump-gold text-sm font-bold disabled:opacity-50"
+                >
+                  {isUpgrading ? 'Upgrading...' : `⭐ Premium${premiumFee !== undefined ? ` (${formatPls(premiumFee)} PLS)` : ''}`}
+                </button>
+              )}
+              <button
+                onClick={() => setIsEditing(true)}
+                className="px-4 py-2 rounded-lg bg-pump-dark border border-pump-dark-border text-sm hover:border-pump-green transition-colors"
+              >
+                ✏️ Edit
+              </button>
+            </div>
+          )}
+        </div>
+        {profile?.bio && (
+          <p className="px-6 pb-6 text-pump-white-muted whitespace-pre-wrap break-words">{profile.bio}</p>
+        )}
+      </div>
+
+      {/* Create / edit */}
+      {IS_PROFILE_DEPLOYED && isOwn && account && profile === null && (
+        <ProfileForm account={account} existing={null} onSaved={handleSaved} />
+      )}
+      {isOwn && account && profile && isEditing && (
+        <ProfileForm
+          account={account}
+          existing={profile}
+          onSaved={handleSaved}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {statTiles.map(tile => (
+          <div key={tile.label} className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border p-4 text-center">
+            <div className={`font-mono font-bold text-lg ${tile.color}`}>{tile.value}</div>
+            <div className="text-xs text-pump-white-muted">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Badge shelf */}
+      <div className="bg-pump-dark-lighter rounded-xl border border-pump-dark-border p-4">
+        <h2 className="font-display font-bold mb-3">🏅 Badges</h2>
+        {badges.length === 0 ? (
+          <p className="text-sm text-pump-white-muted">No badges earned yet</p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {badges.map(badge => (
+              <div
+                key={badge.id}
+                title={badge.description}
+                className="w-24 p-3 rounded-lg bg-pump-dark border border-pump-dark-border flex flex-col items-center gap-2 text-center"
+              >
+                <div className="h-10 flex items-center justify-center">
+                  <BadgeIcon badge={badge} />
+                </div>
+                <span className="text-xs font-medium">{badge.name}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Launched tokens */}
+      <div>
+        <h2 className="font-display font-bold mb-3">
+          🚀 Launched Tokens <span className="text-pump-white-muted text-sm font-normal">({launched.length})</span>
+        </h2>
+        {launched.length === 0 ? (
+          <p className="text-sm text-pump-white-muted">No tokens launched yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {launched.map(token => <TokenCard key={token.tokenAddress} tokenAddress={token.tokenAddress} />)}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
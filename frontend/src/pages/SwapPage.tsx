@@ -1,54 +1,179 @@
-import { useState } from 'react'
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useBalance } from 'wagmi'
+import { useState, useMemo } from 'react'
+import { useAccount, useBalance, useReadContract } from 'wagmi'
 import { parseEther, formatEther } from 'viem'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
+import { usePumpFudTokens } from '../hooks/usePumpFud'
+import { useLimitOrders } from '../hooks/useLimitOrders'
+import { useSwapQuote, useSwapExecute, NATIVE_PLS, SWAP_VENUES } from '../hooks/useSwap'
+import { useTradeSettings, applySlippage, formatPresetLabel } from '../hooks/useTradeSettings'
+import { LimitOrderForm, MyOrders } from '../components/LimitOrders'
+import { TradeSettingsMenu } from '../components/TradeSettingsMenu'
+import { shortAddress } from '../utils/identity'
+
+const ERC20_ABI = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const
+
+// Price impact thresholds in basis points
+const IMPACT_WARNING_BPS = 300n
+const IMPACT_DANGER_BPS = 1000n
+
+interface SwapToken {
+  address: `0x${string}`
+  symbol: string
+}
+
+const PLS_TOKEN: SwapToken = { address: NATIVE_PLS, symbol: 'PLS' }
+
+function parseAmount(value: string): bigint | undefined {
+  try {
+    const amount = parseEther(value.trim())
+    return amount > 0n ? amount : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const formatAmount = (value: bigint, digits = 4) =>
+  Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: digits })
 
 export function SwapPage() {
   const { address, isConnected } = useAccount()
+  const [tab, setTab] = useState<'market' | 'limit'>('market')
   const [sellAmount, setSellAmount] = useState('')
-  const [selectedTokenId, setSelectedTokenId] = useState<bigint | null>(null)
+  const [tokenInAddress, setTokenInAddress] = useState<`0x${string}`>(NATIVE_PLS)
+  const [tokenOutAddress, setTokenOutAddress] = useState<`0x${string}` | null>(null)
+  const [limitTokenAddress, setLimitTokenAddress] = useState<`0x${string}` | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [lastSwapHash, setLastSwapHash] = useState<`0x${string}` | null>(null)
+  const { settings } = useTradeSettings()
+  const { slippageBps, maxQuoteAgeSeconds } = settings
 
   // Get all tokens for selector
-  const { data: allTokens } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'getAllTokens',
-    args: [0n, 50n],
-  })
+  const { tokens: allTokens } = usePumpFudTokens(50)
+
+  // PLS plus every pump.fud token - PumpFudSwap routes any pair it can find a venue for,
+  // the curve alone only fills PLS pairs
+  const swapTokens = useMemo<SwapToken[]>(
+    () => [PLS_TOKEN, ...allTokens.map(t => ({ address: t.tokenAddress, symbol: t.symbol }))],
+    [allTokens]
+  )
+  const tokenIn = swapTokens.find(t => t.address === tokenInAddress)
+  const tokenOut = swapTokens.find(t => t.address === tokenOutAddress)
+
+  // The pump.fud side of a PLS pair, for curve trades when PumpFudSwap isn't deployed
+  const curveToken = allTokens.find(t => t.tokenAddress === (tokenInAddress === NATIVE_PLS ? tokenOutAddress : tokenInAddress))
+
+  // Get selected limit token info
+  const limitToken = allTokens.find(t => t.tokenAddress === limitTokenAddress)
+
+  // Limit orders across every token the wallet has positions in
+  const limitOrders = useLimitOrders(address)
+  const tokenSymbols = useMemo(
+    () => Object.fromEntries(allTokens.map(t => [t.tokenAddress.toLowerCase(), t.symbol])),
+    [allTokens]
+  )
 
-  // PLS balance
+  // Balance of whatever is being sold
   const { data: plsBalance } = useBalance({
     address: address,
   })
-
-  // Buy quote
-  const { data: buyQuote } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'calculateBuyAmount',
-    args: sellAmount && selectedTokenId !== null ? [selectedTokenId, parseEther(sellAmount)] : undefined,
-    query: { enabled: !!sellAmount && selectedTokenId !== null && Number(sellAmount) > 0 },
+  const { data: tokenInBalance } = useReadContract({
+    address: tokenInAddress,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+    query: { enabled: !!address && tokenInAddress !== NATIVE_PLS },
   })
+  const balanceIn = tokenInAddress === NATIVE_PLS ? plsBalance?.value : tokenInBalance
+
+  const amountIn = parseAmount(sellAmount)
+  const quote = useSwapQuote(tokenInAddress, tokenOutAddress ?? undefined, amountIn)
+  const { swap, pending, error } = useSwapExecute(address)
+
+  const minAmountOut = quote.amountOut !== undefined ? applySlippage(quote.amountOut, slippageBps) : undefined
+  const insufficientBalance = !!amountIn && balanceIn !== undefined && amountIn > balanceIn
+  const impact = quote.priceImpactBps
+  const impactLevel = impact === undefined ? 'none'
+    : impact >= IMPACT_DANGER_BPS ? 'danger'
+    : impact >= IMPACT_WARNING_BPS ? 'warning'
+    : 'none'
+  const noRoute = !!amountIn && !!tokenOut && !quote.isLoading && quote.amountOut !== undefined && !quote.venue
+
+  const handleFlip = () => {
+    if (!tokenOutAddress) return
+    setTokenInAddress(tokenOutAddress)
+    setTokenOutAddress(tokenInAddress)
+    setSellAmount('')
+  }
+
+  const handleSelectIn = (value: `0x${string}`) => {
+    if (value === tokenOutAddress) setTokenOutAddress(tokenInAddress)
+    setTokenInAddress(value)
+  }
+
+  const handleSelectOut = (value: `0x${string}` | null) => {
+    if (value === tokenInAddress) setTokenInAddress(tokenOutAddress ?? NATIVE_PLS)
+    setTokenOutAddress(value)
+  }
+
+  const setMaxAmount = () => {
+    if (balanceIn === undefined) return
+    // Leave some PLS for gas
+    const gasReserve = parseEther('100')
+    const max = tokenInAddress === NATIVE_PLS ? (balanceIn > gasReserve ? balanceIn - gasReserve : 0n) : balanceIn
+    setSellAmount(formatEther(max))
+  }
+
+  const setPercentAmount = (pct: number) => {
+    if (balanceIn === undefined) return
+    setSellAmount(formatEther((balanceIn * BigInt(pct)) / 100n))
+  }
+
+  const handleSwap = async () => {
+    if (!amountIn || !tokenOutAddress || minAmountOut === undefined || !quote.venue) return
+    setNotice(null)
+    setLastSwapHash(null)
+
+    // Never sign against a stale quote - refresh it and let the user look again
+    if (Date.now() - quote.quotedAt > maxQuoteAgeSeconds * 1000) {
+      quote.refetch()
+      setNotice('Quote expired - review the refreshed quote and swap again')
+      return
+    }
 
-  // Buy transaction
-  const { writeContract, data: hash, isPending } = useWriteContract()
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash })
-
-  const handleSwap = () => {
-    if (!sellAmount || selectedTokenId === null || !buyQuote) return
-    const minOut = (buyQuote * 95n) / 100n // 5% slippage
-    writeContract({
-      address: PUMP_FUD_ADDRESS,
-      abi: PUMP_FUD_ABI,
-      functionName: 'buyTokens',
-      args: [selectedTokenId, minOut],
-      value: parseEther(sellAmount),
+    const hash = await swap({
+      tokenIn: tokenInAddress,
+      tokenOut: tokenOutAddress,
+      amountIn,
+      minAmountOut,
+      symbolIn: tokenIn?.symbol ?? 'token',
+      symbolOut: tokenOut?.symbol ?? 'token',
+      curveToken,
     })
+    if (hash) {
+      setLastSwapHash(hash)
+      setSellAmount('')
+    }
   }
 
-  // Get selected token info
-  const selectedToken = allTokens?.find(t => t.id === selectedTokenId)
+  const isBusy = pending !== null
+  const swapLabel = pending === 'approve' ? `Approving ${tokenIn?.symbol ?? ''}...`
+    : pending === 'swap' ? 'Swapping...'
+    : !tokenOut ? 'Select a token'
+    : !amountIn ? 'Enter an amount'
+    : insufficientBalance ? `Insufficient ${tokenIn?.symbol ?? ''} balance`
+    : noRoute ? 'No route for this pair'
+    : impactLevel === 'danger' ? 'Swap anyway'
+    : 'Swap'
+
+  const tokenSelectClass = 'bg-pump-dark-lighter px-3 py-2 rounded-lg border border-pump-dark-border text-white focus:border-pump-green outline-none cursor-pointer'
 
   return (
     <div className="min-h-screen flex items-start justify-center pt-20">
@@ -63,20 +188,65 @@ export function SwapPage() {
 
         {/* Swap Card */}
         <div className="bg-pump-dark-lighter rounded-2xl p-6 border border-pump-dark-border">
-          {/* Settings Icon */}
-          <div className="flex justify-end mb-4">
-            <button className="text-pump-white-muted hover:text-white transition-colors">
-              ⚙️
-            </button>
+          {/* Market / Limit tabs + Settings */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex gap-1">
+              {(['market', 'limit'] as const).map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-colors ${
+                    tab === t ? 'bg-pump-green/20 text-pump-green' : 'text-pump-white-muted hover:text-white'
+                  }`}
+                >
+                  {t === 'market' ? 'Market' : 'Limit'}
+                </button>
+              ))}
+            </div>
+            {tab === 'market' && (
+              <TradeSettingsMenu />
+            )}
           </div>
 
+          {tab === 'limit' ? (
+            <div className="space-y-4">
+              <select
+                value={limitTokenAddress || ''}
+                onChange={(e) => setLimitTokenAddress(e.target.value ? e.target.value as `0x${string}` : null)}
+                className="w-full bg-pump-dark px-3 py-3 rounded-lg border border-pump-dark-border text-white focus:border-pump-green outline-none cursor-pointer"
+              >
+                <option value="">Select token</option>
+                {allTokens.map((token) => (
+                  <option key={token.tokenAddress} value={token.tokenAddress}>
+                    {token.symbol} ({shortAddress(token.tokenAddress)})
+                  </option>
+                ))}
+              </select>
+              {limitToken ? (
+                <LimitOrderForm
+                  orders={limitOrders}
+                  tokenAddress={limitToken.tokenAddress}
+                  tokenSymbol={limitToken.symbol}
+                  isConnected={isConnected}
+                />
+              ) : (
+                <div className="text-center text-sm text-pump-white-muted py-4">Select a token to place a limit order</div>
+              )}
+              {!isConnected && (
+                <div className="flex justify-center">
+                  <ConnectButton />
+                </div>
+              )}
+            </div>
+          ) : (
+          <>
           {/* Sell Input */}
           <div className="bg-pump-dark rounded-xl p-4 mb-2">
             <div className="flex justify-between text-sm text-pump-white-muted mb-2">
               <span>Sell</span>
-              <span>
-                Balance: {plsBalance ? Number(formatEther(plsBalance.value)).toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0'} PLS
-              </span>
+              <button onClick={setMaxAmount} className="hover:text-pump-green transition-colors">
+                Balance: {balanceIn !== undefined ? formatAmount(balanceIn, 2) : '0'} {tokenIn?.symbol}
+              </button>
             </div>
             <div className="flex items-center gap-4">
               <input
@@ -84,60 +254,135 @@ export function SwapPage() {
                 value={sellAmount}
                 onChange={(e) => setSellAmount(e.target.value)}
                 placeholder="0"
-                className="flex-1 bg-transparent text-3xl font-mono text-white placeholder-pump-dark-border focus:outline-none"
+                className="flex-1 min-w-0 bg-transparent text-3xl font-mono text-white placeholder-pump-dark-border focus:outline-none"
               />
-              <div className="flex items-center gap-2 bg-pump-dark-lighter px-3 py-2 rounded-lg">
-                <div className="w-6 h-6 rounded-full bg-gradient-to-br from-purple-500 to-blue-500" />
-                <span className="font-medium">PLS</span>
-              </div>
+              <select
+                value={tokenInAddress}
+                onChange={(e) => handleSelectIn(e.target.value as `0x${string}`)}
+                className={tokenSelectClass}
+              >
+                {swapTokens.map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {/* Quick amounts - PLS presets when buying, balance percentages when selling a token */}
+            <div className="flex gap-2 mt-3">
+              {tokenInAddress === NATIVE_PLS
+                ? settings.buyPresets.map((preset) => (
+                    <button
+                      key={preset}
+                      onClick={() => setSellAmount(preset)}
+                      className="flex-1 py-1 rounded-lg bg-pump-dark-lighter text-xs font-mono text-pump-white-muted hover:text-pump-green transition-colors"
+                    >
+                      {formatPresetLabel(preset)}
+                    </button>
+                  ))
+                : settings.sellPresetsPct.map((pct) => (
+                    <button
+                      key={pct}
+                      onClick={() => setPercentAmount(pct)}
+                      disabled={balanceIn === undefined}
+                      className="flex-1 py-1 rounded-lg bg-pump-dark-lighter text-xs font-mono text-pump-white-muted hover:text-pump-green transition-colors disabled:opacity-50"
+                    >
+                      {pct === 100 ? 'MAX' : `${pct}%`}
+                    </button>
+                  ))}
             </div>
           </div>
 
-          {/* Swap Arrow */}
+          {/* Flip */}
           <div className="flex justify-center -my-2 relative z-10">
-            <button className="w-10 h-10 rounded-xl bg-pump-dark-lighter border border-pump-dark-border flex items-center justify-center text-pump-white-muted hover:text-pump-green transition-colors">
+            <button
+              onClick={handleFlip}
+              disabled={!tokenOutAddress}
+              title="Reverse direction"
+              className="w-10 h-10 rounded-xl bg-pump-dark-lighter border border-pump-dark-border flex items-center justify-center text-pump-white-muted hover:text-pump-green transition-colors disabled:opacity-50"
+            >
               ↓
             </button>
           </div>
 
-          {/* Buy Input */}
+          {/* Buy Output */}
           <div className="bg-pump-dark rounded-xl p-4 mt-2">
             <div className="flex justify-between text-sm text-pump-white-muted mb-2">
               <span>Buy</span>
+              {quote.venue && (
+                <span
+                  title={SWAP_VENUES[quote.venue].description}
+                  className="px-2 py-0.5 rounded bg-pump-green/10 text-pump-green text-xs font-bold"
+                >
+                  via {SWAP_VENUES[quote.venue].label}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-4">
               <input
                 type="text"
-                value={buyQuote ? Number(formatEther(buyQuote)).toLocaleString(undefined, { maximumFractionDigits: 4 }) : '0'}
+                value={quote.isLoading ? '...' : quote.amountOut ? formatAmount(quote.amountOut) : '0'}
                 readOnly
                 placeholder="0"
-                className="flex-1 bg-transparent text-3xl font-mono text-white placeholder-pump-dark-border focus:outline-none"
+                className="flex-1 min-w-0 bg-transparent text-3xl font-mono text-white placeholder-pump-dark-border focus:outline-none"
               />
               <select
-                value={selectedTokenId?.toString() || ''}
-                onChange={(e) => setSelectedTokenId(e.target.value ? BigInt(e.target.value) : null)}
-                className="bg-pump-dark-lighter px-3 py-2 rounded-lg border border-pump-dark-border text-white focus:border-pump-green outline-none cursor-pointer"
+                value={tokenOutAddress || ''}
+                onChange={(e) => handleSelectOut(e.target.value ? e.target.value as `0x${string}` : null)}
+                className={tokenSelectClass}
               >
                 <option value="">Select token</option>
-                {allTokens?.map((token) => (
-                  <option key={token.id.toString()} value={token.id.toString()}>
-                    {token.symbol} ({token.tokenAddress.slice(0, 6)}...{token.tokenAddress.slice(-4)})
+                {swapTokens.map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol}
+                    {token.address !== NATIVE_PLS && ` (${shortAddress(token.address)})`}
                   </option>
                 ))}
               </select>
             </div>
           </div>
 
-          {/* Selected Token Info */}
-          {selectedToken && (
-            <div className="mt-4 p-3 bg-pump-dark rounded-lg text-sm">
+          {/* Route Details */}
+          {amountIn && tokenIn && tokenOut && quote.amountOut !== undefined && quote.venue && (
+            <div className="mt-4 p-3 bg-pump-dark rounded-lg text-sm space-y-1">
+              <div className="flex justify-between text-pump-white-muted">
+                <span>Rate</span>
+                <span className="font-mono text-white">
+                  1 {tokenIn.symbol} = {formatAmount((quote.amountOut * 10n ** 18n) / amountIn, 6)} {tokenOut.symbol}
+                </span>
+              </div>
+              <div className="flex justify-between text-pump-white-muted">
+                <span>Minimum received ({slippageBps / 100}% slippage)</span>
+                <span className="font-mono text-white">
+                  {minAmountOut !== undefined ? formatAmount(minAmountOut) : '-'} {tokenOut.symbol}
+                </span>
+              </div>
               <div className="flex justify-between text-pump-white-muted">
-                <span>Token</span>
-                <span className="text-pump-green">{selectedToken.name}</span>
+                <span>Price impact</span>
+                <span
+                  className={`font-mono ${
+                    impactLevel === 'danger' ? 'text-tier-5' : impactLevel === 'warning' ? 'text-tier-3' : 'text-pump-green'
+                  }`}
+                >
+                  {impact !== undefined ? `${(Number(impact > 0n ? impact : 0n) / 100).toFixed(2)}%` : '-'}
+                </span>
               </div>
             </div>
           )}
 
+          {/* Price Impact Warning */}
+          {impactLevel !== 'none' && impact !== undefined && (
+            <div
+              className={`mt-3 p-3 rounded-lg text-sm ${
+                impactLevel === 'danger' ? 'bg-tier-5/15 text-tier-5' : 'bg-tier-3/15 text-tier-3'
+              }`}
+            >
+              {impactLevel === 'danger'
+                ? `Price impact is ${(Number(impact) / 100).toFixed(1)}% - this trade moves the price sharply against you. Consider a smaller amount.`
+                : `Price impact is ${(Number(impact) / 100).toFixed(1)}% for this size.`}
+            </div>
+          )}
+
           {/* Swap Button */}
           <div className="mt-6">
             {!isConnected ? (
@@ -147,21 +392,42 @@ export function SwapPage() {
             ) : (
               <button
                 onClick={handleSwap}
-                disabled={!sellAmount || selectedTokenId === null || isPending || isConfirming}
-                className="w-full py-4 rounded-xl gradient-button text-pump-dark font-display font-bold text-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!amountIn || !tokenOut || !quote.venue || insufficientBalance || isBusy}
+                className={`w-full py-4 rounded-xl font-display font-bold text-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                  impactLevel === 'danger' ? 'bg-tier-5 text-white' : 'gradient-button text-pump-dark'
+                }`}
               >
-                {isPending || isConfirming ? 'Swapping...' : 'Swap'}
+                {swapLabel}
               </button>
             )}
           </div>
 
-          {isSuccess && (
+          {notice && <div className="mt-4 text-center text-tier-3 text-sm">{notice}</div>}
+          {error && <div className="mt-4 text-center text-tier-5 text-sm break-words">{error}</div>}
+          {lastSwapHash && (
             <div className="mt-4 text-center text-pump-green text-sm">
-              Swap successful!
+              Swap successful!{' '}
+              <a
+                href={`https://scan.pulsechain.com/tx/${lastSwapHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline"
+              >
+                View on PulseScan
+              </a>
             </div>
           )}
+          </>
+          )}
         </div>
 
+        {/* My Orders */}
+        {tab === 'limit' && isConnected && limitOrders.isAvailable && (
+          <div className="mt-4 bg-pump-dark-lighter rounded-2xl p-6 border border-pump-dark-border">
+            <MyOrders orders={limitOrders} tokenSymbols={tokenSymbols} />
+          </div>
+        )}
+
         {/* Footer */}
         <div className="text-center mt-8 text-xs text-pump-dark-border">
           support
@@ -1,32 +1,38 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useBalance } from 'wagmi'
+import { useAccount, useReadContract, useWriteContract, useBalance } from 'wagmi'
 import { formatEther, parseEther, isAddress } from 'viem'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI, LEADERBOARD_ADDRESS, LEADERBOARD_ABI } from '../config/wagmi'
+import { ACTIVE_PUMP_FUD_ADDRESS, LEADERBOARD_ADDRESS, LEADERBOARD_ABI } from '../config/wagmi'
 import { CandlestickChart } from '../components/CandlestickChart'
 import { TransactionFeed } from '../components/TransactionFeed'
 import { MessageBoard } from '../components/MessageBoard'
+import { ModerationPanel } from '../components/ModerationPanel'
+import { ThemedParticles } from '../components/ThemedParticles'
+import { TokenHeaderIdentity } from '../components/TokenHeaderIdentity'
 import { DraggableResizableBox } from '../components/ui/DraggableResizableBox'
 import { FrameSelector } from '../components/ui/FrameSelector'
+import { StoredImage } from '../components/ui/StoredImage'
 import { SharedUIManager } from '../components/ui/SharedUIManager'
 import { FeeVerification } from '../components/ui/FeeVerification'
 import { AdCarousel } from '../components/ui/AdCarousel'
 import { useLayout } from '../context/LayoutContext'
+import { useTransactions } from '../hooks/useTransactions'
 import { useCustomFrames } from '../hooks/useCustomFrames'
+import { useLatestTokenEvent } from '../hooks/useEventIndexer'
+import { usePumpFudToken, useBuyQuote, useSellQuote, usePumpFudWrite } from '../hooks/usePumpFud'
+import { useGraduationProgress, formatGraduationEta } from '../hooks/useGraduationProgress'
+import { useChatAccess } from '../hooks/useChatAccess'
+import { useModeration } from '../hooks/useModeration'
+import { useTokenTheme } from '../hooks/useTokenTheme'
+import { useTradeSettings, applySlippage, formatPresetLabel } from '../hooks/useTradeSettings'
+import { AD_LOCATION } from '../hooks/useAdSpaces'
+import { IS_PUMP_FUD_V2, estimateBurnPls } from '../utils/pumpFud'
+import { getTokenStreamUrl } from '../utils/tokenMetadata'
+import { getNarrativeTitles } from '../utils/themeGenerator'
+import { BurnHistory } from '../components/BurnHistory'
 import { DashboardProvider, DashboardControls, CollapsibleStatsBar, useDashboard } from '../components/Dashboard'
-
-interface SocialLinks {
-  twitter?: string
-  telegram?: string
-  website?: string
-  discord?: string
-  instagram?: string
-  livestreamUrl?: string
-  youtubeStream?: string
-  twitch?: string
-  kick?: string
-}
+import { TokenRolesProvider } from '../context/TokenRolesContext'
 
 // Parse livestream URL and return embed URL
 function getLivestreamEmbed(url: string): { embedUrl: string; platform: string } | null {
@@ -59,11 +65,6 @@ function getLivestreamEmbed(url: string): { embedUrl: string; platform: string }
   return null
 }
 
-interface TokenMetadata {
-  description?: string
-  socials?: SocialLinks
-}
-
 const ERC20_ABI = [
   {
     name: 'balanceOf',
@@ -136,7 +137,10 @@ export function TokenDashboard() {
   const { address: userAddress, isConnected } = useAccount()
   const [activeTab, setActiveTab] = useState<'buy' | 'sell' | 'burn'>('buy')
   const [amount, setAmount] = useState('')
-  const [slippage, setSlippage] = useState('5')
+  const { settings: tradeSettings, update: updateTradeSettings } = useTradeSettings()
+  // Burn tab: redeem through PumpFudV2.burn (returns PLS) or send to the dead address (returns nothing)
+  const [burnMode, setBurnMode] = useState<'redeem' | 'dead'>(IS_PUMP_FUD_V2 ? 'redeem' : 'dead')
+  const [deadBurnConfirmed, setDeadBurnConfirmed] = useState(false)
   const [referralRegistered, setReferralRegistered] = useState(false)
   const [showLivestream, setShowLivestream] = useState(true)
 
@@ -178,7 +182,8 @@ export function TokenDashboard() {
   })
 
   // Register referrer from URL param
-  const { writeContract: registerRef, isPending: isRegisteringRef } = useWriteContract()
+  const { send } = useTransactions()
+  const { writeContractAsync: registerRef, isPending: isRegisteringRef } = useWriteContract()
 
   useEffect(() => {
     if (
@@ -192,51 +197,63 @@ export function TokenDashboard() {
       !referralRegistered &&
       !isRegisteringRef
     ) {
-      registerRef({
-        address: LEADERBOARD_ADDRESS,
-        abi: LEADERBOARD_ABI,
-        functionName: 'registerReferrer',
-        args: [refParam as `0x${string}`],
+      const referrerAddress = refParam as `0x${string}`
+      void send({
+        label: 'Register referrer',
+        execute: () => registerRef({
+          address: LEADERBOARD_ADDRESS,
+          abi: LEADERBOARD_ABI,
+          functionName: 'registerReferrer',
+          args: [referrerAddress],
+        }),
       })
       setReferralRegistered(true)
     }
-  }, [leaderboardDeployed, isConnected, userAddress, refParam, existingReferrer, referralRegistered, isRegisteringRef, registerRef])
-
-  const { data: tokenData, isLoading } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'getTokenByAddress',
-    args: tokenAddress ? [tokenAddress] : undefined,
-    query: {
-      refetchInterval: 5000, // Poll every 5 seconds for live updates
-    },
-  })
+  }, [leaderboardDeployed, isConnected, userAddress, refParam, existingReferrer, referralRegistered, isRegisteringRef, registerRef, send])
+
+  // V2 pays referral fees on each trade - prefer the registered referrer, else the ?ref= link
+  const referrer = useMemo(() => {
+    if (existingReferrer && existingReferrer !== '0x0000000000000000000000000000000000000000') return existingReferrer
+    if (refParam && isAddress(refParam) && refParam.toLowerCase() !== userAddress?.toLowerCase()) return refParam
+    return undefined
+  }, [existingReferrer, refParam, userAddress])
+
+  const { token: tokenData, isLoading, refetch: refetchToken } = usePumpFudToken(
+    tokenAddress,
+    60000 // Safety net - trades below trigger the live refetch
+  )
+
+  // Refetch reserves as soon as the shared indexer sees this token trade or graduate
+  const latestTokenEvent = useLatestTokenEvent(tokenData?.tokenAddress)
+  useEffect(() => {
+    if (latestTokenEvent) refetchToken()
+  }, [latestTokenEvent, refetchToken])
 
   const token = useMemo(() => {
     if (!tokenData) return null
-    let metadata: TokenMetadata = {}
-    try {
-      metadata = JSON.parse(tokenData.description)
-    } catch {
-      metadata = { description: tokenData.description }
-    }
+    const { metadata } = tokenData
     return {
       id: tokenData.id,
       tokenAddress: tokenData.tokenAddress,
       creator: tokenData.creator,
       name: tokenData.name,
       symbol: tokenData.symbol,
-      description: metadata.description || '',
-      socials: metadata.socials || {},
+      description: metadata.description,
+      socials: metadata.socials,
+      website: metadata.website,
+      streamUrl: getTokenStreamUrl(metadata),
+      bannerUri: metadata.bannerUri,
+      tags: metadata.tags,
       imageUri: tokenData.imageUri,
       reserveBalance: tokenData.reserveBalance,
       tokensSold: tokenData.tokensSold,
-      status: Number(tokenData.status),
-      launchTime: Number(tokenData.createdAt),
-      graduated: Number(tokenData.status) === 1,
+      launchTime: tokenData.createdAt,
+      graduated: tokenData.graduated,
     }
   }, [tokenData])
 
+  const graduation = useGraduationProgress(tokenData, { withEta: true })
+
   const { data: userTokenBalance } = useReadContract({
     address: tokenAddress,
     abi: ERC20_ABI,
@@ -257,43 +274,25 @@ export function TokenDashboard() {
     return Number((userTokenBalance * 10000n) / totalSupply) / 100
   }, [userTokenBalance, totalSupply])
 
-  // FIXED: Always use GREEN theme, no dynamic colors
-  const theme = {
-    primary: '#00ff00',
-    secondary: '#00cc00',
-    glow: 'rgba(0, 255, 0, 0.4)',
-  }
+  // The theme the launch preview showed the creator
+  const theme = useTokenTheme(token?.name ?? '', token?.symbol ?? '', token?.description ?? '', token?.imageUri)
+  const titles = getNarrativeTitles(theme)
 
-  const { writeContract, data: hash, isPending, error: writeError, reset: resetWrite } = useWriteContract()
-  const { isLoading: isConfirming, isSuccess, error: txError } = useWaitForTransactionReceipt({ hash })
-  const [txStatus, setTxStatus] = useState<string | null>(null)
-
-  // Get buy quote
-  const { data: buyQuote } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'calculateBuyAmount',
-    args: token && amount && activeTab === 'buy' && parseFloat(amount) > 0
-      ? [token.id, parseEther(amount)]
-      : undefined,
-  })
+  const { writeContractAsync, buy, sell, burn } = usePumpFudWrite()
+  // True from the wallet prompt until the receipt lands; status and errors show in the toast center
+  const [isSubmitting, setIsSubmitting] = useState(false)
 
-  // Get sell quote
-  const { data: sellQuote } = useReadContract({
-    address: PUMP_FUD_ADDRESS,
-    abi: PUMP_FUD_ABI,
-    functionName: 'calculateSellAmount',
-    args: token && amount && activeTab === 'sell' && parseFloat(amount) > 0
-      ? [token.id, parseEther(amount)]
-      : undefined,
-  })
+  // Get buy/sell quotes
+  const quoteAmount = amount && parseFloat(amount) > 0 ? parseEther(amount) : undefined
+  const buyQuote = useBuyQuote(token ?? undefined, activeTab === 'buy' ? quoteAmount : undefined)
+  const sellQuote = useSellQuote(token ?? undefined, activeTab === 'sell' ? quoteAmount : undefined)
 
   // Check allowance for selling
   const { data: allowance, refetch: refetchAllowance } = useReadContract({
     address: tokenAddress,
     abi: ERC20_ABI,
     functionName: 'allowance',
-    args: userAddress ? [userAddress, PUMP_FUD_ADDRESS] : undefined,
+    args: userAddress ? [userAddress, ACTIVE_PUMP_FUD_ADDRESS] : undefined,
   })
 
   const needsApproval = useMemo(() => {
@@ -306,80 +305,59 @@ export function TokenDashboard() {
     }
   }, [activeTab, amount, allowance])
 
+  const runTransaction = async (label: string, execute: () => Promise<`0x${string}` | undefined>, clearAmount = true) => {
+    setIsSubmitting(true)
+    const receipt = await send({ label, execute })
+    setIsSubmitting(false)
+    if (!receipt) return
+    if (clearAmount) setAmount('')
+    setDeadBurnConfirmed(false)
+    refetchAllowance()
+  }
+
   const handleApprove = () => {
-    if (!tokenAddress || !amount) return
-    writeContract({
+    if (!tokenAddress || !amount || !token) return
+    const approveAmount = parseEther(amount)
+    // Keep the amount so the sell can follow straight after
+    void runTransaction(`Approve ${token.symbol}`, () => writeContractAsync({
       address: tokenAddress,
       abi: ERC20_ABI,
       functionName: 'approve',
-      args: [PUMP_FUD_ADDRESS, parseEther(amount)],
-    })
+      args: [ACTIVE_PUMP_FUD_ADDRESS, approveAmount],
+    }), false)
   }
 
   const handleTrade = () => {
     if (!amount || !token) return
-    const slippagePct = BigInt(100 - parseInt(slippage))
+    const parsedAmount = parseEther(amount)
 
+    // Buys and sells wait for a quote - minOut from a missing one would drop the slippage check
     if (activeTab === 'buy') {
-      const expectedOut = buyQuote || 0n
-      const minOut = (expectedOut * slippagePct) / 100n
-      writeContract({
-        address: PUMP_FUD_ADDRESS,
-        abi: PUMP_FUD_ABI,
-        functionName: 'buyTokens',
-        args: [token.id, minOut],
-        value: parseEther(amount),
-      })
+      if (!buyQuote) return
+      const minOut = applySlippage(buyQuote, tradeSettings.slippageBps)
+      void runTransaction(`Buy ${token.symbol}`, () => buy({ token, plsIn: parsedAmount, minTokensOut: minOut, referrer }))
     } else if (activeTab === 'sell') {
-      const expectedOut = sellQuote || 0n
-      const minOut = (expectedOut * slippagePct) / 100n
-      writeContract({
-        address: PUMP_FUD_ADDRESS,
-        abi: PUMP_FUD_ABI,
-        functionName: 'sellTokens',
-        args: [token.id, parseEther(amount), minOut],
-      })
+      if (!sellQuote) return
+      const minOut = applySlippage(sellQuote, tradeSettings.slippageBps)
+      void runTransaction(`Sell ${token.symbol}`, () => sell({ token, tokenAmount: parsedAmount, minPlsOut: minOut, referrer }))
+    } else if (activeTab === 'burn' && burnMode === 'redeem') {
+      void runTransaction(`Burn ${token.symbol} for PLS`, () => burn(token, parsedAmount))
     } else if (activeTab === 'burn' && tokenAddress) {
-      writeContract({
+      if (!deadBurnConfirmed) return
+      void runTransaction(`Send ${token.symbol} to dead address`, () => writeContractAsync({
         address: tokenAddress,
         abi: ERC20_ABI,
         functionName: 'transfer',
-        args: [BURN_ADDRESS, parseEther(amount)],
-      })
+        args: [BURN_ADDRESS, parsedAmount],
+      }))
     }
   }
 
-  // Handle transaction success
-  useEffect(() => {
-    if (isSuccess) {
-      setAmount('')
-      setTxStatus('✅ Transaction successful!')
-      refetchAllowance()
-      setTimeout(() => setTxStatus(null), 5000)
-    }
-  }, [isSuccess, refetchAllowance])
-
-  // Handle transaction errors
-  useEffect(() => {
-    if (writeError) {
-      const msg = writeError.message.includes('User rejected')
-        ? 'Transaction cancelled'
-        : writeError.message.slice(0, 100)
-      setTxStatus(`❌ ${msg}`)
-      setTimeout(() => {
-        setTxStatus(null)
-        resetWrite()
-      }, 5000)
-    }
-    if (txError) {
-      setTxStatus(`❌ Transaction failed: ${txError.message.slice(0, 50)}`)
-      setTimeout(() => setTxStatus(null), 5000)
-    }
-  }, [writeError, txError, resetWrite])
-
   // Token-gated access check for chat/board
-  const canAccessChat = holderPercentage >= 1.0 // 1% for live chat
-  const canAccessBoard = holderPercentage >= 0.5 // 0.5% for message board
+  const chatAccess = useChatAccess(tokenAddress && isAddress(tokenAddress) ? tokenAddress : undefined, userAddress)
+  const canAccessChat = chatAccess.liveChat.allowed
+  const canAccessBoard = chatAccess.messageBoard.allowed
+  const moderation = useModeration(tokenAddress && isAddress(tokenAddress) ? tokenAddress : undefined, userAddress)
 
   if (isLoading) {
     return (
@@ -439,6 +417,8 @@ export function TokenDashboard() {
     )
   }
 
+  const hasLinks = Object.keys(token.socials).length > 0 || !!token.website
+
   const formatBalance = (val: bigint | undefined): string => {
     if (!val) return '0'
     const num = Number(formatEther(val))
@@ -448,7 +428,16 @@ export function TokenDashboard() {
     return num.toFixed(2)
   }
 
-  const graduationProgress = Math.min(100, (Number(formatEther(token.reserveBalance)) / 50000000) * 100)
+  // PLS the curve pays back for a redeem burn (pro-rata reserve share, no fee)
+  const burnPreview = activeTab === 'burn' && burnMode === 'redeem' && quoteAmount
+    ? estimateBurnPls(quoteAmount, token.reserveBalance, token.tokensSold)
+    : 0n
+
+  const tradeBlocked =
+    (activeTab === 'buy' && !buyQuote) ||
+    (activeTab === 'sell' && !sellQuote) ||
+    (activeTab === 'burn' && burnMode === 'redeem' && (!IS_PUMP_FUD_V2 || burnPreview === 0n)) ||
+    (activeTab === 'burn' && burnMode === 'dead' && !deadBurnConfirmed)
 
   return (
     <DashboardProvider tokenAddress={tokenAddress || '0x0'}>
@@ -482,6 +471,9 @@ export function TokenDashboard() {
         zIndex: 1,
         pointerEvents: 'none',
       }} />
+      <div style={{ position: 'fixed', inset: 0, zIndex: 1, pointerEvents: 'none' }}>
+        <ThemedParticles theme={theme} count={40} />
+      </div>
       
       {/* ═══════════════════════════════════════════════════════════════════
           HEADER BAR - Full Width
@@ -489,7 +481,7 @@ export function TokenDashboard() {
       <header style={{
         height: '60px',
         backgroundColor: 'rgba(26,26,26,0.95)',
-        borderBottom: '1px solid rgba(0,255,0,0.2)',
+        borderBottom: `1px solid ${theme.borderGlow}`,
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'space-between',
@@ -537,50 +529,13 @@ export function TokenDashboard() {
           <div style={{ width: '1px', height: '30px', backgroundColor: 'rgba(0,255,0,0.2)' }} />
 
           {/* Token Info */}
-          <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-            <div style={{
-              width: '40px',
-              height: '40px',
-              borderRadius: '8px',
-              backgroundColor: '#252525',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              overflow: 'hidden',
-              border: '2px solid rgba(0,255,0,0.3)',
-            }}>
-              {token.imageUri ? (
-                <img src={token.imageUri} alt={token.symbol} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-              ) : (
-                <span style={{ fontSize: '22px' }}>💎</span>
-              )}
-            </div>
-            <div>
-              <div style={{ fontSize: '16px', fontWeight: 700, color: '#fff' }}>
-                {token.name}
-              </div>
-              <div style={{ fontFamily: 'monospace', fontSize: '12px', color: '#00ff00' }}>
-                ${token.symbol}
-              </div>
-            </div>
-
-            {/* Status Badge */}
-            <div style={{
-              padding: '4px 10px',
-              borderRadius: '4px',
-              backgroundColor: token.graduated ? 'rgba(168,85,247,0.2)' : 'rgba(0,255,0,0.2)',
-              border: `1px solid ${token.graduated ? 'rgba(168,85,247,0.5)' : 'rgba(0,255,0,0.5)'}`,
-              marginLeft: '8px',
-            }}>
-              <span style={{
-                fontSize: '11px',
-                fontWeight: 700,
-                color: token.graduated ? '#a855f7' : '#00ff00',
-              }}>
-                {token.graduated ? '🎓 Graduated' : '🟢 Live'}
-              </span>
-            </div>
-          </div>
+          <TokenHeaderIdentity
+            name={token.name}
+            symbol={token.symbol}
+            imageUri={token.imageUri}
+            status={token.graduated ? 'graduated' : 'live'}
+            theme={theme}
+          />
         </div>
 
         {/* Right - Stats + Actions */}
@@ -594,7 +549,7 @@ export function TokenDashboard() {
             border: '1px solid rgba(0,255,0,0.1)',
           }}>
             <div style={{ fontSize: '10px', color: '#666', marginBottom: '2px' }}>Reserve</div>
-            <div style={{ fontFamily: 'monospace', fontSize: '14px', fontWeight: 700, color: '#00ff00' }}>
+            <div style={{ fontFamily: 'monospace', fontSize: '14px', fontWeight: 700, color: theme.primary }}>
               {formatBalance(token.reserveBalance)} PLS
             </div>
           </div>
@@ -603,14 +558,13 @@ export function TokenDashboard() {
           <button
             onClick={() => {
               if (!canAccessChat) {
-                alert(`💬 Live Chat requires holding 1% of ${token.symbol} supply.\n\nYour holdings: ${holderPercentage.toFixed(2)}%`)
+                alert(`💬 Live Chat is locked: ${chatAccess.liveChat.reason}.\n\nYour holdings: ${holderPercentage.toFixed(2)}% of ${token.symbol}`)
                 return
               }
               const params = new URLSearchParams({
                 token: tokenAddress || '',
                 name: token.name,
                 symbol: token.symbol,
-                holderPct: holderPercentage.toFixed(2),
               })
               window.open(`/live-chat?${params.toString()}`, 'LiveChat', 'width=420,height=700,menubar=no,toolbar=no,location=no,status=no')
             }}
@@ -627,7 +581,7 @@ export function TokenDashboard() {
               alignItems: 'center',
               gap: '6px',
             }}
-            title={canAccessChat ? 'Open Live Chat' : `Requires 1% ${token.symbol} holdings`}
+            title={canAccessChat ? 'Open Live Chat' : `Locked - ${chatAccess.liveChat.reason}`}
           >
             💬 Chat {!canAccessChat && '🔒'}
           </button>
@@ -636,14 +590,13 @@ export function TokenDashboard() {
           <button
             onClick={() => {
               if (!canAccessBoard) {
-                alert(`📝 Message Board requires holding 0.5% of ${token.symbol} supply.\n\nYour holdings: ${holderPercentage.toFixed(2)}%`)
+                alert(`📝 Message Board is locked: ${chatAccess.messageBoard.reason}.\n\nYour holdings: ${holderPercentage.toFixed(2)}% of ${token.symbol}`)
                 return
               }
               const params = new URLSearchParams({
                 token: tokenAddress || '',
                 name: token.name,
                 symbol: token.symbol,
-                holderPct: holderPercentage.toFixed(2),
               })
               window.open(`/message-board?${params.toString()}`, 'MessageBoard', 'width=500,height=750,menubar=no,toolbar=no,location=no,status=no')
             }}
@@ -660,7 +613,7 @@ export function TokenDashboard() {
               alignItems: 'center',
               gap: '6px',
             }}
-            title={canAccessBoard ? 'Open Message Board' : `Requires 0.5% ${token.symbol} holdings`}
+            title={canAccessBoard ? 'Open Message Board' : `Locked - ${chatAccess.messageBoard.reason}`}
           >
             📝 Board {!canAccessBoard && '🔒'}
           </button>
@@ -697,7 +650,7 @@ export function TokenDashboard() {
             RL-009: AD CAROUSEL - Rotating Banner Ads
             ═══════════════════════════════════════════════════════════════════ */}
         <div style={{ margin: '0 24px 0', paddingTop: '8px' }}>
-          <AdCarousel position="top" height={60} rotationInterval={10000} />
+          <AdCarousel location={AD_LOCATION.DashboardBanner} position="top" height={60} rotationInterval={10000} />
         </div>
 
         {/* ═══════════════════════════════════════════════════════════════════
@@ -714,11 +667,11 @@ export function TokenDashboard() {
             tokensSold={formatBalance(token.tokensSold)}
             yourBalance={formatBalance(userTokenBalance)}
             yourHoldings={`${holderPercentage.toFixed(2)}%`}
-            creator={`${token.creator.slice(0, 6)}...${token.creator.slice(-4)}`}
+            creator={token.creator}
           />
 
           {/* Token Description & Social Links */}
-          {(token.description || Object.keys(token.socials).length > 0) && (
+          {(token.description || hasLinks || token.tags.length > 0) && (
             <div style={{
               padding: '16px',
               backgroundColor: 'rgba(26,26,26,0.9)',
@@ -726,18 +679,45 @@ export function TokenDashboard() {
               border: '1px solid rgba(0,255,0,0.1)',
               backdropFilter: 'blur(5px)',
             }}>
+              {token.bannerUri && (
+                <StoredImage
+                  src={token.bannerUri}
+                  alt=""
+                  style={{ width: '100%', maxHeight: '140px', objectFit: 'cover', borderRadius: '8px', marginBottom: '12px' }}
+                  onError={(e) => { e.currentTarget.style.display = 'none' }}
+                />
+              )}
               {token.description && (
                 <p style={{ 
                   fontSize: '14px', 
                   color: '#ccc', 
                   margin: 0, 
-                  marginBottom: Object.keys(token.socials).length > 0 ? '12px' : 0,
+                  marginBottom: hasLinks || token.tags.length > 0 ? '12px' : 0,
                   lineHeight: '1.5',
                 }}>
                   {token.description}
                 </p>
               )}
-              {Object.keys(token.socials).length > 0 && (
+              {token.tags.length > 0 && (
+                <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: hasLinks ? '12px' : 0 }}>
+                  {token.tags.map(tag => (
+                    <span
+                      key={tag}
+                      style={{
+                        padding: '2px 8px',
+                        backgroundColor: 'rgba(0,255,0,0.08)',
+                        borderRadius: '10px',
+                        color: '#8f8',
+                        fontSize: '11px',
+                        fontFamily: 'monospace',
+                      }}
+                    >
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {hasLinks && (
                 <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
                   {token.socials.twitter && (
                     <a 
@@ -802,9 +782,9 @@ export function TokenDashboard() {
                       💬 Discord
                     </a>
                   )}
-                  {token.socials.website && (
+                  {token.website && (
                     <a 
-                      href={token.socials.website} 
+                      href={token.website} 
                       target="_blank" 
                       rel="noopener noreferrer"
                       style={{
@@ -871,7 +851,7 @@ export function TokenDashboard() {
                 bringToFront('chart-box')
                 console.log('[RALPH RL-004] Chart box brought to front')
               }}
-              title="📊 PRICE CHART"
+              title={`📊 ${titles.chart}`}
               frameConfig={getBoxFrame('chart-box')}
               frameSelector={
                 <FrameSelector
@@ -889,8 +869,7 @@ export function TokenDashboard() {
               <div style={{ padding: '12px', height: '100%', display: 'flex', flexDirection: 'column', gap: '12px' }}>
                 {/* Livestream Embed - Shows when creator has livestream URL */}
                 {(() => {
-                  const livestreamUrl = token.socials?.livestreamUrl || token.socials?.youtubeStream || token.socials?.twitch || token.socials?.kick
-                  const embed = livestreamUrl ? getLivestreamEmbed(livestreamUrl) : null
+                  const embed = token.streamUrl ? getLivestreamEmbed(token.streamUrl) : null
 
                   if (!embed) return null
 
@@ -957,7 +936,6 @@ export function TokenDashboard() {
                     tokenAddress={tokenAddress || ''}
                     reserveBalance={token.reserveBalance}
                     tokensSold={token.tokensSold}
-                    launchTime={token.launchTime}
                     themeColor={theme.primary}
                   />
                 </div>
@@ -973,7 +951,7 @@ export function TokenDashboard() {
                     <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '6px' }}>
                       <span style={{ fontSize: '11px', color: '#888' }}>Progress to Graduation</span>
                       <span style={{ fontFamily: 'monospace', fontSize: '11px', color: '#00ff00', fontWeight: 700 }}>
-                        {graduationProgress.toFixed(1)}% / 50M PLS
+                        {graduation.progress.toFixed(1)}% / {graduation.plsTarget !== undefined ? formatBalance(graduation.plsTarget) : '...'} PLS
                       </span>
                     </div>
                     <div style={{
@@ -983,12 +961,18 @@ export function TokenDashboard() {
                       overflow: 'hidden',
                     }}>
                       <div style={{
-                        width: `${graduationProgress}%`,
+                        width: `${graduation.progress}%`,
                         height: '100%',
                         background: 'linear-gradient(90deg, #00ff00 0%, #00cc00 100%)',
                         boxShadow: '0 0 8px rgba(0,255,0,0.6)',
                       }} />
                     </div>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '6px', fontSize: '10px', color: '#666' }}>
+                      <span>{formatBalance(graduation.remaining)} PLS to go</span>
+                      <span title="Extrapolated from the last 6h of buys">
+                        ETA {graduation.etaSeconds !== null ? formatGraduationEta(graduation.etaSeconds) : '—'}
+                      </span>
+                    </div>
                   </div>
                 )}
               </div>
@@ -1017,7 +1001,7 @@ export function TokenDashboard() {
                 bringToFront('swapper-box')
                 console.log('[RALPH RL-004] Trade panel brought to front')
               }}
-              title={`💱 TRADE ${token.symbol}`}
+              title={`💱 ${titles.trade}`}
               frameConfig={getBoxFrame('swapper-box')}
               frameSelector={
                 <FrameSelector
@@ -1131,27 +1115,25 @@ export function TokenDashboard() {
             </div>
           </div>
 
-          {/* Quick Amounts */}
+          {/* Quick Amounts - per-wallet presets from trade settings */}
           <div style={{
             display: 'grid',
-            gridTemplateColumns: 'repeat(4, 1fr)',
+            gridTemplateColumns: `repeat(${activeTab === 'buy' ? tradeSettings.buyPresets.length : tradeSettings.sellPresetsPct.length}, 1fr)`,
             gap: '6px',
             marginBottom: '16px',
           }}>
             {(activeTab === 'buy'
-              ? ['100', '500', '1K', '5K']
-              : ['25%', '50%', '75%', 'MAX']
-            ).map((val) => (
+              ? tradeSettings.buyPresets.map(preset => ({ key: preset, label: formatPresetLabel(preset) }))
+              : tradeSettings.sellPresetsPct.map(pct => ({ key: String(pct), label: pct === 100 ? 'MAX' : `${pct}%` }))
+            ).map(({ key, label }) => (
               <button
-                key={val}
+                key={key}
                 onClick={() => {
                   if (activeTab === 'buy') {
-                    const numVal = val.includes('K') ? parseInt(val) * 1000 : parseInt(val)
-                    setAmount(numVal.toString())
+                    setAmount(key)
                   } else {
-                    const pct = val === 'MAX' ? 100 : parseInt(val)
                     const balance = userTokenBalance || 0n
-                    const result = (balance * BigInt(pct)) / 100n
+                    const result = (balance * BigInt(key)) / 100n
                     setAmount(formatEther(result))
                   }
                 }}
@@ -1166,7 +1148,7 @@ export function TokenDashboard() {
                   cursor: 'pointer',
                 }}
               >
-                {val}
+                {label}
               </button>
             ))}
           </div>
@@ -1184,16 +1166,16 @@ export function TokenDashboard() {
             }}>
               <span style={{ fontSize: '11px', color: '#666', textTransform: 'uppercase' }}>Slippage</span>
               <div style={{ display: 'flex', gap: '6px' }}>
-                {['1', '3', '5', '10'].map((val) => (
+                {[1, 3, 5, 10].map((val) => (
                   <button
                     key={val}
-                    onClick={() => setSlippage(val)}
+                    onClick={() => updateTradeSettings({ slippageBps: val * 100 })}
                     style={{
                       padding: '6px 10px',
-                      backgroundColor: slippage === val ? 'rgba(0,255,0,0.2)' : 'transparent',
-                      border: `1px solid ${slippage === val ? '#00ff00' : '#3a3a3a'}`,
+                      backgroundColor: tradeSettings.slippageBps === val * 100 ? 'rgba(0,255,0,0.2)' : 'transparent',
+                      border: `1px solid ${tradeSettings.slippageBps === val * 100 ? '#00ff00' : '#3a3a3a'}`,
                       borderRadius: '4px',
-                      color: slippage === val ? '#00ff00' : '#666',
+                      color: tradeSettings.slippageBps === val * 100 ? '#00ff00' : '#666',
                       fontSize: '11px',
                       fontFamily: 'monospace',
                       cursor: 'pointer',
@@ -1206,23 +1188,90 @@ export function TokenDashboard() {
             </div>
           )}
 
-          {/* Burn Warning */}
+          {/* Burn Mode - redeeming for PLS is kept apart from the irreversible dead-address send */}
           {activeTab === 'burn' && (
-            <div style={{
-              padding: '12px',
-              backgroundColor: 'rgba(249,115,22,0.1)',
-              border: '1px solid rgba(249,115,22,0.3)',
-              borderRadius: '8px',
-              marginBottom: '16px',
-            }}>
-              <p style={{ color: '#f97316', fontSize: '12px', textAlign: 'center', margin: 0 }}>
-                ⚠️ Burning tokens is permanent and irreversible
-              </p>
+            <div style={{ marginBottom: '16px' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginBottom: '10px' }}>
+                {([
+                  { key: 'redeem', label: '🔥 Burn for PLS' },
+                  { key: 'dead', label: '💀 Send to Dead' },
+                ] as const).map(({ key, label }) => (
+                  <button
+                    key={key}
+                    onClick={() => {
+                      setBurnMode(key)
+                      setDeadBurnConfirmed(false)
+                    }}
+                    style={{
+                      padding: '8px',
+                      borderRadius: '6px',
+                      border: `1px solid ${burnMode === key ? (key === 'redeem' ? '#f97316' : '#ef4444') : '#3a3a3a'}`,
+                      backgroundColor: burnMode === key
+                        ? key === 'redeem' ? 'rgba(249,115,22,0.15)' : 'rgba(239,68,68,0.15)'
+                        : 'transparent',
+                      color: burnMode === key ? (key === 'redeem' ? '#f97316' : '#ef4444') : '#666',
+                      fontSize: '11px',
+                      fontWeight: 700,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {burnMode === 'redeem' ? (
+                <div style={{
+                  padding: '12px',
+                  backgroundColor: 'rgba(249,115,22,0.1)',
+                  border: '1px solid rgba(249,115,22,0.3)',
+                  borderRadius: '8px',
+                }}>
+                  {IS_PUMP_FUD_V2 ? (
+                    <p style={{ color: '#f97316', fontSize: '12px', textAlign: 'center', margin: 0 }}>
+                      Burns your tokens and pays out their share of the curve reserve. No fee, and no approval
+                      needed - the curve burns straight from your wallet.
+                    </p>
+                  ) : (
+                    <p style={{ color: '#888', fontSize: '12px', textAlign: 'center', margin: 0 }}>
+                      Burn for PLS needs the PumpFudV2 deployment
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div style={{
+                  padding: '12px',
+                  backgroundColor: 'rgba(239,68,68,0.1)',
+                  border: '1px solid rgba(239,68,68,0.4)',
+                  borderRadius: '8px',
+                }}>
+                  <p style={{ color: '#ef4444', fontSize: '12px', textAlign: 'center', margin: '0 0 10px' }}>
+                    ⚠️ Sends tokens to {BURN_ADDRESS.slice(0, 6)}...{BURN_ADDRESS.slice(-4)}. This is permanent
+                    and you receive nothing back.
+                  </p>
+                  <label style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    gap: '8px',
+                    fontSize: '11px',
+                    color: '#ccc',
+                    cursor: 'pointer',
+                  }}>
+                    <input
+                      type="checkbox"
+                      checked={deadBurnConfirmed}
+                      onChange={(e) => setDeadBurnConfirmed(e.target.checked)}
+                    />
+                    I understand these tokens are gone for good
+                  </label>
+                </div>
+              )}
             </div>
           )}
 
           {/* Expected Output */}
-          {activeTab !== 'burn' && amount && parseFloat(amount) > 0 && (
+          {(activeTab !== 'burn' || burnMode === 'redeem') && amount && parseFloat(amount) > 0 && (
             <div style={{
               padding: '12px',
               backgroundColor: 'rgba(0,255,0,0.1)',
@@ -1237,7 +1286,9 @@ export function TokenDashboard() {
                 <span style={{ fontFamily: 'monospace', fontSize: '14px', fontWeight: 700, color: '#00ff00' }}>
                   {activeTab === 'buy'
                     ? buyQuote ? `~${formatBalance(buyQuote)} ${token.symbol}` : 'Loading...'
-                    : sellQuote ? `~${formatBalance(sellQuote)} PLS` : 'Loading...'
+                    : activeTab === 'sell'
+                      ? sellQuote ? `~${formatBalance(sellQuote)} PLS` : 'Loading...'
+                      : `${formatBalance(burnPreview)} PLS`
                   }
                 </span>
               </div>
@@ -1260,33 +1311,17 @@ export function TokenDashboard() {
             </span>
           </div>
 
-          {/* Transaction Status */}
-          {txStatus && (
-            <div style={{
-              padding: '12px',
-              backgroundColor: txStatus.startsWith('✅') ? 'rgba(0,255,0,0.15)' : 'rgba(239,68,68,0.15)',
-              border: `1px solid ${txStatus.startsWith('✅') ? 'rgba(0,255,0,0.4)' : 'rgba(239,68,68,0.4)'}`,
-              borderRadius: '8px',
-              marginBottom: '12px',
-              textAlign: 'center',
-            }}>
-              <span style={{ fontSize: '13px', color: txStatus.startsWith('✅') ? '#00ff00' : '#ef4444' }}>
-                {txStatus}
-              </span>
-            </div>
-          )}
-
           {/* Trade Button */}
           {isConnected ? (
             needsApproval ? (
               <button
                 onClick={handleApprove}
-                disabled={isPending || isConfirming}
+                disabled={isSubmitting}
                 style={{
                   width: '100%',
                   padding: '16px',
                   borderRadius: '10px',
-                  background: (isPending || isConfirming)
+                  background: (isSubmitting)
                     ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                     : 'linear-gradient(135deg, #7c3aed 0%, #a855f7 100%)',
                   border: 'none',
@@ -1294,31 +1329,25 @@ export function TokenDashboard() {
                   fontWeight: 700,
                   fontSize: '14px',
                   textTransform: 'uppercase',
-                  cursor: (isPending || isConfirming) ? 'not-allowed' : 'pointer',
-                  boxShadow: (isPending || isConfirming) ? 'none' : '0 0 20px rgba(168,85,247,0.4)',
+                  cursor: (isSubmitting) ? 'not-allowed' : 'pointer',
+                  boxShadow: (isSubmitting) ? 'none' : '0 0 20px rgba(168,85,247,0.4)',
                 }}
               >
-                {isPending || isConfirming ? '⏳ Approving...' : `🔓 Approve ${token.symbol}`}
+                {isSubmitting ? '⏳ Approving...' : `🔓 Approve ${token.symbol}`}
               </button>
             ) : (
               <button
                 onClick={handleTrade}
-                disabled={
-                  !amount ||
-                  isPending ||
-                  isConfirming ||
-                  (activeTab === 'buy' && !buyQuote) ||
-                  (activeTab === 'sell' && !sellQuote)
-                }
+                disabled={!amount || isSubmitting || tradeBlocked}
                 style={{
                   width: '100%',
                   padding: '16px',
                   borderRadius: '10px',
-                  background: (!amount || isPending || isConfirming || (activeTab === 'buy' && !buyQuote) || (activeTab === 'sell' && !sellQuote))
+                  background: (!amount || isSubmitting || tradeBlocked)
                     ? 'linear-gradient(135deg, #333 0%, #222 100%)'
                     : activeTab === 'buy'
                       ? 'linear-gradient(135deg, #006600 0%, #00ff00 100%)'
-                      : activeTab === 'sell'
+                      : activeTab === 'sell' || burnMode === 'dead'
                         ? 'linear-gradient(135deg, #991b1b 0%, #ef4444 100%)'
                         : 'linear-gradient(135deg, #9a3412 0%, #f97316 100%)',
                   border: 'none',
@@ -1326,16 +1355,17 @@ export function TokenDashboard() {
                   fontWeight: 700,
                   fontSize: '14px',
                   textTransform: 'uppercase',
-                  cursor: (!amount || isPending || isConfirming || (activeTab === 'buy' && !buyQuote) || (activeTab === 'sell' && !sellQuote)) ? 'not-allowed' : 'pointer',
-                  boxShadow: (!amount || isPending || isConfirming || (activeTab === 'buy' && !buyQuote) || (activeTab === 'sell' && !sellQuote))
+                  cursor: (!amount || isSubmitting || tradeBlocked) ? 'not-allowed' : 'pointer',
+                  boxShadow: (!amount || isSubmitting || tradeBlocked)
                     ? 'none'
                     : `0 0 20px ${activeTab === 'buy' ? 'rgba(0,255,0,0.5)' : activeTab === 'sell' ? 'rgba(239,68,68,0.4)' : 'rgba(249,115,22,0.4)'}`,
                 }}
               >
-                {isPending || isConfirming ? '⏳ Processing...'
+                {isSubmitting ? '⏳ Processing...'
                   : (activeTab === 'buy' && amount && !buyQuote) ? '⏳ Getting quote...'
                   : (activeTab === 'sell' && amount && !sellQuote) ? '⏳ Getting quote...'
-                  : activeTab === 'burn' ? '🔥 Burn Tokens'
+                  : activeTab === 'burn'
+                    ? burnMode === 'redeem' ? '🔥 Burn for PLS' : '💀 Send to Dead Address'
                     : `${activeTab === 'buy' ? '✨ Buy' : '💫 Sell'} ${token.symbol}`}
               </button>
             )
@@ -1355,6 +1385,15 @@ export function TokenDashboard() {
             </div>
           )}
 
+          {/* Burn History */}
+          {activeTab === 'burn' && burnMode === 'redeem' && IS_PUMP_FUD_V2 && tokenAddress && (
+            <BurnHistory
+              tokenAddress={tokenAddress}
+              tokenSymbol={token.symbol}
+              userAddress={userAddress}
+            />
+          )}
+
           {/* Contract Address */}
           <div style={{
             marginTop: '16px',
@@ -1417,7 +1456,7 @@ export function TokenDashboard() {
                 bringToFront('transaction-feed-box')
                 console.log('[RALPH RL-004] Transaction feed brought to front')
               }}
-              title="📈 TRANSACTION FEED"
+              title={`📈 ${titles.transactions}`}
               frameConfig={getBoxFrame('transaction-feed-box')}
               frameSelector={
                 <FrameSelector
@@ -1433,12 +1472,12 @@ export function TokenDashboard() {
               }
             >
               <div style={{ height: '100%' }}>
-                <TransactionFeed
-                  tokenAddress={tokenAddress as `0x${string}`}
-                  tokenSymbol={token.symbol}
-                  reserveBalance={token.reserveBalance}
-                  tokensSold={token.tokensSold}
-                />
+                <TokenRolesProvider creator={token.creator}>
+                  <TransactionFeed
+                    tokenAddress={token.tokenAddress}
+                    tokenSymbol={token.symbol}
+                  />
+                </TokenRolesProvider>
               </div>
             </DraggableResizableBox>
 
@@ -1482,13 +1521,42 @@ export function TokenDashboard() {
             >
               <div style={{ height: '100%' }}>
                 <MessageBoard
+                  tokenAddress={token.tokenAddress}
                   tokenSymbol={token.symbol}
-                  holderPercentage={holderPercentage}
                   primaryColor={theme.primary}
                   secondaryColor={theme.secondary}
                 />
               </div>
             </DraggableResizableBox>
+
+            {/* Moderation - creators, moderators and live chat controllers only */}
+            {moderation.canModerate && (
+              <DraggableResizableBox
+                id="moderation-box"
+                defaultPosition={getBoxLayout('moderation-box')?.position || { x: 980, y: 80 }}
+                defaultSize={getBoxLayout('moderation-box')?.size || { width: 380, height: 450 }}
+                minSize={{ width: 300, height: 250 }}
+                maxSize={{ width: 700, height: 800 }}
+                disabled={isLocked}
+                onPositionChange={(pos) => updateBoxPosition('moderation-box', pos)}
+                onSizeChange={(size) => updateBoxSize('moderation-box', size)}
+                zIndex={getZIndex('moderation-box')}
+                onFocus={() => bringToFront('moderation-box')}
+                title="🛡️ MODERATION"
+                frameConfig={getBoxFrame('moderation-box')}
+                frameSelector={
+                  <FrameSelector
+                    frames={frames}
+                    selectedFrameId={getBoxFrame('moderation-box')?.id || null}
+                    onSelect={(frameId) => assignFrameToBox('moderation-box', frameId)}
+                    onAddFrame={addFrame}
+                    boxId="moderation-box"
+                  />
+                }
+              >
+                <ModerationPanel moderation={moderation} userAddress={userAddress} primaryColor={theme.primary} />
+              </DraggableResizableBox>
+            )}
           </div>
             )}
           </DashboardLockBridge>
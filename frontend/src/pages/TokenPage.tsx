@@ -5,6 +5,8 @@ import { formatEther } from 'viem'
 import { PUMP_FUD_ADDRESS, PUMP_FUD_ABI } from '../config/wagmi'
 import { TradePanel } from '../components/TradePanel'
 import { ChatPanel } from '../components/ChatPanel'
+import { StoredImage } from '../components/ui/StoredImage'
+import { ProfileName } from '../components/ui/ProfileName'
 
 // Mock trade history for demo
 const mockTrades = [
@@ -80,7 +82,7 @@ export function TokenPage() {
           {/* Token Header */}
           <div className="flex items-center gap-4">
             {imageUri ? (
-              <img src={imageUri} alt={name} className="w-12 h-12 rounded-lg object-cover" onError={(e) => { e.currentTarget.src = '/images/logo-circle.png' }} />
+              <StoredImage src={imageUri} alt={name} className="w-12 h-12 rounded-lg object-cover" onError={(e) => { e.currentTarget.src = '/images/logo-circle.png' }} />
             ) : (
               <div className="w-12 h-12 rounded-lg bg-pump-dark-lighter flex items-center justify-center">
                 <img src="/images/logo-circle.png" alt="" className="w-10 h-10" />
@@ -93,7 +95,7 @@ export function TokenPage() {
                 {isGraduated && <span className="px-2 py-0.5 text-xs bg-tier-3/20 text-tier-3 rounded">🎓</span>}
               </div>
               <div className="text-pump-white-muted text-sm">
-                Created by <span className="text-pump-green">{creator.slice(0, 6)}...{creator.slice(-4)}</span>
+                Created by <span className="text-pump-green"><ProfileName address={creator} /></span>
               </div>
             </div>
           </div>
@@ -242,7 +244,7 @@ export function TokenPage() {
           <div className="bg-pump-dark-lighter rounded-xl p-4 border border-pump-dark-border">
             <div className="flex items-center gap-3 mb-4">
               {imageUri ? (
-                <img src={imageUri} alt={name} className="w-16 h-16 rounded-xl object-cover" onError={(e) => { e.currentTarget.src = '/images/logo-circle.png' }} />
+                <StoredImage src={imageUri} alt={name} className="w-16 h-16 rounded-xl object-cover" onError={(e) => { e.currentTarget.src = '/images/logo-circle.png' }} />
               ) : (
                 <div className="w-16 h-16 rounded-xl bg-pump-dark flex items-center justify-center">
                   <img src="/images/logo-circle.png" alt="" className="w-12 h-12" />
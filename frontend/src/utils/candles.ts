@@ -0,0 +1,114 @@
+/**
+ * Candle Engine
+ * Replays on-chain bonding curve trades into OHLCV buckets
+ * Every candle on the chart is backed by real TokenBought/TokenSold events
+ */
+
+export type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d'
+
+export const TIMEFRAME_SECONDS: Record<Timeframe, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 14400,
+  '1d': 86400,
+}
+
+export interface Trade {
+  id: string // `${txHash}-${logIndex}`
+  type: 'buy' | 'sell'
+  wallet: `0x${string}`
+  plsAmount: bigint // PLS paid in (buy) or received (sell)
+  tokenAmount: bigint // Tokens received (buy) or sold (sell)
+  price: number // Curve price in PLS per token after the trade
+  timestamp: number // Unix seconds
+  blockNumber: bigint
+  logIndex: number
+  txHash: `0x${string}`
+}
+
+export interface Candle {
+  time: number // Bucket start, unix seconds
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number // PLS traded in the bucket
+}
+
+/**
+ * Order trades (or any logs) the way the chain executed them
+ */
+export function compareTrades(a: Pick<Trade, 'blockNumber' | 'logIndex'>, b: Pick<Trade, 'blockNumber' | 'logIndex'>): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1
+  return a.logIndex - b.logIndex
+}
+
+/**
+ * Start of the bucket a timestamp falls into
+ */
+export function bucketStart(timestamp: number, timeframe: Timeframe): number {
+  const interval = TIMEFRAME_SECONDS[timeframe]
+  return Math.floor(timestamp / interval) * interval
+}
+
+function plsVolume(trade: Trade): number {
+  return Number(trade.plsAmount) / 1e18
+}
+
+// Apply one trade in place, updating the live candle or opening a new one
+function applyTrade(candles: Candle[], trade: Trade, timeframe: Timeframe): void {
+  const time = bucketStart(trade.timestamp, timeframe)
+  const last = candles[candles.length - 1]
+
+  if (last && last.time === time) {
+    last.high = Math.max(last.high, trade.price)
+    last.low = Math.min(last.low, trade.price)
+    last.close = trade.price
+    last.volume += plsVolume(trade)
+    return
+  }
+
+  // New bucket opens at the previous close so candles connect
+  const open = last ? last.close : trade.price
+  candles.push({
+    time,
+    open,
+    high: Math.max(open, trade.price),
+    low: Math.min(open, trade.price),
+    close: trade.price,
+    volume: plsVolume(trade),
+  })
+}
+
+function sameCandle(a: Candle, b: Candle): boolean {
+  return a.time === b.time && a.open === b.open && a.high === b.high &&
+    a.low === b.low && a.close === b.close && a.volume === b.volume
+}
+
+/**
+ * Index from which `next` can be streamed onto a chart already showing `prev`,
+ * or null when history changed and the series needs a full reset
+ */
+export function liveUpdateStart(prev: Candle[], next: Candle[]): number | null {
+  if (prev.length === 0) return null
+  if (next.length !== prev.length && next.length !== prev.length + 1) return null
+  for (let i = 0; i < prev.length - 1; i++) {
+    if (!sameCandle(prev[i], next[i])) return null
+  }
+  if (next[prev.length - 1].time !== prev[prev.length - 1].time) return null
+  return prev.length - 1
+}
+
+/**
+ * Replay a full trade history into candles for a timeframe
+ */
+export function buildCandles(trades: Trade[], timeframe: Timeframe): Candle[] {
+  const sorted = [...trades].sort(compareTrades)
+  const candles: Candle[] = []
+  for (const trade of sorted) {
+    applyTrade(candles, trade, timeframe)
+  }
+  return candles
+}
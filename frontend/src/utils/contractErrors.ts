@@ -0,0 +1,267 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Hex,
+} from 'viem'
+
+/**
+ * Every custom error declared by the PumpFud contracts (pumpfud_abi.json, PumpFudV2, PumpFudToken, PumpFudSuperChat,
+ * PumpFudSwap, PumpFudAdManager, PumpFudProfile, PumpFudLeaderboard, ChatAccessControl) plus the
+ * OpenZeppelin errors they inherit. Selectors depend only on the signature, so shared names appear once.
+ */
+export const CONTRACT_ERRORS_ABI = [
+  // Trading (PumpFud, PumpFudV2)
+  { name: 'ContractPaused', type: 'error', inputs: [] },
+  { name: 'InsufficientHolding', type: 'error', inputs: [] },
+  { name: 'InsufficientPayment', type: 'error', inputs: [] },
+  { name: 'InsufficientTokens', type: 'error', inputs: [] },
+  { name: 'InvalidTier', type: 'error', inputs: [] },
+  { name: 'InvalidToken', type: 'error', inputs: [] },
+  { name: 'LivestreamNotActive', type: 'error', inputs: [] },
+  { name: 'NothingToBurn', type: 'error', inputs: [] },
+  { name: 'Paused', type: 'error', inputs: [] },
+  { name: 'SlippageExceeded', type: 'error', inputs: [] },
+  { name: 'TokenAlreadyGraduated', type: 'error', inputs: [] },
+  { name: 'TokenNotLive', type: 'error', inputs: [] },
+  { name: 'TransferFailed', type: 'error', inputs: [] },
+  { name: 'Unauthorized', type: 'error', inputs: [] },
+  { name: 'ZeroAddress', type: 'error', inputs: [] },
+  { name: 'ZeroAmount', type: 'error', inputs: [] },
+  // Launched tokens (PumpFudToken)
+  { name: 'OnlyFactory', type: 'error', inputs: [] },
+  // Chat (PumpFudSuperChat)
+  { name: 'AlreadyInVoiceChat', type: 'error', inputs: [] },
+  { name: 'DashboardIsShutdown', type: 'error', inputs: [] },
+  { name: 'InsufficientTokenBalance', type: 'error', inputs: [] },
+  { name: 'InvalidRecipient', type: 'error', inputs: [] },
+  { name: 'LiveChatAlreadyActive', type: 'error', inputs: [] },
+  { name: 'LiveChatNotActive', type: 'error', inputs: [] },
+  { name: 'MessageBoardNotActive', type: 'error', inputs: [] },
+  { name: 'MessageTooLong', type: 'error', inputs: [] },
+  { name: 'NotAuthorizedToControlLive', type: 'error', inputs: [] },
+  { name: 'NotInVoiceChat', type: 'error', inputs: [] },
+  { name: 'NotModerator', type: 'error', inputs: [] },
+  { name: 'UserIsMuted', type: 'error', inputs: [] },
+  // Swaps and limit orders (PumpFudSwap)
+  { name: 'FeeTooHigh', type: 'error', inputs: [] },
+  { name: 'InsufficientOutput', type: 'error', inputs: [] },
+  { name: 'InvalidAmount', type: 'error', inputs: [] },
+  { name: 'NotPositionOwner', type: 'error', inputs: [] },
+  { name: 'PositionExpired', type: 'error', inputs: [] },
+  { name: 'PositionNotActive', type: 'error', inputs: [] },
+  { name: 'PositionNotFound', type: 'error', inputs: [] },
+  { name: 'SwapFailed', type: 'error', inputs: [] },
+  // Ads (PumpFudAdManager)
+  { name: 'AdExpired', type: 'error', inputs: [] },
+  { name: 'AdNotFound', type: 'error', inputs: [] },
+  { name: 'AdSpaceNotActive', type: 'error', inputs: [] },
+  { name: 'AdSpaceNotFound', type: 'error', inputs: [] },
+  { name: 'AdSpaceOccupied', type: 'error', inputs: [] },
+  { name: 'InvalidDuration', type: 'error', inputs: [] },
+  { name: 'NotAdvertiser', type: 'error', inputs: [] },
+  // Profiles and cults (PumpFudProfile)
+  { name: 'AlreadyFollowing', type: 'error', inputs: [] },
+  { name: 'AlreadyInCult', type: 'error', inputs: [] },
+  { name: 'BioTooLong', type: 'error', inputs: [] },
+  { name: 'CannotFollowSelf', type: 'error', inputs: [] },
+  { name: 'CultFull', type: 'error', inputs: [] },
+  { name: 'CultTagTaken', type: 'error', inputs: [] },
+  { name: 'InvalidCult', type: 'error', inputs: [] },
+  { name: 'NameTaken', type: 'error', inputs: [] },
+  { name: 'NameTooLong', type: 'error', inputs: [] },
+  { name: 'NotCultLeader', type: 'error', inputs: [] },
+  { name: 'NotCultMember', type: 'error', inputs: [] },
+  { name: 'NotFollowing', type: 'error', inputs: [] },
+  { name: 'ProfileAlreadyExists', type: 'error', inputs: [] },
+  { name: 'ProfileNotFound', type: 'error', inputs: [] },
+  // Referrals (PumpFudLeaderboard)
+  { name: 'InvalidReferrer', type: 'error', inputs: [] },
+  { name: 'NoPendingRewards', type: 'error', inputs: [] },
+  { name: 'ReferrerAlreadySet', type: 'error', inputs: [] },
+  // OpenZeppelin
+  {
+    name: 'ERC20InsufficientAllowance',
+    type: 'error',
+    inputs: [{ name: 'spender', type: 'address' }, { name: 'allowance', type: 'uint256' }, { name: 'needed', type: 'uint256' }],
+  },
+  {
+    name: 'ERC20InsufficientBalance',
+    type: 'error',
+    inputs: [{ name: 'sender', type: 'address' }, { name: 'balance', type: 'uint256' }, { name: 'needed', type: 'uint256' }],
+  },
+  { name: 'ERC20InvalidApprover', type: 'error', inputs: [{ name: 'approver', type: 'address' }] },
+  { name: 'ERC20InvalidReceiver', type: 'error', inputs: [{ name: 'receiver', type: 'address' }] },
+  { name: 'ERC20InvalidSender', type: 'error', inputs: [{ name: 'sender', type: 'address' }] },
+  { name: 'ERC20InvalidSpender', type: 'error', inputs: [{ name: 'spender', type: 'address' }] },
+  { name: 'OwnableInvalidOwner', type: 'error', inputs: [{ name: 'owner', type: 'address' }] },
+  { name: 'OwnableUnauthorizedAccount', type: 'error', inputs: [{ name: 'account', type: 'address' }] },
+  { name: 'ReentrancyGuardReentrantCall', type: 'error', inputs: [] },
+  { name: 'SafeERC20FailedOperation', type: 'error', inputs: [{ name: 'token', type: 'address' }] },
+] as const
+
+export type ContractErrorName = (typeof CONTRACT_ERRORS_ABI)[number]['name']
+
+interface ErrorExplanation {
+  message: string
+  fix?: string
+}
+
+const SLIPPAGE_EXPLANATION: ErrorExplanation = {
+  message: 'Slippage exceeded - the price moved before your trade landed',
+  fix: 'Raise slippage tolerance or reduce size',
+}
+
+const OWNER_ONLY: ErrorExplanation = { message: 'Only the contract owner can do this' }
+
+export const CONTRACT_ERROR_EXPLANATIONS: Record<ContractErrorName, ErrorExplanation> = {
+  ContractPaused: { message: 'Trading is paused on pump.fud', fix: 'Try again once the platform is unpaused' },
+  InsufficientHolding: { message: 'You do not hold enough of this token for that action', fix: 'Buy more of the token first' },
+  InsufficientPayment: { message: 'Not enough PLS was sent to cover the fee', fix: 'Refresh the fee and send the full amount' },
+  InsufficientTokens: { message: 'You do not have enough tokens for this trade', fix: 'Lower the amount or use MAX' },
+  InvalidTier: { message: 'That tier does not exist' },
+  InvalidToken: { message: 'This token is not registered on the contract', fix: 'Check the token address' },
+  LivestreamNotActive: { message: 'Trading opens when the launch livestream starts', fix: 'Wait for the stream to begin' },
+  NothingToBurn: { message: 'Burning this amount would return no PLS', fix: 'Burn a larger amount' },
+  Paused: { message: 'Trading is paused on pump.fud', fix: 'Try again once the platform is unpaused' },
+  SlippageExceeded: SLIPPAGE_EXPLANATION,
+  TokenAlreadyGraduated: { message: 'This token has graduated off the bonding curve', fix: 'Trade it on PulseX from the Swap page' },
+  TokenNotLive: { message: 'This token is not trading on the curve', fix: 'Trade it on PulseX from the Swap page' },
+  TransferFailed: { message: 'The PLS or token transfer failed', fix: 'Check your balance and try again' },
+  Unauthorized: { message: 'Your wallet is not allowed to do this' },
+  ZeroAddress: { message: 'An address was left empty', fix: 'Fill in every address field' },
+  ZeroAmount: { message: 'Amount must be greater than zero', fix: 'Enter an amount' },
+
+  OnlyFactory: { message: 'Only pump.fud can mint or burn this token directly', fix: 'Sell it on the curve or use the pump.fud burn instead' },
+
+  AlreadyInVoiceChat: { message: 'You are already in voice chat' },
+  DashboardIsShutdown: { message: 'Chat is shut down for this token' },
+  InsufficientTokenBalance: { message: 'You do not hold enough of this token to chat', fix: 'Buy more of the token to unlock chat' },
+  InvalidRecipient: { message: 'That super chat recipient is not valid', fix: 'Pick another recipient' },
+  LiveChatAlreadyActive: { message: 'Live chat is already running' },
+  LiveChatNotActive: { message: 'Live chat is not running', fix: 'Wait for a moderator to start it' },
+  MessageBoardNotActive: { message: 'The message board is turned off for this token' },
+  MessageTooLong: { message: 'Message is too long', fix: 'Shorten your message' },
+  NotAuthorizedToControlLive: { message: 'Only the creator, moderators or top holders can control live chat' },
+  NotInVoiceChat: { message: 'You are not in voice chat' },
+  NotModerator: { message: 'Only moderators can do this' },
+  UserIsMuted: { message: 'You are muted in this chat' },
+
+  FeeTooHigh: { message: 'Fee is above the contract maximum' },
+  InsufficientOutput: SLIPPAGE_EXPLANATION,
+  InvalidAmount: { message: 'Amount is zero or does not match the PLS sent', fix: 'Re-enter the amount' },
+  NotPositionOwner: { message: 'Only the order owner can cancel it' },
+  PositionExpired: { message: 'This limit order has expired', fix: 'Cancel it to get your funds back' },
+  PositionNotActive: { message: 'This limit order is already filled or cancelled' },
+  PositionNotFound: { message: 'This limit order does not exist' },
+  SwapFailed: { message: 'The swap venue rejected the trade', fix: 'Refresh the quote or reduce size' },
+
+  AdExpired: { message: 'This ad has already expired' },
+  AdNotFound: { message: 'This ad does not exist' },
+  AdSpaceNotActive: { message: 'This ad space is not accepting bookings' },
+  AdSpaceNotFound: { message: 'This ad space does not exist' },
+  AdSpaceOccupied: { message: 'This ad space is booked for that period', fix: 'Choose another slot or start date' },
+  InvalidDuration: { message: 'Duration must be at least one week', fix: 'Book one or more weeks' },
+  NotAdvertiser: { message: 'Only the advertiser who booked this ad can change it' },
+
+  AlreadyFollowing: { message: 'You already follow this profile' },
+  AlreadyInCult: { message: 'You are already in a cult', fix: 'Leave your current cult first' },
+  BioTooLong: { message: 'Bio is too long', fix: 'Shorten your bio' },
+  CannotFollowSelf: { message: 'You cannot follow yourself' },
+  CultFull: { message: 'This cult is full' },
+  CultTagTaken: { message: 'That cult tag is taken', fix: 'Pick another tag' },
+  InvalidCult: { message: 'This cult does not exist' },
+  NameTaken: { message: 'That name is taken', fix: 'Pick another name' },
+  NameTooLong: { message: 'Name is too long', fix: 'Shorten the name' },
+  NotCultLeader: { message: 'Only the cult leader can do this' },
+  NotCultMember: { message: 'You are not a member of this cult' },
+  NotFollowing: { message: 'You do not follow this profile' },
+  ProfileAlreadyExists: { message: 'This wallet already has a profile', fix: 'Edit your existing profile instead' },
+  ProfileNotFound: { message: 'No profile found for this wallet', fix: 'Create a profile first' },
+
+  InvalidReferrer: { message: 'Referrer must be another wallet' },
+  NoPendingRewards: { message: 'No referral rewards to claim yet' },
+  ReferrerAlreadySet: { message: 'Your referrer is already registered' },
+
+  ERC20InsufficientAllowance: { message: 'The contract is not approved to move that many tokens', fix: 'Approve the token for at least this amount first' },
+  ERC20InsufficientBalance: { message: 'You do not have enough tokens for this transfer', fix: 'Lower the amount or use MAX' },
+  ERC20InvalidApprover: { message: 'Tokens cannot be approved from the zero address' },
+  ERC20InvalidReceiver: { message: 'Tokens cannot be sent to the zero address', fix: 'Check the recipient address' },
+  ERC20InvalidSender: { message: 'Tokens cannot be sent from the zero address' },
+  ERC20InvalidSpender: { message: 'The zero address cannot be approved to spend tokens', fix: 'Check the spender address' },
+  OwnableInvalidOwner: OWNER_ONLY,
+  OwnableUnauthorizedAccount: OWNER_ONLY,
+  ReentrancyGuardReentrantCall: { message: 'The contract rejected a nested call', fix: 'Try again' },
+  SafeERC20FailedOperation: { message: 'The token transfer failed', fix: 'Check your balance and allowance' },
+}
+
+export interface DecodedTxError {
+  errorName: string | null // Custom error name, 'Error' for require strings, null when nothing decoded
+  message: string
+  fix?: string // Suggested next step, shown after the message
+}
+
+function explain(errorName: string): DecodedTxError {
+  const explanation = CONTRACT_ERROR_EXPLANATIONS[errorName as ContractErrorName]
+  return explanation ? { errorName, ...explanation } : { errorName, message: errorName }
+}
+
+/**
+ * Whether the wallet refused to sign - not worth an error toast or a retry prompt
+ */
+export function isUserRejection(err: unknown): boolean {
+  if (err instanceof BaseError) {
+    return !!err.walk(e => e instanceof UserRejectedRequestError)
+  }
+  return err instanceof Error && /user (rejected|denied)/i.test(err.message)
+}
+
+/**
+ * Names raw revert data by selector against every known contract error
+ */
+export function decodeRevertData(data: Hex): DecodedTxError | null {
+  try {
+    const { errorName } = decodeErrorResult({ abi: CONTRACT_ERRORS_ABI, data })
+    return explain(errorName)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Human-readable reason and suggested fix for a failed write or call
+ */
+export function decodeTxError(err: unknown): DecodedTxError {
+  if (isUserRejection(err)) return { errorName: null, message: 'Transaction cancelled' }
+
+  if (err instanceof BaseError) {
+    const reverted = err.walk(e => e instanceof ContractFunctionRevertedError)
+    if (reverted instanceof ContractFunctionRevertedError) {
+      // viem decodes against the ABI of the call; the catalog also covers errors raised by contracts it calls
+      if (reverted.data?.errorName && reverted.data.errorName !== 'Error') return explain(reverted.data.errorName)
+      if (reverted.raw) {
+        const decoded = decodeRevertData(reverted.raw)
+        if (decoded) return decoded
+      }
+      if (reverted.reason) return { errorName: 'Error', message: reverted.reason }
+    }
+    // Reverts surfaced by the RPC during gas estimation carry the data further down the chain
+    const withData = err.walk(e => typeof (e as { data?: unknown }).data === 'string') as { data?: Hex } | null
+    if (withData?.data) {
+      const decoded = decodeRevertData(withData.data)
+      if (decoded) return decoded
+    }
+    return { errorName: null, message: err.shortMessage }
+  }
+
+  return { errorName: null, message: err instanceof Error ? err.message : 'Transaction failed' }
+}
+
+/**
+ * One-line version of decodeTxError for inline error text
+ */
+export function formatTxError(err: unknown): string {
+  const { message, fix } = decodeTxError(err)
+  return fix ? `${message} — ${fix.charAt(0).toLowerCase()}${fix.slice(1)}` : message
+}
@@ -0,0 +1,105 @@
+/**
+ * Cult Log
+ * Replays PumpFudProfile CultCreated events into the list of founded cults. The events carry
+ * the immutable fields (id, name, tag, founder); leader, members and access are read live per
+ * cult through hooks/useCults. One log per chain is shared by every view
+ */
+
+import type { PublicClient } from 'viem'
+import { PROFILE_ADDRESS, PROFILE_START_BLOCK } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+import { createLogScanner, createPolledLog, type PolledLog } from './logSync'
+
+// New cults are rare, so tail less often than the trade indexer
+const POLL_INTERVAL_MS = 30_000
+
+export interface CultRecord {
+  id: bigint
+  name: string
+  tag: string
+  founder: `0x${string}`
+  blockNumber: bigint
+}
+
+export type CultLogStatus = 'idle' | 'loading' | 'live' | 'error'
+
+export interface CultLogSnapshot {
+  status: CultLogStatus
+  cults: CultRecord[] // Newest first
+  syncedBlock: bigint | null
+}
+
+// refresh() after founding a cult picks it up without waiting for the next poll
+export type CultLog = PolledLog<CultLogSnapshot>
+
+export const EMPTY_CULT_LOG_SNAPSHOT: CultLogSnapshot = {
+  status: 'idle',
+  cults: [],
+  syncedBlock: null,
+}
+
+function fetchLogs(client: PublicClient, fromBlock: bigint, toBlock: bigint) {
+  return client.getContractEvents({
+    address: PROFILE_ADDRESS,
+    abi: PROFILE_ABI,
+    eventName: 'CultCreated',
+    fromBlock,
+    toBlock,
+    strict: true,
+  })
+}
+
+function createCultLog(client: PublicClient): CultLog {
+  const cults: CultRecord[] = []
+  const scanner = createLogScanner()
+
+  return createPolledLog<CultLogSnapshot>({
+    name: 'Cults',
+    initial: EMPTY_CULT_LOG_SNAPSHOT,
+    failed: { status: 'error' },
+    pollIntervalMs: POLL_INTERVAL_MS,
+    async sync({ snapshot, publish }) {
+      const head = await client.getBlockNumber()
+      const synced = snapshot().syncedBlock
+      if (snapshot().status === 'idle') publish({ status: 'loading' })
+
+      await scanner.scan(
+        synced === null ? PROFILE_START_BLOCK : synced + 1n,
+        head,
+        (fromBlock, toBlock) => fetchLogs(client, fromBlock, toBlock),
+        (logs, toBlock) => {
+          for (const log of logs) {
+            cults.push({
+              id: log.args.cultId,
+              name: log.args.name,
+              tag: log.args.tag,
+              founder: log.args.founder,
+              blockNumber: log.blockNumber,
+            })
+          }
+
+          const patch: Partial<CultLogSnapshot> = { syncedBlock: toBlock }
+          if (logs.length > 0) patch.cults = [...cults].reverse()
+          publish(patch)
+        }
+      )
+
+      if (snapshot().status !== 'live') publish({ status: 'live' })
+    },
+  })
+}
+
+const logs = new Map<number, CultLog>()
+
+/**
+ * Shared cult log for the client's chain
+ */
+export function getCultLog(client: PublicClient): CultLog {
+  const key = client.chain?.id ?? 0
+  let log = logs.get(key)
+  if (!log) {
+    log = createCultLog(client)
+    logs.set(key, log)
+  }
+  return log
+}
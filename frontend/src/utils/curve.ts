@@ -0,0 +1,159 @@
+/**
+ * Bonding Curve Math
+ * Bigint-exact port of the PumpFud constant-product curve with virtual reserves.
+ * Every function rounds the way the contract does, so offline quotes match
+ * getEstimatedTokens / getEstimatedPls / getTokenPrice to the wei.
+ */
+
+import { formatEther } from 'viem'
+
+export const BPS_DENOMINATOR = 10000n
+export const PRICE_PRECISION = 10n ** 18n
+
+export interface CurveParams {
+  virtualPls: bigint
+  virtualTokens: bigint
+  bondingSupply: bigint // Tokens the curve can sell before it caps buys
+  buyFeeBps: bigint
+  sellFeeBps: bigint
+}
+
+export interface CurveState {
+  plsReserve: bigint // Real PLS held by the curve (excludes the virtual reserve)
+  tokensSold: bigint
+}
+
+// PumpFudV2 constructor defaults (owner can retune them - prefer values read from getConfig)
+export const V2_CURVE_DEFAULTS: CurveParams = {
+  virtualPls: 12_500_000n * PRICE_PRECISION,
+  virtualTokens: 250_000_000n * PRICE_PRECISION,
+  bondingSupply: 200_000_000n * PRICE_PRECISION,
+  buyFeeBps: 100n,
+  sellFeeBps: 122n,
+}
+
+// Legacy PumpFud defaults (virtualPlsReserves / virtualTokenReserves / maxSupply)
+export const LEGACY_CURVE_DEFAULTS: CurveParams = {
+  virtualPls: 15_000_000n * PRICE_PRECISION,
+  virtualTokens: 250_000_000n * PRICE_PRECISION,
+  bondingSupply: 250_000_000n * PRICE_PRECISION,
+  buyFeeBps: 100n,
+  sellFeeBps: 110n,
+}
+
+export interface BuyQuote {
+  fee: bigint
+  plsForTokens: bigint // PLS that reaches the curve after the fee
+  tokensOut: bigint
+  priceAfter: bigint
+}
+
+export interface SellQuote {
+  grossPlsOut: bigint // PLS leaving the curve (the fee is taken from this)
+  fee: bigint
+  plsOut: bigint // PLS the seller receives
+  priceAfter: bigint
+}
+
+const virtualReserves = ({ plsReserve, tokensSold }: CurveState, params: CurveParams) => ({
+  pls: params.virtualPls + plsReserve,
+  tokens: params.virtualTokens - tokensSold,
+})
+
+/**
+ * Spot price in wei per whole token - getTokenPrice / getCurrentPrice
+ */
+export function getCurvePrice(state: CurveState, params: CurveParams): bigint {
+  const reserves = virtualReserves(state, params)
+  if (reserves.tokens <= 0n) return 0n
+  return (reserves.pls * PRICE_PRECISION) / reserves.tokens
+}
+
+/**
+ * Price at any point on the curve from tokens sold alone, assuming the reserve followed the
+ * invariant from launch (k = virtualPls * virtualTokens). Use for plotting the curve shape
+ */
+export function getMarginalPrice(tokensSold: bigint, params: CurveParams): bigint {
+  const tokenReserve = params.virtualTokens - tokensSold
+  if (tokenReserve <= 0n) return 0n
+  const k = params.virtualPls * params.virtualTokens
+  return (k * PRICE_PRECISION) / (tokenReserve * tokenReserve)
+}
+
+/**
+ * Tokens out for PLS that has already had the fee removed - getEstimatedTokens / calculateBuyAmount
+ */
+export function getTokensOut(state: CurveState, plsAmount: bigint, params: CurveParams): bigint {
+  const reserves = virtualReserves(state, params)
+  if (plsAmount <= 0n || reserves.tokens <= 0n) return 0n
+
+  const k = reserves.pls * reserves.tokens
+  const newTokenReserve = k / (reserves.pls + plsAmount)
+  const tokensOut = reserves.tokens - newTokenReserve
+
+  const remaining = params.bondingSupply - state.tokensSold
+  return tokensOut > remaining ? remaining : tokensOut
+}
+
+/**
+ * Gross PLS out for a token amount, before the sell fee - getEstimatedPls / calculateSellAmount
+ */
+export function getPlsOut(state: CurveState, tokenAmount: bigint, params: CurveParams): bigint {
+  if (tokenAmount <= 0n || tokenAmount > state.tokensSold) return 0n
+  const reserves = virtualReserves(state, params)
+
+  const k = reserves.pls * reserves.tokens
+  const newPlsReserve = k / (reserves.tokens + tokenAmount)
+  const plsOut = reserves.pls - newPlsReserve
+
+  return plsOut > state.plsReserve ? state.plsReserve : plsOut
+}
+
+/**
+ * Fee taken from an amount in basis points, rounded down like the contract
+ */
+export function applyFee(amount: bigint, feeBps: bigint): { fee: bigint; net: bigint } {
+  const fee = (amount * feeBps) / BPS_DENOMINATOR
+  return { fee, net: amount - fee }
+}
+
+/**
+ * Full buy as the contract executes it: fee off the top, then the curve
+ */
+export function quoteBuy(state: CurveState, plsIn: bigint, params: CurveParams, feeExempt = false): BuyQuote {
+  const { fee, net: plsForTokens } = feeExempt ? { fee: 0n, net: plsIn } : applyFee(plsIn, params.buyFeeBps)
+  const tokensOut = getTokensOut(state, plsForTokens, params)
+  const priceAfter = getCurvePrice(
+    { plsReserve: state.plsReserve + plsForTokens, tokensSold: state.tokensSold + tokensOut },
+    params
+  )
+  return { fee, plsForTokens, tokensOut, priceAfter }
+}
+
+/**
+ * Full sell as the contract executes it: the curve pays out, then the fee comes off the proceeds
+ */
+export function quoteSell(state: CurveState, tokenAmount: bigint, params: CurveParams, feeExempt = false): SellQuote {
+  const grossPlsOut = getPlsOut(state, tokenAmount, params)
+  const { fee, net: plsOut } = feeExempt ? { fee: 0n, net: grossPlsOut } : applyFee(grossPlsOut, params.sellFeeBps)
+  const priceAfter = getCurvePrice(
+    { plsReserve: state.plsReserve - grossPlsOut, tokensSold: state.tokensSold - tokenAmount },
+    params
+  )
+  return { grossPlsOut, fee, plsOut, priceAfter }
+}
+
+/**
+ * Price change of a trade in basis points (positive for buys, negative for sells)
+ */
+export function getPriceImpactBps(priceBefore: bigint, priceAfter: bigint): bigint {
+  if (priceBefore === 0n) return 0n
+  return ((priceAfter - priceBefore) * BPS_DENOMINATOR) / priceBefore
+}
+
+/**
+ * Wei-per-token price as a float for charts and labels - only convert at the display edge
+ */
+export function priceToNumber(price: bigint): number {
+  return Number(formatEther(price))
+}
@@ -0,0 +1,398 @@
+/**
+ * Event Indexer
+ * Backfills PumpFud lifecycle events (launch, buy, sell, burn, graduation) in chunked block ranges,
+ * persists them to IndexedDB with a per-contract cursor and tails new blocks.
+ * Legacy and V2 events are normalized into one shape keyed by token address.
+ * One indexer per deployment is shared by every widget - subscribe through hooks/useEventIndexer
+ */
+
+import type { PublicClient } from 'viem'
+import {
+  PUMP_FUD_ADDRESS,
+  PUMP_FUD_ABI,
+  PUMP_FUD_START_BLOCK,
+  PUMP_FUD_V2_ADDRESS,
+  PUMP_FUD_V2_START_BLOCK,
+  PUMP_FUD_VERSION,
+  type PumpFudVersion,
+} from '../config/wagmi'
+import { PUMP_FUD_V2_ABI } from '../config/pumpFudV2'
+import { compareTrades, type Trade } from './candles'
+import { loadIndexedEvents, saveIndexedEvents } from './eventStore'
+import { getCurvePrice, getPlsOut, priceToNumber, type CurveParams, type CurveState } from './curve'
+import { createLogScanner, createPolledLog, getBlockTimestamps, type PolledLog } from './logSync'
+
+// PulseChain targets 10s blocks, so tail once per block
+const POLL_INTERVAL_MS = 10_000
+
+interface EventBase {
+  id: string // `${txHash}-${logIndex}`
+  tokenAddress: `0x${string}`
+  tokenId?: bigint // Legacy deployment only
+  timestamp: number // Unix seconds
+  blockNumber: bigint
+  logIndex: number
+  txHash: `0x${string}`
+}
+
+export interface LaunchEvent extends EventBase {
+  kind: 'launch'
+  creator: `0x${string}`
+  name: string
+  symbol: string
+}
+
+export interface TradeEvent extends EventBase, Trade {
+  kind: 'trade'
+}
+
+// Burn-for-PLS redemptions (V2 only) - they move the curve reserves without trading
+export interface BurnEvent extends EventBase {
+  kind: 'burn'
+  burner: `0x${string}`
+  tokensBurned: bigint
+  plsReceived: bigint
+}
+
+export interface GraduationEvent extends EventBase {
+  kind: 'graduation'
+  lpPair?: `0x${string}` // Legacy only - V2 graduations don't name the pair
+  plsLiquidity: bigint
+  tokenLiquidity: bigint
+}
+
+export type IndexedEvent = LaunchEvent | TradeEvent | BurnEvent | GraduationEvent
+
+export type IndexerStatus = 'idle' | 'loading' | 'backfilling' | 'live' | 'error'
+
+export interface IndexerSnapshot {
+  status: IndexerStatus
+  events: IndexedEvent[] // Chain order
+  syncedBlock: bigint | null // Last block fully indexed
+  headBlock: bigint | null // Chain head at the last sync
+}
+
+export type EventIndexer = PolledLog<IndexerSnapshot>
+
+export const EMPTY_INDEXER_SNAPSHOT: IndexerSnapshot = {
+  status: 'idle',
+  events: [],
+  syncedBlock: null,
+  headBlock: null,
+}
+
+/**
+ * Whether an event belongs to the token at `tokenAddress`
+ */
+export function isTokenEvent(event: IndexedEvent, tokenAddress: string): boolean {
+  return event.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+}
+
+// storeKey names the IndexedDB cache; V2's is suffixed so caches from before burns and curve
+// prices were indexed start over instead of replaying incomplete history
+const DEPLOYMENTS: Record<PumpFudVersion, { startBlock: bigint; storeKey: string }> = {
+  v1: { startBlock: PUMP_FUD_START_BLOCK, storeKey: PUMP_FUD_ADDRESS },
+  v2: { startBlock: PUMP_FUD_V2_START_BLOCK, storeKey: `${PUMP_FUD_V2_ADDRESS}:2` },
+}
+
+interface LogPosition {
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: `0x${string}`
+}
+
+const eventBase = (log: LogPosition) => ({
+  id: `${log.transactionHash}-${log.logIndex}`,
+  blockNumber: log.blockNumber,
+  logIndex: log.logIndex,
+  txHash: log.transactionHash,
+})
+
+// Legacy trades only name the token id; launches map it to the address
+type LegacyTokens = Map<bigint, `0x${string}`>
+
+async function fetchLegacyEvents(
+  client: PublicClient,
+  tokens: LegacyTokens,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<IndexedEvent[]> {
+  const logs = await client.getContractEvents({
+    address: PUMP_FUD_ADDRESS,
+    abi: PUMP_FUD_ABI,
+    fromBlock,
+    toBlock,
+    strict: true,
+  })
+
+  const events: IndexedEvent[] = []
+  for (const log of logs) {
+    switch (log.eventName) {
+      case 'TokenLaunched':
+        tokens.set(log.args.tokenId, log.args.tokenAddress)
+        events.push({
+          ...eventBase(log),
+          kind: 'launch',
+          tokenId: log.args.tokenId,
+          tokenAddress: log.args.tokenAddress,
+          creator: log.args.creator,
+          name: log.args.name,
+          symbol: log.args.symbol,
+          timestamp: Number(log.args.timestamp),
+        })
+        break
+      case 'TokenBought':
+      case 'TokenSold': {
+        const tokenAddress = tokens.get(log.args.tokenId)
+        if (!tokenAddress) break
+        const isBuy = log.eventName === 'TokenBought'
+        events.push({
+          ...eventBase(log),
+          kind: 'trade',
+          type: isBuy ? 'buy' : 'sell',
+          tokenId: log.args.tokenId,
+          tokenAddress,
+          wallet: isBuy ? log.args.buyer : log.args.seller,
+          plsAmount: isBuy ? log.args.plsIn : log.args.plsOut,
+          tokenAmount: isBuy ? log.args.tokensOut : log.args.tokensIn,
+          price: priceToNumber(log.args.newPrice),
+          timestamp: Number(log.args.timestamp),
+        })
+        break
+      }
+      case 'TokenGraduated':
+        events.push({
+          ...eventBase(log),
+          kind: 'graduation',
+          tokenId: log.args.tokenId,
+          tokenAddress: log.args.tokenAddress,
+          lpPair: log.args.lpPair,
+          plsLiquidity: log.args.plsLiquidity,
+          tokenLiquidity: log.args.tokenLiquidity,
+          timestamp: Number(log.args.timestamp),
+        })
+        break
+    }
+  }
+  return events
+}
+
+// V2 events carry neither a timestamp nor the post-trade price, so each token's reserves are replayed
+interface V2Curve {
+  params: CurveParams
+  states: Map<string, CurveState> // Lowercase token address -> reserves after the last replayed event
+}
+
+async function readV2CurveParams(client: PublicClient): Promise<CurveParams> {
+  const config = await client.readContract({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    functionName: 'getConfig',
+  })
+  return {
+    virtualPls: config.virtualPls,
+    virtualTokens: config.virtualTokens,
+    bondingSupply: config.bondingSupply,
+    buyFeeBps: config.buyFeeBps,
+    sellFeeBps: config.sellFeeBps,
+  }
+}
+
+/**
+ * Advance a token's reserves past a trade or burn and stamp trades with the curve price after it.
+ * Sells and burns replay exactly; the PLS a buy added isn't in the event (fee exemptions and
+ * overrides vary it), so it comes from the constant product the curve kept
+ */
+function replayV2Event<E extends IndexedEvent>(curve: V2Curve, event: E): E {
+  if (event.kind !== 'trade' && event.kind !== 'burn') return event
+  const key = event.tokenAddress.toLowerCase()
+  const state = curve.states.get(key) ?? { plsReserve: 0n, tokensSold: 0n }
+  const { virtualPls, virtualTokens } = curve.params
+
+  let next: CurveState
+  if (event.kind === 'burn') {
+    next = { plsReserve: state.plsReserve - event.plsReceived, tokensSold: state.tokensSold - event.tokensBurned }
+  } else if (event.type === 'sell') {
+    next = {
+      plsReserve: state.plsReserve - getPlsOut(state, event.tokenAmount, curve.params),
+      tokensSold: state.tokensSold - event.tokenAmount,
+    }
+  } else {
+    const k = (virtualPls + state.plsReserve) * (virtualTokens - state.tokensSold)
+    const tokensSold = state.tokensSold + event.tokenAmount
+    next = { plsReserve: k / (virtualTokens - tokensSold) - virtualPls, tokensSold }
+  }
+  curve.states.set(key, next)
+
+  return event.kind === 'trade' ? { ...event, price: priceToNumber(getCurvePrice(next, curve.params)) } : event
+}
+
+async function fetchV2Events(
+  client: PublicClient,
+  curve: V2Curve,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<IndexedEvent[]> {
+  const logs = await client.getContractEvents({
+    address: PUMP_FUD_V2_ADDRESS,
+    abi: PUMP_FUD_V2_ABI,
+    fromBlock,
+    toBlock,
+    strict: true,
+  })
+
+  const indexed = logs.filter(log =>
+    log.eventName === 'TokenCreated' || log.eventName === 'TokenBought' || log.eventName === 'TokenSold'
+    || log.eventName === 'TokenBurned' || log.eventName === 'TokenGraduated'
+  )
+  const timestamps = await getBlockTimestamps(client, indexed.map(log => log.blockNumber))
+
+  const events: IndexedEvent[] = []
+  for (const log of indexed) {
+    const timestamp = timestamps.get(log.blockNumber) ?? 0
+    switch (log.eventName) {
+      case 'TokenCreated':
+        events.push({
+          ...eventBase(log),
+          kind: 'launch',
+          tokenAddress: log.args.token,
+          creator: log.args.creator,
+          name: log.args.name,
+          symbol: log.args.symbol,
+          timestamp,
+        })
+        break
+      case 'TokenBought':
+      case 'TokenSold': {
+        const isBuy = log.eventName === 'TokenBought'
+        events.push(replayV2Event(curve, {
+          ...eventBase(log),
+          kind: 'trade',
+          type: isBuy ? 'buy' : 'sell',
+          tokenAddress: log.args.token,
+          wallet: isBuy ? log.args.buyer : log.args.seller,
+          plsAmount: isBuy ? log.args.plsIn : log.args.plsOut,
+          tokenAmount: isBuy ? log.args.tokensOut : log.args.tokensIn,
+          price: 0, // Set by the replay
+          timestamp,
+        }))
+        break
+      }
+      case 'TokenBurned':
+        events.push(replayV2Event(curve, {
+          ...eventBase(log),
+          kind: 'burn',
+          tokenAddress: log.args.token,
+          burner: log.args.burner,
+          tokensBurned: log.args.tokensBurned,
+          plsReceived: log.args.plsReceived,
+          timestamp,
+        }))
+        break
+      case 'TokenGraduated':
+        events.push({
+          ...eventBase(log),
+          kind: 'graduation',
+          tokenAddress: log.args.token,
+          plsLiquidity: log.args.plsToLP,
+          tokenLiquidity: log.args.tokensToLP,
+          timestamp,
+        })
+        break
+    }
+  }
+  return events
+}
+
+function createEventIndexer(client: PublicClient, version: PumpFudVersion): EventIndexer {
+  const { startBlock, storeKey } = DEPLOYMENTS[version]
+  const eventsById = new Map<string, IndexedEvent>()
+  const legacyTokens: LegacyTokens = new Map()
+  const scanner = createLogScanner()
+  let v2Curve: V2Curve | null = null
+  let hydrated = false
+
+  const fetchEvents = (fromBlock: bigint, toBlock: bigint) =>
+    v2Curve ? fetchV2Events(client, v2Curve, fromBlock, toBlock) : fetchLegacyEvents(client, legacyTokens, fromBlock, toBlock)
+
+  // Replay cached history so new V2 events continue from the right reserves. Legacy trades cached
+  // before events carried an address get theirs from the launch
+  const restore = (cached: IndexedEvent[]): IndexedEvent[] =>
+    [...cached].sort(compareTrades).flatMap(event => {
+      if (v2Curve) return [replayV2Event(v2Curve, event)]
+      if (event.tokenId === undefined) return [event]
+      if (event.kind === 'launch') legacyTokens.set(event.tokenId, event.tokenAddress)
+      const tokenAddress = event.tokenAddress ?? legacyTokens.get(event.tokenId)
+      return tokenAddress ? [{ ...event, tokenAddress }] : []
+    })
+
+  // Merge events by id and return the ordered list (`current` itself when nothing is new)
+  const mergeEvents = (current: IndexedEvent[], incoming: IndexedEvent[]): IndexedEvent[] => {
+    let added = false
+    for (const event of incoming) {
+      if (eventsById.has(event.id)) continue
+      eventsById.set(event.id, event)
+      added = true
+    }
+    if (!added) return current
+    return Array.from(eventsById.values()).sort(compareTrades)
+  }
+
+  return createPolledLog<IndexerSnapshot>({
+    name: 'Indexer',
+    initial: EMPTY_INDEXER_SNAPSHOT,
+    failed: { status: 'error' },
+    pollIntervalMs: POLL_INTERVAL_MS,
+    async sync({ snapshot, publish, isWatched }) {
+      // Restore persisted history; V2 needs the curve parameters first to replay it
+      if (!hydrated) {
+        publish({ status: 'loading' })
+        if (version === 'v2') v2Curve = { params: await readV2CurveParams(client), states: new Map() }
+        try {
+          const { events, lastBlock } = await loadIndexedEvents<IndexedEvent>(storeKey)
+          publish({ events: mergeEvents(snapshot().events, restore(events)), syncedBlock: lastBlock })
+        } catch (error) {
+          // Private browsing or blocked storage - index in memory only
+          console.error('[Indexer] Failed to load cached events:', error)
+        }
+        hydrated = true
+      }
+
+      // Index every block from the cursor up to the current head
+      const head = await client.getBlockNumber()
+      const synced = snapshot().syncedBlock
+      const fromBlock = synced === null ? startBlock : synced + 1n
+      if (head - fromBlock >= scanner.chunkSize()) {
+        publish({ status: 'backfilling', headBlock: head })
+      }
+
+      await scanner.scan(fromBlock, head, fetchEvents, async (events, toBlock) => {
+        try {
+          await saveIndexedEvents(storeKey, events, toBlock)
+        } catch (error) {
+          console.error('[Indexer] Failed to persist events:', error)
+        }
+        publish({ events: mergeEvents(snapshot().events, events), syncedBlock: toBlock, headBlock: head })
+        // Nobody is listening any more - resume from the cursor next time
+        return isWatched()
+      })
+
+      if (isWatched()) publish({ status: 'live', headBlock: head })
+    },
+  })
+}
+
+const indexers = new Map<string, EventIndexer>()
+
+/**
+ * Shared indexer for a PumpFud deployment (the active one by default) on the client's chain
+ */
+export function getEventIndexer(client: PublicClient, version: PumpFudVersion = PUMP_FUD_VERSION): EventIndexer {
+  const key = `${client.chain?.id ?? 0}:${version}`
+  let indexer = indexers.get(key)
+  if (!indexer) {
+    indexer = createEventIndexer(client, version)
+    indexers.set(key, indexer)
+  }
+  return indexer
+}
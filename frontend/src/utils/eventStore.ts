@@ -0,0 +1,111 @@
+/**
+ * Event Store
+ * IndexedDB persistence for the event indexer
+ * Events and the per-contract block cursor are written in one transaction so a reload
+ * never resumes past events that were not saved
+ */
+
+const DB_NAME = 'pump-phud-indexer'
+const DB_VERSION = 1
+const EVENTS_STORE = 'events'
+const CURSORS_STORE = 'cursors'
+
+interface StoredEvent<T> {
+  key: string // `${contract}:${event id}`
+  contract: string
+  event: T
+}
+
+interface StoredCursor {
+  contract: string
+  lastBlock: bigint // Last block fully indexed (inclusive)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+        const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'key' })
+        events.createIndex('contract', 'contract')
+      }
+      if (!db.objectStoreNames.contains(CURSORS_STORE)) {
+        db.createObjectStore(CURSORS_STORE, { keyPath: 'contract' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  // Allow a retry on the next call instead of caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+  return dbPromise
+}
+
+/**
+ * Load every stored event and the cursor for a contract
+ */
+export async function loadIndexedEvents<T>(contract: string): Promise<{ events: T[]; lastBlock: bigint | null }> {
+  const db = await openDb()
+  const tx = db.transaction([EVENTS_STORE, CURSORS_STORE], 'readonly')
+  const key = contract.toLowerCase()
+
+  const [stored, cursor] = await Promise.all([
+    requestToPromise(tx.objectStore(EVENTS_STORE).index('contract').getAll(key) as IDBRequest<StoredEvent<T>[]>),
+    requestToPromise(tx.objectStore(CURSORS_STORE).get(key) as IDBRequest<StoredCursor | undefined>),
+  ])
+
+  return {
+    events: stored.map(s => s.event),
+    lastBlock: cursor ? cursor.lastBlock : null,
+  }
+}
+
+/**
+ * Persist a batch of events and advance the contract cursor atomically
+ */
+export async function saveIndexedEvents<T extends { id: string }>(
+  contract: string,
+  events: T[],
+  lastBlock: bigint
+): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([EVENTS_STORE, CURSORS_STORE], 'readwrite')
+  const key = contract.toLowerCase()
+
+  const eventStore = tx.objectStore(EVENTS_STORE)
+  for (const event of events) {
+    const record: StoredEvent<T> = { key: `${key}:${event.id}`, contract: key, event }
+    eventStore.put(record)
+  }
+  const cursor: StoredCursor = { contract: key, lastBlock }
+  tx.objectStore(CURSORS_STORE).put(cursor)
+
+  await transactionDone(tx)
+}
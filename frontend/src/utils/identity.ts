@@ -0,0 +1,54 @@
+/**
+ * Identity
+ * Address presentation shared by every wallet rendering: truncation, a stable per-address
+ * color and a deterministic identicon for wallets without a profile avatar
+ */
+
+const IDENTICON_GRID = 5
+const IDENTICON_CELL = 8
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export function addressHue(address: string): number {
+  return parseInt(address.slice(2, 8), 16) % 360
+}
+
+export function addressColor(address: string): string {
+  return `hsl(${addressHue(address)}, 60%, 50%)`
+}
+
+const identicons = new Map<string, string>()
+
+/**
+ * 5x5 mirrored block identicon as an SVG data URI. Cells and color come from the address
+ * bytes, so a wallet looks the same everywhere
+ */
+export function identiconUri(address: string): string {
+  const key = address.toLowerCase()
+  const cached = identicons.get(key)
+  if (cached) return cached
+
+  const hex = key.slice(2)
+  const half = Math.ceil(IDENTICON_GRID / 2)
+  const cells: string[] = []
+  for (let row = 0; row < IDENTICON_GRID; row++) {
+    for (let col = 0; col < half; col++) {
+      // One nibble per cell, offset past the bytes the color uses
+      const nibble = parseInt(hex[(6 + row * half + col) % hex.length], 16)
+      if (nibble % 2 === 1) continue
+      for (const x of new Set([col, IDENTICON_GRID - 1 - col])) {
+        cells.push(`<rect x="${x * IDENTICON_CELL}" y="${row * IDENTICON_CELL}" width="${IDENTICON_CELL}" height="${IDENTICON_CELL}"/>`)
+      }
+    }
+  }
+
+  const size = IDENTICON_GRID * IDENTICON_CELL
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}">`
+    + `<rect width="${size}" height="${size}" fill="#1a1a1a"/>`
+    + `<g fill="${addressColor(key)}">${cells.join('')}</g></svg>`
+  const uri = `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
+  identicons.set(key, uri)
+  return uri
+}
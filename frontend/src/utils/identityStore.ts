@@ -0,0 +1,159 @@
+/**
+ * Identity Store
+ * Batched PumpFudProfile lookups for every rendered wallet. Requests made in the same tick are
+ * coalesced into one multicall of getProfile (plus one of getCult for tags not yet known), so a
+ * 50-row feed costs one RPC round trip instead of 50. Results are shared app-wide and refreshed
+ * after IDENTITY_TTL_MS - read through hooks/useIdentity
+ */
+
+import type { PublicClient } from 'viem'
+import { PROFILE_ADDRESS } from '../config/wagmi'
+import { PROFILE_ABI } from '../config/profile'
+
+// Wait this long for more rows to mount before sending a batch
+const BATCH_DELAY_MS = 25
+const MAX_BATCH_SIZE = 200
+const IDENTITY_TTL_MS = 5 * 60_000
+
+export interface IdentityRecord {
+  displayName: string | undefined // Undefined when the wallet has no profile
+  avatarUri: string | undefined
+  cultTag: string | undefined
+  isPremium: boolean
+  isVerified: boolean
+}
+
+export interface IdentityStore {
+  subscribe: (listener: () => void) => () => void
+  get: (address: string) => IdentityRecord | undefined // Undefined until the first lookup lands
+  request: (address: string) => void // Queue a lookup if the record is missing or stale
+  invalidate: (address: string) => void // Re-read now, e.g. after the wallet edits its profile
+}
+
+const ANONYMOUS_RECORD: IdentityRecord = {
+  displayName: undefined,
+  avatarUri: undefined,
+  cultTag: undefined,
+  isPremium: false,
+  isVerified: false,
+}
+
+function createIdentityStore(client: PublicClient): IdentityStore {
+  const listeners = new Set<() => void>()
+  // Keyed by lowercase address
+  const records = new Map<string, IdentityRecord>()
+  const fetchedAt = new Map<string, number>()
+  const inFlight = new Set<string>()
+  const queue = new Set<string>()
+  // Cult tags never change once set, so they are cached for the session
+  const cultTags = new Map<bigint, string>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const notify = () => listeners.forEach(listener => listener())
+
+  const resolveCultTags = async (cultIds: bigint[]) => {
+    const missing = [...new Set(cultIds)].filter(id => id > 0n && !cultTags.has(id))
+    if (missing.length === 0) return
+    const results = await client.multicall({
+      allowFailure: true,
+      contracts: missing.map(id => ({
+        address: PROFILE_ADDRESS,
+        abi: PROFILE_ABI,
+        functionName: 'getCult',
+        args: [id],
+      } as const)),
+    })
+    results.forEach((result, i) => {
+      if (result.status === 'success' && result.result.isActive) cultTags.set(missing[i], result.result.tag)
+    })
+  }
+
+  const flush = async () => {
+    timer = null
+    const batch = [...queue].slice(0, MAX_BATCH_SIZE)
+    batch.forEach(key => {
+      queue.delete(key)
+      inFlight.add(key)
+    })
+    if (queue.size > 0) timer = setTimeout(flush, 0)
+
+    try {
+      const results = await client.multicall({
+        allowFailure: true,
+        contracts: batch.map(key => ({
+          address: PROFILE_ADDRESS,
+          abi: PROFILE_ABI,
+          functionName: 'getProfile',
+          args: [key as `0x${string}`],
+        } as const)),
+      })
+
+      const profiles = results.map(result => (result.status === 'success' && result.result.exists ? result.result : null))
+      await resolveCultTags(profiles.flatMap(profile => (profile ? [profile.cultId] : [])))
+
+      const now = Date.now()
+      batch.forEach((key, i) => {
+        const profile = profiles[i]
+        records.set(key, profile
+          ? {
+            displayName: profile.displayName || undefined,
+            avatarUri: profile.avatarUri || undefined,
+            cultTag: cultTags.get(profile.cultId),
+            isPremium: profile.isPremium,
+            isVerified: profile.isVerified,
+          }
+          : ANONYMOUS_RECORD)
+        fetchedAt.set(key, now)
+      })
+      notify()
+    } catch (error) {
+      // Failed wallets fall back to their address and are retried on the next request
+      console.error('[Identity] Profile lookup failed:', error)
+    } finally {
+      batch.forEach(key => inFlight.delete(key))
+    }
+  }
+
+  const enqueue = (key: string) => {
+    queue.add(key)
+    if (timer === null) timer = setTimeout(flush, BATCH_DELAY_MS)
+  }
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    get: address => records.get(address.toLowerCase()),
+    request(address) {
+      const key = address.toLowerCase()
+      if (inFlight.has(key) || queue.has(key)) return
+      const age = Date.now() - (fetchedAt.get(key) ?? 0)
+      if (records.has(key) && age < IDENTITY_TTL_MS) return
+      enqueue(key)
+    },
+    invalidate(address) {
+      const key = address.toLowerCase()
+      // A read already in flight may predate the change, so queue another either way
+      fetchedAt.delete(key)
+      enqueue(key)
+    },
+  }
+}
+
+const stores = new Map<number, IdentityStore>()
+
+/**
+ * Shared identity store for the client's chain
+ */
+export function getIdentityStore(client: PublicClient): IdentityStore {
+  const key = client.chain?.id ?? 0
+  let store = stores.get(key)
+  if (!store) {
+    store = createIdentityStore(client)
+    stores.set(key, store)
+  }
+  return store
+}
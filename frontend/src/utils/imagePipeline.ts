@@ -0,0 +1,116 @@
+/**
+ * Image Pipeline
+ * validate -> resize (and crop to square for logos) -> hash -> store.
+ * Everything is re-encoded client-side, so stored images are small and predictable
+ */
+
+import { getImageStorage } from './imageStorage'
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] as const
+export const MAX_IMAGE_INPUT_BYTES = 10 * 1024 * 1024
+export const MIN_IMAGE_DIMENSION = 64
+
+export interface ImageProcessOptions {
+  maxSize: number // Longest edge in px after resize
+  square: boolean // Center-crop to 1:1
+  quality?: number
+}
+
+export const LOGO_IMAGE_OPTIONS: ImageProcessOptions = { maxSize: 512, square: true, quality: 0.9 }
+export const FRAME_IMAGE_OPTIONS: ImageProcessOptions = { maxSize: 1024, square: false, quality: 0.85 }
+
+export interface UploadedImage {
+  uri: string // ipfs:// or local:// - store this
+  sha256: string
+  bytes: number
+  width: number
+  height: number
+}
+
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImageValidationError'
+  }
+}
+
+export function validateImageFile(file: Blob): void {
+  if (!(ACCEPTED_IMAGE_TYPES as readonly string[]).includes(file.type)) {
+    throw new ImageValidationError('Use a PNG, JPEG, WebP or GIF image')
+  }
+  if (file.size > MAX_IMAGE_INPUT_BYTES) {
+    throw new ImageValidationError(`Image is over ${MAX_IMAGE_INPUT_BYTES / 1024 / 1024} MB`)
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    // Browsers without a WebP encoder hand back PNG, which is still fine to store
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new ImageValidationError('Could not encode image'))),
+      'image/webp',
+      quality
+    )
+  })
+}
+
+/**
+ * Decodes, crops and downsizes an image. GIFs are flattened to their first frame
+ */
+export async function processImage(
+  file: Blob,
+  options: ImageProcessOptions
+): Promise<{ blob: Blob; width: number; height: number }> {
+  validateImageFile(file)
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    throw new ImageValidationError('Image could not be read - the file may be corrupt')
+  }
+
+  try {
+    if (bitmap.width < MIN_IMAGE_DIMENSION || bitmap.height < MIN_IMAGE_DIMENSION) {
+      throw new ImageValidationError(`Image must be at least ${MIN_IMAGE_DIMENSION}x${MIN_IMAGE_DIMENSION}px`)
+    }
+
+    const cropSize = Math.min(bitmap.width, bitmap.height)
+    const srcWidth = options.square ? cropSize : bitmap.width
+    const srcHeight = options.square ? cropSize : bitmap.height
+    const srcX = (bitmap.width - srcWidth) / 2
+    const srcY = (bitmap.height - srcHeight) / 2
+
+    const scale = Math.min(1, options.maxSize / Math.max(srcWidth, srcHeight))
+    const width = Math.round(srcWidth * scale)
+    const height = Math.round(srcHeight * scale)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new ImageValidationError('Canvas is unavailable in this browser')
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(bitmap, srcX, srcY, srcWidth, srcHeight, 0, 0, width, height)
+
+    const blob = await canvasToBlob(canvas, options.quality ?? 0.9)
+    return { blob, width, height }
+  } finally {
+    bitmap.close()
+  }
+}
+
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Full pipeline for a user-picked file. Throws ImageValidationError or ImageStorageError
+ */
+export async function uploadImage(file: Blob, options: ImageProcessOptions): Promise<UploadedImage> {
+  const { blob, width, height } = await processImage(file, options)
+  const sha256 = await sha256Hex(blob)
+  const uri = await getImageStorage().put(blob, sha256)
+  return { uri, sha256, bytes: blob.size, width, height }
+}
@@ -0,0 +1,159 @@
+/**
+ * Image Storage
+ * Content-addressed homes for uploaded images. Production pins to IPFS and stores `ipfs://<cid>`;
+ * without an IPFS endpoint the dev stand-in keeps blobs in IndexedDB under `local://<sha256>`.
+ * Anything rendering a stored URI goes through resolveImageUri/loadImageUri (or hooks/useImageUrl)
+ */
+
+import { IPFS_API_URL, IPFS_GATEWAY_URL, IS_IPFS_CONFIGURED } from '../config/wagmi'
+
+export interface ImageStorageAdapter {
+  readonly name: string
+  readonly isShared: boolean // false when other users can't load what this adapter stores
+  put(image: Blob, sha256: string): Promise<string> // Resolves with the URI to store
+  resolve(uri: string): string | undefined // Display URL if it can be known synchronously
+  load(uri: string): Promise<string | undefined>
+}
+
+export class ImageStorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImageStorageError'
+  }
+}
+
+const IPFS_SCHEME = 'ipfs://'
+const LOCAL_SCHEME = 'local://'
+
+// sha256 -> cid, so re-uploading the same processed image skips the network
+const IPFS_CID_CACHE_KEY = 'pump-phud-ipfs-cids'
+
+function readCidCache(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(IPFS_CID_CACHE_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {}
+  } catch {
+    return {}
+  }
+}
+
+export function ipfsGatewayUrl(uri: string): string {
+  const path = uri.slice(IPFS_SCHEME.length).replace(/^ipfs\//, '')
+  return `${IPFS_GATEWAY_URL}/${path}`
+}
+
+export function createIpfsStorage(apiUrl: string): ImageStorageAdapter {
+  return {
+    name: 'IPFS',
+    isShared: true,
+    async put(image, sha256) {
+      const cache = readCidCache()
+      if (cache[sha256]) return `${IPFS_SCHEME}${cache[sha256]}`
+
+      const form = new FormData()
+      form.append('file', image, sha256)
+      const res = await fetch(`${apiUrl}/api/v0/add?cid-version=1&pin=true`, { method: 'POST', body: form })
+      if (!res.ok) throw new ImageStorageError(`IPFS upload failed (${res.status})`)
+      const { Hash: cid } = (await res.json()) as { Hash?: string }
+      if (!cid) throw new ImageStorageError('IPFS upload returned no CID')
+
+      try {
+        localStorage.setItem(IPFS_CID_CACHE_KEY, JSON.stringify({ ...cache, [sha256]: cid }))
+      } catch {
+        // Cache is an optimisation only
+      }
+      return `${IPFS_SCHEME}${cid}`
+    },
+    resolve: uri => (uri.startsWith(IPFS_SCHEME) ? ipfsGatewayUrl(uri) : undefined),
+    load: async uri => (uri.startsWith(IPFS_SCHEME) ? ipfsGatewayUrl(uri) : undefined),
+  }
+}
+
+const LOCAL_DB_NAME = 'pump-phud-images'
+const LOCAL_STORE = 'images'
+
+function openLocalDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(LOCAL_DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(LOCAL_STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function localDbRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openLocalDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(LOCAL_STORE, mode).objectStore(LOCAL_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Dev stand-in: IndexedDB has far more room than localStorage, but the images never leave this browser
+ */
+export function createBrowserImageStorage(): ImageStorageAdapter {
+  const objectUrls = new Map<string, string>()
+
+  return {
+    name: 'Browser (dev)',
+    isShared: false,
+    async put(image, sha256) {
+      await localDbRequest('readwrite', store => store.put(image, sha256))
+      if (!objectUrls.has(sha256)) objectUrls.set(sha256, URL.createObjectURL(image))
+      return `${LOCAL_SCHEME}${sha256}`
+    },
+    resolve: uri => objectUrls.get(uri.slice(LOCAL_SCHEME.length)),
+    async load(uri) {
+      if (!uri.startsWith(LOCAL_SCHEME)) return undefined
+      const sha256 = uri.slice(LOCAL_SCHEME.length)
+      const cached = objectUrls.get(sha256)
+      if (cached) return cached
+      const blob = await localDbRequest<Blob | undefined>('readonly', store => store.get(sha256))
+      if (!blob) return undefined
+      const url = URL.createObjectURL(blob)
+      objectUrls.set(sha256, url)
+      return url
+    },
+  }
+}
+
+const ipfsStorage = IS_IPFS_CONFIGURED ? createIpfsStorage(IPFS_API_URL) : null
+const browserStorage = createBrowserImageStorage()
+
+/**
+ * Adapter new uploads go to
+ */
+export function getImageStorage(): ImageStorageAdapter {
+  return ipfsStorage ?? browserStorage
+}
+
+export function isStoredImageUri(uri: string): boolean {
+  return uri.startsWith(IPFS_SCHEME) || uri.startsWith(LOCAL_SCHEME)
+}
+
+// Browser-local images can't be seen by anyone else, so they must never go on-chain outside dev
+export function isLocalImageUri(uri: string): boolean {
+  return uri.startsWith(LOCAL_SCHEME)
+}
+
+/**
+ * Display URL for any image URI. http(s), data: and relative paths pass through;
+ * undefined means the image has to be loaded first (see loadImageUri)
+ */
+export function resolveImageUri(uri: string): string | undefined {
+  // Gateway links work whether or not this build can upload to IPFS
+  if (uri.startsWith(IPFS_SCHEME)) return ipfsGatewayUrl(uri)
+  if (uri.startsWith(LOCAL_SCHEME)) return browserStorage.resolve(uri)
+  return uri
+}
+
+export async function loadImageUri(uri: string): Promise<string | undefined> {
+  if (uri.startsWith(LOCAL_SCHEME)) return browserStorage.load(uri)
+  return resolveImageUri(uri)
+}
@@ -0,0 +1,180 @@
+/**
+ * Limit Orders
+ * PumpFudSwap positions seen as PLS <-> token limit orders: target price math, order
+ * status, and history replayed from PositionCreated / PositionFilled / PositionCancelled.
+ * Prices are wei of PLS per whole token, the same scale as utils/curve
+ */
+
+import { zeroAddress, type PublicClient } from 'viem'
+import { SWAP_ADDRESS, SWAP_START_BLOCK } from '../config/wagmi'
+import { SWAP_ABI } from '../config/swap'
+import { PRICE_PRECISION } from './curve'
+import { getLogsChunked } from './logSync'
+
+export type LimitSide = 'buy' | 'sell' // Buy: PLS in, token out. Sell: token in, PLS out
+
+export type LimitOrderStatus = 'open' | 'expired' | 'filled' | 'cancelled'
+
+export interface LimitOrder {
+  id: bigint
+  owner: `0x${string}`
+  side: LimitSide
+  token: `0x${string}` // The pump.fud side of the pair
+  amountIn: bigint
+  minAmountOut: bigint
+  limitPrice: bigint
+  createdAt: number // Unix seconds
+  expiresAt: number // Unix seconds
+  status: LimitOrderStatus
+}
+
+export interface LimitOrderHistoryEntry {
+  id: bigint
+  side: LimitSide
+  token: `0x${string}`
+  amountIn: bigint
+  minAmountOut: bigint
+  limitPrice: bigint
+  status: LimitOrderStatus // 'open' while the position is still live on chain
+  amountOut?: bigint // Set once filled
+  createdTx: `0x${string}`
+  closedTx?: `0x${string}`
+}
+
+interface PositionLike {
+  tokenIn: `0x${string}`
+  tokenOut: `0x${string}`
+  amountIn: bigint
+  minAmountOut: bigint
+}
+
+export function getLimitSide(position: Pick<PositionLike, 'tokenIn'>): LimitSide {
+  return position.tokenIn === zeroAddress ? 'buy' : 'sell'
+}
+
+/**
+ * Minimum output that encodes a target price: tokens for a buy, PLS for a sell
+ */
+export function getMinAmountOut(side: LimitSide, amountIn: bigint, limitPrice: bigint): bigint {
+  if (limitPrice <= 0n) return 0n
+  return side === 'buy'
+    ? (amountIn * PRICE_PRECISION) / limitPrice
+    : (amountIn * limitPrice) / PRICE_PRECISION
+}
+
+/**
+ * Price a position's limit (or a quote) works out to, in wei per whole token
+ */
+export function getLimitPrice(side: LimitSide, amountIn: bigint, amountOut: bigint): bigint {
+  if (side === 'buy') return amountOut > 0n ? (amountIn * PRICE_PRECISION) / amountOut : 0n
+  return amountIn > 0n ? (amountOut * PRICE_PRECISION) / amountIn : 0n
+}
+
+export function toLimitOrder(
+  position: PositionLike & {
+    id: bigint
+    owner: `0x${string}`
+    createdAt: bigint
+    expiresAt: bigint
+    isActive: boolean
+    isFilled: boolean
+  },
+  nowSeconds: number
+): LimitOrder {
+  const side = getLimitSide(position)
+  const expiresAt = Number(position.expiresAt)
+  return {
+    id: position.id,
+    owner: position.owner,
+    side,
+    token: side === 'buy' ? position.tokenOut : position.tokenIn,
+    amountIn: position.amountIn,
+    minAmountOut: position.minAmountOut,
+    limitPrice: getLimitPrice(side, position.amountIn, position.minAmountOut),
+    createdAt: Number(position.createdAt),
+    expiresAt,
+    // Expired positions stay active on chain until their owner cancels for the refund
+    status: position.isFilled ? 'filled' : !position.isActive ? 'cancelled' : nowSeconds > expiresAt ? 'expired' : 'open',
+  }
+}
+
+/**
+ * "2d 4h" / "3h 12m" / "45s" until an expiry, or "expired"
+ */
+export function formatCountdown(expiresAt: number, nowSeconds: number): string {
+  const remaining = expiresAt - nowSeconds
+  if (remaining <= 0) return 'expired'
+  const days = Math.floor(remaining / 86400)
+  const hours = Math.floor((remaining % 86400) / 3600)
+  const minutes = Math.floor((remaining % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${remaining % 60}s`
+  return `${remaining}s`
+}
+
+/**
+ * Every position `owner` has opened, newest first, with how each one closed
+ */
+export async function fetchLimitOrderHistory(
+  client: PublicClient,
+  owner: `0x${string}`
+): Promise<LimitOrderHistoryEntry[]> {
+  const created = await getLogsChunked(client, SWAP_START_BLOCK, (fromBlock, toBlock) =>
+    client.getContractEvents({
+      address: SWAP_ADDRESS,
+      abi: SWAP_ABI,
+      eventName: 'PositionCreated',
+      args: { owner },
+      fromBlock,
+      toBlock,
+      strict: true,
+    })
+  )
+  if (created.length === 0) return []
+
+  // Fills and cancels are only indexed by position id - match them against this owner's ids
+  const ids = created.map(log => log.args.positionId)
+  const closed = await getLogsChunked(client, SWAP_START_BLOCK, (fromBlock, toBlock) =>
+    Promise.all([
+      client.getContractEvents({
+        address: SWAP_ADDRESS,
+        abi: SWAP_ABI,
+        eventName: 'PositionFilled',
+        args: { positionId: ids },
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+      client.getContractEvents({
+        address: SWAP_ADDRESS,
+        abi: SWAP_ABI,
+        eventName: 'PositionCancelled',
+        args: { positionId: ids },
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+    ]).then(([filled, cancelled]) => [...filled, ...cancelled])
+  )
+
+  const closedById = new Map(closed.map(log => [log.args.positionId, log]))
+  return created
+    .map((log): LimitOrderHistoryEntry => {
+      const side = getLimitSide(log.args)
+      const close = closedById.get(log.args.positionId)
+      return {
+        id: log.args.positionId,
+        side,
+        token: side === 'buy' ? log.args.tokenOut : log.args.tokenIn,
+        amountIn: log.args.amountIn,
+        minAmountOut: log.args.minAmountOut,
+        limitPrice: getLimitPrice(side, log.args.amountIn, log.args.minAmountOut),
+        status: !close ? 'open' : close.eventName === 'PositionFilled' ? 'filled' : 'cancelled',
+        amountOut: close?.eventName === 'PositionFilled' ? close.args.amountOut : undefined,
+        createdTx: log.transactionHash,
+        closedTx: close?.transactionHash,
+      }
+    })
+    .reverse()
+}
@@ -0,0 +1,177 @@
+/**
+ * Log Sync
+ * Plumbing shared by the event-backed stores (eventIndexer, moderationLog, cultLog, limitOrders):
+ * getLogs scans in block chunks that shrink when the RPC rejects a range, block timestamps for
+ * events that don't carry one, and a polled subscribe / getSnapshot store that tails new blocks
+ * while anything is listening
+ */
+
+import type { PublicClient } from 'viem'
+
+// Largest block range requested per getLogs call; halved when the RPC rejects a range
+const MAX_CHUNK_BLOCKS = 50000n
+const MIN_CHUNK_BLOCKS = 500n
+// getBlock calls in flight at once when resolving timestamps
+const BLOCK_FETCH_BATCH = 10
+
+export interface LogScanner {
+  chunkSize: () => bigint // Range the next request will ask for
+  /**
+   * Fetches fromBlock..toBlock one chunk at a time, in order. onChunk returns false to stop early
+   */
+  scan: <T>(
+    fromBlock: bigint,
+    toBlock: bigint,
+    fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+    onChunk: (logs: T[], toBlock: bigint) => boolean | void | Promise<boolean | void>
+  ) => Promise<void>
+}
+
+/**
+ * A chunked scanner that remembers the range the RPC last accepted, so later syncs don't
+ * rediscover the limit
+ */
+export function createLogScanner(): LogScanner {
+  let chunkSize = MAX_CHUNK_BLOCKS
+
+  return {
+    chunkSize: () => chunkSize,
+    async scan(fromBlock, toBlock, fetch, onChunk) {
+      while (fromBlock <= toBlock) {
+        const chunkEnd = fromBlock + chunkSize - 1n < toBlock ? fromBlock + chunkSize - 1n : toBlock
+
+        let logs
+        try {
+          logs = await fetch(fromBlock, chunkEnd)
+        } catch (error) {
+          if (chunkSize > MIN_CHUNK_BLOCKS) {
+            chunkSize /= 2n
+            continue
+          }
+          throw error
+        }
+
+        const keepGoing = await onChunk(logs, chunkEnd)
+        fromBlock = chunkEnd + 1n
+        if (keepGoing === false) return
+      }
+    },
+  }
+}
+
+/**
+ * Every log from fromBlock to the current head, for one-off reads like a wallet's order history
+ */
+export async function getLogsChunked<T>(
+  client: PublicClient,
+  fromBlock: bigint,
+  fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+): Promise<T[]> {
+  const head = await client.getBlockNumber()
+  const results: T[] = []
+  await createLogScanner().scan(fromBlock, head, fetch, logs => {
+    results.push(...logs)
+  })
+  return results
+}
+
+/**
+ * Unix timestamps for a set of blocks, fetched a batch at a time so a busy chunk doesn't burst the RPC
+ */
+export async function getBlockTimestamps(client: PublicClient, blockNumbers: Iterable<bigint>): Promise<Map<bigint, number>> {
+  const pending = Array.from(new Set(blockNumbers))
+  const timestamps = new Map<bigint, number>()
+  for (let i = 0; i < pending.length; i += BLOCK_FETCH_BATCH) {
+    const batch = pending.slice(i, i + BLOCK_FETCH_BATCH)
+    const blocks = await Promise.all(batch.map(blockNumber => client.getBlock({ blockNumber })))
+    for (const block of blocks) timestamps.set(block.number, Number(block.timestamp))
+  }
+  return timestamps
+}
+
+export interface PolledLog<S> {
+  subscribe: (listener: () => void) => () => void
+  getSnapshot: () => S
+  refresh: () => Promise<void> // Sync now instead of waiting for the next poll
+}
+
+export interface SyncContext<S> {
+  snapshot: () => S
+  publish: (patch: Partial<S>) => void
+  isWatched: () => boolean // Anyone still subscribed - long backfills stop once nobody is
+}
+
+export interface PolledLogOptions<S> {
+  name: string // Console prefix
+  initial: S
+  failed: Partial<S> // Patched in when a sync throws
+  pollIntervalMs: number
+  sync: (context: SyncContext<S>) => Promise<void>
+}
+
+/**
+ * Store for useSyncExternalStore that runs `sync` on subscribe and every pollIntervalMs after,
+ * stopping when the last listener leaves. Polls and refresh() share one in-flight sync so
+ * events are never replayed twice
+ */
+export function createPolledLog<S>({ name, initial, failed, pollIntervalMs, sync }: PolledLogOptions<S>): PolledLog<S> {
+  const listeners = new Set<() => void>()
+  let snapshot = initial
+  let running = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let syncing: Promise<void> | null = null
+
+  const context: SyncContext<S> = {
+    snapshot: () => snapshot,
+    publish(patch) {
+      snapshot = { ...snapshot, ...patch }
+      listeners.forEach(listener => listener())
+    },
+    isWatched: () => listeners.size > 0,
+  }
+
+  const runSync = () => {
+    if (!syncing) {
+      syncing = sync(context)
+        .catch(error => {
+          console.error(`[${name}] Sync failed:`, error)
+          context.publish(failed)
+        })
+        .finally(() => {
+          syncing = null
+        })
+    }
+    return syncing
+  }
+
+  const poll = async () => {
+    await runSync()
+    if (listeners.size > 0) {
+      timer = setTimeout(poll, pollIntervalMs)
+    } else {
+      running = false
+    }
+  }
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener)
+      if (!running) {
+        running = true
+        poll()
+      }
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0 && timer !== null) {
+          clearTimeout(timer)
+          timer = null
+          running = false
+        }
+      }
+    },
+    getSnapshot() {
+      return snapshot
+    },
+    refresh: runSync,
+  }
+}
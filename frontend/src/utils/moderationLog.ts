@@ -0,0 +1,140 @@
+/**
+ * Moderation Log
+ * Replays a token's PumpFudSuperChat mute and moderator events (UserMuted / UserUnmuted,
+ * ModeratorAdded / ModeratorRemoved) into current state. The contract keeps no enumerable
+ * list of either, so the events are the only source. One log per token is shared by every
+ * widget - subscribe through hooks/useModeration
+ */
+
+import type { PublicClient } from 'viem'
+import { SUPER_CHAT_ADDRESS, SUPER_CHAT_START_BLOCK } from '../config/wagmi'
+import { SUPER_CHAT_ABI } from '../config/superChat'
+import { createLogScanner, createPolledLog, type PolledLog } from './logSync'
+
+// PulseChain targets 10s blocks, so tail once per block
+const POLL_INTERVAL_MS = 10_000
+
+export interface MuteRecord {
+  user: `0x${string}`
+  moderator: `0x${string}`
+  timestamp: number // Unix seconds
+}
+
+export interface ModeratorRecord {
+  user: `0x${string}`
+  timestamp: number // Unix seconds
+}
+
+export type ModerationLogStatus = 'idle' | 'loading' | 'live' | 'error'
+
+export interface ModerationSnapshot {
+  status: ModerationLogStatus
+  muted: MuteRecord[] // Most recently muted first
+  moderators: ModeratorRecord[] // Most recently added first
+  syncedBlock: bigint | null
+}
+
+export type ModerationLog = PolledLog<ModerationSnapshot>
+
+export const EMPTY_MODERATION_SNAPSHOT: ModerationSnapshot = {
+  status: 'idle',
+  muted: [],
+  moderators: [],
+  syncedBlock: null,
+}
+
+const MODERATION_EVENTS = ['UserMuted', 'UserUnmuted', 'ModeratorAdded', 'ModeratorRemoved'] as const
+
+function fetchLogs(client: PublicClient, token: `0x${string}`, fromBlock: bigint, toBlock: bigint) {
+  // Each event is filtered on its indexed token topic, then the four streams are put back in chain order
+  return Promise.all(
+    MODERATION_EVENTS.map(eventName =>
+      client.getContractEvents({
+        address: SUPER_CHAT_ADDRESS,
+        abi: SUPER_CHAT_ABI,
+        eventName,
+        args: { token },
+        fromBlock,
+        toBlock,
+        strict: true,
+      })
+    )
+  ).then(streams =>
+    streams
+      .flat()
+      .sort((a, b) =>
+        a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+      )
+  )
+}
+
+function createModerationLog(client: PublicClient, token: `0x${string}`): ModerationLog {
+  // Keyed by lowercase address; insertion order is replay order
+  const muted = new Map<string, MuteRecord>()
+  const moderators = new Map<string, ModeratorRecord>()
+  const scanner = createLogScanner()
+
+  return createPolledLog<ModerationSnapshot>({
+    name: 'Moderation',
+    initial: EMPTY_MODERATION_SNAPSHOT,
+    failed: { status: 'error' },
+    pollIntervalMs: POLL_INTERVAL_MS,
+    async sync({ snapshot, publish }) {
+      const head = await client.getBlockNumber()
+      const synced = snapshot().syncedBlock
+      if (snapshot().status === 'idle') publish({ status: 'loading' })
+
+      await scanner.scan(
+        synced === null ? SUPER_CHAT_START_BLOCK : synced + 1n,
+        head,
+        (fromBlock, toBlock) => fetchLogs(client, token, fromBlock, toBlock),
+        (logs, toBlock) => {
+          for (const log of logs) {
+            const key = log.args.user.toLowerCase()
+            const timestamp = Number(log.args.timestamp)
+            switch (log.eventName) {
+              case 'UserMuted':
+                muted.delete(key)
+                muted.set(key, { user: log.args.user, moderator: log.args.moderator, timestamp })
+                break
+              case 'UserUnmuted':
+                muted.delete(key)
+                break
+              case 'ModeratorAdded':
+                moderators.delete(key)
+                moderators.set(key, { user: log.args.user, timestamp })
+                break
+              case 'ModeratorRemoved':
+                moderators.delete(key)
+                break
+            }
+          }
+
+          const patch: Partial<ModerationSnapshot> = { syncedBlock: toBlock }
+          if (logs.length > 0) {
+            patch.muted = Array.from(muted.values()).reverse()
+            patch.moderators = Array.from(moderators.values()).reverse()
+          }
+          publish(patch)
+        }
+      )
+
+      if (snapshot().status !== 'live') publish({ status: 'live' })
+    },
+  })
+}
+
+const logs = new Map<string, ModerationLog>()
+
+/**
+ * Shared moderation log for a token on the client's chain
+ */
+export function getModerationLog(client: PublicClient, token: `0x${string}`): ModerationLog {
+  const key = `${client.chain?.id ?? 0}:${token.toLowerCase()}`
+  let log = logs.get(key)
+  if (!log) {
+    log = createModerationLog(client, token)
+    logs.set(key, log)
+  }
+  return log
+}
@@ -0,0 +1,218 @@
+/**
+ * Palette Extractor
+ * Samples a token logo on a small canvas and clusters its pixels with k-means to find
+ * the dominant and accent colors generateTokenTheme builds a theme from
+ */
+
+export type Rgb = [number, number, number]
+
+export interface PaletteColor {
+  hex: string
+  weight: number // Share of sampled pixels, 0-1
+}
+
+export interface ImagePalette {
+  dominant: string // Hex, lifted to stay readable on the dark UI
+  accent: string
+  colors: PaletteColor[] // Every cluster, largest first
+}
+
+const SAMPLE_SIZE = 64 // Logo is scaled to SAMPLE_SIZE x SAMPLE_SIZE before sampling
+const CLUSTER_COUNT = 5
+const KMEANS_ITERATIONS = 12
+const MIN_ALPHA = 128
+// Near-black/white/grey clusters make poor theme colors - skip them when something more colorful exists
+const MIN_SATURATION = 0.2
+const MIN_LIGHTNESS = 0.12
+const MAX_LIGHTNESS = 0.92
+// WCAG contrast against the page background for UI accents
+const BACKGROUND_RGB: Rgb = [10, 10, 12]
+const MIN_CONTRAST = 3
+
+const distanceSq = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+
+export function rgbToHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`
+}
+
+function rgbToHsl([r, g, b]: Rgb): [number, number, number] {
+  const rn = r / 255
+  const gn = g / 255
+  const bn = b / 255
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const l = (max + min) / 2
+  if (max === min) return [0, 0, l]
+  const d = max - min
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4
+  return [h / 6, s, l]
+}
+
+function hslToRgb([h, s, l]: [number, number, number]): Rgb {
+  if (s === 0) return [l * 255, l * 255, l * 255]
+  const hueToChannel = (p: number, q: number, t: number) => {
+    const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt
+    if (tt < 1 / 2) return q
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6
+    return p
+  }
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+  const p = 2 * l - q
+  return [hueToChannel(p, q, h + 1 / 3) * 255, hueToChannel(p, q, h) * 255, hueToChannel(p, q, h - 1 / 3) * 255]
+}
+
+function relativeLuminance(rgb: Rgb): number {
+  const [r, g, b] = rgb.map(c => {
+    const n = c / 255
+    return n <= 0.03928 ? n / 12.92 : ((n + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const la = relativeLuminance(a)
+  const lb = relativeLuminance(b)
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05)
+}
+
+/**
+ * Raises lightness until the color reads against the dark background
+ */
+export function ensureContrast(rgb: Rgb, minRatio = MIN_CONTRAST): Rgb {
+  const [h, s, l] = rgbToHsl(rgb)
+  let lightness = l
+  let adjusted = rgb
+  while (contrastRatio(adjusted, BACKGROUND_RGB) < minRatio && lightness < 0.95) {
+    lightness = Math.min(0.95, lightness + 0.05)
+    adjusted = hslToRgb([h, s, lightness])
+  }
+  return adjusted
+}
+
+/**
+ * Plain k-means over RGB. Seeds are spread evenly through the pixels sorted by brightness,
+ * so the same image always yields the same clusters
+ */
+export function kMeans(pixels: Rgb[], k: number, iterations = KMEANS_ITERATIONS): { center: Rgb; size: number }[] {
+  if (pixels.length === 0) return []
+  const clusterCount = Math.min(k, pixels.length)
+  const sorted = [...pixels].sort((a, b) => a[0] + a[1] + a[2] - (b[0] + b[1] + b[2]))
+  let centers: Rgb[] = Array.from({ length: clusterCount }, (_, i) =>
+    sorted[Math.floor(((i + 0.5) * sorted.length) / clusterCount)]
+  )
+  let assignments = new Array<number>(pixels.length).fill(0)
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let moved = false
+    assignments = pixels.map((pixel, i) => {
+      let best = 0
+      let bestDistance = Infinity
+      centers.forEach((center, c) => {
+        const d = distanceSq(pixel, center)
+        if (d < bestDistance) {
+          bestDistance = d
+          best = c
+        }
+      })
+      if (best !== assignments[i]) moved = true
+      return best
+    })
+
+    const sums = centers.map(() => [0, 0, 0, 0])
+    pixels.forEach((pixel, i) => {
+      const sum = sums[assignments[i]]
+      sum[0] += pixel[0]
+      sum[1] += pixel[1]
+      sum[2] += pixel[2]
+      sum[3] += 1
+    })
+    // Empty clusters keep their previous center
+    centers = centers.map((center, c) => {
+      const [r, g, b, n] = sums[c]
+      return n > 0 ? [r / n, g / n, b / n] : center
+    })
+    if (!moved && iter > 0) break
+  }
+
+  const sizes = centers.map(() => 0)
+  assignments.forEach(c => sizes[c]++)
+  return centers
+    .map((center, c) => ({ center, size: sizes[c] }))
+    .filter(cluster => cluster.size > 0)
+    .sort((a, b) => b.size - a.size)
+}
+
+const isVivid = (rgb: Rgb) => {
+  const [, s, l] = rgbToHsl(rgb)
+  return s >= MIN_SATURATION && l >= MIN_LIGHTNESS && l <= MAX_LIGHTNESS
+}
+
+/**
+ * Dominant + accent from sampled pixels. Null when the image has no usable pixels
+ */
+export function paletteFromPixels(pixels: Rgb[]): ImagePalette | null {
+  const clusters = kMeans(pixels, CLUSTER_COUNT)
+  if (clusters.length === 0) return null
+
+  const vivid = clusters.filter(cluster => isVivid(cluster.center))
+  const candidates = vivid.length > 0 ? vivid : clusters
+  const dominant = candidates[0].center
+
+  // Accent: the candidate furthest from the dominant color, weighted a little by size
+  const score = (cluster: { center: Rgb; size: number }) => distanceSq(cluster.center, dominant) * Math.sqrt(cluster.size)
+  const accent = candidates.slice(1).sort((a, b) => score(b) - score(a))[0]?.center ?? dominant
+
+  return {
+    dominant: rgbToHex(ensureContrast(dominant)),
+    accent: rgbToHex(ensureContrast(accent)),
+    colors: clusters.map(cluster => ({ hex: rgbToHex(cluster.center), weight: cluster.size / pixels.length })),
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous' // Canvas reads need CORS; hosts without it fall back to keyword themes
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load ${url}`))
+    img.src = url
+  })
+}
+
+const paletteCache = new Map<string, Promise<ImagePalette | null>>()
+
+/**
+ * Palette of an image at a display URL (resolve ipfs:// and local:// URIs first). Cached per URL;
+ * resolves null when the image can't be loaded or read
+ */
+export function extractPalette(url: string): Promise<ImagePalette | null> {
+  const cached = paletteCache.get(url)
+  if (cached) return cached
+
+  const pending = (async () => {
+    try {
+      const img = await loadImage(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = SAMPLE_SIZE
+      canvas.height = SAMPLE_SIZE
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) return null
+      ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+      const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+
+      const pixels: Rgb[] = []
+      for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] >= MIN_ALPHA) pixels.push([data[i], data[i + 1], data[i + 2]])
+      }
+      return paletteFromPixels(pixels)
+    } catch (error) {
+      console.warn('[Theme] Palette extraction failed:', error)
+      return null
+    }
+  })()
+
+  paletteCache.set(url, pending)
+  return pending
+}
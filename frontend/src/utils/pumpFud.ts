@@ -0,0 +1,147 @@
+/**
+ * PumpFud Contract Versions
+ * Normalizes the legacy (tokenId-based) and V2 (address-based) deployments into one token shape
+ * so pages can run against either. Hooks live in hooks/usePumpFud
+ */
+
+import { parseEventLogs, type Log } from 'viem'
+import { PUMP_FUD_ABI, PUMP_FUD_VERSION } from '../config/wagmi'
+import { PUMP_FUD_V2_ABI } from '../config/pumpFudV2'
+import { decodeTokenMetadata, type TokenMetadata } from './tokenMetadata'
+
+export const IS_PUMP_FUD_V2 = PUMP_FUD_VERSION === 'v2'
+
+export interface PumpFudToken {
+  id?: bigint // Legacy token id - V2 tokens are keyed by address only
+  tokenAddress: `0x${string}`
+  creator: `0x${string}`
+  name: string
+  symbol: string
+  description: string // Raw metadata string - read it through `metadata`
+  metadata: TokenMetadata
+  imageUri: string
+  reserveBalance: bigint // PLS held by the curve
+  tokensSold: bigint
+  tradingVolume: bigint
+  createdAt: number // Unix seconds
+  graduated: boolean
+  isLivestream: boolean
+}
+
+// Enough to address a token on either deployment
+export type TokenRef = Pick<PumpFudToken, 'tokenAddress' | 'id'>
+
+interface LegacyTokenInfo {
+  id: bigint
+  tokenAddress: `0x${string}`
+  name: string
+  symbol: string
+  description: string
+  imageUri: string
+  creator: `0x${string}`
+  reserveBalance: bigint
+  tokensSold: bigint
+  tradingVolume: bigint
+  createdAt: bigint
+  status: number
+}
+
+interface V2TokenData {
+  tokenAddress: `0x${string}`
+  creator: `0x${string}`
+  name: string
+  symbol: string
+  imageUri: string
+  plsReserve: bigint
+  tokensSold: bigint
+  totalVolume: bigint
+  createdAt: bigint
+  isGraduated: boolean
+  isLivestream: boolean
+}
+
+// Legacy status enum: 0 = live, 1 = graduated
+const LEGACY_STATUS_GRADUATED = 1
+
+export function fromLegacyToken(t: LegacyTokenInfo): PumpFudToken {
+  return {
+    id: t.id,
+    tokenAddress: t.tokenAddress,
+    creator: t.creator,
+    name: t.name,
+    symbol: t.symbol,
+    description: t.description,
+    metadata: decodeTokenMetadata(t.description),
+    imageUri: t.imageUri,
+    reserveBalance: t.reserveBalance,
+    tokensSold: t.tokensSold,
+    tradingVolume: t.tradingVolume,
+    createdAt: Number(t.createdAt),
+    graduated: Number(t.status) === LEGACY_STATUS_GRADUATED,
+    isLivestream: false,
+  }
+}
+
+/**
+ * V2 has no description field, so launches pack `{ imageUri, description }` JSON into imageUri.
+ * `description` is the encoded metadata string from utils/tokenMetadata
+ */
+export function encodeV2ImageUri(imageUri: string, description: string): string {
+  if (!description) return imageUri
+  return JSON.stringify({ imageUri, description })
+}
+
+export function decodeV2ImageUri(raw: string): { imageUri: string; description: string } {
+  if (raw.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(raw) as { imageUri?: unknown; description?: unknown }
+      return {
+        imageUri: typeof parsed.imageUri === 'string' ? parsed.imageUri : '',
+        description: typeof parsed.description === 'string' ? parsed.description : '',
+      }
+    } catch {
+      // Not packed metadata - treat as a plain URI
+    }
+  }
+  return { imageUri: raw, description: '' }
+}
+
+export function fromV2Token(t: V2TokenData): PumpFudToken {
+  const { imageUri, description } = decodeV2ImageUri(t.imageUri)
+  return {
+    tokenAddress: t.tokenAddress,
+    creator: t.creator,
+    name: t.name,
+    symbol: t.symbol,
+    description,
+    metadata: decodeTokenMetadata(description),
+    imageUri,
+    reserveBalance: t.plsReserve,
+    tokensSold: t.tokensSold,
+    tradingVolume: t.totalVolume,
+    createdAt: Number(t.createdAt),
+    graduated: t.isGraduated,
+    isLivestream: t.isLivestream,
+  }
+}
+
+/**
+ * PLS returned by PumpFudV2.burn - a pro-rata share of the curve reserve, no fee.
+ * Mirrors `tokenAmount * plsReserve / tokensSold` in the contract (0 when it would revert)
+ */
+export function estimateBurnPls(tokenAmount: bigint, plsReserve: bigint, tokensSold: bigint): bigint {
+  if (tokenAmount <= 0n || tokensSold === 0n) return 0n
+  return (tokenAmount * plsReserve) / tokensSold
+}
+
+/**
+ * Address of the token created in a launch receipt (TokenLaunched on v1, TokenCreated on v2)
+ */
+export function parseLaunchedToken(logs: Log[]): `0x${string}` | null {
+  if (IS_PUMP_FUD_V2) {
+    const [created] = parseEventLogs({ abi: PUMP_FUD_V2_ABI, eventName: 'TokenCreated', logs })
+    return created ? created.args.token : null
+  }
+  const [launched] = parseEventLogs({ abi: PUMP_FUD_ABI, eventName: 'TokenLaunched', logs })
+  return launched ? launched.args.tokenAddress : null
+}
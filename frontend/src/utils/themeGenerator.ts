@@ -4,6 +4,8 @@
  * Each token gets a unique visual identity derived from its narrative
  */
 
+import type { ImagePalette } from './paletteExtractor'
+
 export interface TokenTheme {
   // Core colors
   primary: string
@@ -385,13 +387,15 @@ const ANIMATIONS_BY_AMBIANCE: Record<TokenTheme['ambiance'], string[]> = {
 }
 
 /**
- * Analyze token metadata and generate a custom theme
+ * Analyze token metadata and generate a custom theme.
+ * Colors come from the logo palette when there is one (see extractPalette / hooks/useTokenTheme);
+ * keywords still pick the ambiance, emoji and particles, and the colors when there is no palette
  */
 export function generateTokenTheme(
   name: string,
   symbol: string,
   description: string,
-  _imageUrl?: string // Reserved for future color extraction from images
+  palette?: ImagePalette | null
 ): TokenTheme {
   // Combine all text for keyword analysis
   const allText = `${name} ${symbol} ${description}`.toLowerCase()
@@ -432,12 +436,14 @@ export function generateTokenTheme(
 
   // Merge matched theme with defaults
   const ambiance = matchedTheme.ambiance || defaultTheme.ambiance
-  const primary = matchedTheme.primary || defaultTheme.primary
-  const secondary = matchedTheme.secondary || defaultTheme.secondary
+  const primary = palette?.dominant || matchedTheme.primary || defaultTheme.primary
+  const secondary = palette?.accent || matchedTheme.secondary || defaultTheme.secondary
 
   const theme: TokenTheme = {
     ...defaultTheme,
     ...matchedTheme,
+    primary,
+    secondary,
     // Generate gradients from colors
     backgroundGradient: `linear-gradient(180deg, #0a0a0c 0%, ${hexToRgba(primary, 0.05)} 50%, #0a0a0c 100%)`,
     cardGradient: `linear-gradient(145deg, ${hexToRgba(primary, 0.08)} 0%, rgba(10,10,12,0.98) 100%)`,
@@ -446,6 +452,11 @@ export function generateTokenTheme(
     borderGlow: hexToRgba(secondary, 0.3),
     animations: ANIMATIONS_BY_AMBIANCE[ambiance],
     fogOpacity: 0.3,
+    // Logo colors carry through to glow and fog as well
+    ...(palette && {
+      glow: hexToRgba(primary, 0.5),
+      fogColor: hexToRgba(secondary, 0.06),
+    }),
   }
 
   return theme
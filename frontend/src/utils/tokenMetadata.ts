@@ -0,0 +1,193 @@
+/**
+ * Token Metadata Schema
+ * Everything a launch stores beyond name/symbol/image lives in one versioned JSON string -
+ * the legacy `description` field, or packed into imageUri on V2 (see utils/pumpFud).
+ * Decoding accepts every shape ever written: v1 JSON, the original `{ description, socials }`
+ * JSON and plain-text descriptions
+ */
+
+export const TOKEN_METADATA_VERSION = 1
+
+// No on-chain cap, but every byte is paid for in calldata and storage on launch
+export const METADATA_MAX_BYTES = 2048
+export const MAX_DESCRIPTION_LENGTH = 1000
+export const MAX_TAGS = 5
+export const MAX_TAG_LENGTH = 24
+
+export const SOCIAL_KEYS = [
+  'twitter',
+  'telegram',
+  'discord',
+  'facebook',
+  'youtube',
+  'youtubeStream',
+  'twitch',
+  'kick',
+  'instagram',
+] as const
+
+export type SocialKey = typeof SOCIAL_KEYS[number]
+export type TokenSocials = Partial<Record<SocialKey, string>>
+
+export interface TokenMetadata {
+  version: number // Schema version the string was written with - 0 for pre-schema launches
+  description: string
+  socials: TokenSocials
+  website?: string
+  livestreamUrl?: string
+  bannerUri?: string
+  tags: string[]
+}
+
+export type TokenMetadataInput = Omit<TokenMetadata, 'version'>
+
+export const EMPTY_TOKEN_METADATA: TokenMetadata = {
+  version: TOKEN_METADATA_VERSION,
+  description: '',
+  socials: {},
+  tags: [],
+}
+
+// Shape written to chain - `v` marks a schema string apart from a plain-text description
+interface EncodedTokenMetadataV1 {
+  v: 1
+  description?: string
+  socials?: TokenSocials
+  website?: string
+  livestreamUrl?: string
+  bannerUri?: string
+  tags?: string[]
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+
+function readSocials(value: unknown): TokenSocials {
+  if (!value || typeof value !== 'object') return {}
+  const raw = value as Record<string, unknown>
+  const socials: TokenSocials = {}
+  for (const key of SOCIAL_KEYS) {
+    const link = asString(raw[key])
+    if (link) socials[key] = link
+  }
+  return socials
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase().slice(0, MAX_TAG_LENGTH)
+}
+
+function readTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  const tags = value.flatMap(tag => (typeof tag === 'string' ? [normalizeTag(tag)] : []))
+  return [...new Set(tags.filter(Boolean))].slice(0, MAX_TAGS)
+}
+
+/**
+ * Serializes metadata for launch, dropping empty fields. Returns '' when there is nothing to store
+ */
+export function encodeTokenMetadata(input: TokenMetadataInput): string {
+  const socials = readSocials(input.socials)
+  const tags = readTags(input.tags)
+  const encoded: EncodedTokenMetadataV1 = {
+    v: 1,
+    description: asString(input.description),
+    socials: Object.keys(socials).length > 0 ? socials : undefined,
+    website: asString(input.website),
+    livestreamUrl: asString(input.livestreamUrl),
+    bannerUri: asString(input.bannerUri),
+    tags: tags.length > 0 ? tags : undefined,
+  }
+  if (Object.values(encoded).filter(v => v !== undefined).length === 1) return ''
+  return JSON.stringify(encoded)
+}
+
+/**
+ * Reads any metadata string a token was launched with. Never throws - unknown input becomes the description
+ */
+export function decodeTokenMetadata(raw: string): TokenMetadata {
+  if (!raw) return { ...EMPTY_TOKEN_METADATA }
+
+  let parsed: unknown
+  if (raw.trimStart().startsWith('{')) {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      // Plain text that happens to start with a brace
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ...EMPTY_TOKEN_METADATA, version: 0, description: raw }
+  }
+
+  const data = parsed as Record<string, unknown>
+  if (data.v === 1) {
+    return {
+      version: 1,
+      description: asString(data.description) ?? '',
+      socials: readSocials(data.socials),
+      website: asString(data.website),
+      livestreamUrl: asString(data.livestreamUrl),
+      bannerUri: asString(data.bannerUri),
+      tags: readTags(data.tags),
+    }
+  }
+
+  // Pre-schema launches kept website and the launch stream inside socials
+  const legacySocials = (data.socials && typeof data.socials === 'object' ? data.socials : {}) as Record<string, unknown>
+  return {
+    version: 0,
+    description: asString(data.description) ?? '',
+    socials: readSocials(legacySocials),
+    website: asString(legacySocials.website),
+    livestreamUrl: asString(legacySocials.livestreamUrl),
+    tags: [],
+  }
+}
+
+/**
+ * First stream link on the token - the dedicated launch stream, then any streaming social
+ */
+export function getTokenStreamUrl(metadata: TokenMetadata): string | undefined {
+  return metadata.livestreamUrl || metadata.socials.youtubeStream || metadata.socials.twitch || metadata.socials.kick
+}
+
+export function metadataByteSize(encoded: string): number {
+  return new TextEncoder().encode(encoded).length
+}
+
+const isHttpUrl = (value: string) => /^https?:\/\/\S+$/i.test(value)
+
+/**
+ * Problems that should block a launch, empty when the metadata is fine to submit.
+ * `encodedOverhead` covers bytes stored alongside it (the packed image URI on V2)
+ */
+export function validateTokenMetadata(input: TokenMetadataInput, encodedOverhead = 0): string[] {
+  const errors: string[] = []
+
+  if (input.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`Description is over ${MAX_DESCRIPTION_LENGTH} characters`)
+  }
+
+  const links: [string, string | undefined][] = [
+    ...SOCIAL_KEYS.map(key => [key, input.socials[key]] as [string, string | undefined]),
+    ['website', input.website],
+    ['livestreamUrl', input.livestreamUrl],
+  ]
+  for (const [key, link] of links) {
+    if (link?.trim() && !isHttpUrl(link.trim())) errors.push(`${key} must be an http(s) link`)
+  }
+  if (input.bannerUri?.trim() && !isHttpUrl(input.bannerUri.trim()) && !input.bannerUri.trim().startsWith('ipfs://')) {
+    errors.push('Banner must be an http(s) or ipfs:// link')
+  }
+
+  const tags = input.tags.map(normalizeTag).filter(Boolean)
+  if (tags.length > MAX_TAGS) errors.push(`Use at most ${MAX_TAGS} tags`)
+
+  const size = metadataByteSize(encodeTokenMetadata(input)) + encodedOverhead
+  if (size > METADATA_MAX_BYTES) {
+    errors.push(`Metadata is ${size} bytes - trim it under ${METADATA_MAX_BYTES}`)
+  }
+
+  return errors
+}
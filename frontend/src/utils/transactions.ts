@@ -0,0 +1,23 @@
+import type { PublicClient, TransactionReceipt } from 'viem'
+import { decodeTxError, type DecodedTxError } from './contractErrors'
+
+/**
+ * Replays a reverted transaction at its block to recover the revert reason the receipt leaves out
+ */
+export async function getRevertReason(client: PublicClient, receipt: TransactionReceipt): Promise<DecodedTxError> {
+  try {
+    const tx = await client.getTransaction({ hash: receipt.transactionHash })
+    await client.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      gas: tx.gas,
+      blockNumber: receipt.blockNumber,
+    })
+  } catch (err) {
+    return decodeTxError(err)
+  }
+  // The replay can pass when state has moved on since the block
+  return { errorName: null, message: 'Transaction reverted' }
+}
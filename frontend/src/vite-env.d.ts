@@ -0,0 +1,21 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PUMP_FUD_VERSION?: 'v1' | 'v2'
+  readonly VITE_PUMP_FUD_V2_ADDRESS?: `0x${string}`
+  readonly VITE_PUMP_FUD_V2_START_BLOCK?: string
+  readonly VITE_SUPER_CHAT_ADDRESS?: `0x${string}`
+  readonly VITE_SUPER_CHAT_START_BLOCK?: string
+  readonly VITE_CHAT_ACCESS_CONTROL_ADDRESS?: `0x${string}`
+  readonly VITE_SWAP_ADDRESS?: `0x${string}`
+  readonly VITE_SWAP_START_BLOCK?: string
+  readonly VITE_PROFILE_ADDRESS?: `0x${string}`
+  readonly VITE_PROFILE_START_BLOCK?: string
+  readonly VITE_AD_MANAGER_ADDRESS?: `0x${string}`
+  readonly VITE_IPFS_API_URL?: string
+  readonly VITE_IPFS_GATEWAY_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
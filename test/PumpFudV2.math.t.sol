@@ -453,6 +453,85 @@ contract PumpFudV2MathTest is Test {
         console2.log("MATH_035 Market cap:", marketCap / 1e18, "PLS");
     }
 
+    // ═══════════════════════════════════════════════════════════════════
+    // MATH_040-043: FRONTEND CURVE FIXTURES
+    // Expected values are produced by frontend/src/utils/curve.ts with
+    // V2_CURVE_DEFAULTS - a mismatch means the port has drifted. The port is
+    // held to the same numbers by frontend/scripts/checkCurveFixtures.ts
+    // ═══════════════════════════════════════════════════════════════════
+
+    /// @notice MATH_040: getEstimatedTokens on a fresh curve matches getTokensOut
+    function test_MATH_040_FixtureEstimatedTokensFresh() public {
+        vm.prank(creator);
+        address token = pumpFud.createToken{value: CREATION_FEE}("Test", "TST", "ipfs://test");
+
+        assertEq(pumpFud.getTokenPrice(token), 50_000_000_000_000_000, "MATH_040: getCurvePrice fixture");
+        assertEq(
+            pumpFud.getEstimatedTokens(token, 1_000_000 ether),
+            18_518_518_518_518_518_518_518_519,
+            "MATH_040: getTokensOut fixture"
+        );
+        // Buys larger than the bonding supply are capped
+        assertEq(pumpFud.getEstimatedTokens(token, 100_000_000 ether), BONDING_SUPPLY, "MATH_040: cap fixture");
+    }
+
+    /// @notice MATH_041: buy state matches quoteBuy (fee off the top, then the curve)
+    function test_MATH_041_FixtureBuy() public {
+        vm.prank(creator);
+        address token = pumpFud.createToken{value: CREATION_FEE}("Test", "TST", "ipfs://test");
+
+        vm.prank(trader);
+        uint256 tokensOut = pumpFud.buy{value: 1_000_000 ether}(token, 0, address(0));
+
+        PumpFudV2.TokenData memory data = pumpFud.getTokenData(token);
+        assertEq(tokensOut, 18_346_923_647_146_034_099_332_840, "MATH_041: quoteBuy.tokensOut fixture");
+        assertEq(data.plsReserve, 990_000 ether, "MATH_041: quoteBuy.plsForTokens fixture");
+        assertEq(pumpFud.getTokenPrice(token), 58_233_632_000_000_000, "MATH_041: quoteBuy.priceAfter fixture");
+    }
+
+    /// @notice MATH_042: estimates after a buy match getTokensOut / getPlsOut
+    function test_MATH_042_FixtureEstimatesAfterBuy() public {
+        vm.prank(creator);
+        address token = pumpFud.createToken{value: CREATION_FEE}("Test", "TST", "ipfs://test");
+
+        vm.prank(trader);
+        pumpFud.buy{value: 1_000_000 ether}(token, 0, address(0));
+
+        assertEq(
+            pumpFud.getEstimatedTokens(token, 250_000 ether),
+            4_214_939_526_070_850_907_945_182,
+            "MATH_042: getTokensOut fixture"
+        );
+        assertEq(
+            pumpFud.getEstimatedPls(token, 5_000_000 ether),
+            285_016_366_740_277_843_035_913,
+            "MATH_042: getPlsOut fixture"
+        );
+    }
+
+    /// @notice MATH_043: sell proceeds match quoteSell (curve first, then the fee)
+    function test_MATH_043_FixtureSell() public {
+        vm.prank(creator);
+        address token = pumpFud.createToken{value: CREATION_FEE}("Test", "TST", "ipfs://test");
+
+        vm.prank(trader);
+        uint256 tokensOut = pumpFud.buy{value: 1_000_000 ether}(token, 0, address(0));
+
+        uint256 sellAmount = tokensOut / 2;
+        assertEq(sellAmount, 9_173_461_823_573_017_049_666_420, "MATH_043: sell amount fixture");
+        assertEq(
+            pumpFud.getEstimatedPls(token, sellAmount),
+            513_855_328_972_681_800_692_575,
+            "MATH_043: quoteSell.grossPlsOut fixture"
+        );
+
+        vm.prank(trader);
+        uint256 plsOut = pumpFud.sell(token, sellAmount, 0, address(0));
+
+        assertEq(plsOut, 507_586_293_959_215_082_724_126, "MATH_043: quoteSell.plsOut fixture");
+        assertEq(pumpFud.getTokenPrice(token), 53_881_705_767_497_813, "MATH_043: quoteSell.priceAfter fixture");
+    }
+
     // ═══════════════════════════════════════════════════════════════════
     // HELPER FUNCTIONS
     // ═══════════════════════════════════════════════════════════════════